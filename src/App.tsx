@@ -21,11 +21,18 @@ import UsersManagement from "./pages/admin/UsersManagement";
 import UserDetail from "./pages/admin/UserDetail";
 import ContentManagement from "./pages/admin/ContentManagement";
 import SubsectionEditor from "./pages/admin/SubsectionEditor";
+import ExamQuestionEditor from "./pages/admin/ExamQuestionEditor";
 import ProgressAnalytics from "./pages/admin/ProgressAnalytics";
 import CertificationReview from "./pages/admin/CertificationReview";
+import PricingManagement from "./pages/admin/PricingManagement";
+import DiscountCodesManagement from "./pages/admin/DiscountCodesManagement";
+import StripeEventsManagement from "./pages/admin/StripeEventsManagement";
 import CertificationExamPage from "./pages/CertificationExamPage";
 import ContractSigningPage from "./pages/ContractSigningPage";
 import SubscriptionPaymentPage from "./pages/SubscriptionPaymentPage";
+import CertificationSuccessPage from "./pages/CertificationSuccessPage";
+import VerifyCertificatePage from "./pages/VerifyCertificatePage";
+import SpecialistDirectory from "./pages/SpecialistDirectory";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -92,8 +99,12 @@ const App = () => (
                         <Route path="users/:userId" element={<UserDetail />} />
                         <Route path="content" element={<ContentManagement />} />
                         <Route path="content/subsection/:sectionId" element={<SubsectionEditor />} />
+                        <Route path="content/exam/:courseId" element={<ExamQuestionEditor />} />
                         <Route path="analytics" element={<ProgressAnalytics />} />
                         <Route path="certifications" element={<CertificationReview />} />
+                        <Route path="pricing" element={<PricingManagement />} />
+                        <Route path="discounts" element={<DiscountCodesManagement />} />
+                        <Route path="stripe-events" element={<StripeEventsManagement />} />
                         {/* Future admin routes will go here */}
                       </Routes>
                     </AdminLayout>
@@ -151,7 +162,20 @@ const App = () => (
                 </ProtectedRoute>
               } 
             />
+            <Route 
+              path="/certification-success" 
+              element={
+                <ProtectedRoute>
+                  <Layout>
+                    <CertificationSuccessPage />
+                  </Layout>
+                </ProtectedRoute>
+              } 
+            />
             <Route path="/auth" element={<Layout showNavigation={false}><Auth /></Layout>} />
+            <Route path="/verify" element={<Layout><VerifyCertificatePage /></Layout>} />
+            <Route path="/verify/:serial" element={<Layout><VerifyCertificatePage /></Layout>} />
+            <Route path="/directory" element={<Layout><SpecialistDirectory /></Layout>} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<Layout><NotFound /></Layout>} />
           </Routes>
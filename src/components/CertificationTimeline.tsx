@@ -0,0 +1,230 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Badge } from "@/components/ui/badge";
+import { Loader2 } from "lucide-react";
+import {
+  CertificationStatusChangeRecord,
+  WORKFLOW_STEP_LABELS,
+  WorkflowTransitionRecord,
+} from "@/types/workflow";
+
+type TimelineActor = 'learner' | 'admin' | 'stripe' | 'signnow' | 'system';
+
+interface TimelineEntry {
+  id: string;
+  title: string;
+  actor: TimelineActor;
+  actorId: string | null;
+  notes: string | null;
+  createdAt: string;
+}
+
+interface CertificationTimelineProps {
+  workflowId: string;
+  // Admins see reviewer names; learners see "You" for their own actions
+  audience?: 'learner' | 'admin';
+}
+
+const ACTOR_BADGE_VARIANTS: Record<TimelineActor, 'default' | 'secondary' | 'outline'> = {
+  learner: 'outline',
+  admin: 'default',
+  stripe: 'secondary',
+  signnow: 'secondary',
+  system: 'outline',
+};
+
+const STEP_CHANGE_TITLES: Record<string, string> = {
+  'exam:approval': 'Exam submitted for review',
+  'approval:contract': 'Approved by an administrator',
+  'approval:exam': 'Rejected by an administrator; exam reopened',
+  'contract:payment': 'Contract signed',
+  'payment:completed': 'Payment received; certified',
+  'completed:payment': 'Certification lapsed; payment required',
+};
+
+const STATUS_FIELD_LABELS: Record<string, string> = {
+  exam_status: 'Exam',
+  admin_approval_status: 'Approval',
+  contract_status: 'Contract',
+  subscription_status: 'Subscription',
+};
+
+const SANCTION_TITLES: Record<string, string> = {
+  suspend: 'Certification suspended',
+  revoke: 'Certification revoked',
+  reinstate: 'Certification reinstated',
+};
+
+const humanize = (value: unknown) => String(value).replace(/_/g, ' ');
+
+// Webhooks carry no actor id, so the provider is read from the transition source
+const getTransitionActor = (transition: WorkflowTransitionRecord): TimelineActor => {
+  if (transition.source.startsWith('stripe:')) return 'stripe';
+  if (transition.source.startsWith('esign:')) return 'signnow';
+  if (transition.source === 'handle-exam-submission') return 'learner';
+  if (!transition.actor_id) return 'system';
+  return transition.actor_id === transition.user_id ? 'learner' : 'admin';
+};
+
+const describeTransition = (transition: WorkflowTransitionRecord) => {
+  const { from_step, to_step } = transition;
+  const changes = transition.changes || {};
+
+  if (from_step !== to_step) {
+    return STEP_CHANGE_TITLES[`${from_step}:${to_step}`]
+      || `Moved from ${WORKFLOW_STEP_LABELS[from_step]} to ${WORKFLOW_STEP_LABELS[to_step]}`;
+  }
+
+  if ('exam_started_at' in changes) return 'Exam started';
+
+  const statusField = Object.keys(STATUS_FIELD_LABELS).find(field => field in changes);
+  if (statusField) {
+    return `${STATUS_FIELD_LABELS[statusField]} status changed to ${humanize(changes[statusField])}`;
+  }
+
+  return `${WORKFLOW_STEP_LABELS[to_step]} step updated`;
+};
+
+const CertificationTimeline = ({ workflowId, audience = 'learner' }: CertificationTimelineProps) => {
+  const [entries, setEntries] = useState<TimelineEntry[]>([]);
+  const [actorNames, setActorNames] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchTimeline = async () => {
+      setLoading(true);
+      try {
+        const [workflowResult, transitionsResult, statusChangesResult] = await Promise.all([
+          supabase
+            .from('certification_workflows')
+            .select('created_at')
+            .eq('id', workflowId)
+            .maybeSingle(),
+          supabase
+            .from('workflow_transitions')
+            .select('*')
+            .eq('workflow_id', workflowId),
+          supabase
+            .from('certification_status_changes')
+            .select('*')
+            .eq('workflow_id', workflowId),
+        ]);
+
+        if (workflowResult.error) throw workflowResult.error;
+        if (transitionsResult.error) throw transitionsResult.error;
+        if (statusChangesResult.error) throw statusChangesResult.error;
+
+        const transitions = (transitionsResult.data || []) as WorkflowTransitionRecord[];
+        const statusChanges = (statusChangesResult.data || []) as CertificationStatusChangeRecord[];
+
+        const timeline: TimelineEntry[] = [
+          ...transitions.map(transition => ({
+            id: transition.id,
+            title: describeTransition(transition),
+            actor: getTransitionActor(transition),
+            actorId: transition.actor_id,
+            notes: transition.reason,
+            createdAt: transition.created_at,
+          })),
+          ...statusChanges.map(change => ({
+            id: change.id,
+            title: SANCTION_TITLES[change.action] || `Certification ${humanize(change.new_status)}`,
+            actor: 'admin' as const,
+            actorId: change.performed_by,
+            notes: change.reason,
+            createdAt: change.created_at,
+          })),
+        ];
+
+        if (workflowResult.data) {
+          timeline.push({
+            id: `${workflowId}-created`,
+            title: 'Certification started',
+            actor: 'system',
+            actorId: null,
+            notes: null,
+            createdAt: workflowResult.data.created_at,
+          });
+        }
+
+        timeline.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+        setEntries(timeline);
+
+        // Learners can't read admin profiles, so names are only resolved for admins
+        const adminIds = [...new Set(
+          timeline.filter(entry => entry.actor === 'admin' && entry.actorId).map(entry => entry.actorId as string)
+        )];
+        if (audience === 'admin' && adminIds.length > 0) {
+          const { data: admins } = await supabase
+            .from('profiles')
+            .select('user_id, first_name, last_name')
+            .in('user_id', adminIds);
+
+          const names: Record<string, string> = {};
+          (admins || []).forEach(admin => {
+            names[admin.user_id] = `${admin.first_name} ${admin.last_name}`;
+          });
+          setActorNames(names);
+        }
+      } catch (error) {
+        console.error('Error fetching certification timeline:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchTimeline();
+  }, [workflowId, audience]);
+
+  const getActorLabel = (entry: TimelineEntry) => {
+    switch (entry.actor) {
+      case 'learner':
+        return audience === 'learner' ? 'You' : 'Learner';
+      case 'admin':
+        return (entry.actorId && actorNames[entry.actorId]) || 'Administrator';
+      case 'stripe':
+        return 'Stripe';
+      case 'signnow':
+        return 'SignNow';
+      default:
+        return 'System';
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-6">
+        <Loader2 className="h-5 w-5 animate-spin" />
+      </div>
+    );
+  }
+
+  if (entries.length === 0) {
+    return <p className="text-sm text-muted-foreground">No certification activity yet.</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-border ml-2 space-y-4">
+      {entries.map(entry => (
+        <li key={entry.id} className="ml-4">
+          <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border-2 border-background bg-primary" />
+          <div className="flex flex-wrap items-center gap-2">
+            <p className="text-sm font-medium">{entry.title}</p>
+            <Badge variant={ACTOR_BADGE_VARIANTS[entry.actor]} className="text-xs">
+              {getActorLabel(entry)}
+            </Badge>
+          </div>
+          <time className="text-xs text-muted-foreground">
+            {format(new Date(entry.createdAt), 'MMM d, yyyy HH:mm')}
+          </time>
+          {entry.notes && (
+            <p className="text-sm text-muted-foreground whitespace-pre-wrap mt-1">{entry.notes}</p>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default CertificationTimeline;
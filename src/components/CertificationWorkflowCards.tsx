@@ -1,7 +1,10 @@
+import { useState } from "react";
 import { useNavigate } from "react-router-dom";
+import { format } from "date-fns";
 import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
 import { Button } from "./ui/button";
 import { Badge } from "./ui/badge";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "./ui/collapsible";
 import { 
   GraduationCap, 
   FileText, 
@@ -10,8 +13,13 @@ import {
   Lock,
   BookOpen,
   UserCheck,
-  CreditCard
+  CreditCard,
+  ShieldOff,
+  History,
+  ChevronDown
 } from "lucide-react";
+import { getRenewalState } from "@/types/pricing";
+import CertificationTimeline from "./CertificationTimeline";
 
 interface CertificationWorkflowCardsProps {
   course: {
@@ -21,11 +29,16 @@ interface CertificationWorkflowCardsProps {
   };
   courseProgress: number;
   certificationWorkflow?: {
+    id?: string;
     current_step: string;
     exam_status: string;
     admin_approval_status: string;
     contract_status: string;
     subscription_status: string;
+    certification_expires_at?: string | null;
+    stripe_subscription_id?: string | null;
+    certification_status?: string;
+    certification_status_reason?: string | null;
   } | null;
 }
 
@@ -35,6 +48,7 @@ const CertificationWorkflowCards = ({
   certificationWorkflow 
 }: CertificationWorkflowCardsProps) => {
   const navigate = useNavigate();
+  const [showHistory, setShowHistory] = useState(false);
 
   // Debug logging to see what data we're receiving
   console.log('CertificationWorkflowCards Debug:', {
@@ -43,6 +57,18 @@ const CertificationWorkflowCards = ({
     certificationWorkflow
   });
 
+  const renewalState = certificationWorkflow ? getRenewalState(certificationWorkflow) : 'not_applicable';
+  // A past-due renewal keeps the learner certified until the paid period ends
+  const isPaid = renewalState !== 'expired' &&
+    (certificationWorkflow?.subscription_status === 'paid' || certificationWorkflow?.subscription_status === 'past_due');
+  // Suspended and revoked certifications are withheld by an admin regardless of payment
+  const sanction = certificationWorkflow?.certification_status === 'suspended' || certificationWorkflow?.certification_status === 'revoked'
+    ? certificationWorkflow.certification_status
+    : null;
+  const expiryDate = certificationWorkflow?.certification_expires_at
+    ? format(new Date(certificationWorkflow.certification_expires_at), 'MMM d, yyyy')
+    : null;
+
   const steps = [
     {
       id: 'course',
@@ -94,7 +120,7 @@ const CertificationWorkflowCards = ({
       icon: CreditCard,
       description: 'Complete certification payment',
       isUnlocked: certificationWorkflow?.contract_status === 'signed',
-      isCompleted: certificationWorkflow?.subscription_status === 'active',
+      isCompleted: isPaid,
       action: () => {
         console.log('Payment card clicked - navigating to:', `/certification/${course.level}/payment`);
         navigate(`/certification/${course.level}/payment`);
@@ -107,11 +133,14 @@ const CertificationWorkflowCards = ({
       title: 'Certified!',
       icon: GraduationCap,
       description: 'Certification complete',
-      isUnlocked: certificationWorkflow?.subscription_status === 'active',
-      isCompleted: certificationWorkflow?.subscription_status === 'active',
-      action: null,
-      actionText: 'Certified!',
-      message: 'Congratulations! You are now certified.'
+      isUnlocked: isPaid || renewalState === 'expired' || !!sanction,
+      isCompleted: isPaid && renewalState !== 'renewal_due' && !sanction,
+      isWithdrawn: !!sanction,
+      action: !sanction && (renewalState === 'renewal_due' || renewalState === 'expired')
+        ? () => navigate(`/certification/${course.level}/payment`)
+        : null,
+      actionText: getCertifiedActionText(),
+      message: getCertifiedMessage()
     }
   ];
 
@@ -183,7 +212,7 @@ const CertificationWorkflowCards = ({
   function getPaymentActionText() {
     console.log('getPaymentActionText - contract_status:', certificationWorkflow?.contract_status, 'subscription_status:', certificationWorkflow?.subscription_status);
     if (certificationWorkflow?.contract_status !== 'signed') return 'Locked';
-    if (certificationWorkflow.subscription_status === 'active') return 'Payment Complete';
+    if (isPaid) return 'Payment Complete';
     return 'Pay Now';
   }
 
@@ -191,12 +220,47 @@ const CertificationWorkflowCards = ({
     if (certificationWorkflow?.contract_status !== 'signed') {
       return 'Sign the contract first to unlock payment.';
     }
-    if (certificationWorkflow.subscription_status === 'active') {
+    if (isPaid) {
       return 'Payment completed successfully!';
     }
+    if (renewalState === 'expired') {
+      return 'Your certification has expired. Pay to renew it.';
+    }
     return 'Complete your certification payment.';
   }
 
+  function getCertifiedActionText() {
+    if (sanction === 'revoked') return 'Revoked';
+    if (sanction === 'suspended') return 'Suspended';
+    if (renewalState === 'renewal_due') return 'Renew Now';
+    if (renewalState === 'expired') return 'Renew Certification';
+    return 'Certified!';
+  }
+
+  function getCertifiedMessage() {
+    if (sanction) {
+      const reason = certificationWorkflow?.certification_status_reason;
+      const status = sanction === 'revoked'
+        ? 'Your certification has been revoked and your certificate withdrawn.'
+        : 'Your certification is suspended until an administrator reinstates it.';
+      return reason ? `${status} Reason: ${reason}` : status;
+    }
+    if (renewalState === 'renewal_due') {
+      return certificationWorkflow?.subscription_status === 'past_due'
+        ? `Your renewal payment failed. Update your payment method before ${expiryDate} to stay certified.`
+        : `Renewal due: your certification expires on ${expiryDate}.`;
+    }
+    if (renewalState === 'expired') {
+      return expiryDate ? `Your certification expired on ${expiryDate}.` : 'Your certification has expired.';
+    }
+    if (renewalState === 'active') {
+      return certificationWorkflow?.stripe_subscription_id
+        ? `Congratulations! You are certified. Renews automatically on ${expiryDate}.`
+        : `Congratulations! You are certified until ${expiryDate}.`;
+    }
+    return 'Congratulations! You are now certified.';
+  }
+
   return (
     <div className="space-y-4">
       <h3 className="text-lg font-semibold text-foreground mb-4">
@@ -214,6 +278,8 @@ const CertificationWorkflowCards = ({
               <Card className={`transition-all ${
                 isLocked 
                   ? 'opacity-60 bg-muted/30' 
+                  : step.isWithdrawn
+                  ? 'border-destructive/50 bg-destructive/5'
                   : step.isCompleted 
                   ? 'border-green-500 bg-green-50 dark:bg-green-900/20' 
                   : 'border-primary/50 bg-primary/5'
@@ -223,12 +289,16 @@ const CertificationWorkflowCards = ({
                     <div className={`p-2 rounded-full ${
                       isLocked 
                         ? 'bg-muted text-muted-foreground' 
+                        : step.isWithdrawn
+                        ? 'bg-destructive text-destructive-foreground'
                         : step.isCompleted 
                         ? 'bg-green-500 text-white' 
                         : 'bg-primary text-primary-foreground'
                     }`}>
                       {isLocked ? (
                         <Lock className="h-4 w-4" />
+                      ) : step.isWithdrawn ? (
+                        <ShieldOff className="h-4 w-4" />
                       ) : step.isCompleted ? (
                         <CheckCircle2 className="h-4 w-4" />
                       ) : (
@@ -261,7 +331,7 @@ const CertificationWorkflowCards = ({
                   {(isLocked || step.isCompleted || !step.action) && (
                     <div className="flex items-center justify-center p-2">
                       <Badge 
-                        variant={step.isCompleted ? 'default' : 'secondary'}
+                        variant={step.isWithdrawn ? 'destructive' : step.isCompleted ? 'default' : 'secondary'}
                         className={step.isCompleted ? 'bg-green-600 text-white' : ''}
                       >
                         {step.actionText}
@@ -279,6 +349,25 @@ const CertificationWorkflowCards = ({
           );
         })}
       </div>
+
+      {certificationWorkflow?.id && (
+        <Collapsible open={showHistory} onOpenChange={setShowHistory}>
+          <CollapsibleTrigger asChild>
+            <Button variant="ghost" size="sm" className="gap-2">
+              <History className="h-4 w-4" />
+              Certification History
+              <ChevronDown className={`h-4 w-4 transition-transform ${showHistory ? 'rotate-180' : ''}`} />
+            </Button>
+          </CollapsibleTrigger>
+          <CollapsibleContent>
+            <Card>
+              <CardContent className="pt-6">
+                <CertificationTimeline workflowId={certificationWorkflow.id} />
+              </CardContent>
+            </Card>
+          </CollapsibleContent>
+        </Collapsible>
+      )}
     </div>
   );
 };
@@ -8,7 +8,7 @@ import CourseCard from "./CourseCard";
 import { Button } from "./ui/button";
 import { Badge } from "./ui/badge";
 import { Progress } from "./ui/progress";
-import { Loader2, GraduationCap, Target, BookOpen, ArrowRight, Lock, FileText, CheckCircle2, Clock } from "lucide-react";
+import { Loader2, GraduationCap, Target, BookOpen, ArrowRight, Lock, FileText, CheckCircle2, Clock, Download, Award, PlayCircle } from "lucide-react";
 import certificateBadge from "@/assets/mw_certificate_l1.png";
 import CertificationWorkflowCards from "./CertificationWorkflowCards";
 
@@ -25,13 +25,40 @@ interface CertificationWorkflow {
   admin_approval_status: string;
   contract_status: string;
   subscription_status: string;
+  certification_expires_at: string | null;
+  stripe_subscription_id: string | null;
+  certification_status: string;
+  certification_status_reason: string | null;
 }
 
+// The most recently watched video the learner has not completed yet
+interface ContinueWatchingItem {
+  course_id: string;
+  subsection_id: string;
+  title: string;
+  position_seconds: number;
+  progress_percentage: number;
+}
+
+const formatPlaybackTime = (totalSeconds: number) => {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = Math.floor(totalSeconds % 60);
+  const paddedSeconds = seconds.toString().padStart(2, '0');
+  return hours > 0
+    ? `${hours}:${minutes.toString().padStart(2, '0')}:${paddedSeconds}`
+    : `${minutes}:${paddedSeconds}`;
+};
+
 const CourseDashboard = () => {
   const [courses, setCourses] = useState<CourseWithNestedContent[]>([]);
   const [userProgress, setUserProgress] = useState<any[]>([]);
   const [certificationWorkflows, setCertificationWorkflows] = useState<Record<number, CertificationWorkflow>>({});
+  const [completedCourseIds, setCompletedCourseIds] = useState<Set<string>>(new Set());
+  const [certificateUrls, setCertificateUrls] = useState<Record<string, string>>({});
+  const [continueWatching, setContinueWatching] = useState<ContinueWatchingItem | null>(null);
   const [loading, setLoading] = useState(true);
+  const [downloadingBadge, setDownloadingBadge] = useState(false);
   const { toast } = useToast();
   const { user, profile } = useAuth();
   const navigate = useNavigate();
@@ -40,6 +67,8 @@ const CourseDashboard = () => {
     fetchCourses();
     fetchUserProgress();
     fetchCertificationWorkflows();
+    fetchCourseCompletions();
+    fetchContinueWatching();
   }, [user]);
 
   const fetchCourses = async () => {
@@ -137,32 +166,125 @@ const CourseDashboard = () => {
     }
   };
 
-  const getCourseStatus = (course: Course): CourseStatus => {
-    // Level 1 is available if marked as available
-    if (course.level === 1 && course.is_available) {
-      return 'available';
+  // Completions are recorded once a level's certification is paid
+  const fetchCourseCompletions = async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('course_completions')
+        .select('course_id, certificate_url')
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+      setCompletedCourseIds(new Set((data || []).map(c => c.course_id)));
+
+      const urls: Record<string, string> = {};
+      (data || []).forEach(c => {
+        if (c.certificate_url) urls[c.course_id] = c.certificate_url;
+      });
+      setCertificateUrls(urls);
+    } catch (error) {
+      console.error('Error fetching course completions:', error);
     }
-    
-    // Other levels are either locked or coming soon
-    if (course.level > 1) {
-      if (course.is_coming_soon) {
-        return 'locked'; // Locked because previous levels need completion
+  };
+
+  const fetchContinueWatching = async () => {
+    if (!user) return;
+
+    try {
+      const { data: progress, error: progressError } = await supabase
+        .from('user_progress')
+        .select('course_id, subsection_id, video_position_seconds, progress_percentage')
+        .eq('user_id', user.id)
+        .is('completed_at', null)
+        .not('subsection_id', 'is', null)
+        .gt('video_position_seconds', 0)
+        .order('last_activity_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (progressError) throw progressError;
+      if (!progress) {
+        setContinueWatching(null);
+        return;
       }
+
+      const { data: subsection, error: subsectionError } = await supabase
+        .from('subsections')
+        .select('title')
+        .eq('id', progress.subsection_id)
+        .maybeSingle();
+
+      if (subsectionError) throw subsectionError;
+
+      setContinueWatching(subsection ? {
+        course_id: progress.course_id,
+        subsection_id: progress.subsection_id,
+        title: subsection.title,
+        position_seconds: progress.video_position_seconds,
+        progress_percentage: progress.progress_percentage ?? 0,
+      } : null);
+    } catch (error) {
+      console.error('Error fetching continue watching:', error);
+    }
+  };
+
+  // Open Badges 3.0 credential for wallets and badge backpacks
+  const handleDownloadBadge = async (level: number) => {
+    setDownloadingBadge(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('issue-open-badge', {
+        body: { level }
+      });
+
+      if (error) throw error;
+
+      const blob = new Blob([JSON.stringify(data.credential, null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `movingwaldo-level-${level}-badge.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error downloading badge:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to download your digital badge',
+        variant: 'destructive',
+      });
+    } finally {
+      setDownloadingBadge(false);
+    }
+  };
+
+  const getCourseStatus = (course: Course): CourseStatus => {
+    if (completedCourseIds.has(course.id)) {
+      return 'completed';
+    }
+
+    // Mirrors can_access_course(): each level after the first needs the previous level certified
+    const previousLevelCompleted = course.level === 1 || courses.some(
+      c => c.level === course.level - 1 && completedCourseIds.has(c.id)
+    );
+
+    if (!previousLevelCompleted) {
       return 'locked';
     }
-    
-    // If not available and is coming soon
-    if (course.is_coming_soon) {
-      return 'coming-soon';
+
+    if (course.is_available) {
+      return 'available';
     }
-    
-    return 'locked';
+
+    return course.is_coming_soon ? 'coming-soon' : 'locked';
   };
 
   const getCurrentCourse = () => {
-    // Find the first available course or the first course
+    // The first unlocked level still in progress, otherwise the highest certified level
     const availableCourse = courses.find(c => getCourseStatus(c) === 'available');
-    return availableCourse || courses[0];
+    const completedCourses = courses.filter(c => getCourseStatus(c) === 'completed');
+    return availableCourse || completedCourses[completedCourses.length - 1] || courses[0];
   };
 
   const getCourseProgress = (course: CourseWithNestedContent) => {
@@ -239,6 +361,30 @@ const CourseDashboard = () => {
         )}
       </div>
 
+      {/* Continue Watching */}
+      {continueWatching && (
+        <div className="max-w-4xl mx-auto">
+          <div className="flex flex-col sm:flex-row sm:items-center gap-4 rounded-xl border bg-card p-4">
+            <PlayCircle className="h-10 w-10 text-primary shrink-0" />
+            <div className="flex-1 space-y-2">
+              <div>
+                <p className="text-sm text-muted-foreground">Continue watching</p>
+                <p className="font-semibold">{continueWatching.title}</p>
+              </div>
+              <Progress value={continueWatching.progress_percentage} className="h-2" />
+            </div>
+            <Button
+              onClick={() => navigate(
+                `/course/${continueWatching.course_id}/subsection/${continueWatching.subsection_id}?t=${continueWatching.position_seconds}`
+              )}
+            >
+              Resume at {formatPlaybackTime(continueWatching.position_seconds)}
+              <ArrowRight className="ml-2 h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+
       {/* Current Course Section */}
       {currentCourse && (
         <div className="max-w-4xl mx-auto">
@@ -315,6 +461,30 @@ const CourseDashboard = () => {
                       </Badge>
                     </div>
                   )}
+                  {certificateUrls[currentCourse.id] && (
+                    <Button asChild variant="outline" className="w-full mt-4">
+                      <a href={certificateUrls[currentCourse.id]} target="_blank" rel="noopener noreferrer">
+                        <Download className="mr-2 h-4 w-4" />
+                        Download Certificate
+                      </a>
+                    </Button>
+                  )}
+                  {completedCourseIds.has(currentCourse.id) &&
+                    certificationWorkflows[currentCourse.level]?.certification_status === 'active' && (
+                    <Button
+                      variant="outline"
+                      className="w-full mt-2"
+                      onClick={() => handleDownloadBadge(currentCourse.level)}
+                      disabled={downloadingBadge}
+                    >
+                      {downloadingBadge ? (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      ) : (
+                        <Award className="mr-2 h-4 w-4" />
+                      )}
+                      Download Digital Badge
+                    </Button>
+                  )}
                 </div>
               </div>
             </div>
@@ -373,10 +543,11 @@ const CourseDashboard = () => {
                 
                 <div className="space-y-4">
                   <div className="flex items-center justify-between">
-                    <Badge variant={status === 'available' ? 'default' : 'secondary'}>
+                    <Badge variant={status === 'available' || status === 'completed' ? 'default' : 'secondary'}>
                       Level {course.level}
                     </Badge>
                     {status === 'locked' && <Lock className="h-4 w-4 text-muted-foreground" />}
+                    {status === 'completed' && <CheckCircle2 className="h-4 w-4 text-green-600" />}
                   </div>
                   
                   <h3 className="text-xl font-semibold">{course.title}</h3>
@@ -396,6 +567,7 @@ const CourseDashboard = () => {
                     {status === 'available' && 'Ready to start'}
                     {status === 'locked' && 'Complete previous levels first'}
                     {status === 'coming-soon' && 'Coming soon'}
+                    {status === 'completed' && 'Certified'}
                   </div>
                 </div>
               </div>
@@ -17,6 +17,7 @@ import {
   HelpCircle
 } from "lucide-react";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import ProgressRing from "@/components/ProgressRing";
 
 interface CourseStructureProps {
   courseId: string;
@@ -150,6 +151,13 @@ export const CourseStructure = ({ courseId }: CourseStructureProps) => {
     );
   };
 
+  // Share of the video watched so far, recorded by the subsection page's activity heartbeat
+  const getSubsectionProgress = (subsectionId: string) => {
+    return userProgress
+      .filter(progress => progress.subsection_id === subsectionId)
+      .reduce((max, progress) => Math.max(max, progress.progress_percentage ?? 0), 0);
+  };
+
   const handleSubsectionClick = (subsection: Subsection) => {
     navigate(`/course/${courseId}/subsection/${subsection.id}`);
   };
@@ -247,6 +255,7 @@ export const CourseStructure = ({ courseId }: CourseStructureProps) => {
                 <div className="space-y-2">
                   {section.subsections?.map((subsection, subsectionIndex) => {
                     const isCompleted = isSubsectionCompleted(subsection.id);
+                    const progressPercentage = isCompleted ? 100 : getSubsectionProgress(subsection.id);
                     
                     return (
                       <Button
@@ -259,6 +268,8 @@ export const CourseStructure = ({ courseId }: CourseStructureProps) => {
                           <div className="flex items-center gap-2">
                             {isCompleted ? (
                               <CheckCircle className="h-4 w-4 text-green-500" />
+                            ) : progressPercentage > 0 ? (
+                              <ProgressRing value={progressPercentage} />
                             ) : (
                               <Circle className="h-4 w-4 text-muted-foreground" />
                             )}
@@ -277,6 +288,11 @@ export const CourseStructure = ({ courseId }: CourseStructureProps) => {
                                 {subsection.duration_minutes} minutes
                               </span>
                             )}
+                            {!isCompleted && progressPercentage > 0 && (
+                              <span className="text-xs text-muted-foreground">
+                                {subsection.duration_minutes ? ' · ' : ''}{progressPercentage}% watched
+                              </span>
+                            )}
                           </div>
                           
                           <div className="flex items-center gap-2">
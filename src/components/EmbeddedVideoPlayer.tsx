@@ -0,0 +1,211 @@
+import { forwardRef, useEffect, useImperativeHandle, useRef, useState } from "react";
+import { AlertCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { VideoChapter } from "@/types/course";
+import { formatTimestamp } from "@/lib/webvtt";
+import {
+  VideoPlayerHandle,
+  VideoSource,
+  VIDEO_PROVIDER_LABELS,
+  WistiaQueueEntry,
+  loadVimeoApi,
+  loadYouTubeApi,
+  queueWistiaEmbed,
+  revokeWistiaEmbed,
+} from "@/lib/video-providers";
+
+interface EmbeddedVideoPlayerProps {
+  source: VideoSource;
+  onProgress?: (progress: number, currentTime: number) => void;
+  onComplete?: () => void;
+  startTime?: number;
+  chapters?: VideoChapter[];
+  className?: string;
+}
+
+// How often YouTube's position is sampled; its API has no timeupdate event
+const YOUTUBE_POLL_MS = 1000;
+
+// YouTube, Vimeo and Wistia players driven through their JS APIs so they report progress
+// and completion through the same onProgress/onComplete contract as VideoPlayer
+const EmbeddedVideoPlayer = forwardRef<VideoPlayerHandle, EmbeddedVideoPlayerProps>(({
+  source,
+  onProgress,
+  onComplete,
+  startTime = 0,
+  chapters = [],
+  className = "",
+}, ref) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const seekRef = useRef<((seconds: number) => void) | null>(null);
+  const [loadError, setLoadError] = useState(false);
+
+  useImperativeHandle(ref, () => ({
+    seekTo: (seconds: number) => seekRef.current?.(seconds),
+  }), []);
+
+  // The player is only rebuilt when the video changes, so callbacks are read through refs
+  const onProgressRef = useRef(onProgress);
+  const onCompleteRef = useRef(onComplete);
+  const startTimeRef = useRef(startTime);
+
+  useEffect(() => {
+    onProgressRef.current = onProgress;
+    onCompleteRef.current = onComplete;
+    startTimeRef.current = startTime;
+  }, [onProgress, onComplete, startTime]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    const videoId = source.videoId;
+    if (!container || !videoId) return;
+
+    let cancelled = false;
+    let teardown: (() => void) | undefined;
+    let wistiaEntry: WistiaQueueEntry | undefined;
+    setLoadError(false);
+
+    const report = (currentTime: number, duration: number) => {
+      if (duration > 0) onProgressRef.current?.((currentTime / duration) * 100, currentTime);
+    };
+
+    // A position in the last few seconds means the video was finished; start over
+    const getResumeTime = (duration: number) => {
+      const start = startTimeRef.current;
+      return start > 0 && start < duration - 5 ? start : 0;
+    };
+
+    // Provider scripts replace the node they are given, so React never owns it
+    const mount = document.createElement('div');
+    mount.className = 'w-full h-full';
+    container.appendChild(mount);
+
+    const setup = async () => {
+      switch (source.provider) {
+        case 'youtube': {
+          const YT = await loadYouTubeApi();
+          if (cancelled) return;
+
+          // Seeking an unstarted YouTube video starts playback, so resume through the start
+          // parameter instead; the duration is unknown until then
+          let poll: number | undefined;
+          const player = new YT.Player(mount, {
+            videoId,
+            width: '100%',
+            height: '100%',
+            playerVars: { rel: 0, modestbranding: 1, playsinline: 1, start: Math.floor(startTimeRef.current) },
+            events: {
+              onReady: () => {
+                poll = window.setInterval(() => {
+                  if (player.getPlayerState() === YT.PlayerState.PLAYING) {
+                    report(player.getCurrentTime(), player.getDuration());
+                  }
+                }, YOUTUBE_POLL_MS);
+              },
+              onStateChange: (event) => {
+                if (event.data === YT.PlayerState.ENDED) onCompleteRef.current?.();
+              },
+            },
+          });
+
+          seekRef.current = (seconds) => player.seekTo(seconds, true);
+          teardown = () => {
+            window.clearInterval(poll);
+            player.destroy();
+          };
+          break;
+        }
+        case 'vimeo': {
+          const Vimeo = await loadVimeoApi();
+          if (cancelled) return;
+
+          const player = new Vimeo.Player(mount, { url: source.url, responsive: true, dnt: true });
+          player.on('loaded', async () => {
+            const resumeAt = getResumeTime(await player.getDuration());
+            if (resumeAt > 0) player.setCurrentTime(resumeAt);
+          });
+          player.on('timeupdate', ({ seconds, duration }) => report(seconds, duration));
+          player.on('ended', () => onCompleteRef.current?.());
+
+          seekRef.current = (seconds) => {
+            player.setCurrentTime(seconds);
+          };
+          teardown = () => {
+            player.destroy();
+          };
+          break;
+        }
+        case 'wistia': {
+          mount.className = `wistia_embed wistia_async_${videoId} videoFoam=true w-full h-full`;
+          wistiaEntry = {
+            id: videoId,
+            onReady: (video) => {
+              if (cancelled) {
+                video.remove();
+                return;
+              }
+
+              const resumeAt = getResumeTime(video.duration());
+              if (resumeAt > 0) video.time(resumeAt);
+              video.bind('timechange', (seconds) => report(seconds, video.duration()));
+              video.bind('end', () => onCompleteRef.current?.());
+
+              seekRef.current = (seconds) => video.time(seconds);
+              teardown = () => video.remove();
+            },
+          };
+          await queueWistiaEmbed(wistiaEntry);
+          break;
+        }
+      }
+    };
+
+    setup().catch((error) => {
+      console.error(`Error loading ${VIDEO_PROVIDER_LABELS[source.provider]} player:`, error);
+      if (!cancelled) setLoadError(true);
+    });
+
+    return () => {
+      cancelled = true;
+      seekRef.current = null;
+      if (wistiaEntry) revokeWistiaEmbed(wistiaEntry);
+      teardown?.();
+      container.replaceChildren();
+    };
+  }, [source.provider, source.videoId, source.url]);
+
+  return (
+    <div className={`space-y-2 ${className}`}>
+      <div className="relative bg-black rounded-lg overflow-hidden">
+        <div ref={containerRef} className="aspect-video" />
+        {loadError && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 text-white">
+            <AlertCircle className="h-8 w-8" />
+            <p className="text-sm">The {VIDEO_PROVIDER_LABELS[source.provider]} video could not be loaded.</p>
+          </div>
+        )}
+      </div>
+
+      {/* The provider's own seek bar cannot show our chapter markers, so list them below */}
+      {chapters.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {chapters.map((chapter) => (
+            <Button
+              key={chapter.start_seconds}
+              variant="outline"
+              size="sm"
+              onClick={() => seekRef.current?.(chapter.start_seconds)}
+            >
+              <span className="text-muted-foreground mr-2">{formatTimestamp(chapter.start_seconds)}</span>
+              {chapter.title}
+            </Button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+});
+
+EmbeddedVideoPlayer.displayName = "EmbeddedVideoPlayer";
+
+export default EmbeddedVideoPlayer;
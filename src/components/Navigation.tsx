@@ -1,5 +1,6 @@
 import { Link } from "react-router-dom";
 import UserMenu from "./UserMenu";
+import NotificationBell from "./NotificationBell";
 import movingWaldoLogo from "@/assets/movingwaldo-logo.svg";
 
 const Navigation = () => {
@@ -14,7 +15,10 @@ const Navigation = () => {
           />
         </Link>
         
-        <UserMenu />
+        <div className="flex items-center gap-2">
+          <NotificationBell />
+          <UserMenu />
+        </div>
       </div>
     </nav>
   );
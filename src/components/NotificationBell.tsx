@@ -0,0 +1,196 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Separator } from "@/components/ui/separator";
+import { Award, Bell, BookOpen, CheckCheck, MessageSquare } from "lucide-react";
+import { AppNotification, NotificationType } from "@/types/notification";
+
+const RECENT_LIMIT = 20;
+
+const TYPE_ICONS: Record<NotificationType, typeof Bell> = {
+  workflow_status: Award,
+  comment_reply: MessageSquare,
+  course_content: BookOpen,
+};
+
+const NotificationBell = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [open, setOpen] = useState(false);
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  const fetchNotifications = useCallback(async () => {
+    if (!user) return;
+
+    const [{ data, error }, { count, error: countError }] = await Promise.all([
+      supabase
+        .from('notifications')
+        .select('id, user_id, type, title, body, link, read_at, created_at')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false })
+        .limit(RECENT_LIMIT),
+      supabase
+        .from('notifications')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', user.id)
+        .is('read_at', null),
+    ]);
+
+    if (error || countError) {
+      console.error('Error fetching notifications:', error || countError);
+      return;
+    }
+
+    setNotifications((data || []) as AppNotification[]);
+    setUnreadCount(count || 0);
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    fetchNotifications();
+
+    // New notifications and reads from other tabs both refresh the list and the badge
+    const channel = supabase
+      .channel(`notifications:${user.id}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'notifications', filter: `user_id=eq.${user.id}` },
+        () => fetchNotifications()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, fetchNotifications]);
+
+  const markAsRead = async (ids: string[]) => {
+    if (ids.length === 0) return;
+
+    const readAt = new Date().toISOString();
+    setNotifications(prev => prev.map(n => (ids.includes(n.id) ? { ...n, read_at: n.read_at || readAt } : n)));
+    setUnreadCount(prev => Math.max(prev - ids.length, 0));
+
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: readAt })
+      .in('id', ids)
+      .is('read_at', null);
+
+    if (error) {
+      console.error('Error marking notifications as read:', error);
+      fetchNotifications();
+    }
+  };
+
+  const markAllAsRead = async () => {
+    if (!user) return;
+
+    const readAt = new Date().toISOString();
+    setNotifications(prev => prev.map(n => ({ ...n, read_at: n.read_at || readAt })));
+    setUnreadCount(0);
+
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: readAt })
+      .eq('user_id', user.id)
+      .is('read_at', null);
+
+    if (error) {
+      console.error('Error marking notifications as read:', error);
+      fetchNotifications();
+    }
+  };
+
+  const handleSelect = (notification: AppNotification) => {
+    if (!notification.read_at) markAsRead([notification.id]);
+    if (notification.link) {
+      setOpen(false);
+      navigate(notification.link);
+    }
+  };
+
+  if (!user) {
+    return null;
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="relative h-10 w-10 rounded-full"
+          aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : 'Notifications'}
+        >
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute top-1 right-1 flex h-4 min-w-4 items-center justify-center rounded-full bg-destructive px-1 text-[10px] font-semibold text-destructive-foreground">
+              {unreadCount > 9 ? '9+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+
+      <PopoverContent className="w-80 p-0" align="end">
+        <div className="flex items-center justify-between px-4 py-3">
+          <p className="text-sm font-medium">Notifications</p>
+          {unreadCount > 0 && (
+            <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={markAllAsRead}>
+              <CheckCheck className="mr-1 h-3 w-3" />
+              Mark all as read
+            </Button>
+          )}
+        </div>
+        <Separator />
+
+        {notifications.length === 0 ? (
+          <div className="px-4 py-8 text-center">
+            <Bell className="h-8 w-8 text-muted-foreground mx-auto mb-2" />
+            <p className="text-sm text-muted-foreground">You're all caught up</p>
+          </div>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.map(notification => {
+              const Icon = TYPE_ICONS[notification.type] || Bell;
+              return (
+                <button
+                  key={notification.id}
+                  type="button"
+                  onClick={() => handleSelect(notification)}
+                  className={`flex w-full gap-3 px-4 py-3 text-left transition-colors hover:bg-muted ${
+                    notification.read_at ? '' : 'bg-primary/5'
+                  }`}
+                >
+                  <Icon className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground" />
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <p className={`text-sm leading-snug ${notification.read_at ? '' : 'font-medium'}`}>
+                      {notification.title}
+                    </p>
+                    {notification.body && (
+                      <p className="text-xs text-muted-foreground line-clamp-2">{notification.body}</p>
+                    )}
+                    <p className="text-xs text-muted-foreground">
+                      {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+                    </p>
+                  </div>
+                  {!notification.read_at && (
+                    <span className="mt-1.5 h-2 w-2 shrink-0 rounded-full bg-primary" />
+                  )}
+                </button>
+              );
+            })}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default NotificationBell;
@@ -0,0 +1,50 @@
+import { cn } from "@/lib/utils";
+
+interface ProgressRingProps {
+  value: number;
+  size?: number;
+  strokeWidth?: number;
+  className?: string;
+}
+
+// Small circular progress indicator for partially completed items
+const ProgressRing = ({ value, size = 16, strokeWidth = 2, className }: ProgressRingProps) => {
+  const radius = (size - strokeWidth) / 2;
+  const circumference = 2 * Math.PI * radius;
+  const clamped = Math.min(100, Math.max(0, value));
+
+  return (
+    <svg
+      width={size}
+      height={size}
+      viewBox={`0 0 ${size} ${size}`}
+      className={cn("-rotate-90", className)}
+      role="img"
+      aria-label={`${Math.round(clamped)}% complete`}
+    >
+      <circle
+        cx={size / 2}
+        cy={size / 2}
+        r={radius}
+        fill="none"
+        stroke="currentColor"
+        strokeWidth={strokeWidth}
+        className="text-muted"
+      />
+      <circle
+        cx={size / 2}
+        cy={size / 2}
+        r={radius}
+        fill="none"
+        stroke="currentColor"
+        strokeWidth={strokeWidth}
+        strokeDasharray={circumference}
+        strokeDashoffset={circumference * (1 - clamped / 100)}
+        strokeLinecap="round"
+        className="text-primary"
+      />
+    </svg>
+  );
+};
+
+export default ProgressRing;
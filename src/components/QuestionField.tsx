@@ -0,0 +1,92 @@
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+import { RadioGroup, RadioGroupItem } from "./ui/radio-group";
+import { Checkbox } from "./ui/checkbox";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Badge } from "./ui/badge";
+import { ExamAnswer, ExamQuestionForAttempt } from "@/types/exam";
+
+interface QuestionFieldProps {
+  question: ExamQuestionForAttempt;
+  index: number;
+  value: ExamAnswer | undefined;
+  onChange: (value: ExamAnswer) => void;
+  disabled?: boolean;
+}
+
+const QuestionField = ({ question, index, value, onChange, disabled = false }: QuestionFieldProps) => {
+  const selected = Array.isArray(value) ? value : [];
+
+  const toggleOption = (optionIndex: number, checked: boolean) => {
+    const next = checked
+      ? [...selected, optionIndex]
+      : selected.filter(i => i !== optionIndex);
+    onChange(next.sort((a, b) => a - b));
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-start justify-between gap-4 text-base">
+          <span>
+            {index + 1}. {question.prompt}
+          </span>
+          <Badge variant="outline" className="shrink-0">
+            {question.points} pt{question.points !== 1 ? 's' : ''}
+          </Badge>
+        </CardTitle>
+        {question.question_type === 'multiple_choice' && (
+          <p className="text-xs text-muted-foreground">Select all that apply</p>
+        )}
+      </CardHeader>
+      <CardContent>
+        {question.question_type === 'short_answer' && (
+          <Input
+            value={typeof value === 'string' ? value : ''}
+            onChange={(e) => onChange(e.target.value)}
+            placeholder="Type your answer"
+            disabled={disabled}
+          />
+        )}
+
+        {(question.question_type === 'single_choice' || question.question_type === 'true_false') && (
+          <RadioGroup
+            value={selected.length > 0 ? String(selected[0]) : ''}
+            onValueChange={(v) => onChange([parseInt(v)])}
+            disabled={disabled}
+            className="space-y-2"
+          >
+            {question.options.map((option, i) => (
+              <div key={i} className="flex items-center gap-2">
+                <RadioGroupItem value={String(i)} id={`${question.id}-${i}`} />
+                <Label htmlFor={`${question.id}-${i}`} className="font-normal cursor-pointer">
+                  {option}
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+        )}
+
+        {question.question_type === 'multiple_choice' && (
+          <div className="space-y-2">
+            {question.options.map((option, i) => (
+              <div key={i} className="flex items-center gap-2">
+                <Checkbox
+                  id={`${question.id}-${i}`}
+                  checked={selected.includes(i)}
+                  onCheckedChange={(checked) => toggleOption(i, checked === true)}
+                  disabled={disabled}
+                />
+                <Label htmlFor={`${question.id}-${i}`} className="font-normal cursor-pointer">
+                  {option}
+                </Label>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default QuestionField;
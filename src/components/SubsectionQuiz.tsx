@@ -0,0 +1,129 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "./ui/button";
+import { Badge } from "./ui/badge";
+import QuestionField from "./QuestionField";
+import { AlertCircle, CheckCircle2, Loader2, RotateCcw, Send } from "lucide-react";
+import { ExamAnswer, QuizSession, QuizSubmissionResult } from "@/types/exam";
+
+interface SubsectionQuizProps {
+  subsectionId: string;
+  quiz: QuizSession;
+  onPassed: (result: QuizSubmissionResult) => void;
+}
+
+const SubsectionQuiz = ({ subsectionId, quiz, onPassed }: SubsectionQuizProps) => {
+  const { toast } = useToast();
+  const [answers, setAnswers] = useState<Record<string, ExamAnswer>>({});
+  const [result, setResult] = useState<QuizSubmissionResult | null>(null);
+  const [bestPercentage, setBestPercentage] = useState<number | null>(quiz.best_attempt?.percentage ?? null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('submit-subsection-quiz', {
+        body: { subsection_id: subsectionId, answers }
+      });
+
+      if (error) throw error;
+      if (data.error) throw new Error(data.error);
+
+      const submission = data as QuizSubmissionResult;
+      setResult(submission);
+      setBestPercentage(prev => Math.max(prev ?? 0, submission.percentage));
+      if (submission.passed) onPassed(submission);
+    } catch (error) {
+      console.error('Error submitting quiz:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to submit the quiz',
+        variant: 'destructive',
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRetry = () => {
+    setAnswers({});
+    setResult(null);
+  };
+
+  const correctCount = result?.questions.filter(q => q.correct).length ?? 0;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Badge variant="outline">Pass mark: {quiz.pass_percentage}%</Badge>
+        <Badge variant="secondary">{quiz.questions.length} question{quiz.questions.length !== 1 ? 's' : ''}</Badge>
+        {bestPercentage !== null && (
+          <Badge variant={bestPercentage >= quiz.pass_percentage ? 'default' : 'secondary'}>
+            Best score: {bestPercentage}%
+          </Badge>
+        )}
+      </div>
+
+      {result && (
+        <div className={`flex items-center justify-between gap-4 rounded-lg border p-4 ${
+          result.passed ? 'border-green-200 bg-green-50' : 'border-red-200 bg-red-50'
+        }`}>
+          <div className="flex items-center gap-3">
+            {result.passed ? (
+              <CheckCircle2 className="h-5 w-5 text-green-700" />
+            ) : (
+              <AlertCircle className="h-5 w-5 text-red-700" />
+            )}
+            <div>
+              <p className={`font-medium ${result.passed ? 'text-green-800' : 'text-red-800'}`}>
+                {result.passed ? 'Quiz passed' : 'Not passed yet'}: {result.percentage}%
+              </p>
+              <p className="text-sm text-muted-foreground">
+                {correctCount} of {result.questions.length} correct · {result.score} of {result.max_score} points
+              </p>
+              {result.passed && !result.completed && (
+                <p className="text-sm text-muted-foreground">
+                  Finish the remaining steps below to complete this subsection.
+                </p>
+              )}
+            </div>
+          </div>
+          <Button variant="outline" size="sm" onClick={handleRetry}>
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Try Again
+          </Button>
+        </div>
+      )}
+
+      {quiz.questions.map((question, index) => (
+        <QuestionField
+          key={question.id}
+          question={question}
+          index={index}
+          value={answers[question.id]}
+          onChange={(value) => setAnswers(prev => ({ ...prev, [question.id]: value }))}
+          disabled={submitting || !!result}
+        />
+      ))}
+
+      {!result && (
+        <Button className="w-full" onClick={handleSubmit} disabled={submitting}>
+          {submitting ? (
+            <>
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              Submitting...
+            </>
+          ) : (
+            <>
+              <Send className="h-4 w-4 mr-2" />
+              Submit Answers
+            </>
+          )}
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default SubsectionQuiz;
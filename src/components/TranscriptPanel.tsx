@@ -0,0 +1,97 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Input } from "./ui/input";
+import { Search } from "lucide-react";
+import { TranscriptCue, formatTimestamp } from "@/lib/webvtt";
+
+interface TranscriptPanelProps {
+  cues: TranscriptCue[];
+  currentTime: number;
+  onSeek: (seconds: number) => void;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const highlightMatches = (text: string, query: string) => {
+  if (!query) return text;
+
+  return text.split(new RegExp(`(${escapeRegExp(query)})`, 'gi')).map((part, index) =>
+    part.toLowerCase() === query.toLowerCase()
+      ? <mark key={index} className="bg-yellow-200 text-foreground rounded-sm">{part}</mark>
+      : part
+  );
+};
+
+// Timed transcript beside the video: search narrows the cues, clicking one seeks to it
+const TranscriptPanel = ({ cues, currentTime, onSeek }: TranscriptPanelProps) => {
+  const [query, setQuery] = useState('');
+  const listRef = useRef<HTMLDivElement>(null);
+  const activeCueRef = useRef<HTMLButtonElement>(null);
+
+  const trimmedQuery = query.trim();
+  const visibleCues = useMemo(
+    () => trimmedQuery
+      ? cues.filter(cue => cue.text.toLowerCase().includes(trimmedQuery.toLowerCase()))
+      : cues,
+    [cues, trimmedQuery]
+  );
+
+  const activeCue = cues.find(cue => currentTime >= cue.start && currentTime < cue.end);
+
+  // Follow playback inside the panel only, never scrolling the page, and not while searching
+  useEffect(() => {
+    const list = listRef.current;
+    const active = activeCueRef.current;
+    if (trimmedQuery || !list || !active) return;
+
+    list.scrollTop = active.offsetTop - list.clientHeight / 3;
+  }, [activeCue, trimmedQuery]);
+
+  return (
+    <div className="space-y-3">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search the transcript"
+          className="pl-9"
+        />
+      </div>
+
+      {trimmedQuery && (
+        <p className="text-xs text-muted-foreground">
+          {visibleCues.length} match{visibleCues.length !== 1 ? 'es' : ''}
+        </p>
+      )}
+
+      <div ref={listRef} className="relative max-h-80 overflow-y-auto rounded-lg border">
+        {visibleCues.length === 0 ? (
+          <p className="p-4 text-sm text-muted-foreground text-center">No lines match your search.</p>
+        ) : (
+          visibleCues.map((cue) => {
+            const isActive = cue === activeCue;
+
+            return (
+              <button
+                key={`${cue.start}-${cue.end}`}
+                ref={isActive ? activeCueRef : undefined}
+                type="button"
+                onClick={() => onSeek(cue.start)}
+                className={`flex w-full gap-3 px-4 py-2 text-left text-sm transition-colors hover:bg-muted/50 ${
+                  isActive ? 'bg-primary/10' : ''
+                }`}
+              >
+                <span className="shrink-0 font-mono text-xs text-muted-foreground pt-0.5">
+                  {formatTimestamp(cue.start)}
+                </span>
+                <span>{highlightMatches(cue.text, trimmedQuery)}</span>
+              </button>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TranscriptPanel;
@@ -1,4 +1,4 @@
-import { useState, useRef, useEffect } from "react";
+import { useState, useRef, useEffect, useMemo, forwardRef, useImperativeHandle } from "react";
 import { Button } from "@/components/ui/button";
 import { Slider } from "@/components/ui/slider";
 import { 
@@ -8,7 +8,9 @@ import {
   VolumeX, 
   Maximize, 
   Settings,
-  SkipForward
+  SkipForward,
+  AlertCircle,
+  Captions
 } from "lucide-react";
 import {
   DropdownMenu,
@@ -16,30 +18,47 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
+import { VideoChapter } from "@/types/course";
+import EmbeddedVideoPlayer from "@/components/EmbeddedVideoPlayer";
+import { VideoPlayerHandle, detectVideoSource, loadHlsApi, supportsCaptionTracks } from "@/lib/video-providers";
+import { formatTimestamp } from "@/lib/webvtt";
+
+export interface VideoCaptionTrack {
+  language: string;
+  label: string;
+  src: string;
+}
 
 interface VideoPlayerProps {
   videoUrl: string;
-  onProgress?: (progress: number) => void;
+  onProgress?: (progress: number, currentTime: number) => void;
   onComplete?: () => void;
   initialProgress?: number;
+  // Resume position in seconds; takes precedence over initialProgress
+  startTime?: number;
+  // WebVTT tracks for uploaded videos and HLS streams; embedded providers use their own captions.
+  // Ignored for videos on hosts that may not allow CORS requests.
+  captions?: VideoCaptionTrack[];
+  defaultCaptionLanguage?: string | null;
+  chapters?: VideoChapter[];
   className?: string;
 }
 
-// Utility function to detect and extract Loom video ID
-const getLoomEmbedUrl = (url: string): string | null => {
-  const loomRegex = /(?:https?:\/\/)?(?:www\.)?loom\.com\/share\/([a-zA-Z0-9]+)/;
-  const match = url.match(loomRegex);
-  return match ? `https://www.loom.com/embed/${match[1]}` : null;
-};
-
-export const VideoPlayer = ({ 
+export const VideoPlayer = forwardRef<VideoPlayerHandle, VideoPlayerProps>(({ 
   videoUrl, 
   onProgress, 
   onComplete, 
   initialProgress = 0,
+  startTime = 0,
+  captions: captionTracks,
+  defaultCaptionLanguage = null,
+  chapters = [],
   className = "" 
-}: VideoPlayerProps) => {
+}, ref) => {
   const videoRef = useRef<HTMLVideoElement>(null);
+  const embeddedPlayerRef = useRef<VideoPlayerHandle>(null);
+  // Seek to the start position once per video, not every time the callbacks change
+  const hasResumedRef = useRef(false);
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
@@ -47,21 +66,107 @@ export const VideoPlayer = ({
   const [isMuted, setIsMuted] = useState(false);
   const [playbackRate, setPlaybackRate] = useState(1);
   const [isFullscreen, setIsFullscreen] = useState(false);
+  const [loadError, setLoadError] = useState(false);
+  const [activeCaption, setActiveCaption] = useState<string | null>(defaultCaptionLanguage);
+
+  // Uploaded files and HLS streams play in the <video> element below with our own controls;
+  // YouTube, Vimeo and Wistia go through their player APIs, Loom through its plain embed
+  const source = useMemo(() => detectVideoSource(videoUrl), [videoUrl]);
+  const isNativeVideo = source.provider === 'file' || source.provider === 'hls';
+  const captions = useMemo(
+    () => (captionTracks && supportsCaptionTracks(videoUrl) ? captionTracks : []),
+    [captionTracks, videoUrl]
+  );
+
+  useEffect(() => {
+    hasResumedRef.current = false;
+  }, [videoUrl]);
+
+  useImperativeHandle(ref, () => ({
+    seekTo: (seconds: number) => {
+      if (!isNativeVideo) {
+        embeddedPlayerRef.current?.seekTo(seconds);
+        return;
+      }
+
+      const video = videoRef.current;
+      if (!video) return;
+      video.currentTime = seconds;
+      setCurrentTime(seconds);
+    },
+  }), [isNativeVideo]);
+
+  useEffect(() => {
+    setActiveCaption(defaultCaptionLanguage);
+  }, [defaultCaptionLanguage]);
 
-  // Check if the URL is a Loom URL
-  const loomEmbedUrl = getLoomEmbedUrl(videoUrl);
-  const isLoomVideo = !!loomEmbedUrl;
+  // Text tracks can register after render, so the chosen language is applied as they arrive
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!isNativeVideo || !video) return;
+
+    const applyCaptionMode = () => {
+      Array.from(video.textTracks).forEach((track) => {
+        track.mode = track.language === activeCaption ? 'showing' : 'disabled';
+      });
+    };
+
+    applyCaptionMode();
+    video.textTracks.addEventListener('addtrack', applyCaptionMode);
+    return () => video.textTracks.removeEventListener('addtrack', applyCaptionMode);
+  }, [isNativeVideo, activeCaption, captions]);
 
+  // Safari plays HLS natively; elsewhere hls.js feeds the stream into the video element
   useEffect(() => {
-    // Only set up video event listeners for regular video files, not Loom videos
-    if (isLoomVideo) return;
+    const video = videoRef.current;
+    if (!isNativeVideo || !video) return;
+
+    setLoadError(false);
+    if (source.provider === 'file' || video.canPlayType('application/vnd.apple.mpegurl')) {
+      video.src = source.url;
+      return;
+    }
+
+    let cancelled = false;
+    let destroyHls: (() => void) | undefined;
+
+    loadHlsApi()
+      .then((Hls) => {
+        if (cancelled) return;
+        if (!Hls.isSupported()) throw new Error('HLS playback is not supported in this browser');
+
+        const hls = new Hls();
+        hls.loadSource(source.url);
+        hls.attachMedia(video);
+        destroyHls = () => hls.destroy();
+      })
+      .catch((error) => {
+        console.error('Error loading HLS stream:', error);
+        if (!cancelled) setLoadError(true);
+      });
+
+    return () => {
+      cancelled = true;
+      destroyHls?.();
+    };
+  }, [isNativeVideo, source.provider, source.url]);
+
+  useEffect(() => {
+    // Embedded players report through their own APIs
+    if (!isNativeVideo) return;
     
     const video = videoRef.current;
     if (!video) return;
 
     const handleLoadedMetadata = () => {
       setDuration(video.duration);
-      if (initialProgress > 0) {
+      if (hasResumedRef.current) return;
+      hasResumedRef.current = true;
+
+      // A position in the last few seconds means the video was finished; start over
+      if (startTime > 0 && startTime < video.duration - 5) {
+        video.currentTime = startTime;
+      } else if (initialProgress > 0) {
         video.currentTime = (initialProgress / 100) * video.duration;
       }
     };
@@ -69,7 +174,7 @@ export const VideoPlayer = ({
     const handleTimeUpdate = () => {
       const progress = (video.currentTime / video.duration) * 100;
       setCurrentTime(video.currentTime);
-      onProgress?.(progress);
+      onProgress?.(progress, video.currentTime);
     };
 
     const handleEnded = () => {
@@ -86,13 +191,18 @@ export const VideoPlayer = ({
     video.addEventListener('ended', handleEnded);
     document.addEventListener('fullscreenchange', handleFullscreenChange);
 
+    // Metadata may already be loaded by the time the listeners are attached
+    if (video.readyState >= HTMLMediaElement.HAVE_METADATA) {
+      handleLoadedMetadata();
+    }
+
     return () => {
       video.removeEventListener('loadedmetadata', handleLoadedMetadata);
       video.removeEventListener('timeupdate', handleTimeUpdate);
       video.removeEventListener('ended', handleEnded);
       document.removeEventListener('fullscreenchange', handleFullscreenChange);
     };
-  }, [onProgress, onComplete, initialProgress, isLoomVideo]);
+  }, [onProgress, onComplete, initialProgress, startTime, isNativeVideo]);
 
   const togglePlay = () => {
     const video = videoRef.current;
@@ -159,21 +269,30 @@ export const VideoPlayer = ({
     video.currentTime = Math.min(video.currentTime + 10, duration);
   };
 
-  const formatTime = (time: number) => {
-    const minutes = Math.floor(time / 60);
-    const seconds = Math.floor(time % 60);
-    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
-  };
-
   const progress = duration > 0 ? (currentTime / duration) * 100 : 0;
+  const currentChapter = [...chapters].reverse().find(chapter => chapter.start_seconds <= currentTime);
+
+  if (source.provider === 'youtube' || source.provider === 'vimeo' || source.provider === 'wistia') {
+    return (
+      <EmbeddedVideoPlayer
+        ref={embeddedPlayerRef}
+        source={source}
+        chapters={chapters}
+        onProgress={onProgress}
+        onComplete={onComplete}
+        startTime={startTime}
+        className={className}
+      />
+    );
+  }
 
   // Render Loom iframe if it's a Loom URL
-  if (isLoomVideo) {
+  if (source.provider === 'loom') {
     return (
       <div className={`relative bg-black rounded-lg overflow-hidden ${className}`}>
         <div className="aspect-video">
           <iframe
-            src={loomEmbedUrl}
+            src={`https://www.loom.com/embed/${source.videoId}`}
             className="w-full h-full"
             allowFullScreen
             frameBorder="0"
@@ -189,22 +308,50 @@ export const VideoPlayer = ({
     <div className={`relative bg-black rounded-lg overflow-hidden group ${className}`}>
       <video
         ref={videoRef}
-        src={videoUrl}
         className="w-full h-full"
         onClick={togglePlay}
-      />
+        crossOrigin={captions.length > 0 ? 'anonymous' : undefined}
+      >
+        {captions.map((track) => (
+          <track
+            key={track.language}
+            kind="subtitles"
+            src={track.src}
+            srcLang={track.language}
+            label={track.label}
+          />
+        ))}
+      </video>
+
+      {loadError && (
+        <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 text-white">
+          <AlertCircle className="h-8 w-8" />
+          <p className="text-sm">This video stream could not be loaded.</p>
+        </div>
+      )}
       
       {/* Controls Overlay */}
       <div className="absolute inset-0 bg-gradient-to-t from-black/50 to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-200 flex items-end">
         <div className="w-full p-4 space-y-2">
-          {/* Progress Bar */}
-          <Slider
-            value={[progress]}
-            onValueChange={handleSeek}
-            max={100}
-            step={0.1}
-            className="w-full"
-          />
+          {/* Progress Bar with chapter markers */}
+          <div className="relative">
+            <Slider
+              value={[progress]}
+              onValueChange={handleSeek}
+              max={100}
+              step={0.1}
+              className="w-full"
+            />
+            {duration > 0 && chapters
+              .filter(chapter => chapter.start_seconds > 0 && chapter.start_seconds < duration)
+              .map((chapter) => (
+                <span
+                  key={chapter.start_seconds}
+                  className="pointer-events-none absolute top-1/2 h-3 w-0.5 -translate-y-1/2 bg-white/80"
+                  style={{ left: `${(chapter.start_seconds / duration) * 100}%` }}
+                />
+              ))}
+          </div>
           
           {/* Controls */}
           <div className="flex items-center justify-between text-white">
@@ -245,11 +392,36 @@ export const VideoPlayer = ({
               </div>
               
               <span className="text-sm">
-                {formatTime(currentTime)} / {formatTime(duration)}
+                {formatTimestamp(currentTime)} / {formatTimestamp(duration)}
+                {currentChapter && ` · ${currentChapter.title}`}
               </span>
             </div>
             
             <div className="flex items-center space-x-2">
+              {captions.length > 0 && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className={`text-white hover:bg-white/20 ${activeCaption ? 'bg-white/20' : ''}`}
+                    >
+                      <Captions className="h-4 w-4" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent>
+                    <DropdownMenuItem onClick={() => setActiveCaption(null)}>
+                      Captions Off
+                    </DropdownMenuItem>
+                    {captions.map((track) => (
+                      <DropdownMenuItem key={track.language} onClick={() => setActiveCaption(track.language)}>
+                        {track.label}
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
+
               <DropdownMenu>
                 <DropdownMenuTrigger asChild>
                   <Button
@@ -296,4 +468,6 @@ export const VideoPlayer = ({
       </div>
     </div>
   );
-};
\ No newline at end of file
+});
+
+VideoPlayer.displayName = "VideoPlayer";
@@ -5,7 +5,10 @@ import {
   Users, 
   BookOpen, 
   BarChart3,
-  ClipboardCheck
+  ClipboardCheck,
+  DollarSign,
+  Ticket,
+  Webhook
 } from 'lucide-react';
 
 const navigationItems = [
@@ -38,6 +41,24 @@ const navigationItems = [
     href: '/admin/certifications',
     icon: ClipboardCheck,
     description: 'Review certification requests'
+  },
+  {
+    name: 'Pricing',
+    href: '/admin/pricing',
+    icon: DollarSign,
+    description: 'Certification prices per level'
+  },
+  {
+    name: 'Discounts',
+    href: '/admin/discounts',
+    icon: Ticket,
+    description: 'Discount and sponsorship codes'
+  },
+  {
+    name: 'Stripe Events',
+    href: '/admin/stripe-events',
+    icon: Webhook,
+    description: 'Webhook ledger and failed event replay'
   }
 ];
 
@@ -0,0 +1,284 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { SubsectionCaption } from '@/types/course';
+import { parseWebVtt } from '@/lib/webvtt';
+import { detectVideoSource, supportsCaptionTracks } from '@/lib/video-providers';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+  Upload,
+  Captions,
+  Trash2,
+  Download,
+  Loader2,
+  AlertCircle
+} from 'lucide-react';
+
+interface CaptionManagerProps {
+  subsectionId: string;
+  videoUrl: string;
+  captions: SubsectionCaption[];
+  onCaptionsChange: (captions: SubsectionCaption[]) => void;
+}
+
+// BCP 47 shape such as en, pt-BR or zh-Hant; enough to catch typos without a full registry
+const LANGUAGE_CODE = /^[a-z]{2,3}(-[a-z0-9]{2,8})*$/i;
+
+export const CaptionManager = ({
+  subsectionId,
+  videoUrl,
+  captions,
+  onCaptionsChange
+}: CaptionManagerProps) => {
+  const [language, setLanguage] = useState('');
+  const [label, setLabel] = useState('');
+  const [uploading, setUploading] = useState(false);
+  const { toast } = useToast();
+
+  const { provider } = detectVideoSource(videoUrl);
+  const captionsUnavailable = !!videoUrl.trim()
+    && (provider === 'file' || provider === 'hls')
+    && !supportsCaptionTracks(videoUrl);
+
+  const handleFileUpload = async (file: File) => {
+    const code = language.trim();
+    const trackLabel = label.trim();
+
+    if (!LANGUAGE_CODE.test(code) || !trackLabel) {
+      toast({
+        title: 'Missing Details',
+        description: 'Enter a language code such as "en" or "fr-CA" and a label before uploading.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (captions.some(c => c.language.toLowerCase() === code.toLowerCase())) {
+      toast({
+        title: 'Language Already Added',
+        description: `There is already a ${code} track. Delete it first to replace it.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (!file.name.toLowerCase().endsWith('.vtt')) {
+      toast({
+        title: 'Invalid File Type',
+        description: 'Please upload a WebVTT (.vtt) file.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const source = await file.text();
+    if (!source.trimStart().startsWith('WEBVTT') || parseWebVtt(source).length === 0) {
+      toast({
+        title: 'Invalid Captions',
+        description: `${file.name} is not a WebVTT file with timed cues.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setUploading(true);
+
+    try {
+      const fileName = `${subsectionId}/${code}_${Date.now()}.vtt`;
+
+      const { error: uploadError } = await supabase.storage
+        .from('subsection-captions')
+        .upload(fileName, file, {
+          cacheControl: '3600',
+          contentType: 'text/vtt',
+          upsert: false
+        });
+
+      if (uploadError) throw uploadError;
+
+      const { data: { publicUrl } } = supabase.storage
+        .from('subsection-captions')
+        .getPublicUrl(fileName);
+
+      const { data: captionData, error: dbError } = await supabase
+        .from('subsection_captions')
+        .insert([{
+          subsection_id: subsectionId,
+          language: code,
+          label: trackLabel,
+          file_name: fileName,
+          file_url: publicUrl
+        }])
+        .select()
+        .single();
+
+      if (dbError) throw dbError;
+
+      onCaptionsChange([...captions, captionData].sort((a, b) => a.label.localeCompare(b.label)));
+      setLanguage('');
+      setLabel('');
+
+      toast({
+        title: 'Captions Uploaded',
+        description: `${trackLabel} captions have been added.`,
+      });
+    } catch (error) {
+      console.error('Error uploading captions:', error);
+      toast({
+        title: 'Upload Failed',
+        description: 'Failed to upload captions. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleDeleteCaption = async (caption: SubsectionCaption) => {
+    try {
+      const { error: storageError } = await supabase.storage
+        .from('subsection-captions')
+        .remove([caption.file_name]);
+
+      if (storageError) throw storageError;
+
+      const { error: dbError } = await supabase
+        .from('subsection_captions')
+        .delete()
+        .eq('id', caption.id);
+
+      if (dbError) throw dbError;
+
+      onCaptionsChange(captions.filter(c => c.id !== caption.id));
+
+      toast({
+        title: 'Captions Deleted',
+        description: `${caption.label} captions have been deleted.`,
+      });
+    } catch (error) {
+      console.error('Error deleting captions:', error);
+      toast({
+        title: 'Delete Failed',
+        description: 'Failed to delete captions. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Captions className="h-5 w-5" />
+          Captions
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Caption tracks play on uploaded videos and HLS streams. YouTube, Vimeo and Wistia videos
+          show the captions configured on those platforms instead.
+        </p>
+
+        {captionsUnavailable && (
+          <p className="flex items-start gap-2 text-sm text-amber-700">
+            <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+            This video is hosted outside our storage, so learners will not see these captions. Upload
+            the video here instead to show them.
+          </p>
+        )}
+
+        {/* Upload Section */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <div>
+            <Label htmlFor="caption-language">Language Code</Label>
+            <Input
+              id="caption-language"
+              value={language}
+              onChange={(e) => setLanguage(e.target.value)}
+              placeholder="e.g., en or fr-CA"
+              disabled={uploading}
+            />
+          </div>
+          <div>
+            <Label htmlFor="caption-label">Label</Label>
+            <Input
+              id="caption-label"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder="e.g., English"
+              disabled={uploading}
+            />
+          </div>
+          <div>
+            <input
+              type="file"
+              accept=".vtt,text/vtt"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleFileUpload(file);
+                e.target.value = '';
+              }}
+              className="hidden"
+              id="caption-upload"
+              disabled={uploading}
+            />
+            <Button type="button" variant="outline" className="w-full" asChild disabled={uploading}>
+              <Label htmlFor="caption-upload" className="cursor-pointer">
+                {uploading ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Upload className="h-4 w-4 mr-2" />
+                )}
+                {uploading ? 'Uploading...' : 'Upload .vtt File'}
+              </Label>
+            </Button>
+          </div>
+        </div>
+
+        {/* Captions List */}
+        {captions.length > 0 ? (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">Caption Tracks:</h4>
+            {captions.map((caption) => (
+              <div
+                key={caption.id}
+                className="flex items-center justify-between p-3 bg-muted rounded-lg"
+              >
+                <div className="flex items-center gap-3">
+                  <Badge variant="outline">{caption.language}</Badge>
+                  <p className="text-sm font-medium">{caption.label}</p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => window.open(caption.file_url, '_blank')}
+                  >
+                    <Download className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDeleteCaption(caption)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            No caption tracks yet. Add one per language.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
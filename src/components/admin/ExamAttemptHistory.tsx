@@ -0,0 +1,101 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { ExamAttempt } from '@/types/exam';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Loader2 } from 'lucide-react';
+import { format, differenceInMinutes } from 'date-fns';
+
+interface ExamAttemptHistoryProps {
+  workflowId: string;
+}
+
+export const ExamAttemptHistory = ({ workflowId }: ExamAttemptHistoryProps) => {
+  const [attempts, setAttempts] = useState<ExamAttempt[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchAttempts = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('exam_attempts')
+          .select('*')
+          .eq('workflow_id', workflowId)
+          .order('attempt_number', { ascending: false });
+
+        if (error) throw error;
+        setAttempts((data || []) as ExamAttempt[]);
+      } catch (error) {
+        console.error('Error fetching exam attempts:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchAttempts();
+  }, [workflowId]);
+
+  const getResultBadge = (attempt: ExamAttempt) => {
+    if (attempt.passed === null) {
+      return <Badge variant="secondary">awaiting review</Badge>;
+    }
+    return (
+      <Badge variant={attempt.passed ? 'default' : 'destructive'}>
+        {attempt.passed ? 'passed' : 'failed'}
+      </Badge>
+    );
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="h-5 w-5 animate-spin" />
+      </div>
+    );
+  }
+
+  if (attempts.length === 0) {
+    return (
+      <p className="text-center py-8 text-muted-foreground">
+        No exam attempts recorded yet.
+      </p>
+    );
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>#</TableHead>
+          <TableHead>Source</TableHead>
+          <TableHead>Score</TableHead>
+          <TableHead>Result</TableHead>
+          <TableHead>Submitted</TableHead>
+          <TableHead>Duration</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {attempts.map((attempt) => (
+          <TableRow key={attempt.id}>
+            <TableCell className="font-medium">{attempt.attempt_number}</TableCell>
+            <TableCell>
+              <Badge variant="outline">{attempt.source}</Badge>
+            </TableCell>
+            <TableCell>
+              {attempt.score !== null && attempt.max_score !== null
+                ? `${attempt.score}/${attempt.max_score}${attempt.percentage !== null ? ` (${attempt.percentage}%)` : ''}`
+                : '—'}
+            </TableCell>
+            <TableCell>{getResultBadge(attempt)}</TableCell>
+            <TableCell>{format(new Date(attempt.submitted_at), 'MMM d, yyyy HH:mm')}</TableCell>
+            <TableCell>
+              {attempt.started_at
+                ? `${differenceInMinutes(new Date(attempt.submitted_at), new Date(attempt.started_at))} min`
+                : '—'}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+};
@@ -0,0 +1,240 @@
+import { QuestionDraft, QuestionType, QUESTION_TYPE_LABELS } from '@/types/exam';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Plus,
+  Trash2,
+  ArrowUp,
+  ArrowDown,
+  X
+} from 'lucide-react';
+
+interface QuestionBankEditorProps {
+  questions: QuestionDraft[];
+  onQuestionsChange: (questions: QuestionDraft[]) => void;
+}
+
+const TRUE_FALSE_OPTIONS = ['True', 'False'];
+
+const createEmptyQuestion = (): QuestionDraft => ({
+  question_type: 'single_choice',
+  prompt: '',
+  options: ['', ''],
+  correct_answers: [],
+  points: 1,
+});
+
+export const QuestionBankEditor = ({
+  questions,
+  onQuestionsChange
+}: QuestionBankEditorProps) => {
+  const updateQuestion = (index: number, updates: Partial<QuestionDraft>) => {
+    onQuestionsChange(questions.map((q, i) => (i === index ? { ...q, ...updates } : q)));
+  };
+
+  const changeType = (index: number, questionType: QuestionType) => {
+    const current = questions[index];
+    if (questionType === 'true_false') {
+      updateQuestion(index, { question_type: questionType, options: TRUE_FALSE_OPTIONS, correct_answers: [0] });
+    } else if (questionType === 'short_answer') {
+      updateQuestion(index, { question_type: questionType, options: [], correct_answers: [] });
+    } else {
+      const options = current.question_type === 'short_answer' || current.question_type === 'true_false'
+        ? ['', '']
+        : current.options;
+      const correct = questionType === 'single_choice'
+        ? current.correct_answers.filter(a => typeof a === 'number').slice(0, 1)
+        : current.correct_answers.filter(a => typeof a === 'number');
+      updateQuestion(index, {
+        question_type: questionType,
+        options,
+        correct_answers: current.question_type === 'short_answer' ? [] : correct,
+      });
+    }
+  };
+
+  const moveQuestion = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= questions.length) return;
+    const next = [...questions];
+    [next[index], next[target]] = [next[target], next[index]];
+    onQuestionsChange(next);
+  };
+
+  const removeQuestion = (index: number) => {
+    onQuestionsChange(questions.filter((_, i) => i !== index));
+  };
+
+  const toggleCorrect = (index: number, optionIndex: number, checked: boolean) => {
+    const question = questions[index];
+    let correct = question.correct_answers.filter(a => a !== optionIndex);
+    if (checked) {
+      correct = question.question_type === 'multiple_choice' ? [...correct, optionIndex] : [optionIndex];
+    }
+    updateQuestion(index, { correct_answers: correct });
+  };
+
+  const updateOption = (index: number, optionIndex: number, value: string) => {
+    const options = [...questions[index].options];
+    options[optionIndex] = value;
+    updateQuestion(index, { options });
+  };
+
+  const removeOption = (index: number, optionIndex: number) => {
+    const question = questions[index];
+    // Shift correct answer indexes that point past the removed option
+    const correct = question.correct_answers
+      .filter(a => a !== optionIndex)
+      .map(a => (typeof a === 'number' && a > optionIndex ? a - 1 : a));
+    updateQuestion(index, {
+      options: question.options.filter((_, i) => i !== optionIndex),
+      correct_answers: correct,
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      {questions.length === 0 && (
+        <div className="text-center py-8 text-muted-foreground">
+          No questions yet. Add your first question to build the question bank.
+        </div>
+      )}
+
+      {questions.map((question, index) => (
+        <Card key={question.id ?? `new-${index}`}>
+          <CardHeader className="pb-3">
+            <div className="flex items-center justify-between">
+              <CardTitle className="text-base flex items-center gap-2">
+                Question {index + 1}
+                <Badge variant="outline">{QUESTION_TYPE_LABELS[question.question_type]}</Badge>
+              </CardTitle>
+              <div className="flex items-center gap-1">
+                <Button type="button" variant="ghost" size="sm" onClick={() => moveQuestion(index, -1)} disabled={index === 0}>
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button type="button" variant="ghost" size="sm" onClick={() => moveQuestion(index, 1)} disabled={index === questions.length - 1}>
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button type="button" variant="ghost" size="sm" onClick={() => removeQuestion(index)}>
+                  <Trash2 className="h-4 w-4 text-destructive" />
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="md:col-span-2">
+                <Label>Type</Label>
+                <Select
+                  value={question.question_type}
+                  onValueChange={(value: QuestionType) => changeType(index, value)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-background border z-50">
+                    {(Object.keys(QUESTION_TYPE_LABELS) as QuestionType[]).map(type => (
+                      <SelectItem key={type} value={type}>{QUESTION_TYPE_LABELS[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Points</Label>
+                <Input
+                  type="number"
+                  min="1"
+                  value={question.points}
+                  onChange={(e) => updateQuestion(index, { points: parseInt(e.target.value) || 1 })}
+                />
+              </div>
+            </div>
+
+            <div>
+              <Label>Question *</Label>
+              <Textarea
+                value={question.prompt}
+                onChange={(e) => updateQuestion(index, { prompt: e.target.value })}
+                placeholder="Enter the question"
+                rows={2}
+              />
+            </div>
+
+            {question.question_type === 'short_answer' ? (
+              <div>
+                <Label>Accepted Answers *</Label>
+                <Textarea
+                  value={question.correct_answers.join('\n')}
+                  onChange={(e) => updateQuestion(index, {
+                    correct_answers: e.target.value.split('\n'),
+                  })}
+                  placeholder="One accepted answer per line"
+                  rows={3}
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Answers are compared ignoring case and extra spaces.
+                </p>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Label>Options (check the correct {question.question_type === 'multiple_choice' ? 'answers' : 'answer'}) *</Label>
+                {question.options.map((option, optionIndex) => (
+                  <div key={optionIndex} className="flex items-center gap-2">
+                    <Checkbox
+                      checked={question.correct_answers.includes(optionIndex)}
+                      onCheckedChange={(checked) => toggleCorrect(index, optionIndex, checked === true)}
+                    />
+                    <Input
+                      value={option}
+                      onChange={(e) => updateOption(index, optionIndex, e.target.value)}
+                      placeholder={`Option ${optionIndex + 1}`}
+                      disabled={question.question_type === 'true_false'}
+                    />
+                    {question.question_type !== 'true_false' && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => removeOption(index, optionIndex)}
+                        disabled={question.options.length <= 2}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+                {question.question_type !== 'true_false' && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => updateQuestion(index, { options: [...question.options, ''] })}
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add Option
+                  </Button>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      ))}
+
+      <Button
+        type="button"
+        variant="outline"
+        className="w-full"
+        onClick={() => onQuestionsChange([...questions, createEmptyQuestion()])}
+      >
+        <Plus className="h-4 w-4 mr-2" />
+        Add Question
+      </Button>
+    </div>
+  );
+};
@@ -14,57 +14,319 @@ export type Database = {
   }
   public: {
     Tables: {
+      certificate_retries: {
+        Row: {
+          attempts: number
+          created_at: string
+          last_error: string | null
+          next_attempt_at: string
+          updated_at: string
+          workflow_id: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          last_error?: string | null
+          next_attempt_at?: string
+          updated_at?: string
+          workflow_id: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          last_error?: string | null
+          next_attempt_at?: string
+          updated_at?: string
+          workflow_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "certificate_retries_workflow_id_fkey"
+            columns: ["workflow_id"]
+            isOneToOne: true
+            referencedRelation: "certification_workflows"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      certificates: {
+        Row: {
+          completed_at: string
+          course_id: string
+          id: string
+          issued_at: string
+          level: number
+          recipient_name: string
+          serial: string
+          storage_path: string
+          updated_at: string
+          user_id: string
+          workflow_id: string
+        }
+        Insert: {
+          completed_at: string
+          course_id: string
+          id?: string
+          issued_at?: string
+          level: number
+          recipient_name: string
+          serial: string
+          storage_path: string
+          updated_at?: string
+          user_id: string
+          workflow_id: string
+        }
+        Update: {
+          completed_at?: string
+          course_id?: string
+          id?: string
+          issued_at?: string
+          level?: number
+          recipient_name?: string
+          serial?: string
+          storage_path?: string
+          updated_at?: string
+          user_id?: string
+          workflow_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "certificates_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "certificates_workflow_id_fkey"
+            columns: ["workflow_id"]
+            isOneToOne: true
+            referencedRelation: "certification_workflows"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      certification_prices: {
+        Row: {
+          active_from: string
+          active_until: string | null
+          amount: number
+          billing_interval: string
+          created_at: string
+          currency: string
+          id: string
+          level: number
+          stripe_price_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          active_from?: string
+          active_until?: string | null
+          amount: number
+          billing_interval?: string
+          created_at?: string
+          currency?: string
+          id?: string
+          level: number
+          stripe_price_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          active_from?: string
+          active_until?: string | null
+          amount?: number
+          billing_interval?: string
+          created_at?: string
+          currency?: string
+          id?: string
+          level?: number
+          stripe_price_id?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      certification_reviews: {
+        Row: {
+          created_at: string
+          decision: Database["public"]["Enums"]["app_admin_approval_status"]
+          exam_attempt_id: string | null
+          id: string
+          level: number
+          notes: string | null
+          reviewer_id: string
+          user_id: string
+          workflow_id: string
+        }
+        Insert: {
+          created_at?: string
+          decision: Database["public"]["Enums"]["app_admin_approval_status"]
+          exam_attempt_id?: string | null
+          id?: string
+          level: number
+          notes?: string | null
+          reviewer_id: string
+          user_id: string
+          workflow_id: string
+        }
+        Update: {
+          created_at?: string
+          decision?: Database["public"]["Enums"]["app_admin_approval_status"]
+          exam_attempt_id?: string | null
+          id?: string
+          level?: number
+          notes?: string | null
+          reviewer_id?: string
+          user_id?: string
+          workflow_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "certification_reviews_exam_attempt_id_fkey"
+            columns: ["exam_attempt_id"]
+            isOneToOne: false
+            referencedRelation: "exam_attempts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "certification_reviews_workflow_id_fkey"
+            columns: ["workflow_id"]
+            isOneToOne: false
+            referencedRelation: "certification_workflows"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      certification_status_changes: {
+        Row: {
+          action: string
+          created_at: string
+          id: string
+          new_status: Database["public"]["Enums"]["app_certification_status"]
+          performed_by: string
+          previous_status: Database["public"]["Enums"]["app_certification_status"]
+          reason: string
+          user_id: string
+          workflow_id: string
+        }
+        Insert: {
+          action: string
+          created_at?: string
+          id?: string
+          new_status: Database["public"]["Enums"]["app_certification_status"]
+          performed_by: string
+          previous_status: Database["public"]["Enums"]["app_certification_status"]
+          reason: string
+          user_id: string
+          workflow_id: string
+        }
+        Update: {
+          action?: string
+          created_at?: string
+          id?: string
+          new_status?: Database["public"]["Enums"]["app_certification_status"]
+          performed_by?: string
+          previous_status?: Database["public"]["Enums"]["app_certification_status"]
+          reason?: string
+          user_id?: string
+          workflow_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "certification_status_changes_workflow_id_fkey"
+            columns: ["workflow_id"]
+            isOneToOne: false
+            referencedRelation: "certification_workflows"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       certification_workflows: {
         Row: {
           admin_approval_status: Database["public"]["Enums"]["app_admin_approval_status"]
+          certification_expires_at: string | null
+          certification_status: Database["public"]["Enums"]["app_certification_status"]
+          certification_status_changed_at: string | null
+          certification_status_reason: string | null
           completed_at: string | null
           contract_doc_url: string | null
+          contract_document_id: string | null
+          contract_provider: string | null
+          contract_signed_pdf_url: string | null
           contract_status: Database["public"]["Enums"]["app_contract_status"]
           course_id: string
           created_at: string
           current_step: Database["public"]["Enums"]["app_workflow_step"]
           exam_results_json: Json | null
+          exam_started_at: string | null
           exam_status: Database["public"]["Enums"]["app_exam_status"]
           exam_submission_url: string | null
+          exam_submitted_at: string | null
           id: string
           level: number
           stripe_checkout_session_id: string | null
+          stripe_customer_id: string | null
+          stripe_payment_intent_id: string | null
+          stripe_subscription_id: string | null
           subscription_status: Database["public"]["Enums"]["app_subscription_status"]
           updated_at: string
           user_id: string
         }
         Insert: {
           admin_approval_status?: Database["public"]["Enums"]["app_admin_approval_status"]
+          certification_expires_at?: string | null
+          certification_status?: Database["public"]["Enums"]["app_certification_status"]
+          certification_status_changed_at?: string | null
+          certification_status_reason?: string | null
           completed_at?: string | null
           contract_doc_url?: string | null
+          contract_document_id?: string | null
+          contract_provider?: string | null
+          contract_signed_pdf_url?: string | null
           contract_status?: Database["public"]["Enums"]["app_contract_status"]
           course_id: string
           created_at?: string
           current_step?: Database["public"]["Enums"]["app_workflow_step"]
           exam_results_json?: Json | null
+          exam_started_at?: string | null
           exam_status?: Database["public"]["Enums"]["app_exam_status"]
           exam_submission_url?: string | null
+          exam_submitted_at?: string | null
           id?: string
           level: number
           stripe_checkout_session_id?: string | null
+          stripe_customer_id?: string | null
+          stripe_payment_intent_id?: string | null
+          stripe_subscription_id?: string | null
           subscription_status?: Database["public"]["Enums"]["app_subscription_status"]
           updated_at?: string
           user_id: string
         }
         Update: {
           admin_approval_status?: Database["public"]["Enums"]["app_admin_approval_status"]
+          certification_expires_at?: string | null
+          certification_status?: Database["public"]["Enums"]["app_certification_status"]
+          certification_status_changed_at?: string | null
+          certification_status_reason?: string | null
           completed_at?: string | null
           contract_doc_url?: string | null
+          contract_document_id?: string | null
+          contract_provider?: string | null
+          contract_signed_pdf_url?: string | null
           contract_status?: Database["public"]["Enums"]["app_contract_status"]
           course_id?: string
           created_at?: string
           current_step?: Database["public"]["Enums"]["app_workflow_step"]
           exam_results_json?: Json | null
+          exam_started_at?: string | null
           exam_status?: Database["public"]["Enums"]["app_exam_status"]
           exam_submission_url?: string | null
+          exam_submitted_at?: string | null
           id?: string
           level?: number
           stripe_checkout_session_id?: string | null
+          stripe_customer_id?: string | null
+          stripe_payment_intent_id?: string | null
+          stripe_subscription_id?: string | null
           subscription_status?: Database["public"]["Enums"]["app_subscription_status"]
           updated_at?: string
           user_id?: string
@@ -133,6 +395,50 @@ export type Database = {
           },
         ]
       }
+      contract_events: {
+        Row: {
+          action: string
+          created_at: string
+          document_id: string
+          event_type: string
+          id: string
+          payload: Json | null
+          provider: string
+          user_id: string | null
+          workflow_id: string | null
+        }
+        Insert: {
+          action: string
+          created_at?: string
+          document_id: string
+          event_type: string
+          id?: string
+          payload?: Json | null
+          provider: string
+          user_id?: string | null
+          workflow_id?: string | null
+        }
+        Update: {
+          action?: string
+          created_at?: string
+          document_id?: string
+          event_type?: string
+          id?: string
+          payload?: Json | null
+          provider?: string
+          user_id?: string | null
+          workflow_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "contract_events_workflow_id_fkey"
+            columns: ["workflow_id"]
+            isOneToOne: false
+            referencedRelation: "certification_workflows"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       course_completions: {
         Row: {
           certificate_url: string | null
@@ -167,10 +473,17 @@ export type Database = {
       }
       courses: {
         Row: {
+          contract_template_id: string | null
           created_at: string
           description: string | null
+          exam_available_from: string | null
+          exam_available_until: string | null
+          exam_cooldown_hours: number | null
           exam_duration_minutes: number | null
           exam_instructions: string | null
+          exam_max_attempts: number | null
+          exam_pass_percentage: number
+          exam_required_quiz_percentage: number | null
           exam_url: string | null
           id: string
           is_available: boolean
@@ -180,10 +493,17 @@ export type Database = {
           updated_at: string
         }
         Insert: {
+          contract_template_id?: string | null
           created_at?: string
           description?: string | null
+          exam_available_from?: string | null
+          exam_available_until?: string | null
+          exam_cooldown_hours?: number | null
           exam_duration_minutes?: number | null
           exam_instructions?: string | null
+          exam_max_attempts?: number | null
+          exam_pass_percentage?: number
+          exam_required_quiz_percentage?: number | null
           exam_url?: string | null
           id?: string
           is_available?: boolean
@@ -193,60 +513,554 @@ export type Database = {
           updated_at?: string
         }
         Update: {
-          created_at?: string
-          description?: string | null
-          exam_duration_minutes?: number | null
-          exam_instructions?: string | null
-          exam_url?: string | null
+          contract_template_id?: string | null
+          created_at?: string
+          description?: string | null
+          exam_available_from?: string | null
+          exam_available_until?: string | null
+          exam_cooldown_hours?: number | null
+          exam_duration_minutes?: number | null
+          exam_instructions?: string | null
+          exam_max_attempts?: number | null
+          exam_pass_percentage?: number
+          exam_required_quiz_percentage?: number | null
+          exam_url?: string | null
+          id?: string
+          is_available?: boolean
+          is_coming_soon?: boolean
+          level?: number
+          title?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      discount_codes: {
+        Row: {
+          allowed_email_domains: string[] | null
+          allowed_levels: number[] | null
+          amount_off: number | null
+          code: string
+          created_at: string
+          currency: string | null
+          description: string | null
+          discount_type: string
+          expires_at: string | null
+          id: string
+          is_active: boolean
+          max_redemptions: number | null
+          percent_off: number | null
+          updated_at: string
+        }
+        Insert: {
+          allowed_email_domains?: string[] | null
+          allowed_levels?: number[] | null
+          amount_off?: number | null
+          code: string
+          created_at?: string
+          currency?: string | null
+          description?: string | null
+          discount_type: string
+          expires_at?: string | null
+          id?: string
+          is_active?: boolean
+          max_redemptions?: number | null
+          percent_off?: number | null
+          updated_at?: string
+        }
+        Update: {
+          allowed_email_domains?: string[] | null
+          allowed_levels?: number[] | null
+          amount_off?: number | null
+          code?: string
+          created_at?: string
+          currency?: string | null
+          description?: string | null
+          discount_type?: string
+          expires_at?: string | null
+          id?: string
+          is_active?: boolean
+          max_redemptions?: number | null
+          percent_off?: number | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      discount_redemptions: {
+        Row: {
+          amount_discounted: number
+          created_at: string
+          currency: string
+          discount_code_id: string
+          id: string
+          status: string
+          stripe_checkout_session_id: string | null
+          updated_at: string
+          user_id: string
+          workflow_id: string
+        }
+        Insert: {
+          amount_discounted: number
+          created_at?: string
+          currency: string
+          discount_code_id: string
+          id?: string
+          status?: string
+          stripe_checkout_session_id?: string | null
+          updated_at?: string
+          user_id: string
+          workflow_id: string
+        }
+        Update: {
+          amount_discounted?: number
+          created_at?: string
+          currency?: string
+          discount_code_id?: string
+          id?: string
+          status?: string
+          stripe_checkout_session_id?: string | null
+          updated_at?: string
+          user_id?: string
+          workflow_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "discount_redemptions_discount_code_id_fkey"
+            columns: ["discount_code_id"]
+            isOneToOne: false
+            referencedRelation: "discount_codes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "discount_redemptions_workflow_id_fkey"
+            columns: ["workflow_id"]
+            isOneToOne: false
+            referencedRelation: "certification_workflows"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      exam_attempt_question_results: {
+        Row: {
+          attempt_id: string
+          created_at: string
+          questions: Json
+          workflow_id: string
+        }
+        Insert: {
+          attempt_id: string
+          created_at?: string
+          questions?: Json
+          workflow_id: string
+        }
+        Update: {
+          attempt_id?: string
+          created_at?: string
+          questions?: Json
+          workflow_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "exam_attempt_question_results_attempt_id_fkey"
+            columns: ["attempt_id"]
+            isOneToOne: true
+            referencedRelation: "exam_attempts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "exam_attempt_question_results_workflow_id_fkey"
+            columns: ["workflow_id"]
+            isOneToOne: false
+            referencedRelation: "certification_workflows"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      exam_attempts: {
+        Row: {
+          answers: Json
+          attempt_number: number
+          created_at: string
+          id: string
+          level: number
+          max_score: number | null
+          passed: boolean | null
+          percentage: number | null
+          results_json: Json | null
+          score: number | null
+          source: string
+          started_at: string | null
+          submission_id: string | null
+          submitted_at: string
+          user_id: string
+          workflow_id: string
+        }
+        Insert: {
+          answers?: Json
+          attempt_number: number
+          created_at?: string
+          id?: string
+          level: number
+          max_score?: number | null
+          passed?: boolean | null
+          percentage?: number | null
+          results_json?: Json | null
+          score?: number | null
+          source?: string
+          started_at?: string | null
+          submission_id?: string | null
+          submitted_at?: string
+          user_id: string
+          workflow_id: string
+        }
+        Update: {
+          answers?: Json
+          attempt_number?: number
+          created_at?: string
+          id?: string
+          level?: number
+          max_score?: number | null
+          passed?: boolean | null
+          percentage?: number | null
+          results_json?: Json | null
+          score?: number | null
+          source?: string
+          started_at?: string | null
+          submission_id?: string | null
+          submitted_at?: string
+          user_id?: string
+          workflow_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "exam_attempts_workflow_id_fkey"
+            columns: ["workflow_id"]
+            isOneToOne: false
+            referencedRelation: "certification_workflows"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      exam_questions: {
+        Row: {
+          correct_answers: Json
+          course_id: string
+          created_at: string
+          id: string
+          options: Json
+          order_index: number
+          points: number
+          prompt: string
+          question_type: Database["public"]["Enums"]["app_question_type"]
+          updated_at: string
+        }
+        Insert: {
+          correct_answers?: Json
+          course_id: string
+          created_at?: string
+          id?: string
+          options?: Json
+          order_index: number
+          points?: number
+          prompt: string
+          question_type?: Database["public"]["Enums"]["app_question_type"]
+          updated_at?: string
+        }
+        Update: {
+          correct_answers?: Json
+          course_id?: string
+          created_at?: string
+          id?: string
+          options?: Json
+          order_index?: number
+          points?: number
+          prompt?: string
+          question_type?: Database["public"]["Enums"]["app_question_type"]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "exam_questions_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lessons: {
+        Row: {
+          content: string | null
+          course_id: string
+          created_at: string
+          duration_minutes: number | null
+          id: string
+          order_index: number
+          title: string
+          updated_at: string
+          video_url: string | null
+        }
+        Insert: {
+          content?: string | null
+          course_id: string
+          created_at?: string
+          duration_minutes?: number | null
+          id?: string
+          order_index: number
+          title: string
+          updated_at?: string
+          video_url?: string | null
+        }
+        Update: {
+          content?: string | null
+          course_id?: string
+          created_at?: string
+          duration_minutes?: number | null
+          id?: string
+          order_index?: number
+          title?: string
+          updated_at?: string
+          video_url?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lessons_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_emails: {
+        Row: {
+          attempts: number
+          body_html: string
+          body_text: string
+          created_at: string
+          dedupe_key: string | null
+          id: string
+          last_error: string | null
+          max_attempts: number
+          next_attempt_at: string
+          payload: Json
+          recipient_email: string
+          recipient_user_id: string
+          sent_at: string | null
+          status: string
+          subject: string
+          transport: string | null
+          type: string
+          updated_at: string
+          workflow_id: string | null
+        }
+        Insert: {
+          attempts?: number
+          body_html: string
+          body_text: string
+          created_at?: string
+          dedupe_key?: string | null
+          id?: string
+          last_error?: string | null
+          max_attempts?: number
+          next_attempt_at?: string
+          payload?: Json
+          recipient_email: string
+          recipient_user_id: string
+          sent_at?: string | null
+          status?: string
+          subject: string
+          transport?: string | null
+          type: string
+          updated_at?: string
+          workflow_id?: string | null
+        }
+        Update: {
+          attempts?: number
+          body_html?: string
+          body_text?: string
+          created_at?: string
+          dedupe_key?: string | null
+          id?: string
+          last_error?: string | null
+          max_attempts?: number
+          next_attempt_at?: string
+          payload?: Json
+          recipient_email?: string
+          recipient_user_id?: string
+          sent_at?: string | null
+          status?: string
+          subject?: string
+          transport?: string | null
+          type?: string
+          updated_at?: string
+          workflow_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_emails_workflow_id_fkey"
+            columns: ["workflow_id"]
+            isOneToOne: false
+            referencedRelation: "certification_workflows"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_preferences: {
+        Row: {
+          comment_reply: boolean
+          course_content: boolean
+          created_at: string
+          email_enabled: boolean
+          updated_at: string
+          user_id: string
+          workflow_status: boolean
+        }
+        Insert: {
+          comment_reply?: boolean
+          course_content?: boolean
+          created_at?: string
+          email_enabled?: boolean
+          updated_at?: string
+          user_id: string
+          workflow_status?: boolean
+        }
+        Update: {
+          comment_reply?: boolean
+          course_content?: boolean
+          created_at?: string
+          email_enabled?: boolean
+          updated_at?: string
+          user_id?: string
+          workflow_status?: boolean
+        }
+        Relationships: []
+      }
+      notifications: {
+        Row: {
+          body: string | null
+          created_at: string
+          data: Json
+          id: string
+          link: string | null
+          read_at: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Insert: {
+          body?: string | null
+          created_at?: string
+          data?: Json
+          id?: string
+          link?: string | null
+          read_at?: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Update: {
+          body?: string | null
+          created_at?: string
+          data?: Json
+          id?: string
+          link?: string | null
+          read_at?: string | null
+          title?: string
+          type?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      open_badge_credentials: {
+        Row: {
+          credential: Json
+          id: string
+          issued_at: string
+          level: number
+          superseded_at: string | null
+          user_id: string
+          workflow_id: string
+        }
+        Insert: {
+          credential: Json
+          id?: string
+          issued_at?: string
+          level: number
+          superseded_at?: string | null
+          user_id: string
+          workflow_id: string
+        }
+        Update: {
+          credential?: Json
           id?: string
-          is_available?: boolean
-          is_coming_soon?: boolean
+          issued_at?: string
           level?: number
-          title?: string
-          updated_at?: string
+          superseded_at?: string | null
+          user_id?: string
+          workflow_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "open_badge_credentials_workflow_id_fkey"
+            columns: ["workflow_id"]
+            isOneToOne: true
+            referencedRelation: "certification_workflows"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      lessons: {
+      payment_events: {
         Row: {
-          content: string | null
-          course_id: string
+          amount: number | null
           created_at: string
-          duration_minutes: number | null
+          currency: string | null
+          event_type: string
           id: string
-          order_index: number
-          title: string
-          updated_at: string
-          video_url: string | null
+          new_subscription_status: Database["public"]["Enums"]["app_subscription_status"] | null
+          payload: Json | null
+          previous_subscription_status: Database["public"]["Enums"]["app_subscription_status"] | null
+          reason: string | null
+          stripe_event_id: string
+          stripe_object_id: string
+          user_id: string | null
+          workflow_id: string | null
         }
         Insert: {
-          content?: string | null
-          course_id: string
+          amount?: number | null
           created_at?: string
-          duration_minutes?: number | null
+          currency?: string | null
+          event_type: string
           id?: string
-          order_index: number
-          title: string
-          updated_at?: string
-          video_url?: string | null
+          new_subscription_status?: Database["public"]["Enums"]["app_subscription_status"] | null
+          payload?: Json | null
+          previous_subscription_status?: Database["public"]["Enums"]["app_subscription_status"] | null
+          reason?: string | null
+          stripe_event_id: string
+          stripe_object_id: string
+          user_id?: string | null
+          workflow_id?: string | null
         }
         Update: {
-          content?: string | null
-          course_id?: string
+          amount?: number | null
           created_at?: string
-          duration_minutes?: number | null
+          currency?: string | null
+          event_type?: string
           id?: string
-          order_index?: number
-          title?: string
-          updated_at?: string
-          video_url?: string | null
+          new_subscription_status?: Database["public"]["Enums"]["app_subscription_status"] | null
+          payload?: Json | null
+          previous_subscription_status?: Database["public"]["Enums"]["app_subscription_status"] | null
+          reason?: string | null
+          stripe_event_id?: string
+          stripe_object_id?: string
+          user_id?: string | null
+          workflow_id?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "lessons_course_id_fkey"
-            columns: ["course_id"]
+            foreignKeyName: "payment_events_workflow_id_fkey"
+            columns: ["workflow_id"]
             isOneToOne: false
-            referencedRelation: "courses"
+            referencedRelation: "certification_workflows"
             referencedColumns: ["id"]
           },
         ]
@@ -259,6 +1073,7 @@ export type Database = {
           city: string
           country: string
           created_at: string
+          directory_visible: boolean
           employment_status:
             | Database["public"]["Enums"]["app_employment_status"]
             | null
@@ -281,6 +1096,7 @@ export type Database = {
           city?: string
           country?: string
           created_at?: string
+          directory_visible?: boolean
           employment_status?:
             | Database["public"]["Enums"]["app_employment_status"]
             | null
@@ -303,6 +1119,7 @@ export type Database = {
           city?: string
           country?: string
           created_at?: string
+          directory_visible?: boolean
           employment_status?:
             | Database["public"]["Enums"]["app_employment_status"]
             | null
@@ -320,6 +1137,100 @@ export type Database = {
         }
         Relationships: []
       }
+      quiz_attempts: {
+        Row: {
+          answers: Json
+          created_at: string
+          id: string
+          max_score: number
+          pass_percentage: number | null
+          passed: boolean
+          percentage: number
+          score: number
+          subsection_id: string
+          user_id: string
+        }
+        Insert: {
+          answers?: Json
+          created_at?: string
+          id?: string
+          max_score: number
+          pass_percentage?: number | null
+          passed?: boolean
+          percentage: number
+          score: number
+          subsection_id: string
+          user_id: string
+        }
+        Update: {
+          answers?: Json
+          created_at?: string
+          id?: string
+          max_score?: number
+          pass_percentage?: number | null
+          passed?: boolean
+          percentage?: number
+          score?: number
+          subsection_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quiz_attempts_subsection_id_fkey"
+            columns: ["subsection_id"]
+            isOneToOne: false
+            referencedRelation: "subsections"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      quiz_questions: {
+        Row: {
+          correct_answers: Json
+          created_at: string
+          id: string
+          options: Json
+          order_index: number
+          points: number
+          prompt: string
+          question_type: Database["public"]["Enums"]["app_question_type"]
+          subsection_id: string
+          updated_at: string
+        }
+        Insert: {
+          correct_answers?: Json
+          created_at?: string
+          id?: string
+          options?: Json
+          order_index: number
+          points?: number
+          prompt: string
+          question_type?: Database["public"]["Enums"]["app_question_type"]
+          subsection_id: string
+          updated_at?: string
+        }
+        Update: {
+          correct_answers?: Json
+          created_at?: string
+          id?: string
+          options?: Json
+          order_index?: number
+          points?: number
+          prompt?: string
+          question_type?: Database["public"]["Enums"]["app_question_type"]
+          subsection_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quiz_questions_subsection_id_fkey"
+            columns: ["subsection_id"]
+            isOneToOne: false
+            referencedRelation: "subsections"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       sections: {
         Row: {
           course_id: string
@@ -358,6 +1269,45 @@ export type Database = {
           },
         ]
       }
+      stripe_events: {
+        Row: {
+          attempts: number
+          error: string | null
+          id: string
+          livemode: boolean
+          payload: Json
+          processed_at: string | null
+          received_at: string
+          status: string
+          type: string
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          error?: string | null
+          id: string
+          livemode?: boolean
+          payload: Json
+          processed_at?: string | null
+          received_at?: string
+          status?: string
+          type: string
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          error?: string | null
+          id?: string
+          livemode?: boolean
+          payload?: Json
+          processed_at?: string | null
+          received_at?: string
+          status?: string
+          type?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       subsection_attachments: {
         Row: {
           created_at: string
@@ -391,47 +1341,109 @@ export type Database = {
         }
         Relationships: []
       }
+      subsection_captions: {
+        Row: {
+          created_at: string
+          file_name: string
+          file_url: string
+          id: string
+          label: string
+          language: string
+          subsection_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          file_name: string
+          file_url: string
+          id?: string
+          label: string
+          language: string
+          subsection_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          file_name?: string
+          file_url?: string
+          id?: string
+          label?: string
+          language?: string
+          subsection_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "subsection_captions_subsection_id_fkey"
+            columns: ["subsection_id"]
+            isOneToOne: false
+            referencedRelation: "subsections"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       subsections: {
         Row: {
+          chapters: Json
+          completion_min_minutes: number | null
+          completion_min_video_percentage: number | null
+          completion_requires_quiz_pass: boolean
           content: string | null
           created_at: string
           duration_minutes: number | null
           id: string
           order_index: number
           quiz_height: number | null
+          quiz_pass_percentage: number
           quiz_url: string | null
           section_id: string
           subsection_type: string
           title: string
+          transcript: string | null
           updated_at: string
+          video_duration_seconds: number | null
           video_url: string | null
         }
         Insert: {
+          chapters?: Json
+          completion_min_minutes?: number | null
+          completion_min_video_percentage?: number | null
+          completion_requires_quiz_pass?: boolean
           content?: string | null
           created_at?: string
           duration_minutes?: number | null
           id?: string
           order_index: number
           quiz_height?: number | null
+          quiz_pass_percentage?: number
           quiz_url?: string | null
           section_id: string
           subsection_type?: string
           title: string
+          transcript?: string | null
           updated_at?: string
+          video_duration_seconds?: number | null
           video_url?: string | null
         }
         Update: {
+          chapters?: Json
+          completion_min_minutes?: number | null
+          completion_min_video_percentage?: number | null
+          completion_requires_quiz_pass?: boolean
           content?: string | null
           created_at?: string
           duration_minutes?: number | null
           id?: string
           order_index?: number
           quiz_height?: number | null
+          quiz_pass_percentage?: number
           quiz_url?: string | null
           section_id?: string
           subsection_type?: string
           title?: string
+          transcript?: string | null
           updated_at?: string
+          video_duration_seconds?: number | null
           video_url?: string | null
         }
         Relationships: [
@@ -450,33 +1462,45 @@ export type Database = {
           course_id: string
           created_at: string
           id: string
+          last_activity_at: string | null
           lesson_id: string | null
           progress_percentage: number | null
           subsection_id: string | null
+          time_spent_seconds: number
           updated_at: string
           user_id: string
+          video_position_seconds: number | null
+          video_watched_percentage: number
         }
         Insert: {
           completed_at?: string | null
           course_id: string
           created_at?: string
           id?: string
+          last_activity_at?: string | null
           lesson_id?: string | null
           progress_percentage?: number | null
           subsection_id?: string | null
+          time_spent_seconds?: number
           updated_at?: string
           user_id: string
+          video_position_seconds?: number | null
+          video_watched_percentage?: number
         }
         Update: {
           completed_at?: string | null
           course_id?: string
           created_at?: string
           id?: string
+          last_activity_at?: string | null
           lesson_id?: string | null
           progress_percentage?: number | null
           subsection_id?: string | null
+          time_spent_seconds?: number
           updated_at?: string
           user_id?: string
+          video_position_seconds?: number | null
+          video_watched_percentage?: number
         }
         Relationships: [
           {
@@ -516,6 +1540,53 @@ export type Database = {
         }
         Relationships: []
       }
+      workflow_transitions: {
+        Row: {
+          actor_id: string | null
+          changes: Json
+          created_at: string
+          from_step: Database["public"]["Enums"]["app_workflow_step"]
+          id: string
+          reason: string | null
+          source: string
+          to_step: Database["public"]["Enums"]["app_workflow_step"]
+          user_id: string
+          workflow_id: string
+        }
+        Insert: {
+          actor_id?: string | null
+          changes?: Json
+          created_at?: string
+          from_step: Database["public"]["Enums"]["app_workflow_step"]
+          id?: string
+          reason?: string | null
+          source: string
+          to_step: Database["public"]["Enums"]["app_workflow_step"]
+          user_id: string
+          workflow_id: string
+        }
+        Update: {
+          actor_id?: string | null
+          changes?: Json
+          created_at?: string
+          from_step?: Database["public"]["Enums"]["app_workflow_step"]
+          id?: string
+          reason?: string | null
+          source?: string
+          to_step?: Database["public"]["Enums"]["app_workflow_step"]
+          user_id?: string
+          workflow_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workflow_transitions_workflow_id_fkey"
+            columns: ["workflow_id"]
+            isOneToOne: false
+            referencedRelation: "certification_workflows"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
@@ -525,10 +1596,108 @@ export type Database = {
         Args: { user_id_param: string; course_level_param: number }
         Returns: boolean
       }
+      certification_standing: {
+        Args: {
+          _workflow: Database["public"]["Tables"]["certification_workflows"]["Row"]
+        }
+        Returns: string
+      }
+      change_certification_status: {
+        Args: {
+          _workflow_id: string
+          _action: string
+          _reason: string
+          _performed_by: string
+        }
+        Returns: {
+          admin_approval_status: Database["public"]["Enums"]["app_admin_approval_status"]
+          certification_expires_at: string | null
+          certification_status: Database["public"]["Enums"]["app_certification_status"]
+          certification_status_changed_at: string | null
+          certification_status_reason: string | null
+          completed_at: string | null
+          contract_doc_url: string | null
+          contract_document_id: string | null
+          contract_provider: string | null
+          contract_signed_pdf_url: string | null
+          contract_status: Database["public"]["Enums"]["app_contract_status"]
+          course_id: string
+          created_at: string
+          current_step: Database["public"]["Enums"]["app_workflow_step"]
+          exam_results_json: Json | null
+          exam_started_at: string | null
+          exam_status: Database["public"]["Enums"]["app_exam_status"]
+          exam_submission_url: string | null
+          exam_submitted_at: string | null
+          id: string
+          level: number
+          stripe_checkout_session_id: string | null
+          stripe_customer_id: string | null
+          stripe_payment_intent_id: string | null
+          stripe_subscription_id: string | null
+          subscription_status: Database["public"]["Enums"]["app_subscription_status"]
+          updated_at: string
+          user_id: string
+        }
+      }
+      claim_notification_emails: {
+        Args: {
+          _limit?: number
+        }
+        Returns: {
+          attempts: number
+          body_html: string
+          body_text: string
+          created_at: string
+          dedupe_key: string | null
+          id: string
+          last_error: string | null
+          max_attempts: number
+          next_attempt_at: string
+          payload: Json
+          recipient_email: string
+          recipient_user_id: string
+          sent_at: string | null
+          status: string
+          subject: string
+          transport: string | null
+          type: string
+          updated_at: string
+          workflow_id: string | null
+        }[]
+      }
+      create_notification: {
+        Args: {
+          _user_id: string
+          _type: string
+          _title: string
+          _body: string
+          _link: string
+          _data?: Json
+        }
+        Returns: undefined
+      }
       get_current_user_role: {
         Args: Record<PropertyKey, never>
         Returns: Database["public"]["Enums"]["app_role"]
       }
+      get_exam_eligibility: {
+        Args: { _course_id: string; _user_id: string }
+        Returns: {
+          attempts_used: number
+          available_until: string
+          eligible: boolean
+          lowest_quiz_percentage: number
+          max_attempts: number
+          next_attempt_at: string
+          reason: string
+          required_quiz_percentage: number
+        }[]
+      }
+      get_subsection_completion_blockers: {
+        Args: { _subsection_id: string; _user_id: string }
+        Returns: string[]
+      }
       has_role: {
         Args: {
           _user_id: string
@@ -536,9 +1705,139 @@ export type Database = {
         }
         Returns: boolean
       }
+      record_subsection_activity: {
+        Args: {
+          _subsection_id: string
+          _video_position_seconds?: number
+          _video_watched_percentage?: number
+        }
+        Returns: string[]
+      }
+      reserve_discount_redemption: {
+        Args: {
+          _discount_code_id: string
+          _workflow_id: string
+          _user_id: string
+          _amount_discounted: number
+          _currency: string
+        }
+        Returns: string
+      }
+      review_certification: {
+        Args: {
+          _workflow_id: string
+          _decision: Database["public"]["Enums"]["app_admin_approval_status"]
+          _notes: string
+          _reviewer_id: string
+        }
+        Returns: {
+          admin_approval_status: Database["public"]["Enums"]["app_admin_approval_status"]
+          certification_expires_at: string | null
+          certification_status: Database["public"]["Enums"]["app_certification_status"]
+          certification_status_changed_at: string | null
+          certification_status_reason: string | null
+          completed_at: string | null
+          contract_doc_url: string | null
+          contract_document_id: string | null
+          contract_provider: string | null
+          contract_signed_pdf_url: string | null
+          contract_status: Database["public"]["Enums"]["app_contract_status"]
+          course_id: string
+          created_at: string
+          current_step: Database["public"]["Enums"]["app_workflow_step"]
+          exam_results_json: Json | null
+          exam_started_at: string | null
+          exam_status: Database["public"]["Enums"]["app_exam_status"]
+          exam_submission_url: string | null
+          exam_submitted_at: string | null
+          id: string
+          level: number
+          stripe_checkout_session_id: string | null
+          stripe_customer_id: string | null
+          stripe_payment_intent_id: string | null
+          stripe_subscription_id: string | null
+          subscription_status: Database["public"]["Enums"]["app_subscription_status"]
+          updated_at: string
+          user_id: string
+        }
+      }
+      search_specialist_directory: {
+        Args: {
+          _region?: string
+          _language?: string
+          _level?: number
+        }
+        Returns: {
+          profile_id: string
+          first_name: string
+          last_name: string
+          avatar_url: string
+          city: string
+          province_state: string
+          country: string
+          occupation: string
+          service_regions: string[]
+          languages_spoken: string[]
+          certified_levels: number[]
+        }[]
+      }
+      transition_workflow: {
+        Args: {
+          _workflow_id: string
+          _to_step?: Database["public"]["Enums"]["app_workflow_step"]
+          _changes?: Json
+          _source?: string
+          _actor_id?: string
+          _reason?: string
+        }
+        Returns: {
+          admin_approval_status: Database["public"]["Enums"]["app_admin_approval_status"]
+          certification_expires_at: string | null
+          certification_status: Database["public"]["Enums"]["app_certification_status"]
+          certification_status_changed_at: string | null
+          certification_status_reason: string | null
+          completed_at: string | null
+          contract_doc_url: string | null
+          contract_document_id: string | null
+          contract_provider: string | null
+          contract_signed_pdf_url: string | null
+          contract_status: Database["public"]["Enums"]["app_contract_status"]
+          course_id: string
+          created_at: string
+          current_step: Database["public"]["Enums"]["app_workflow_step"]
+          exam_results_json: Json | null
+          exam_started_at: string | null
+          exam_status: Database["public"]["Enums"]["app_exam_status"]
+          exam_submission_url: string | null
+          exam_submitted_at: string | null
+          id: string
+          level: number
+          stripe_checkout_session_id: string | null
+          stripe_customer_id: string | null
+          stripe_payment_intent_id: string | null
+          stripe_subscription_id: string | null
+          subscription_status: Database["public"]["Enums"]["app_subscription_status"]
+          updated_at: string
+          user_id: string
+        }
+      }
+      verify_certificate: {
+        Args: { _serial: string }
+        Returns: {
+          serial: string
+          recipient_name: string
+          level: number
+          course_title: string
+          completed_at: string
+          issued_at: string
+          expires_at: string
+          status: string
+        }[]
+      }
     }
     Enums: {
       app_admin_approval_status: "pending" | "approved" | "rejected"
+      app_certification_status: "active" | "suspended" | "revoked"
       app_contract_status:
         | "not_required"
         | "pending_signing"
@@ -578,12 +1877,19 @@ export type Database = {
         | "Social Worker / Community Support"
         | "Construction / Renovation Worker"
         | "None of the Above – Other"
+      app_question_type:
+        | "single_choice"
+        | "multiple_choice"
+        | "true_false"
+        | "short_answer"
       app_role: "student" | "admin"
       app_subscription_status:
         | "not_required"
         | "pending_payment"
         | "paid"
         | "cancelled"
+        | "past_due"
+        | "expired"
       app_workflow_step:
         | "exam"
         | "approval"
@@ -718,6 +2024,7 @@ export const Constants = {
   public: {
     Enums: {
       app_admin_approval_status: ["pending", "approved", "rejected"],
+      app_certification_status: ["active", "suspended", "revoked"],
       app_contract_status: [
         "not_required",
         "pending_signing",
@@ -761,12 +2068,20 @@ export const Constants = {
         "Construction / Renovation Worker",
         "None of the Above – Other",
       ],
+      app_question_type: [
+        "single_choice",
+        "multiple_choice",
+        "true_false",
+        "short_answer",
+      ],
       app_role: ["student", "admin"],
       app_subscription_status: [
         "not_required",
         "pending_payment",
         "paid",
         "cancelled",
+        "past_due",
+        "expired",
       ],
       app_workflow_step: [
         "exam",
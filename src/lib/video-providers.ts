@@ -0,0 +1,203 @@
+// Video URL detection and player API loading for the providers VideoPlayer supports
+
+import { supabase } from '@/integrations/supabase/client';
+
+export type VideoProvider = 'youtube' | 'vimeo' | 'wistia' | 'loom' | 'hls' | 'file';
+
+export interface VideoSource {
+  provider: VideoProvider;
+  url: string;
+  // Provider-specific video id; absent for hls and file sources
+  videoId?: string;
+}
+
+// Imperative API VideoPlayer exposes so the transcript and chapter list can jump in the video
+export interface VideoPlayerHandle {
+  seekTo: (seconds: number) => void;
+}
+
+export const VIDEO_PROVIDER_LABELS: Record<VideoProvider, string> = {
+  youtube: 'YouTube',
+  vimeo: 'Vimeo',
+  wistia: 'Wistia',
+  loom: 'Loom',
+  hls: 'HLS stream',
+  file: 'Video file',
+};
+
+const PROVIDER_PATTERNS: { provider: VideoProvider; pattern: RegExp }[] = [
+  { provider: 'youtube', pattern: /(?:youtube\.com\/(?:watch\?(?:.*&)?v=|embed\/|shorts\/|live\/)|youtu\.be\/)([\w-]{11})/ },
+  { provider: 'vimeo', pattern: /vimeo\.com\/(?:video\/)?(\d+)/ },
+  { provider: 'wistia', pattern: /(?:wistia\.(?:com|net)\/(?:medias|embed\/iframe)\/|wi\.st\/medias\/)([a-z0-9]+)/i },
+  { provider: 'loom', pattern: /loom\.com\/(?:share|embed)\/([a-zA-Z0-9]+)/ },
+];
+
+export const detectVideoSource = (url: string): VideoSource => {
+  const trimmed = url.trim();
+
+  for (const { provider, pattern } of PROVIDER_PATTERNS) {
+    const match = trimmed.match(pattern);
+    if (match) return { provider, url: trimmed, videoId: match[1] };
+  }
+
+  // Query strings on signed storage URLs must not hide the extension
+  const path = trimmed.split(/[?#]/)[0];
+  if (path.toLowerCase().endsWith('.m3u8')) {
+    return { provider: 'hls', url: trimmed };
+  }
+
+  return { provider: 'file', url: trimmed };
+};
+
+const STORAGE_ORIGIN = new URL(supabase.storage.from('subsection-videos').getPublicUrl('').data.publicUrl).origin;
+
+// Caption tracks are served from storage, so a video showing them is requested with CORS.
+// Hosts that send no CORS headers then refuse the video itself; only our storage and this
+// site are known to allow it.
+export const supportsCaptionTracks = (url: string): boolean => {
+  try {
+    const { origin } = new URL(url.trim(), window.location.href);
+    return origin === STORAGE_ORIGIN || origin === window.location.origin;
+  } catch {
+    return false;
+  }
+};
+
+const scriptLoads = new Map<string, Promise<void>>();
+
+// Loads a third-party player script once per page, however many players ask for it
+export const loadScript = (src: string): Promise<void> => {
+  const existing = scriptLoads.get(src);
+  if (existing) return existing;
+
+  const load = new Promise<void>((resolve, reject) => {
+    const script = document.createElement('script');
+    script.src = src;
+    script.async = true;
+    script.onload = () => resolve();
+    script.onerror = () => {
+      scriptLoads.delete(src);
+      reject(new Error(`Failed to load ${src}`));
+    };
+    document.head.appendChild(script);
+  });
+
+  scriptLoads.set(src, load);
+  return load;
+};
+
+export const PLAYER_SCRIPTS = {
+  youtube: 'https://www.youtube.com/iframe_api',
+  vimeo: 'https://player.vimeo.com/api/player.js',
+  wistia: 'https://fast.wistia.com/assets/external/E-v1.js',
+  hls: 'https://cdn.jsdelivr.net/npm/hls.js@1.5.15/dist/hls.min.js',
+} as const;
+
+// Minimal typings for the parts of each provider API the players use
+export interface YouTubePlayer {
+  getCurrentTime(): number;
+  getDuration(): number;
+  getPlayerState(): number;
+  seekTo(seconds: number, allowSeekAhead: boolean): void;
+  destroy(): void;
+}
+
+interface YouTubeApi {
+  Player: new (element: HTMLElement, options: {
+    videoId: string;
+    width?: string;
+    height?: string;
+    playerVars?: Record<string, number>;
+    events?: {
+      onReady?: () => void;
+      onStateChange?: (event: { data: number }) => void;
+    };
+  }) => YouTubePlayer;
+  PlayerState: { ENDED: number; PLAYING: number };
+}
+
+export interface VimeoPlayer {
+  on(event: 'loaded' | 'ended', callback: () => void): void;
+  on(event: 'timeupdate', callback: (data: { seconds: number; duration: number }) => void): void;
+  getDuration(): Promise<number>;
+  setCurrentTime(seconds: number): Promise<number>;
+  destroy(): Promise<void>;
+}
+
+interface VimeoApi {
+  Player: new (element: HTMLElement, options: { url: string; responsive?: boolean; dnt?: boolean }) => VimeoPlayer;
+}
+
+export interface WistiaVideo {
+  bind(event: 'timechange', callback: (seconds: number) => void): void;
+  bind(event: 'end', callback: () => void): void;
+  duration(): number;
+  time(seconds: number): void;
+  remove(): void;
+}
+
+export interface WistiaQueueEntry {
+  id: string;
+  onReady: (video: WistiaVideo) => void;
+}
+
+interface HlsInstance {
+  loadSource(url: string): void;
+  attachMedia(media: HTMLMediaElement): void;
+  destroy(): void;
+}
+
+interface HlsApi {
+  new (): HlsInstance;
+  isSupported(): boolean;
+}
+
+declare global {
+  interface Window {
+    YT?: YouTubeApi;
+    onYouTubeIframeAPIReady?: () => void;
+    Vimeo?: VimeoApi;
+    _wq?: (WistiaQueueEntry | { revoke: WistiaQueueEntry })[];
+    Hls?: HlsApi;
+  }
+}
+
+// The YouTube script finishes loading before the API is usable; it calls back when ready
+export const loadYouTubeApi = (): Promise<YouTubeApi> => {
+  if (window.YT?.Player) return Promise.resolve(window.YT);
+
+  return new Promise((resolve, reject) => {
+    const previousCallback = window.onYouTubeIframeAPIReady;
+    window.onYouTubeIframeAPIReady = () => {
+      previousCallback?.();
+      resolve(window.YT!);
+    };
+    loadScript(PLAYER_SCRIPTS.youtube).catch(reject);
+  });
+};
+
+export const loadVimeoApi = async (): Promise<VimeoApi> => {
+  await loadScript(PLAYER_SCRIPTS.vimeo);
+  if (!window.Vimeo) throw new Error('Vimeo player API unavailable');
+  return window.Vimeo;
+};
+
+export const loadHlsApi = async (): Promise<HlsApi> => {
+  await loadScript(PLAYER_SCRIPTS.hls);
+  if (!window.Hls) throw new Error('HLS player unavailable');
+  return window.Hls;
+};
+
+// Wistia embeds register through the _wq queue, which works before and after the script loads
+export const queueWistiaEmbed = (entry: WistiaQueueEntry): Promise<void> => {
+  window._wq = window._wq || [];
+  window._wq.push(entry);
+  return loadScript(PLAYER_SCRIPTS.wistia);
+};
+
+// Wistia keeps running queued entries for every later embed of the same video, so a player
+// that is torn down has to withdraw its entry or it would act on the next one
+export const revokeWistiaEmbed = (entry: WistiaQueueEntry) => {
+  window._wq = window._wq || [];
+  window._wq.push({ revoke: entry });
+};
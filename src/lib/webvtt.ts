@@ -0,0 +1,60 @@
+// WebVTT parsing for transcripts, plus the timestamp format used for chapter markers
+
+export interface TranscriptCue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// Accepts hh:mm:ss.mmm, mm:ss.mmm and the shorter m:ss / h:mm:ss forms admins type by hand
+export const parseTimestamp = (value: string): number | null => {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{2})(?:[.,](\d{1,3}))?$/);
+  if (!match) return null;
+
+  const [, hours, minutes, seconds, millis] = match;
+  if (Number(seconds) >= 60) return null;
+
+  return (Number(hours ?? 0) * 3600)
+    + (Number(minutes) * 60)
+    + Number(seconds)
+    + (millis ? Number(millis.padEnd(3, '0')) / 1000 : 0);
+};
+
+export const formatTimestamp = (totalSeconds: number): string => {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = Math.floor(totalSeconds % 60);
+  const paddedSeconds = seconds.toString().padStart(2, '0');
+  return hours > 0
+    ? `${hours}:${minutes.toString().padStart(2, '0')}:${paddedSeconds}`
+    : `${minutes}:${paddedSeconds}`;
+};
+
+const CUE_TIMING = /^(\S+)\s+-->\s+(\S+)/;
+
+// Cue text keeps line breaks as spaces and drops voice/styling tags such as <v Speaker>
+export const parseWebVtt = (source: string): TranscriptCue[] => {
+  const blocks = source.replace(/\r\n?/g, '\n').split(/\n{2,}/);
+  const cues: TranscriptCue[] = [];
+
+  for (const block of blocks) {
+    const lines = block.split('\n').filter(line => line.trim() !== '');
+    const timingIndex = lines.findIndex(line => CUE_TIMING.test(line));
+    if (timingIndex === -1) continue;
+
+    const [, startValue, endValue] = lines[timingIndex].match(CUE_TIMING)!;
+    const start = parseTimestamp(startValue);
+    const end = parseTimestamp(endValue);
+    if (start === null || end === null) continue;
+
+    const text = lines
+      .slice(timingIndex + 1)
+      .join(' ')
+      .replace(/<[^>]+>/g, '')
+      .trim();
+
+    if (text) cues.push({ start, end, text });
+  }
+
+  return cues.sort((a, b) => a.start - b.start);
+};
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
@@ -11,6 +11,7 @@ import { Separator } from '@/components/ui/separator';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
 import { ArrowLeft, Save, Trash2, Shield, Mail, Bell } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { DEFAULT_NOTIFICATION_PREFERENCES, NotificationPreferences } from '@/types/notification';
 
 
 const AccountSettings = () => {
@@ -26,12 +27,28 @@ const AccountSettings = () => {
   const [emailData, setEmailData] = useState({
     newEmail: user?.email || '',
   });
-  const [notifications, setNotifications] = useState({
-    emailNotifications: true,
-    courseUpdates: true,
-    progressReminders: true,
-    marketingEmails: false,
-  });
+  const [notifications, setNotifications] = useState<NotificationPreferences>(DEFAULT_NOTIFICATION_PREFERENCES);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchNotificationPreferences = async () => {
+      const { data, error } = await supabase
+        .from('notification_preferences')
+        .select('workflow_status, comment_reply, course_content, email_enabled')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching notification preferences:', error);
+        return;
+      }
+
+      if (data) setNotifications(data);
+    };
+
+    fetchNotificationPreferences();
+  }, [user]);
 
   const handlePasswordChange = async () => {
     if (passwordData.newPassword !== passwordData.confirmPassword) {
@@ -131,13 +148,27 @@ const AccountSettings = () => {
     }
   };
 
-  const handleNotificationToggle = (key: keyof typeof notifications) => {
-    setNotifications(prev => ({
-      ...prev,
-      [key]: !prev[key]
-    }));
-    
-    // Here you would typically save to database
+  const handleNotificationToggle = async (key: keyof NotificationPreferences) => {
+    if (!user) return;
+
+    const previous = notifications;
+    const updated = { ...notifications, [key]: !notifications[key] };
+    setNotifications(updated);
+
+    const { error } = await supabase
+      .from('notification_preferences')
+      .upsert({ user_id: user.id, ...updated }, { onConflict: 'user_id' });
+
+    if (error) {
+      setNotifications(previous);
+      toast({
+        title: "Error",
+        description: "Failed to save your notification preferences. Please try again.",
+        variant: "destructive",
+      });
+      return;
+    }
+
     toast({
       title: "Notification preferences updated",
       description: "Your notification settings have been saved.",
@@ -270,13 +301,13 @@ const AccountSettings = () => {
             <CardContent className="space-y-4">
               <div className="flex items-center justify-between">
                 <div>
-                  <Label htmlFor="email-notifications">Email Notifications</Label>
-                  <p className="text-sm text-muted-foreground">Receive notifications via email</p>
+                  <Label htmlFor="workflow-status">Certification Updates</Label>
+                  <p className="text-sm text-muted-foreground">Exam reviews, contracts and certification status changes</p>
                 </div>
                 <Switch
-                  id="email-notifications"
-                  checked={notifications.emailNotifications}
-                  onCheckedChange={() => handleNotificationToggle('emailNotifications')}
+                  id="workflow-status"
+                  checked={notifications.workflow_status}
+                  onCheckedChange={() => handleNotificationToggle('workflow_status')}
                 />
               </div>
 
@@ -284,13 +315,13 @@ const AccountSettings = () => {
 
               <div className="flex items-center justify-between">
                 <div>
-                  <Label htmlFor="course-updates">Course Updates</Label>
-                  <p className="text-sm text-muted-foreground">Get notified about new course content</p>
+                  <Label htmlFor="comment-replies">Comment Replies</Label>
+                  <p className="text-sm text-muted-foreground">When someone replies to one of your comments</p>
                 </div>
                 <Switch
-                  id="course-updates"
-                  checked={notifications.courseUpdates}
-                  onCheckedChange={() => handleNotificationToggle('courseUpdates')}
+                  id="comment-replies"
+                  checked={notifications.comment_reply}
+                  onCheckedChange={() => handleNotificationToggle('comment_reply')}
                 />
               </div>
 
@@ -298,13 +329,13 @@ const AccountSettings = () => {
 
               <div className="flex items-center justify-between">
                 <div>
-                  <Label htmlFor="progress-reminders">Progress Reminders</Label>
-                  <p className="text-sm text-muted-foreground">Reminders to continue your learning</p>
+                  <Label htmlFor="course-content">New Course Content</Label>
+                  <p className="text-sm text-muted-foreground">New lessons in courses you have started</p>
                 </div>
                 <Switch
-                  id="progress-reminders"
-                  checked={notifications.progressReminders}
-                  onCheckedChange={() => handleNotificationToggle('progressReminders')}
+                  id="course-content"
+                  checked={notifications.course_content}
+                  onCheckedChange={() => handleNotificationToggle('course_content')}
                 />
               </div>
 
@@ -312,13 +343,13 @@ const AccountSettings = () => {
 
               <div className="flex items-center justify-between">
                 <div>
-                  <Label htmlFor="marketing-emails">Marketing Emails</Label>
-                  <p className="text-sm text-muted-foreground">Receive promotional content and updates</p>
+                  <Label htmlFor="email-notifications">Email Notifications</Label>
+                  <p className="text-sm text-muted-foreground">Also email me about certification updates</p>
                 </div>
                 <Switch
-                  id="marketing-emails"
-                  checked={notifications.marketingEmails}
-                  onCheckedChange={() => handleNotificationToggle('marketingEmails')}
+                  id="email-notifications"
+                  checked={notifications.email_enabled}
+                  onCheckedChange={() => handleNotificationToggle('email_enabled')}
                 />
               </div>
             </CardContent>
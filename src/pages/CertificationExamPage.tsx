@@ -1,29 +1,57 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Loader2, BookOpen, AlertCircle, CheckCircle2 } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import { Loader2, BookOpen, AlertCircle, CheckCircle2, Timer, Send, MessageSquare, Hourglass } from 'lucide-react';
+import { format } from 'date-fns';
 import { useToast } from '@/hooks/use-toast';
+import QuestionField from '@/components/QuestionField';
+import { CertificationReviewRecord, ExamAnswer, ExamAttemptSession, ExamEligibility, ExamSubmissionResult, NativeExamResults } from '@/types/exam';
 
 interface CertificationWorkflow {
+  id: string;
   current_step: string;
   exam_status: string;
   admin_approval_status: string;
+  exam_results_json: Partial<NativeExamResults> | null;
 }
 
+const formatTimeLeft = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${minutes}:${secs.toString().padStart(2, '0')}`;
+};
+
+const formatCountdown = (seconds: number) => {
+  const days = Math.floor(seconds / 86400);
+  const clock = [Math.floor((seconds % 86400) / 3600), Math.floor((seconds % 3600) / 60), seconds % 60]
+    .map(n => n.toString().padStart(2, '0'))
+    .join(':');
+  return days > 0 ? `${days}d ${clock}` : clock;
+};
+
 const CertificationExamPage = () => {
   const { level } = useParams<{ level: string }>();
   const navigate = useNavigate();
   const { user } = useAuth();
   const { toast } = useToast();
   const [loading, setLoading] = useState(true);
-  const [examUrl, setExamUrl] = useState<string>('');
   const [workflow, setWorkflow] = useState<CertificationWorkflow | null>(null);
+  const [latestReview, setLatestReview] = useState<CertificationReviewRecord | null>(null);
   const [allSectionsCompleted, setAllSectionsCompleted] = useState(false);
   const [course, setCourse] = useState<any>(null);
+  const [session, setSession] = useState<ExamAttemptSession | null>(null);
+  const [answers, setAnswers] = useState<Record<string, ExamAnswer>>({});
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+  const [eligibility, setEligibility] = useState<ExamEligibility | null>(null);
+  const [secondsUntilNextAttempt, setSecondsUntilNextAttempt] = useState<number | null>(null);
+  const [starting, setStarting] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const submittedRef = useRef(false);
 
   useEffect(() => {
     if (user && level) {
@@ -38,7 +66,7 @@ const CertificationExamPage = () => {
       // Get course data including exam configuration
       const { data: courseData } = await supabase
         .from('courses')
-        .select('id, exam_instructions, exam_url, exam_duration_minutes')
+        .select('id, exam_instructions, exam_duration_minutes, exam_pass_percentage, exam_max_attempts, exam_cooldown_hours')
         .eq('level', levelNum)
         .single();
 
@@ -65,34 +93,41 @@ const CertificationExamPage = () => {
         const allCompleted = allSubsectionIds.length > 0 && allSubsectionIds.every(id => completedSubsectionIds.includes(id));
         setAllSectionsCompleted(allCompleted);
 
-        // Construct the pre-filled Google Form URL
-        let prefilledExamUrl = courseData.exam_url || '';
-        if (user?.id && level && prefilledExamUrl) {
-          const examCodeEntryId = "entry.2020796157"; // Google Form entry ID for ExamCode
-          const levelEntryId = "entry.1742429722";   // Google Form entry ID for certification level
-          
-          // Debug: log the values being used
-          console.log('User ID:', user.id);
-          console.log('Level:', level);
-          console.log('Pre-filled URL:', `${prefilledExamUrl}?${examCodeEntryId}=${encodeURIComponent(user.id)}&${levelEntryId}=${level}`);
-          
-          prefilledExamUrl = `${prefilledExamUrl}?${examCodeEntryId}=${encodeURIComponent(user.id)}&${levelEntryId}=${level}`;
-        }
-        setExamUrl(prefilledExamUrl);
-        
         // Store course data for instructions
         setCourse(courseData);
+
+        // The same policy check start-certification-exam enforces
+        const { data: eligibilityData, error: eligibilityError } = await supabase
+          .rpc('get_exam_eligibility', { _user_id: user!.id, _course_id: courseData.id })
+          .single();
+
+        if (eligibilityError) {
+          console.error('Error checking exam eligibility:', eligibilityError);
+        }
+        setEligibility((eligibilityData as ExamEligibility | null) ?? null);
       }
 
       // Fetch certification workflow
       const { data: workflowData } = await supabase
         .from('certification_workflows')
-        .select('current_step, exam_status, admin_approval_status')
+        .select('id, current_step, exam_status, admin_approval_status, exam_results_json')
         .eq('user_id', user!.id)
         .eq('level', levelNum)
         .maybeSingle();
 
-      setWorkflow(workflowData);
+      setWorkflow(workflowData as CertificationWorkflow | null);
+
+      if (workflowData) {
+        const { data: reviewData } = await supabase
+          .from('certification_reviews')
+          .select('*')
+          .eq('workflow_id', workflowData.id)
+          .order('created_at', { ascending: false })
+          .limit(1)
+          .maybeSingle();
+
+        setLatestReview(reviewData as CertificationReviewRecord | null);
+      }
     } catch (error) {
       console.error('Error fetching exam details:', error);
       toast({
@@ -105,6 +140,116 @@ const CertificationExamPage = () => {
     }
   };
 
+  const handleStartExam = async () => {
+    if (!user || !level) return;
+
+    setStarting(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('start-certification-exam', {
+        body: { level: parseInt(level) }
+      });
+
+      if (error) throw error;
+      if (data.error) throw new Error(data.error);
+
+      submittedRef.current = false;
+      setAnswers({});
+      setSession(data);
+    } catch (error) {
+      console.error('Error starting exam:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to start the exam',
+        variant: 'destructive',
+      });
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const handleSubmitExam = async () => {
+    if (!user || !level || submittedRef.current) return;
+
+    submittedRef.current = true;
+    setSubmitting(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('submit-certification-exam', {
+        body: { level: parseInt(level), answers }
+      });
+
+      if (error) throw error;
+      if (data.error) throw new Error(data.error);
+
+      const result = data as ExamSubmissionResult;
+      toast({
+        title: result.passed ? 'Exam Passed' : 'Exam Not Passed',
+        description: `You scored ${result.percentage}% (pass mark ${result.pass_percentage}%).`,
+        variant: result.passed ? 'default' : 'destructive',
+      });
+
+      setSession(null);
+      setSecondsLeft(null);
+      await fetchExamDetails();
+    } catch (error) {
+      console.error('Error submitting exam:', error);
+      submittedRef.current = false;
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to submit the exam',
+        variant: 'destructive',
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  // The countdown interval outlives renders, so it submits through a ref to the latest
+  // handler; otherwise it would send the answers captured when the attempt started
+  const submitExamRef = useRef(handleSubmitExam);
+  useEffect(() => {
+    submitExamRef.current = handleSubmitExam;
+  });
+
+  // Countdown for timed attempts; submit automatically when time runs out
+  useEffect(() => {
+    if (!session?.expires_at) return;
+
+    const expiresAt = new Date(session.expires_at).getTime();
+    const tick = () => {
+      const remaining = Math.max(0, Math.round((expiresAt - Date.now()) / 1000));
+      setSecondsLeft(remaining);
+      if (remaining === 0) {
+        submitExamRef.current();
+      }
+    };
+
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [session]);
+
+  // Countdown until the cooldown or exam window allows the next attempt, then re-check
+  useEffect(() => {
+    if (!eligibility?.next_attempt_at || eligibility.eligible) {
+      setSecondsUntilNextAttempt(null);
+      return;
+    }
+
+    const nextAttemptAt = new Date(eligibility.next_attempt_at).getTime();
+    const tick = () => {
+      const remaining = Math.max(0, Math.round((nextAttemptAt - Date.now()) / 1000));
+      setSecondsUntilNextAttempt(remaining);
+      if (remaining === 0) {
+        clearInterval(interval);
+        fetchExamDetails();
+      }
+    };
+
+    const interval = setInterval(tick, 1000);
+    tick();
+    return () => clearInterval(interval);
+  }, [eligibility]);
+
   const getExamStatusInfo = () => {
     if (!workflow) {
       return {
@@ -133,7 +278,7 @@ const CertificationExamPage = () => {
       case 'passed':
         return {
           status: 'passed',
-          message: 'Exam passed',
+          message: 'Exam passed, awaiting admin approval',
           color: 'default' as const,
           icon: CheckCircle2
         };
@@ -168,11 +313,10 @@ const CertificationExamPage = () => {
   }
 
   const statusInfo = getExamStatusInfo();
-  const canTakeExam = allSectionsCompleted && (
-    !workflow || 
-    workflow.exam_status === 'pending_submission' || 
-    workflow.exam_status === 'failed'
-  );
+  const examOpenForStatus = !workflow ||
+    workflow.exam_status === 'pending_submission' ||
+    workflow.exam_status === 'failed';
+  const canTakeExam = allSectionsCompleted && examOpenForStatus && (eligibility?.eligible ?? true);
 
   return (
     <div className="container mx-auto px-4 py-8">
@@ -204,6 +348,26 @@ const CertificationExamPage = () => {
                 {allSectionsCompleted ? 'Yes' : 'No'}
               </Badge>
             </div>
+
+            {eligibility?.max_attempts != null && (
+              <div className="flex items-center justify-between">
+                <span className="font-medium">Attempts Used:</span>
+                <Badge variant={eligibility.attempts_used >= eligibility.max_attempts ? 'destructive' : 'secondary'}>
+                  {eligibility.attempts_used} of {eligibility.max_attempts}
+                </Badge>
+              </div>
+            )}
+
+            {eligibility?.required_quiz_percentage != null && (
+              <div className="flex items-center justify-between">
+                <span className="font-medium">Course Quizzes (min. {eligibility.required_quiz_percentage}%):</span>
+                <Badge
+                  variant={eligibility.lowest_quiz_percentage == null || eligibility.lowest_quiz_percentage >= eligibility.required_quiz_percentage ? 'default' : 'secondary'}
+                >
+                  {eligibility.lowest_quiz_percentage == null ? 'No quizzes' : `Lowest best score ${eligibility.lowest_quiz_percentage}%`}
+                </Badge>
+              </div>
+            )}
           </CardContent>
         </Card>
 
@@ -232,8 +396,78 @@ const CertificationExamPage = () => {
           </Card>
         )}
 
+        {/* Exam Policy - attempt limit, cooldown, exam window or quiz prerequisite not met */}
+        {!session && allSectionsCompleted && examOpenForStatus && eligibility && !eligibility.eligible && (
+          <Card className="border-amber-200 bg-amber-50">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-amber-800">
+                <Hourglass className="h-5 w-5" />
+                Exam Not Available Yet
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <p className="text-amber-700">{eligibility.reason}</p>
+              {eligibility.next_attempt_at && secondsUntilNextAttempt !== null && (
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-amber-700">
+                    Next attempt available {format(new Date(eligibility.next_attempt_at), 'MMM d, yyyy HH:mm')}
+                  </span>
+                  <Badge variant="secondary" className="flex items-center gap-1 font-mono">
+                    <Timer className="h-3 w-3" />
+                    {formatCountdown(secondsUntilNextAttempt)}
+                  </Badge>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Reviewer Feedback - shown until the learner retakes the exam after a rejection */}
+        {!session && latestReview?.decision === 'rejected' &&
+          (workflow?.exam_status === 'pending_submission' || workflow?.exam_status === 'failed') && (
+          <Card className="border-red-200 bg-red-50">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-red-800">
+                <MessageSquare className="h-5 w-5" />
+                Reviewer Feedback
+              </CardTitle>
+              <CardDescription>
+                Your previous submission was not approved on {format(new Date(latestReview.created_at), 'MMM d, yyyy')}.
+                Please review the feedback below before retaking the exam.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <p className="text-sm text-red-800 whitespace-pre-wrap">{latestReview.notes}</p>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Latest Result */}
+        {!session && workflow?.exam_results_json?.source === 'native' &&
+          (workflow.exam_status === 'passed' || workflow.exam_status === 'failed') && (
+          <Card className={workflow.exam_status === 'passed' ? 'border-green-200 bg-green-50' : 'border-red-200 bg-red-50'}>
+            <CardHeader>
+              <CardTitle className={`flex items-center gap-2 ${workflow.exam_status === 'passed' ? 'text-green-800' : 'text-red-800'}`}>
+                {workflow.exam_status === 'passed' ? <CheckCircle2 className="h-5 w-5" /> : <AlertCircle className="h-5 w-5" />}
+                Latest Result: {workflow.exam_results_json.percentage}%
+              </CardTitle>
+              <CardDescription>
+                {workflow.exam_results_json.score} of {workflow.exam_results_json.max_score} points
+                {' '}(pass mark {workflow.exam_results_json.pass_percentage}%)
+              </CardDescription>
+            </CardHeader>
+            {workflow.exam_results_json.time_expired && (
+              <CardContent>
+                <p className="text-sm text-red-700">
+                  The time limit expired before your answers were submitted.
+                </p>
+              </CardContent>
+            )}
+          </Card>
+        )}
+
         {/* Exam Instructions */}
-        {canTakeExam && examUrl && (
+        {canTakeExam && !session && (
           <Card>
             <CardHeader>
               <CardTitle>Exam Instructions</CardTitle>
@@ -248,7 +482,28 @@ const CertificationExamPage = () => {
                 </div>
                 {course?.exam_duration_minutes && (
                   <p className="text-sm font-medium">
-                    Recommended time: {course.exam_duration_minutes} minutes
+                    Time limit: {course.exam_duration_minutes} minutes. The timer starts when you begin and
+                    your answers are submitted automatically when it runs out.
+                  </p>
+                )}
+                {course?.exam_pass_percentage !== undefined && (
+                  <p className="text-sm font-medium">
+                    Passing score: {course.exam_pass_percentage}%
+                  </p>
+                )}
+                {eligibility?.max_attempts != null && (
+                  <p className="text-sm font-medium">
+                    Attempts remaining: {Math.max(eligibility.max_attempts - eligibility.attempts_used, 0)} of {eligibility.max_attempts}
+                  </p>
+                )}
+                {course?.exam_cooldown_hours ? (
+                  <p className="text-sm font-medium">
+                    If you do not pass, you can retake the exam after {course.exam_cooldown_hours} hours.
+                  </p>
+                ) : null}
+                {eligibility?.available_until && (
+                  <p className="text-sm font-medium">
+                    Attempts must be started before {format(new Date(eligibility.available_until), 'MMM d, yyyy HH:mm')}.
                   </p>
                 )}
               </div>
@@ -257,32 +512,76 @@ const CertificationExamPage = () => {
                 <Button 
                   size="lg" 
                   className="w-full"
-                  onClick={() => window.open(examUrl, '_blank')}
+                  onClick={handleStartExam}
+                  disabled={starting}
                 >
-                  <BookOpen className="h-4 w-4 mr-2" />
-                  Start Exam
+                  {starting ? (
+                    <>
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      Preparing Exam...
+                    </>
+                  ) : (
+                    <>
+                      <BookOpen className="h-4 w-4 mr-2" />
+                      {workflow?.exam_status === 'failed' ? 'Retake Exam' : 'Start Exam'}
+                    </>
+                  )}
                 </Button>
               </div>
             </CardContent>
           </Card>
         )}
 
+        {/* Exam In Progress */}
+        {session && (
+          <div className="space-y-4">
+            <Card className="sticky top-20 z-10">
+              <CardContent className="py-4 space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium">
+                    {Object.keys(answers).length} of {session.questions.length} answered
+                  </span>
+                  {secondsLeft !== null && (
+                    <Badge variant={secondsLeft < 300 ? 'destructive' : 'secondary'} className="flex items-center gap-1">
+                      <Timer className="h-3 w-3" />
+                      {formatTimeLeft(secondsLeft)}
+                    </Badge>
+                  )}
+                </div>
+                <Progress value={(Object.keys(answers).length / session.questions.length) * 100} className="h-2" />
+              </CardContent>
+            </Card>
 
-        {/* No Exam URL Warning */}
-        {canTakeExam && !examUrl && (
-          <Card className="border-amber-200 bg-amber-50">
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2 text-amber-800">
-                <AlertCircle className="h-5 w-5" />
-                Exam Not Available
-              </CardTitle>
-            </CardHeader>
-            <CardContent>
-              <p className="text-amber-700">
-                The exam for this level is not currently available. Please contact support for assistance.
-              </p>
-            </CardContent>
-          </Card>
+            {session.questions.map((question, index) => (
+              <QuestionField
+                key={question.id}
+                question={question}
+                index={index}
+                value={answers[question.id]}
+                onChange={(value) => setAnswers(prev => ({ ...prev, [question.id]: value }))}
+                disabled={submitting}
+              />
+            ))}
+
+            <Button
+              size="lg"
+              className="w-full"
+              onClick={handleSubmitExam}
+              disabled={submitting}
+            >
+              {submitting ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Submitting...
+                </>
+              ) : (
+                <>
+                  <Send className="h-4 w-4 mr-2" />
+                  Submit Exam
+                </>
+              )}
+            </Button>
+          </div>
         )}
 
         {/* Already Submitted */}
@@ -296,7 +595,9 @@ const CertificationExamPage = () => {
             </CardHeader>
             <CardContent>
               <p className="text-muted-foreground">
-                Your exam has been submitted and is being reviewed. You will be notified of the results.
+                {workflow.exam_status === 'passed'
+                  ? 'Congratulations, you passed the exam! An administrator will now review your certification.'
+                  : 'Your exam has been submitted and is being reviewed. You will be notified of the results.'}
               </p>
               <Button 
                 variant="outline" 
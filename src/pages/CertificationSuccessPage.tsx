@@ -0,0 +1,139 @@
+import { useState, useEffect } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Loader2, CheckCircle2, Clock, GraduationCap } from 'lucide-react';
+
+type ConfirmationState = 'waiting' | 'confirmed' | 'timed_out';
+
+// Stripe redirects here before its webhook has necessarily reached us
+const POLL_INTERVAL_MS = 2000;
+const MAX_POLLS = 30;
+
+const CertificationSuccessPage = () => {
+  const [searchParams] = useSearchParams();
+  const level = searchParams.get('level');
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [state, setState] = useState<ConfirmationState>('waiting');
+  const [pollKey, setPollKey] = useState(0);
+
+  useEffect(() => {
+    if (!user || !level) return;
+
+    let polls = 0;
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout>;
+
+    const checkWorkflow = async () => {
+      polls++;
+      const { data, error } = await supabase
+        .from('certification_workflows')
+        .select('subscription_status, current_step')
+        .eq('user_id', user.id)
+        .eq('level', parseInt(level))
+        .maybeSingle();
+
+      if (cancelled) return;
+      if (error) console.error('Error checking payment status:', error);
+
+      if (data?.subscription_status === 'paid' && data.current_step === 'completed') {
+        setState('confirmed');
+      } else if (polls >= MAX_POLLS) {
+        setState('timed_out');
+      } else {
+        timer = setTimeout(checkWorkflow, POLL_INTERVAL_MS);
+      }
+    };
+
+    checkWorkflow();
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [user, level, pollKey]);
+
+  const handleCheckAgain = () => {
+    setState('waiting');
+    setPollKey(key => key + 1);
+  };
+
+  if (!level) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-2xl mx-auto text-center space-y-4">
+          <h1 className="text-2xl font-bold">Certification level missing</h1>
+          <Button onClick={() => navigate('/')}>Back to Dashboard</Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="max-w-2xl mx-auto">
+        {state === 'waiting' && (
+          <Card>
+            <CardHeader className="text-center">
+              <Loader2 className="h-12 w-12 mx-auto animate-spin text-primary mb-2" />
+              <CardTitle>Confirming your payment</CardTitle>
+              <CardDescription>
+                We're waiting for Stripe to confirm your Level {level} payment. This usually takes a few seconds.
+              </CardDescription>
+            </CardHeader>
+          </Card>
+        )}
+
+        {state === 'confirmed' && (
+          <Card className="border-green-500 bg-green-50 dark:bg-green-900/20">
+            <CardHeader className="text-center">
+              <GraduationCap className="h-12 w-12 mx-auto text-green-600 mb-2" />
+              <CardTitle className="flex items-center justify-center gap-2">
+                <CheckCircle2 className="h-5 w-5 text-green-600" />
+                You're certified!
+              </CardTitle>
+              <CardDescription>
+                Your payment is confirmed and your Level {level} certification is now active.
+                The next level has been unlocked on your dashboard.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="flex justify-center gap-2">
+              <Button onClick={() => navigate('/')}>
+                Go to Dashboard
+              </Button>
+              <Button variant="outline" onClick={() => navigate('/profile')}>
+                View Profile
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        {state === 'timed_out' && (
+          <Card className="border-amber-200 bg-amber-50">
+            <CardHeader className="text-center">
+              <Clock className="h-12 w-12 mx-auto text-amber-600 mb-2" />
+              <CardTitle className="text-amber-800">Still processing</CardTitle>
+              <CardDescription className="text-amber-700">
+                Your payment was submitted but hasn't been confirmed yet. You don't need to pay again;
+                your certification will activate as soon as Stripe confirms it.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="flex justify-center gap-2">
+              <Button onClick={handleCheckAgain}>
+                Check Again
+              </Button>
+              <Button variant="outline" onClick={() => navigate(`/certification/${level}/payment`)}>
+                View Payment Status
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CertificationSuccessPage;
@@ -14,6 +14,7 @@ interface CertificationWorkflow {
   admin_approval_status: string;
   contract_status: string;
   contract_doc_url?: string;
+  contract_signed_pdf_url?: string;
 }
 
 const ContractSigningPage = () => {
@@ -37,7 +38,7 @@ const ContractSigningPage = () => {
       
       const { data: workflowData } = await supabase
         .from('certification_workflows')
-        .select('current_step, exam_status, admin_approval_status, contract_status, contract_doc_url')
+        .select('current_step, exam_status, admin_approval_status, contract_status, contract_doc_url, contract_signed_pdf_url')
         .eq('user_id', user!.id)
         .eq('level', levelNum)
         .maybeSingle();
@@ -95,6 +96,29 @@ const ContractSigningPage = () => {
     }
   };
 
+  const handleViewSignedContract = async () => {
+    if (!workflow) return;
+
+    // Signed agreements live in a private bucket, so open a short-lived link
+    if (workflow.contract_signed_pdf_url) {
+      const { data, error } = await supabase.storage
+        .from('signed-contracts')
+        .createSignedUrl(workflow.contract_signed_pdf_url, 60 * 5);
+
+      if (error || !data) {
+        toast({
+          title: 'Error',
+          description: 'Failed to open signed contract',
+          variant: 'destructive',
+        });
+        return;
+      }
+      window.open(data.signedUrl, '_blank');
+    } else if (workflow.contract_doc_url) {
+      window.open(workflow.contract_doc_url, '_blank');
+    }
+  };
+
   const getContractStatusInfo = () => {
     if (!workflow) {
       return {
@@ -275,7 +299,7 @@ const ContractSigningPage = () => {
               </div>
               
               <p className="text-xs text-muted-foreground text-center">
-                You will be redirected to SignNow to complete the electronic signature process
+                The agreement opens in a new window to complete the electronic signature process
               </p>
             </CardContent>
           </Card>
@@ -295,10 +319,10 @@ const ContractSigningPage = () => {
                 Your contract has been successfully signed. You can now proceed to the payment step.
               </p>
               
-              {workflow.contract_doc_url && (
+              {(workflow.contract_signed_pdf_url || workflow.contract_doc_url) && (
                 <Button 
                   variant="outline"
-                  onClick={() => window.open(workflow.contract_doc_url, '_blank')}
+                  onClick={handleViewSignedContract}
                 >
                   <ExternalLink className="h-4 w-4 mr-2" />
                   View Signed Contract
@@ -130,22 +130,12 @@ const LessonPage = () => {
 
       // Check if this completes the course
       const completedLessons = allLessons.filter(l => l.id === lessonId || isCompleted).length + 1;
+      // The course completion itself is recorded once the certification is paid
       if (completedLessons === allLessons.length) {
-        // Mark course as completed
-        const { error: completionError } = await supabase
-          .from('course_completions')
-          .upsert({
-            user_id: user.id,
-            course_id: courseId,
-            completed_at: new Date().toISOString()
-          });
-
-        if (!completionError) {
-          toast({
-            title: "🎉 Course Completed!",
-            description: "Congratulations! You've completed the entire course.",
-          });
-        }
+        toast({
+          title: "🎉 Course Completed!",
+          description: "Congratulations! You've completed the entire course.",
+        });
       }
 
     } catch (error) {
@@ -1,5 +1,5 @@
-import { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useState, useEffect } from 'react';
+import { useNavigate, Link } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
@@ -10,16 +10,19 @@ import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
-import { ArrowLeft, Save } from 'lucide-react';
+import { Switch } from '@/components/ui/switch';
+import { ArrowLeft, Save, Users } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 
 
 
 const Profile = () => {
   const navigate = useNavigate();
-  const { user, profile, userRole } = useAuth();
+  const { user, profile, userRole, updateProfile } = useAuth();
   const { toast } = useToast();
   const [isLoading, setIsLoading] = useState(false);
+  const [isCertified, setIsCertified] = useState(false);
+  const [isUpdatingDirectory, setIsUpdatingDirectory] = useState(false);
   const [formData, setFormData] = useState({
     first_name: profile?.first_name || '',
     last_name: profile?.last_name || '',
@@ -36,6 +39,26 @@ const Profile = () => {
     languages_spoken: profile?.languages_spoken || [],
   });
 
+  useEffect(() => {
+    if (!user) return;
+
+    // Only learners with a completed certification appear in the directory
+    const fetchCertificationStatus = async () => {
+      const { count, error } = await supabase
+        .from('certification_workflows')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', user.id)
+        .eq('current_step', 'completed');
+
+      if (error) {
+        console.error('Error fetching certification status:', error);
+        return;
+      }
+      setIsCertified((count ?? 0) > 0);
+    };
+
+    fetchCertificationStatus();
+  }, [user]);
 
   const handleInputChange = (field: string, value: string | string[]) => {
     setFormData(prev => ({ ...prev, [field]: value }));
@@ -88,6 +111,28 @@ const Profile = () => {
     }
   };
 
+  const handleDirectoryVisibilityChange = async (visible: boolean) => {
+    setIsUpdatingDirectory(true);
+    const { error } = await updateProfile({ directory_visible: visible });
+    setIsUpdatingDirectory(false);
+
+    if (error) {
+      toast({
+        title: "Error updating directory listing",
+        description: "There was an error updating your directory visibility. Please try again.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: visible ? "Listed in directory" : "Removed from directory",
+      description: visible
+        ? "Your profile photo, name, city, province or state, country, occupation, service regions, languages and certification levels are now visible in the public specialist directory."
+        : "You no longer appear in the public specialist directory.",
+    });
+  };
+
   const getInitials = () => {
     const firstName = profile?.first_name || '';
     const lastName = profile?.last_name || '';
@@ -301,6 +346,40 @@ const Profile = () => {
               </Button>
             </CardContent>
           </Card>
+
+          {/* Specialist Directory */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Users className="h-5 w-5" />
+                Specialist Directory
+              </CardTitle>
+              <CardDescription>
+                Let people looking for a certified relocation specialist find you. Only your profile photo,
+                name, city, province or state, country, occupation, service regions, languages and
+                certification levels are shown.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="flex items-center justify-between gap-4">
+                <Label htmlFor="directory_visible">Show me in the public directory</Label>
+                <Switch
+                  id="directory_visible"
+                  checked={profile?.directory_visible ?? false}
+                  onCheckedChange={handleDirectoryVisibilityChange}
+                  disabled={isUpdatingDirectory}
+                />
+              </div>
+              {!isCertified && (
+                <p className="text-sm text-muted-foreground">
+                  You'll appear in the directory once you complete a certification.
+                </p>
+              )}
+              <Link to="/directory" className="text-sm text-primary hover:underline">
+                View the specialist directory
+              </Link>
+            </CardContent>
+          </Card>
         </div>
       </div>
   );
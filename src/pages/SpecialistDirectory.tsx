@@ -0,0 +1,205 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, MapPin, Languages, GraduationCap, Search } from 'lucide-react';
+
+interface DirectorySpecialist {
+  profile_id: string;
+  first_name: string;
+  last_name: string;
+  avatar_url: string | null;
+  city: string;
+  province_state: string;
+  country: string;
+  occupation: string | null;
+  service_regions: string[];
+  languages_spoken: string[];
+  certified_levels: number[];
+}
+
+interface DirectoryFilters {
+  region: string;
+  language: string;
+  level: string;
+}
+
+const EMPTY_FILTERS: DirectoryFilters = { region: '', language: '', level: 'all' };
+
+// Public, opt-in listing of learners with a certification in good standing
+const SpecialistDirectory = () => {
+  const [filters, setFilters] = useState<DirectoryFilters>(EMPTY_FILTERS);
+  const [specialists, setSpecialists] = useState<DirectorySpecialist[]>([]);
+  const [availableLevels, setAvailableLevels] = useState<number[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    searchDirectory(EMPTY_FILTERS);
+  }, []);
+
+  const searchDirectory = async (search: DirectoryFilters) => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase.rpc('search_specialist_directory', {
+        _region: search.region.trim() || undefined,
+        _language: search.language.trim() || undefined,
+        _level: search.level === 'all' ? undefined : parseInt(search.level),
+      });
+
+      if (error) throw error;
+      const results = data || [];
+      setSpecialists(results);
+
+      // Level options come from the unfiltered listing so they don't shrink while searching
+      if (search === EMPTY_FILTERS) {
+        const levels = new Set(results.flatMap(s => s.certified_levels));
+        setAvailableLevels(Array.from(levels).sort((a, b) => a - b));
+      }
+    } catch (error) {
+      console.error('Error searching specialist directory:', error);
+      setSpecialists([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    searchDirectory(filters);
+  };
+
+  const handleReset = () => {
+    setFilters(EMPTY_FILTERS);
+    searchDirectory(EMPTY_FILTERS);
+  };
+
+  const getInitials = (specialist: DirectorySpecialist) =>
+    `${specialist.first_name.charAt(0)}${specialist.last_name.charAt(0)}`.toUpperCase();
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <div className="text-center space-y-2">
+          <h1 className="text-3xl font-bold">Certified Relocation Specialists</h1>
+          <p className="text-muted-foreground">
+            Find a MovingWaldo certified specialist by region, language or certification level.
+          </p>
+        </div>
+
+        <Card>
+          <CardContent className="pt-6">
+            <form onSubmit={handleSearch} className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+              <div>
+                <Label htmlFor="region">Region</Label>
+                <Input
+                  id="region"
+                  value={filters.region}
+                  onChange={(e) => setFilters(prev => ({ ...prev, region: e.target.value }))}
+                  placeholder="e.g., Toronto"
+                />
+              </div>
+              <div>
+                <Label htmlFor="language">Language</Label>
+                <Input
+                  id="language"
+                  value={filters.language}
+                  onChange={(e) => setFilters(prev => ({ ...prev, language: e.target.value }))}
+                  placeholder="e.g., French"
+                />
+              </div>
+              <div>
+                <Label htmlFor="level">Certification Level</Label>
+                <Select value={filters.level} onValueChange={(value) => setFilters(prev => ({ ...prev, level: value }))}>
+                  <SelectTrigger id="level">
+                    <SelectValue placeholder="Any level" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Any level</SelectItem>
+                    {availableLevels.map(level => (
+                      <SelectItem key={level} value={level.toString()}>Level {level}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex gap-2">
+                <Button type="submit" className="flex-1">
+                  <Search className="mr-2 h-4 w-4" />
+                  Search
+                </Button>
+                <Button type="button" variant="outline" onClick={handleReset}>
+                  Reset
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : specialists.length === 0 ? (
+          <p className="text-center text-muted-foreground py-12">
+            No certified specialists match your search.
+          </p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {specialists.map(specialist => (
+              <Card key={specialist.profile_id}>
+                <CardHeader className="pb-3">
+                  <div className="flex items-center gap-3">
+                    <Avatar className="h-12 w-12">
+                      <AvatarImage src={specialist.avatar_url || undefined} />
+                      <AvatarFallback>{getInitials(specialist)}</AvatarFallback>
+                    </Avatar>
+                    <div>
+                      <CardTitle className="text-base">
+                        {specialist.first_name} {specialist.last_name}
+                      </CardTitle>
+                      {specialist.occupation && (
+                        <p className="text-sm text-muted-foreground">{specialist.occupation}</p>
+                      )}
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-2 text-sm">
+                  <div className="flex items-center gap-2 text-muted-foreground">
+                    <MapPin className="h-4 w-4 shrink-0" />
+                    <span>{[specialist.city, specialist.province_state].filter(Boolean).join(', ')}</span>
+                  </div>
+                  {specialist.service_regions.length > 0 && (
+                    <p>
+                      <span className="text-muted-foreground">Serves: </span>
+                      {specialist.service_regions.join(', ')}
+                    </p>
+                  )}
+                  {specialist.languages_spoken.length > 0 && (
+                    <div className="flex items-center gap-2">
+                      <Languages className="h-4 w-4 shrink-0 text-muted-foreground" />
+                      <span>{specialist.languages_spoken.join(', ')}</span>
+                    </div>
+                  )}
+                  <div className="flex items-center gap-2 flex-wrap pt-1">
+                    <GraduationCap className="h-4 w-4 text-muted-foreground" />
+                    {specialist.certified_levels.map(level => (
+                      <Badge key={level} className="bg-green-600 text-white">
+                        Level {level}
+                      </Badge>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SpecialistDirectory;
@@ -5,14 +5,20 @@ import { useAuth } from '@/contexts/AuthContext';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Loader2, CreditCard, CheckCircle2, AlertCircle, Star } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Loader2, CreditCard, CheckCircle2, AlertCircle, Star, Tag, X } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { CertificationPrice, DiscountPreview, formatPrice, getRenewalState } from '@/types/pricing';
+import { format } from 'date-fns';
 
 interface CertificationWorkflow {
   current_step: string;
   contract_status: string;
   subscription_status: string;
   stripe_checkout_session_id?: string;
+  certification_expires_at: string | null;
+  stripe_subscription_id: string | null;
 }
 
 const SubscriptionPaymentPage = () => {
@@ -23,12 +29,10 @@ const SubscriptionPaymentPage = () => {
   const [loading, setLoading] = useState(true);
   const [processing, setProcessing] = useState(false);
   const [workflow, setWorkflow] = useState<CertificationWorkflow | null>(null);
-
-  const levelPricing = {
-    1: { price: 29.99, description: 'Level 1 Relocation Specialist Certification' },
-    2: { price: 49.99, description: 'Level 2 Advanced Relocation Specialist Certification' },
-    3: { price: 79.99, description: 'Level 3 Expert Relocation Specialist Certification' }
-  };
+  const [price, setPrice] = useState<CertificationPrice | null>(null);
+  const [discountInput, setDiscountInput] = useState('');
+  const [discount, setDiscount] = useState<DiscountPreview | null>(null);
+  const [applyingDiscount, setApplyingDiscount] = useState(false);
 
   useEffect(() => {
     if (user && level) {
@@ -42,12 +46,26 @@ const SubscriptionPaymentPage = () => {
       
       const { data: workflowData } = await supabase
         .from('certification_workflows')
-        .select('current_step, contract_status, subscription_status, stripe_checkout_session_id')
+        .select('current_step, contract_status, subscription_status, stripe_checkout_session_id, certification_expires_at, stripe_subscription_id')
         .eq('user_id', user!.id)
         .eq('level', levelNum)
         .maybeSingle();
 
       setWorkflow(workflowData);
+
+      // Display only; checkout resolves the same active price server-side
+      const now = new Date().toISOString();
+      const { data: priceData } = await supabase
+        .from('certification_prices')
+        .select('*')
+        .eq('level', levelNum)
+        .lte('active_from', now)
+        .or(`active_until.is.null,active_until.gt.${now}`)
+        .order('active_from', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      setPrice(priceData as CertificationPrice | null);
     } catch (error) {
       console.error('Error fetching workflow details:', error);
       toast({
@@ -60,6 +78,49 @@ const SubscriptionPaymentPage = () => {
     }
   };
 
+  const handleApplyDiscount = async () => {
+    if (!level || !discountInput.trim()) return;
+
+    setApplyingDiscount(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('validate-discount-code', {
+        body: {
+          level: parseInt(level),
+          code: discountInput.trim()
+        }
+      });
+
+      if (error) throw error;
+
+      const preview = data as DiscountPreview;
+      if (!preview.valid) {
+        setDiscount(null);
+        toast({
+          title: 'Discount not applied',
+          description: preview.reason,
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      setDiscount(preview);
+    } catch (error) {
+      console.error('Error validating discount code:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to check discount code',
+        variant: 'destructive',
+      });
+    } finally {
+      setApplyingDiscount(false);
+    }
+  };
+
+  const clearDiscount = () => {
+    setDiscount(null);
+    setDiscountInput('');
+  };
+
   const handlePayment = async () => {
     if (!user || !level) return;
 
@@ -68,13 +129,22 @@ const SubscriptionPaymentPage = () => {
       const { data, error } = await supabase.functions.invoke('create-stripe-checkout-session', {
         body: {
           user_id: user.id,
-          level: parseInt(level)
+          level: parseInt(level),
+          discount_code: discount?.code
         }
       });
 
       if (error) throw error;
 
-      if (data.url) {
+      if (data.completed) {
+        // Fully discounted certifications are completed without a Stripe checkout
+        toast({
+          title: 'Certification Activated',
+          description: 'Your discount covered the full certification fee.',
+        });
+        clearDiscount();
+        await fetchWorkflowDetails();
+      } else if (data.url) {
         // Open Stripe Checkout in a new tab
         window.open(data.url, '_blank');
         
@@ -100,6 +170,29 @@ const SubscriptionPaymentPage = () => {
     }
   };
 
+  const handleManageSubscription = async () => {
+    if (!level) return;
+
+    setProcessing(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('create-billing-portal-session', {
+        body: { level: parseInt(level) }
+      });
+
+      if (error) throw error;
+      window.open(data.url, '_blank');
+    } catch (error) {
+      console.error('Error opening billing portal:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to open subscription management',
+        variant: 'destructive',
+      });
+    } finally {
+      setProcessing(false);
+    }
+  };
+
   const getPaymentStatusInfo = () => {
     if (!workflow) {
       return {
@@ -125,13 +218,27 @@ const SubscriptionPaymentPage = () => {
           color: 'default' as const,
           icon: CreditCard
         };
-      case 'active':
+      case 'paid':
         return {
-          status: 'active',
+          status: 'paid',
           message: 'Payment completed',
           color: 'default' as const,
           icon: CheckCircle2
         };
+      case 'past_due':
+        return {
+          status: 'past_due',
+          message: 'Renewal payment failed',
+          color: 'destructive' as const,
+          icon: AlertCircle
+        };
+      case 'expired':
+        return {
+          status: 'expired',
+          message: 'Certification expired',
+          color: 'destructive' as const,
+          icon: AlertCircle
+        };
       case 'cancelled':
         return {
           status: 'cancelled',
@@ -163,13 +270,22 @@ const SubscriptionPaymentPage = () => {
   }
 
   const statusInfo = getPaymentStatusInfo();
+  const renewalState = workflow ? getRenewalState(workflow) : 'not_applicable';
+  // Learners without auto-renewal pay again once their certification is due; past-due subscriptions are fixed in Stripe
+  const canRenew = renewalState === 'renewal_due' && workflow?.subscription_status === 'paid';
   const canPay = workflow && 
     workflow.contract_status === 'signed' && 
-    workflow.current_step === 'payment' && 
-    workflow.subscription_status !== 'active';
+    ((workflow.current_step === 'payment' && workflow.subscription_status !== 'paid') || canRenew);
+  const expiryDate = workflow?.certification_expires_at
+    ? format(new Date(workflow.certification_expires_at), 'MMM d, yyyy')
+    : null;
 
   const needsContract = !workflow || workflow.contract_status !== 'signed';
-  const pricing = levelPricing[parseInt(level!) as keyof typeof levelPricing];
+  const displayPrice = price ? formatPrice(price.amount, price.currency) : null;
+  const discountedPrice = discount?.valid && discount.final_amount !== undefined && discount.currency
+    ? formatPrice(discount.final_amount, discount.currency)
+    : null;
+  const payLabel = discount?.final_amount === 0 ? 'Activate Certification' : `Pay ${discountedPrice ?? displayPrice}`;
 
   return (
     <div className="container mx-auto px-4 py-8">
@@ -238,21 +354,66 @@ const SubscriptionPaymentPage = () => {
         )}
 
         {/* Subscription Details */}
-        {canPay && pricing && (
+        {canPay && displayPrice && (
           <Card>
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
                 <Star className="h-5 w-5" />
-                {pricing.description}
+                Level {level} Relocation Specialist Certification
               </CardTitle>
               <CardDescription>
-                Monthly subscription to maintain your certification status
+                {canRenew
+                  ? `Renew before ${expiryDate} to keep your certification active`
+                  : 'Certification fee to activate your certification status'}
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-6">
               <div className="text-center py-6">
-                <div className="text-4xl font-bold text-primary">${pricing.price}</div>
-                <div className="text-muted-foreground">per month</div>
+                {discountedPrice ? (
+                  <>
+                    <div className="text-lg text-muted-foreground line-through">{displayPrice}</div>
+                    <div className="text-4xl font-bold text-primary">{discountedPrice}</div>
+                  </>
+                ) : (
+                  <div className="text-4xl font-bold text-primary">{displayPrice}</div>
+                )}
+                <div className="text-muted-foreground">
+                  {price?.billing_interval === 'year' ? 'per year, renews automatically' : 'one-time payment'}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="discount-code">Discount or sponsorship code</Label>
+                {discount?.valid ? (
+                  <div className="flex items-center justify-between rounded-md border p-3">
+                    <div className="flex items-center gap-2">
+                      <Tag className="h-4 w-4 text-primary" />
+                      <span className="font-mono font-medium">{discount.code}</span>
+                      {discount.description && (
+                        <span className="text-sm text-muted-foreground">{discount.description}</span>
+                      )}
+                    </div>
+                    <Button variant="ghost" size="sm" onClick={clearDiscount} disabled={processing}>
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="flex gap-2">
+                    <Input
+                      id="discount-code"
+                      value={discountInput}
+                      onChange={(e) => setDiscountInput(e.target.value)}
+                      placeholder="Enter code"
+                    />
+                    <Button
+                      variant="outline"
+                      onClick={handleApplyDiscount}
+                      disabled={applyingDiscount || !discountInput.trim()}
+                    >
+                      {applyingDiscount ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Apply'}
+                    </Button>
+                  </div>
+                )}
               </div>
               
               <div className="space-y-3">
@@ -282,7 +443,7 @@ const SubscriptionPaymentPage = () => {
                   ) : (
                     <>
                       <CreditCard className="h-4 w-4 mr-2" />
-                      Pay ${pricing.price}/month
+                      {payLabel}
                     </>
                   )}
                 </Button>
@@ -295,8 +456,33 @@ const SubscriptionPaymentPage = () => {
           </Card>
         )}
 
+        {/* Renewal Payment Failed */}
+        {workflow && workflow.subscription_status === 'past_due' && (
+          <Card className="border-amber-200 bg-amber-50">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-amber-800">
+                <AlertCircle className="h-5 w-5" />
+                Renewal Payment Failed
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-amber-700">
+                We couldn't charge your annual renewal. Update your payment method
+                {expiryDate ? ` before ${expiryDate}` : ''} to keep your certification active.
+              </p>
+              <Button
+                className="mt-4"
+                onClick={handleManageSubscription}
+                disabled={processing}
+              >
+                Update Payment Method
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Payment Completed */}
-        {workflow && workflow.subscription_status === 'active' && (
+        {workflow && workflow.subscription_status === 'paid' && !canRenew && (
           <Card>
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
@@ -308,6 +494,13 @@ const SubscriptionPaymentPage = () => {
               <p className="text-muted-foreground">
                 Congratulations! Your payment has been processed and your certification is now active.
               </p>
+              {expiryDate && (
+                <p className="text-sm text-muted-foreground">
+                  {workflow.stripe_subscription_id
+                    ? `Your certification renews automatically on ${expiryDate}.`
+                    : `Your certification is valid until ${expiryDate}.`}
+                </p>
+              )}
               
               <div className="flex gap-2">
                 <Button 
@@ -321,11 +514,37 @@ const SubscriptionPaymentPage = () => {
                 >
                   View Certificate
                 </Button>
+                {workflow.stripe_subscription_id && (
+                  <Button
+                    variant="outline"
+                    onClick={handleManageSubscription}
+                    disabled={processing}
+                  >
+                    Manage Subscription
+                  </Button>
+                )}
               </div>
             </CardContent>
           </Card>
         )}
 
+        {/* Certification Expired */}
+        {workflow && workflow.subscription_status === 'expired' && (
+          <Card className="border-red-200 bg-red-50">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-red-800">
+                <AlertCircle className="h-5 w-5" />
+                Certification Expired
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-red-700">
+                Your certification {expiryDate ? `expired on ${expiryDate}` : 'has expired'}. Complete the payment above to renew it.
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Payment Cancelled */}
         {workflow && workflow.subscription_status === 'cancelled' && (
           <Card className="border-red-200 bg-red-50">
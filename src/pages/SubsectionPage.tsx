@@ -1,14 +1,19 @@
-import { useState, useEffect } from "react";
-import { useParams, useNavigate } from "react-router-dom";
+import { useState, useEffect, useRef, useCallback, useMemo } from "react";
+import { useParams, useNavigate, useSearchParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/contexts/AuthContext";
 import { useToast } from "@/hooks/use-toast";
-import { Section, Subsection, UserProgress, SubsectionAttachment } from "@/types/course";
+import { Section, Subsection, UserProgress, SubsectionAttachment, SubsectionCaption, VideoChapter } from "@/types/course";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { VideoPlayer } from "@/components/VideoPlayer";
 import { CommentThread } from "@/components/CommentThread";
+import SubsectionQuiz from "@/components/SubsectionQuiz";
+import TranscriptPanel from "@/components/TranscriptPanel";
+import { VideoPlayerHandle } from "@/lib/video-providers";
+import { TranscriptCue, parseWebVtt } from "@/lib/webvtt";
+import { QuizSession, QuizSubmissionResult } from "@/types/exam";
 import { 
   ArrowLeft, 
   ArrowRight, 
@@ -16,22 +21,67 @@ import {
   Play,
   FileText,
   HelpCircle,
-  Download
+  Download,
+  Circle
 } from "lucide-react";
 
+// How often the page reports activity; record_subsection_activity only credits gaps of up to 90s
+const ACTIVITY_HEARTBEAT_MS = 30_000;
+// Playback position is saved at most this often while the video plays
+const POSITION_SAVE_MS = 10_000;
+
+// Profiles list spoken languages as free text ("French"), so match them against each
+// track's code, label and English language name
+const pickCaptionLanguage = (captions: SubsectionCaption[], languagesSpoken: string[] | null | undefined) => {
+  const displayNames = new Intl.DisplayNames(['en'], { type: 'language' });
+
+  for (const spoken of languagesSpoken ?? []) {
+    const wanted = spoken.trim().toLowerCase();
+    if (!wanted) continue;
+
+    const track = captions.find(caption => {
+      const primaryCode = caption.language.split('-')[0];
+      let languageName = '';
+      try {
+        languageName = displayNames.of(primaryCode) ?? '';
+      } catch {
+        // Not a valid language code; the label can still match
+      }
+      return [caption.language, primaryCode, caption.label, languageName]
+        .some(name => name.toLowerCase() === wanted);
+    });
+
+    if (track) return track.language;
+  }
+
+  return null;
+};
+
 export const SubsectionPage = () => {
   const { courseId, subsectionId } = useParams();
+  const [searchParams] = useSearchParams();
   const navigate = useNavigate();
-  const { user } = useAuth();
+  const { user, profile } = useAuth();
   const { toast } = useToast();
   
   const [subsection, setSubsection] = useState<Subsection | null>(null);
   const [section, setSection] = useState<Section | null>(null);
   const [allSubsections, setAllSubsections] = useState<Subsection[]>([]);
   const [attachments, setAttachments] = useState<SubsectionAttachment[]>([]);
+  const [quiz, setQuiz] = useState<QuizSession | null>(null);
   const [isCompleted, setIsCompleted] = useState(false);
   const [loading, setLoading] = useState(true);
   const [completing, setCompleting] = useState(false);
+  const [blockers, setBlockers] = useState<string[]>([]);
+  // One bucket per percent of the video actually played, so seeking ahead earns nothing
+  const watchedBuckets = useRef<Set<number>>(new Set());
+  const playbackPosition = useRef<number | null>(null);
+  const lastPositionSave = useRef(0);
+  const [resumeAt, setResumeAt] = useState(0);
+  const [captions, setCaptions] = useState<SubsectionCaption[]>([]);
+  const [transcriptCues, setTranscriptCues] = useState<TranscriptCue[]>([]);
+  const [playbackTime, setPlaybackTime] = useState(0);
+  const videoPlayerRef = useRef<VideoPlayerHandle>(null);
 
   useEffect(() => {
     if (subsectionId && courseId) {
@@ -59,10 +109,26 @@ export const SubsectionPage = () => {
       const section = subsectionData.sections;
       setSubsection({
         ...subsectionData,
-        subsection_type: subsectionData.subsection_type as 'content' | 'quiz'
+        subsection_type: subsectionData.subsection_type as 'content' | 'quiz',
+        chapters: subsectionData.chapters as unknown as VideoChapter[]
       });
       setSection(section);
 
+      // Native quizzes come without answers from the scoring function; quizzes without
+      // authored questions fall back to the embedded quiz_url
+      setQuiz(null);
+      if (user && subsectionData.subsection_type === 'quiz') {
+        const { data: quizData, error: quizError } = await supabase.functions.invoke('get-subsection-quiz', {
+          body: { subsection_id: subsectionId }
+        });
+
+        if (quizError || quizData?.error) {
+          console.error('Error fetching quiz:', quizError || quizData.error);
+        } else {
+          setQuiz(quizData as QuizSession);
+        }
+      }
+
       // Optimized: Get navigation data - use simpler approach to avoid ordering issues
       const { data: sectionsData, error: sectionsError } = await supabase
         .from('sections')
@@ -93,20 +159,24 @@ export const SubsectionPage = () => {
 
       setAllSubsections(sortedSubsections.map(subsection => ({
         ...subsection,
-        subsection_type: subsection.subsection_type as 'content' | 'quiz'
+        subsection_type: subsection.subsection_type as 'content' | 'quiz',
+        chapters: subsection.chapters as unknown as VideoChapter[]
       })));
 
       // Optimized: Check completion status only if user exists
       if (user) {
         const { data: progressData, error: progressError } = await supabase
           .from('user_progress')
-          .select('completed_at')
+          .select('completed_at, video_position_seconds')
           .eq('user_id', user.id)
           .eq('subsection_id', subsectionId)
+          .order('created_at', { ascending: true })
+          .limit(1)
           .maybeSingle();
 
         if (progressError) throw progressError;
         setIsCompleted(!!progressData?.completed_at);
+        setResumeAt(progressData?.video_position_seconds ?? 0);
       }
 
       // Fetch attachments
@@ -119,6 +189,15 @@ export const SubsectionPage = () => {
       if (attachmentsError) throw attachmentsError;
       setAttachments(attachmentsData || []);
 
+      const { data: captionsData, error: captionsError } = await supabase
+        .from('subsection_captions')
+        .select('*')
+        .eq('subsection_id', subsectionId)
+        .order('label', { ascending: true });
+
+      if (captionsError) throw captionsError;
+      setCaptions(captionsData || []);
+
       // Performance monitoring
       const endTime = performance.now();
       console.log(`SubsectionPage data fetch took ${endTime - startTime} milliseconds`);
@@ -134,20 +213,152 @@ export const SubsectionPage = () => {
     }
   };
 
+  // Time on page and video watched are credited server-side; the reply lists the
+  // completion rules still unmet
+  const recordActivity = useCallback(async () => {
+    if (!user || !subsectionId) return;
+
+    const { data, error } = await supabase.rpc('record_subsection_activity', {
+      _subsection_id: subsectionId,
+      _video_watched_percentage: watchedBuckets.current.size,
+      _video_position_seconds: playbackPosition.current === null ? undefined : Math.floor(playbackPosition.current),
+    });
+
+    if (error) {
+      console.error('Error recording activity:', error);
+      return;
+    }
+    setBlockers(data ?? []);
+  }, [user, subsectionId]);
+
+  useEffect(() => {
+    watchedBuckets.current = new Set();
+    playbackPosition.current = null;
+    if (!user || !subsection) return;
+
+    recordActivity();
+    const interval = setInterval(() => {
+      if (document.visibilityState === 'visible') recordActivity();
+    }, ACTIVITY_HEARTBEAT_MS);
+
+    // Coming back to the tab restarts the clock rather than crediting the time away
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') recordActivity();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      // Keep the last position when leaving the page mid-video
+      if (playbackPosition.current !== null) recordActivity();
+    };
+  }, [user, subsection, recordActivity]);
+
+  const handleVideoProgress = useCallback((progress: number, currentTime: number) => {
+    if (!Number.isFinite(progress)) return;
+    watchedBuckets.current.add(Math.min(99, Math.max(0, Math.floor(progress))));
+    playbackPosition.current = currentTime;
+    setPlaybackTime(Math.floor(currentTime));
+
+    if (Date.now() - lastPositionSave.current >= POSITION_SAVE_MS) {
+      lastPositionSave.current = Date.now();
+      recordActivity();
+    }
+  }, [recordActivity]);
+
+  const captionTracks = useMemo(
+    () => captions.map(caption => ({ language: caption.language, label: caption.label, src: caption.file_url })),
+    [captions]
+  );
+
+  const defaultCaptionLanguage = useMemo(
+    () => pickCaptionLanguage(captions, profile?.languages_spoken),
+    [captions, profile?.languages_spoken]
+  );
+
+  // The authored transcript wins; otherwise the learner's caption track doubles as one
+  useEffect(() => {
+    setTranscriptCues([]);
+    if (!subsection?.video_url) return;
+
+    if (subsection.transcript) {
+      setTranscriptCues(parseWebVtt(subsection.transcript));
+      return;
+    }
+
+    const track = captions.find(caption => caption.language === defaultCaptionLanguage) ?? captions[0];
+    if (!track) return;
+
+    let cancelled = false;
+    fetch(track.file_url)
+      .then(response => {
+        if (!response.ok) throw new Error(`Caption file returned ${response.status}`);
+        return response.text();
+      })
+      .then(text => {
+        if (!cancelled) setTranscriptCues(parseWebVtt(text));
+      })
+      .catch(error => console.error('Error loading transcript from captions:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [subsection, captions, defaultCaptionLanguage]);
+
+  const handleTranscriptSeek = (seconds: number) => {
+    videoPlayerRef.current?.seekTo(seconds);
+    setPlaybackTime(Math.floor(seconds));
+  };
+
+  // "Continue watching" links carry the exact timestamp; otherwise resume from the saved position
+  const requestedStart = Number(searchParams.get('t'));
+  const videoStartTime = Number.isFinite(requestedStart) && requestedStart > 0 ? requestedStart : resumeAt;
+
+  const handleQuizPassed = (result: QuizSubmissionResult) => {
+    if (result.completed) {
+      setIsCompleted(true);
+    } else {
+      setBlockers(result.blockers);
+    }
+  };
+
   const handleCompleteSubsection = async () => {
     if (!user || !subsection) return;
 
     setCompleting(true);
     try {
-      const { error } = await supabase
+      // The row created by the activity heartbeat is completed in place; the
+      // guard_subsection_completion trigger refuses it while any rule is unmet
+      const { data: existingProgress, error: progressError } = await supabase
         .from('user_progress')
-        .upsert({
-          user_id: user.id,
-          course_id: courseId,
-          subsection_id: subsection.id,
-          completed_at: new Date().toISOString(),
-          progress_percentage: 100,
-        });
+        .select('id')
+        .eq('user_id', user.id)
+        .eq('subsection_id', subsection.id)
+        .order('created_at', { ascending: true })
+        .limit(1)
+        .maybeSingle();
+
+      if (progressError) throw progressError;
+
+      const completion = {
+        completed_at: new Date().toISOString(),
+        progress_percentage: 100,
+      };
+
+      const { error } = existingProgress
+        ? await supabase
+            .from('user_progress')
+            .update(completion)
+            .eq('id', existingProgress.id)
+        : await supabase
+            .from('user_progress')
+            .insert({
+              user_id: user.id,
+              course_id: courseId,
+              subsection_id: subsection.id,
+              ...completion,
+            });
 
       if (error) throw error;
 
@@ -160,9 +371,10 @@ export const SubsectionPage = () => {
       console.error('Error completing subsection:', error);
       toast({
         title: "Error",
-        description: "Failed to mark subsection as complete. Please try again.",
+        description: error instanceof Error ? error.message : "Failed to mark subsection as complete. Please try again.",
         variant: "destructive",
       });
+      recordActivity();
     } finally {
       setCompleting(false);
     }
@@ -244,6 +456,8 @@ export const SubsectionPage = () => {
     );
   }
 
+  const isNativeQuiz = subsection.subsection_type === 'quiz' && !!quiz && quiz.questions.length > 0;
+
   return (
     <div className="container mx-auto py-8 space-y-8">
       {/* Header */}
@@ -288,10 +502,28 @@ export const SubsectionPage = () => {
           {/* Video Player */}
           {subsection.video_url && (
             <VideoPlayer
+              ref={videoPlayerRef}
               videoUrl={subsection.video_url}
-              onProgress={() => {}}
+              onProgress={handleVideoProgress}
+              onComplete={recordActivity}
+              startTime={videoStartTime}
+              captions={captionTracks}
+              defaultCaptionLanguage={defaultCaptionLanguage}
+              chapters={subsection.chapters ?? []}
             />
           )}
+
+          {/* Transcript */}
+          {transcriptCues.length > 0 && (
+            <div className="space-y-3">
+              <h3 className="text-lg font-semibold">Transcript</h3>
+              <TranscriptPanel
+                cues={transcriptCues}
+                currentTime={playbackTime}
+                onSeek={handleTranscriptSeek}
+              />
+            </div>
+          )}
           
           {/* Content */}
           {subsection.content && (
@@ -303,8 +535,17 @@ export const SubsectionPage = () => {
             </div>
           )}
 
+          {/* Native quiz */}
+          {isNativeQuiz && (
+            <SubsectionQuiz
+              subsectionId={subsection.id}
+              quiz={quiz}
+              onPassed={handleQuizPassed}
+            />
+          )}
+
           {/* Quiz iframe */}
-          {subsection.subsection_type === 'quiz' && subsection.quiz_url && (
+          {subsection.subsection_type === 'quiz' && !isNativeQuiz && subsection.quiz_url && (
             <div className="w-full">
               <iframe
                 src={subsection.quiz_url}
@@ -325,7 +566,7 @@ export const SubsectionPage = () => {
           )}
 
           {/* Quiz placeholder when no URL */}
-          {subsection.subsection_type === 'quiz' && !subsection.quiz_url && (
+          {subsection.subsection_type === 'quiz' && !isNativeQuiz && !subsection.quiz_url && (
             <div className="bg-muted p-6 rounded-lg text-center">
               <HelpCircle className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
               <p className="text-muted-foreground">
@@ -369,6 +610,23 @@ export const SubsectionPage = () => {
         </CardContent>
       </Card>
 
+      {/* Completion rules still unmet */}
+      {!isCompleted && user && blockers.length > 0 && (
+        <Card>
+          <CardContent className="p-4 space-y-2">
+            <p className="text-sm font-medium">To complete this subsection:</p>
+            <ul className="space-y-1">
+              {blockers.map((blocker) => (
+                <li key={blocker} className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Circle className="h-3 w-3" />
+                  {blocker}
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Navigation */}
       <div className="flex items-center justify-between">
         <Button
@@ -380,8 +638,9 @@ export const SubsectionPage = () => {
           Previous
         </Button>
 
+        {/* Native quizzes complete themselves when passing is the last rule left */}
         {!isCompleted && user && (
-          <Button onClick={handleCompleteSubsection} disabled={completing}>
+          <Button onClick={handleCompleteSubsection} disabled={completing || blockers.length > 0}>
             <CheckCircle className="mr-2 h-4 w-4" />
             {completing ? "Marking Complete..." : "Mark as Complete"}
           </Button>
@@ -0,0 +1,182 @@
+import { useState, useEffect } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Loader2, ShieldCheck, ShieldAlert, ShieldX, Search } from 'lucide-react';
+
+interface VerifiedCertificate {
+  serial: string;
+  recipient_name: string;
+  level: number;
+  course_title: string;
+  completed_at: string;
+  issued_at: string;
+  expires_at: string | null;
+  status: string;
+}
+
+// Public page: anyone holding a certificate number can check it against our records
+const VerifyCertificatePage = () => {
+  const { serial } = useParams<{ serial: string }>();
+  const navigate = useNavigate();
+  const [serialInput, setSerialInput] = useState(serial ?? '');
+  const [certificate, setCertificate] = useState<VerifiedCertificate | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!serial) return;
+
+    const verify = async () => {
+      setLoading(true);
+      setError(null);
+      setCertificate(null);
+
+      try {
+        const { data, error } = await supabase.rpc('verify_certificate', { _serial: serial });
+        if (error) throw error;
+        setCertificate(data?.[0] ?? null);
+      } catch (error) {
+        console.error('Error verifying certificate:', error);
+        setError('We could not check this certificate right now. Please try again later.');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    setSerialInput(serial);
+    verify();
+  }, [serial]);
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = serialInput.trim().toUpperCase();
+    if (value) navigate(`/verify/${encodeURIComponent(value)}`);
+  };
+
+  const renderResult = () => {
+    if (loading) {
+      return (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      );
+    }
+
+    if (error) {
+      return <p className="text-sm text-destructive text-center">{error}</p>;
+    }
+
+    if (!serial) return null;
+
+    if (!certificate) {
+      return (
+        <Card className="border-destructive/50 bg-destructive/5">
+          <CardHeader className="text-center">
+            <ShieldX className="h-12 w-12 mx-auto text-destructive mb-2" />
+            <CardTitle>Certificate not found</CardTitle>
+            <CardDescription>
+              No certificate matches the number {serial}. Check that it was entered exactly as printed.
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      );
+    }
+
+    const isValid = certificate.status === 'valid';
+
+    return (
+      <Card className={isValid ? 'border-green-500 bg-green-50 dark:bg-green-900/20' : 'border-amber-200 bg-amber-50'}>
+        <CardHeader className="text-center">
+          {isValid ? (
+            <ShieldCheck className="h-12 w-12 mx-auto text-green-600 mb-2" />
+          ) : (
+            <ShieldAlert className="h-12 w-12 mx-auto text-amber-600 mb-2" />
+          )}
+          <CardTitle>
+            {isValid ? 'Genuine certificate' : certificate.status === 'expired' ? 'Certificate expired' : 'Certificate no longer valid'}
+          </CardTitle>
+          <CardDescription>
+            {isValid
+              ? 'This certificate was issued by MovingWaldo and is in good standing.'
+              : certificate.status === 'expired'
+              ? 'This certificate was issued by MovingWaldo but the certification has not been renewed.'
+              : 'This certificate was issued by MovingWaldo but the certification is no longer active.'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <dl className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+            <div>
+              <dt className="text-muted-foreground">Awarded to</dt>
+              <dd className="font-semibold">{certificate.recipient_name}</dd>
+            </div>
+            <div>
+              <dt className="text-muted-foreground">Certification</dt>
+              <dd className="font-semibold">
+                Level {certificate.level}: {certificate.course_title}
+              </dd>
+            </div>
+            <div>
+              <dt className="text-muted-foreground">Completed on</dt>
+              <dd className="font-semibold">{format(new Date(certificate.completed_at), 'MMMM d, yyyy')}</dd>
+            </div>
+            <div>
+              <dt className="text-muted-foreground">Certificate number</dt>
+              <dd className="font-mono font-semibold">{certificate.serial}</dd>
+            </div>
+            {certificate.expires_at && (
+              <div>
+                <dt className="text-muted-foreground">
+                  {certificate.status === 'expired' ? 'Expired on' : 'Valid until'}
+                </dt>
+                <dd className="font-semibold">{format(new Date(certificate.expires_at), 'MMMM d, yyyy')}</dd>
+              </div>
+            )}
+            <div>
+              <dt className="text-muted-foreground">Status</dt>
+              <dd>
+                <Badge className={isValid ? 'bg-green-600 text-white' : ''} variant={isValid ? 'default' : 'secondary'}>
+                  {certificate.status.toUpperCase()}
+                </Badge>
+              </dd>
+            </div>
+          </dl>
+        </CardContent>
+      </Card>
+    );
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="max-w-2xl mx-auto space-y-6">
+        <div className="text-center space-y-2">
+          <h1 className="text-3xl font-bold">Verify a Certificate</h1>
+          <p className="text-muted-foreground">
+            Enter the certificate number printed at the bottom of a MovingWaldo certificate.
+          </p>
+        </div>
+
+        <form onSubmit={handleSearch} className="flex gap-2">
+          <Input
+            value={serialInput}
+            onChange={(e) => setSerialInput(e.target.value)}
+            placeholder="MW-L1-2025-XXXXXXXX"
+            className="font-mono"
+          />
+          <Button type="submit" disabled={!serialInput.trim()}>
+            <Search className="mr-2 h-4 w-4" />
+            Verify
+          </Button>
+        </form>
+
+        {renderResult()}
+      </div>
+    </div>
+  );
+};
+
+export default VerifyCertificatePage;
@@ -3,8 +3,10 @@ import { supabase } from '@/integrations/supabase/client';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import { Loader2, ClipboardCheck, CheckCircle, XCircle, Eye, Users } from 'lucide-react';
+import { Loader2, ClipboardCheck, CheckCircle, XCircle, Eye, Users, History } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { useNavigate } from 'react-router-dom';
 import { formatDistanceToNow } from 'date-fns';
@@ -19,6 +21,15 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from '@/components/ui/alert-dialog';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { ExamAttemptHistory } from '@/components/admin/ExamAttemptHistory';
 
 interface CertificationWorkflowWithProfile {
   id: string;
@@ -41,6 +52,7 @@ const CertificationReview = () => {
   const [workflows, setWorkflows] = useState<CertificationWorkflowWithProfile[]>([]);
   const [loading, setLoading] = useState(true);
   const [actionLoading, setActionLoading] = useState<string | null>(null);
+  const [reviewNotes, setReviewNotes] = useState('');
   const { toast } = useToast();
   const navigate = useNavigate();
 
@@ -186,7 +198,7 @@ const CertificationReview = () => {
     }
   };
 
-  const handleApprovalAction = async (userId: string, level: number, action: 'approve' | 'reject') => {
+  const handleApprovalAction = async (userId: string, level: number, action: 'approve' | 'reject', notes: string) => {
     const actionKey = `${userId}-${level}`;
     setActionLoading(actionKey);
     
@@ -195,7 +207,8 @@ const CertificationReview = () => {
         body: {
           user_id: userId,
           level,
-          action
+          action,
+          notes: notes.trim() || undefined
         }
       });
 
@@ -332,8 +345,26 @@ const CertificationReview = () => {
                             <Eye className="h-3 w-3 mr-1" />
                             View
                           </Button>
+
+                          <Dialog>
+                            <DialogTrigger asChild>
+                              <Button variant="outline" size="sm">
+                                <History className="h-3 w-3 mr-1" />
+                                Attempts
+                              </Button>
+                            </DialogTrigger>
+                            <DialogContent className="max-w-3xl">
+                              <DialogHeader>
+                                <DialogTitle>Exam Attempt History</DialogTitle>
+                                <DialogDescription>
+                                  Every Level {workflow.level} exam attempt by {workflow.first_name} {workflow.last_name}, most recent first.
+                                </DialogDescription>
+                              </DialogHeader>
+                              <ExamAttemptHistory workflowId={workflow.id} />
+                            </DialogContent>
+                          </Dialog>
                           
-                          <AlertDialog>
+                          <AlertDialog onOpenChange={(open) => open && setReviewNotes('')}>
                             <AlertDialogTrigger asChild>
                               <Button
                                 variant="outline"
@@ -353,10 +384,20 @@ const CertificationReview = () => {
                                   This will allow them to proceed to the contract signing step.
                                 </AlertDialogDescription>
                               </AlertDialogHeader>
+                              <div className="space-y-2">
+                                <Label htmlFor={`approve-notes-${workflow.id}`}>Reviewer notes (optional)</Label>
+                                <Textarea
+                                  id={`approve-notes-${workflow.id}`}
+                                  value={reviewNotes}
+                                  onChange={(e) => setReviewNotes(e.target.value)}
+                                  placeholder="Feedback for the learner"
+                                  rows={3}
+                                />
+                              </div>
                               <AlertDialogFooter>
                                 <AlertDialogCancel>Cancel</AlertDialogCancel>
                                 <AlertDialogAction
-                                  onClick={() => handleApprovalAction(workflow.user_id, workflow.level, 'approve')}
+                                  onClick={() => handleApprovalAction(workflow.user_id, workflow.level, 'approve', reviewNotes)}
                                   className="bg-green-600 hover:bg-green-700"
                                 >
                                   Approve
@@ -365,7 +406,7 @@ const CertificationReview = () => {
                             </AlertDialogContent>
                           </AlertDialog>
 
-                          <AlertDialog>
+                          <AlertDialog onOpenChange={(open) => open && setReviewNotes('')}>
                             <AlertDialogTrigger asChild>
                               <Button
                                 variant="outline"
@@ -385,11 +426,22 @@ const CertificationReview = () => {
                                   This will require them to retake the exam.
                                 </AlertDialogDescription>
                               </AlertDialogHeader>
+                              <div className="space-y-2">
+                                <Label htmlFor={`reject-notes-${workflow.id}`}>Reason for rejection</Label>
+                                <Textarea
+                                  id={`reject-notes-${workflow.id}`}
+                                  value={reviewNotes}
+                                  onChange={(e) => setReviewNotes(e.target.value)}
+                                  placeholder="Explain what the learner needs to improve before retaking the exam"
+                                  rows={3}
+                                />
+                              </div>
                               <AlertDialogFooter>
                                 <AlertDialogCancel>Cancel</AlertDialogCancel>
                                 <AlertDialogAction
-                                  onClick={() => handleApprovalAction(workflow.user_id, workflow.level, 'reject')}
+                                  onClick={() => handleApprovalAction(workflow.user_id, workflow.level, 'reject', reviewNotes)}
                                   className="bg-red-600 hover:bg-red-700"
+                                  disabled={!reviewNotes.trim()}
                                 >
                                   Reject
                                 </AlertDialogAction>
@@ -1,8 +1,9 @@
 import { useState, useEffect } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
+import { format } from 'date-fns';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
-import { Course, Section, Subsection } from '@/types/course';
+import { Course, Section, Subsection, VideoChapter } from '@/types/course';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -26,7 +27,8 @@ import {
   GripVertical,
   MoreHorizontal,
   Eye,
-  EyeOff
+  EyeOff,
+  ListChecks
 } from 'lucide-react';
 import { 
   Table, 
@@ -62,6 +64,9 @@ import {
 } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
 
+// datetime-local inputs work in local time without a zone suffix
+const toLocalInput = (iso: string | null) => (iso ? format(new Date(iso), "yyyy-MM-dd'T'HH:mm") : '');
+
 interface CourseFormData {
   title: string;
   description: string;
@@ -206,7 +211,7 @@ const ContentManagement = () => {
     try {
       const { data, error } = await supabase
         .from('courses')
-        .select('id, title, level, exam_instructions, exam_url, exam_duration_minutes')
+        .select('id, title, level, exam_instructions, exam_duration_minutes, exam_pass_percentage, exam_max_attempts, exam_cooldown_hours, exam_available_from, exam_available_until, exam_required_quiz_percentage, contract_template_id')
         .order('level');
 
       if (error) throw error;
@@ -256,7 +261,8 @@ const ContentManagement = () => {
       if (error) throw error;
       setSubsections((data || []).map(item => ({
         ...item,
-        subsection_type: item.subsection_type as 'content' | 'quiz'
+        subsection_type: item.subsection_type as 'content' | 'quiz',
+        chapters: item.chapters as unknown as VideoChapter[]
       })));
     } catch (error) {
       console.error('Error fetching subsections:', error);
@@ -606,12 +612,18 @@ const ContentManagement = () => {
   const handleExamSave = (course: any) => {
     updateExamCourse(course.id, {
       exam_instructions: course.exam_instructions,
-      exam_url: course.exam_url,
       exam_duration_minutes: course.exam_duration_minutes,
+      exam_pass_percentage: course.exam_pass_percentage,
+      exam_max_attempts: course.exam_max_attempts ?? null,
+      exam_cooldown_hours: course.exam_cooldown_hours ?? null,
+      exam_available_from: course.exam_available_from ?? null,
+      exam_available_until: course.exam_available_until ?? null,
+      exam_required_quiz_percentage: course.exam_required_quiz_percentage ?? null,
+      contract_template_id: course.contract_template_id || null,
     });
   };
 
-  const updateExamCourseState = (courseId: string, field: string, value: string | number) => {
+  const updateExamCourseState = (courseId: string, field: string, value: string | number | null) => {
     setExamCourses(prev => prev.map(course => 
       course.id === courseId ? { ...course, [field]: value } : course
     ));
@@ -930,7 +942,7 @@ const ContentManagement = () => {
             <CardHeader>
               <CardTitle>Certification Exam Management</CardTitle>
               <CardDescription>
-                Configure exam instructions, URLs, and settings for each certification level.
+                Configure exam instructions, time limits, pass marks, attempt rules, question banks and contract templates for each certification level.
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -944,24 +956,103 @@ const ContentManagement = () => {
                       </CardDescription>
                     </CardHeader>
                     <CardContent className="space-y-4">
-                      <div className="space-y-2">
-                        <Label htmlFor={`url-${course.id}`}>Exam URL (Google Form)</Label>
-                        <Input
-                          id={`url-${course.id}`}
-                          value={course.exam_url || ''}
-                          onChange={(e) => updateExamCourseState(course.id, 'exam_url', e.target.value)}
-                          placeholder="https://docs.google.com/forms/d/e/..."
-                        />
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                          <Label htmlFor={`duration-${course.id}`}>Time Limit (minutes)</Label>
+                          <Input
+                            id={`duration-${course.id}`}
+                            type="number"
+                            value={course.exam_duration_minutes || ''}
+                            onChange={(e) => updateExamCourseState(course.id, 'exam_duration_minutes', parseInt(e.target.value) || 0)}
+                            placeholder="45"
+                          />
+                        </div>
+
+                        <div className="space-y-2">
+                          <Label htmlFor={`pass-${course.id}`}>Pass Mark (%)</Label>
+                          <Input
+                            id={`pass-${course.id}`}
+                            type="number"
+                            min="0"
+                            max="100"
+                            value={course.exam_pass_percentage ?? ''}
+                            onChange={(e) => updateExamCourseState(course.id, 'exam_pass_percentage', parseInt(e.target.value) || 0)}
+                            placeholder="70"
+                          />
+                        </div>
                       </div>
 
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <div className="space-y-2">
+                          <Label htmlFor={`max-attempts-${course.id}`}>Max Attempts</Label>
+                          <Input
+                            id={`max-attempts-${course.id}`}
+                            type="number"
+                            min="1"
+                            value={course.exam_max_attempts ?? ''}
+                            onChange={(e) => updateExamCourseState(course.id, 'exam_max_attempts', parseInt(e.target.value) || null)}
+                            placeholder="Unlimited"
+                          />
+                        </div>
+
+                        <div className="space-y-2">
+                          <Label htmlFor={`cooldown-${course.id}`}>Cooldown Between Attempts (hours)</Label>
+                          <Input
+                            id={`cooldown-${course.id}`}
+                            type="number"
+                            min="0"
+                            value={course.exam_cooldown_hours ?? ''}
+                            onChange={(e) => updateExamCourseState(course.id, 'exam_cooldown_hours', parseInt(e.target.value) || null)}
+                            placeholder="None"
+                          />
+                        </div>
+
+                        <div className="space-y-2">
+                          <Label htmlFor={`quiz-requirement-${course.id}`}>Required Quiz Score (%)</Label>
+                          <Input
+                            id={`quiz-requirement-${course.id}`}
+                            type="number"
+                            min="0"
+                            max="100"
+                            value={course.exam_required_quiz_percentage ?? ''}
+                            onChange={(e) => updateExamCourseState(course.id, 'exam_required_quiz_percentage', e.target.value === '' ? null : parseInt(e.target.value))}
+                            placeholder="Not required"
+                          />
+                        </div>
+                      </div>
+
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                          <Label htmlFor={`available-from-${course.id}`}>Exam Window Opens</Label>
+                          <Input
+                            id={`available-from-${course.id}`}
+                            type="datetime-local"
+                            value={toLocalInput(course.exam_available_from)}
+                            onChange={(e) => updateExamCourseState(course.id, 'exam_available_from', e.target.value ? new Date(e.target.value).toISOString() : null)}
+                          />
+                        </div>
+
+                        <div className="space-y-2">
+                          <Label htmlFor={`available-until-${course.id}`}>Exam Window Closes</Label>
+                          <Input
+                            id={`available-until-${course.id}`}
+                            type="datetime-local"
+                            value={toLocalInput(course.exam_available_until)}
+                            onChange={(e) => updateExamCourseState(course.id, 'exam_available_until', e.target.value ? new Date(e.target.value).toISOString() : null)}
+                          />
+                        </div>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        Leave a field empty to switch that rule off. The quiz requirement applies to the best score on every quiz with authored questions.
+                      </p>
+
                       <div className="space-y-2">
-                        <Label htmlFor={`duration-${course.id}`}>Recommended Duration (minutes)</Label>
+                        <Label htmlFor={`contract-template-${course.id}`}>Contract Template ID</Label>
                         <Input
-                          id={`duration-${course.id}`}
-                          type="number"
-                          value={course.exam_duration_minutes || ''}
-                          onChange={(e) => updateExamCourseState(course.id, 'exam_duration_minutes', parseInt(e.target.value) || 0)}
-                          placeholder="45"
+                          id={`contract-template-${course.id}`}
+                          value={course.contract_template_id || ''}
+                          onChange={(e) => updateExamCourseState(course.id, 'contract_template_id', e.target.value)}
+                          placeholder="SignNow template id for this level's agreement"
                         />
                       </div>
 
@@ -976,6 +1067,15 @@ const ContentManagement = () => {
                         />
                       </div>
 
+                      <Button
+                        variant="outline"
+                        onClick={() => navigate(`/admin/content/exam/${course.id}`)}
+                        className="w-full"
+                      >
+                        <ListChecks className="mr-2 h-4 w-4" />
+                        Manage Questions
+                      </Button>
+
                       <Button 
                         onClick={() => handleExamSave(course)}
                         disabled={savingExam === course.id}
@@ -0,0 +1,577 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { DiscountCode, DiscountType, currencyDecimals, formatDiscount } from '@/types/pricing';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Loader2, Ticket, Plus, Edit, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface DiscountFormData {
+  code: string;
+  description: string;
+  discount_type: DiscountType;
+  percent_off: string;
+  amount_off: string;
+  currency: string;
+  max_redemptions: string;
+  expires_at: string;
+  allowed_levels: string;
+  allowed_email_domains: string;
+  is_active: boolean;
+}
+
+interface RedemptionCounts {
+  completed: number;
+  pending: number;
+}
+
+// datetime-local inputs work in local time without a zone suffix
+const toLocalInput = (iso: string | null) => (iso ? format(new Date(iso), "yyyy-MM-dd'T'HH:mm") : '');
+
+const splitList = (value: string) =>
+  value.split(',').map(item => item.trim()).filter(Boolean);
+
+const emptyForm = (): DiscountFormData => ({
+  code: '',
+  description: '',
+  discount_type: 'percent',
+  percent_off: '',
+  amount_off: '',
+  currency: 'usd',
+  max_redemptions: '',
+  expires_at: '',
+  allowed_levels: '',
+  allowed_email_domains: '',
+  is_active: true,
+});
+
+const DiscountCodesManagement = () => {
+  const [codes, setCodes] = useState<DiscountCode[]>([]);
+  const [redemptions, setRedemptions] = useState<Record<string, RedemptionCounts>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingCode, setEditingCode] = useState<DiscountCode | null>(null);
+  const [formData, setFormData] = useState<DiscountFormData>(emptyForm());
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchCodes();
+  }, []);
+
+  const fetchCodes = async () => {
+    try {
+      const [{ data: codeData, error: codeError }, { data: redemptionData, error: redemptionError }] = await Promise.all([
+        supabase
+          .from('discount_codes')
+          .select('*')
+          .order('created_at', { ascending: false }),
+        supabase
+          .from('discount_redemptions')
+          .select('discount_code_id, status')
+          .in('status', ['pending', 'completed'])
+      ]);
+
+      if (codeError) throw codeError;
+      if (redemptionError) throw redemptionError;
+
+      const counts: Record<string, RedemptionCounts> = {};
+      (redemptionData || []).forEach(({ discount_code_id, status }) => {
+        counts[discount_code_id] ??= { completed: 0, pending: 0 };
+        counts[discount_code_id][status as keyof RedemptionCounts]++;
+      });
+
+      setCodes((codeData || []) as DiscountCode[]);
+      setRedemptions(counts);
+    } catch (error) {
+      console.error('Error fetching discount codes:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load discount codes',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openCreateDialog = () => {
+    setEditingCode(null);
+    setFormData(emptyForm());
+    setDialogOpen(true);
+  };
+
+  const openEditDialog = (code: DiscountCode) => {
+    const currency = code.currency || 'usd';
+    setEditingCode(code);
+    setFormData({
+      code: code.code,
+      description: code.description || '',
+      discount_type: code.discount_type,
+      percent_off: code.percent_off?.toString() || '',
+      amount_off: code.amount_off !== null ? (code.amount_off / 10 ** currencyDecimals(currency)).toString() : '',
+      currency,
+      max_redemptions: code.max_redemptions?.toString() || '',
+      expires_at: toLocalInput(code.expires_at),
+      allowed_levels: (code.allowed_levels || []).join(', '),
+      allowed_email_domains: (code.allowed_email_domains || []).join(', '),
+      is_active: code.is_active,
+    });
+    setDialogOpen(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const code = formData.code.trim();
+    const currency = formData.currency.trim().toLowerCase();
+    const percentOff = parseInt(formData.percent_off);
+    const amountOff = parseFloat(formData.amount_off);
+    const maxRedemptions = formData.max_redemptions ? parseInt(formData.max_redemptions) : null;
+    const levels = splitList(formData.allowed_levels).map(Number);
+    const domains = splitList(formData.allowed_email_domains).map(d => d.toLowerCase().replace(/^@/, ''));
+
+    let validationError: string | null = null;
+    if (!/^[A-Za-z0-9_-]{3,40}$/.test(code)) {
+      validationError = 'Code must be 3-40 letters, numbers, dashes or underscores';
+    } else if (formData.discount_type === 'percent' && (isNaN(percentOff) || percentOff < 1 || percentOff > 100)) {
+      validationError = 'Percent off must be between 1 and 100';
+    } else if (formData.discount_type === 'amount' && !/^[a-z]{3}$/.test(currency)) {
+      validationError = 'Currency must be a three-letter ISO code';
+    } else if (formData.discount_type === 'amount' && (isNaN(amountOff) || amountOff <= 0)) {
+      validationError = 'Amount off must be greater than zero';
+    } else if (maxRedemptions !== null && (isNaN(maxRedemptions) || maxRedemptions < 1)) {
+      validationError = 'Max redemptions must be a positive number';
+    } else if (levels.some(level => !Number.isInteger(level) || level < 1)) {
+      validationError = 'Levels must be a comma-separated list of level numbers';
+    }
+
+    if (validationError) {
+      toast({ title: 'Invalid discount code', description: validationError, variant: 'destructive' });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const codeData = {
+        code,
+        description: formData.description.trim() || null,
+        discount_type: formData.discount_type,
+        percent_off: formData.discount_type === 'percent' ? percentOff : null,
+        amount_off: formData.discount_type === 'amount' ? Math.round(amountOff * 10 ** currencyDecimals(currency)) : null,
+        currency: formData.discount_type === 'amount' ? currency : null,
+        max_redemptions: maxRedemptions,
+        expires_at: formData.expires_at ? new Date(formData.expires_at).toISOString() : null,
+        allowed_levels: levels.length ? levels : null,
+        allowed_email_domains: domains.length ? domains : null,
+        is_active: formData.is_active,
+      };
+
+      if (editingCode) {
+        const { error } = await supabase
+          .from('discount_codes')
+          .update(codeData)
+          .eq('id', editingCode.id);
+
+        if (error) throw error;
+        toast({ title: 'Success', description: 'Discount code updated successfully' });
+      } else {
+        const { error } = await supabase
+          .from('discount_codes')
+          .insert([codeData]);
+
+        if (error) throw error;
+        toast({ title: 'Success', description: 'Discount code created successfully' });
+      }
+
+      setDialogOpen(false);
+      await fetchCodes();
+    } catch (error) {
+      console.error('Error saving discount code:', error);
+      const isDuplicate = (error as { code?: string })?.code === '23505';
+      toast({
+        title: 'Error',
+        description: isDuplicate ? 'A discount code with this name already exists' : 'Failed to save discount code',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (code: DiscountCode) => {
+    try {
+      const { error } = await supabase
+        .from('discount_codes')
+        .update({ is_active: !code.is_active })
+        .eq('id', code.id);
+
+      if (error) throw error;
+      await fetchCodes();
+    } catch (error) {
+      console.error('Error updating discount code:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to update discount code',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDelete = async (code: DiscountCode) => {
+    try {
+      const { error } = await supabase
+        .from('discount_codes')
+        .delete()
+        .eq('id', code.id);
+
+      if (error) throw error;
+      toast({ title: 'Success', description: 'Discount code deleted successfully' });
+      await fetchCodes();
+    } catch (error) {
+      console.error('Error deleting discount code:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to delete discount code',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const getStatusBadge = (code: DiscountCode) => {
+    const used = redemptions[code.id];
+    if (!code.is_active) {
+      return <Badge variant="outline">Inactive</Badge>;
+    }
+    if (code.expires_at && new Date(code.expires_at) <= new Date()) {
+      return <Badge variant="outline">Expired</Badge>;
+    }
+    if (code.max_redemptions !== null && used && used.completed + used.pending >= code.max_redemptions) {
+      return <Badge variant="secondary">Used Up</Badge>;
+    }
+    return <Badge className="bg-green-600">Active</Badge>;
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="flex items-center gap-2">
+          <Loader2 className="h-5 w-5 animate-spin" />
+          <span>Loading discount codes...</span>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight flex items-center gap-2">
+            <Ticket className="h-8 w-8" />
+            Discount Codes
+          </h1>
+          <p className="text-muted-foreground">
+            Promotions and sponsorship codes learners can apply at checkout
+          </p>
+        </div>
+        <Button onClick={openCreateDialog}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Code
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Codes</CardTitle>
+          <CardDescription>
+            Pending redemptions are held while a learner's Stripe checkout is open and count towards the limit.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {codes.length === 0 ? (
+            <div className="text-center py-8">
+              <Ticket className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+              <h3 className="text-lg font-semibold mb-2">No Discount Codes</h3>
+              <p className="text-muted-foreground">
+                Create a code to offer a promotion or sponsor a group of learners.
+              </p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Code</TableHead>
+                    <TableHead>Discount</TableHead>
+                    <TableHead>Redemptions</TableHead>
+                    <TableHead>Restrictions</TableHead>
+                    <TableHead>Expires</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {codes.map((code) => {
+                    const used = redemptions[code.id] || { completed: 0, pending: 0 };
+                    return (
+                      <TableRow key={code.id}>
+                        <TableCell>
+                          <div className="font-mono font-medium">{code.code}</div>
+                          {code.description && (
+                            <div className="text-xs text-muted-foreground">{code.description}</div>
+                          )}
+                        </TableCell>
+                        <TableCell>{formatDiscount(code)}</TableCell>
+                        <TableCell>
+                          {used.completed}{code.max_redemptions !== null && ` / ${code.max_redemptions}`}
+                          {used.pending > 0 && (
+                            <div className="text-xs text-muted-foreground">{used.pending} pending</div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          <div>{code.allowed_levels?.length ? `Levels ${code.allowed_levels.join(', ')}` : 'All levels'}</div>
+                          {code.allowed_email_domains?.length ? (
+                            <div className="text-xs text-muted-foreground">
+                              {code.allowed_email_domains.map(d => `@${d}`).join(', ')}
+                            </div>
+                          ) : null}
+                        </TableCell>
+                        <TableCell>
+                          {code.expires_at ? format(new Date(code.expires_at), 'MMM d, yyyy HH:mm') : 'Never'}
+                        </TableCell>
+                        <TableCell>{getStatusBadge(code)}</TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            <Switch
+                              checked={code.is_active}
+                              onCheckedChange={() => handleToggleActive(code)}
+                            />
+                            <Button variant="outline" size="sm" onClick={() => openEditDialog(code)}>
+                              <Edit className="h-3 w-3 mr-1" />
+                              Edit
+                            </Button>
+                            <AlertDialog>
+                              <AlertDialogTrigger asChild>
+                                <Button variant="outline" size="sm" className="text-red-600 hover:text-red-700">
+                                  <Trash2 className="h-3 w-3" />
+                                </Button>
+                              </AlertDialogTrigger>
+                              <AlertDialogContent>
+                                <AlertDialogHeader>
+                                  <AlertDialogTitle>Delete Discount Code</AlertDialogTitle>
+                                  <AlertDialogDescription>
+                                    Are you sure you want to delete "{code.code}"? Its redemption history will be deleted too.
+                                    Deactivate it instead to keep the history.
+                                  </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                  <AlertDialogAction
+                                    onClick={() => handleDelete(code)}
+                                    className="bg-red-600 hover:bg-red-700"
+                                  >
+                                    Delete
+                                  </AlertDialogAction>
+                                </AlertDialogFooter>
+                              </AlertDialogContent>
+                            </AlertDialog>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <form onSubmit={handleSave} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>{editingCode ? 'Edit Discount Code' : 'Add Discount Code'}</DialogTitle>
+              <DialogDescription>
+                Codes are matched case-insensitively. Leave restrictions empty to allow every learner.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="discount-code">Code *</Label>
+                <Input
+                  id="discount-code"
+                  value={formData.code}
+                  onChange={(e) => setFormData({ ...formData, code: e.target.value })}
+                  placeholder="SPRING25"
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="discount-type">Type *</Label>
+                <Select
+                  value={formData.discount_type}
+                  onValueChange={(value: DiscountType) => setFormData({ ...formData, discount_type: value })}
+                >
+                  <SelectTrigger id="discount-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="percent">Percentage</SelectItem>
+                    <SelectItem value="amount">Fixed amount</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="discount-description">Description</Label>
+              <Textarea
+                id="discount-description"
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                placeholder="e.g. Sponsored by Acme Relocation"
+                rows={2}
+              />
+            </div>
+
+            {formData.discount_type === 'percent' ? (
+              <div>
+                <Label htmlFor="discount-percent">Percent Off *</Label>
+                <Input
+                  id="discount-percent"
+                  type="number"
+                  min="1"
+                  max="100"
+                  value={formData.percent_off}
+                  onChange={(e) => setFormData({ ...formData, percent_off: e.target.value })}
+                  required
+                />
+              </div>
+            ) : (
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="discount-amount">Amount Off *</Label>
+                  <Input
+                    id="discount-amount"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={formData.amount_off}
+                    onChange={(e) => setFormData({ ...formData, amount_off: e.target.value })}
+                    required
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="discount-currency">Currency *</Label>
+                  <Input
+                    id="discount-currency"
+                    value={formData.currency}
+                    onChange={(e) => setFormData({ ...formData, currency: e.target.value })}
+                    placeholder="usd"
+                    maxLength={3}
+                    required
+                  />
+                </div>
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="discount-max">Max Redemptions</Label>
+                <Input
+                  id="discount-max"
+                  type="number"
+                  min="1"
+                  value={formData.max_redemptions}
+                  onChange={(e) => setFormData({ ...formData, max_redemptions: e.target.value })}
+                  placeholder="Unlimited"
+                />
+              </div>
+              <div>
+                <Label htmlFor="discount-expires">Expires At</Label>
+                <Input
+                  id="discount-expires"
+                  type="datetime-local"
+                  value={formData.expires_at}
+                  onChange={(e) => setFormData({ ...formData, expires_at: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="discount-levels">Levels</Label>
+                <Input
+                  id="discount-levels"
+                  value={formData.allowed_levels}
+                  onChange={(e) => setFormData({ ...formData, allowed_levels: e.target.value })}
+                  placeholder="e.g. 1, 2"
+                />
+              </div>
+              <div>
+                <Label htmlFor="discount-domains">Email Domains</Label>
+                <Input
+                  id="discount-domains"
+                  value={formData.allowed_email_domains}
+                  onChange={(e) => setFormData({ ...formData, allowed_email_domains: e.target.value })}
+                  placeholder="e.g. acme.com"
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Switch
+                id="discount-active"
+                checked={formData.is_active}
+                onCheckedChange={(checked) => setFormData({ ...formData, is_active: checked })}
+              />
+              <Label htmlFor="discount-active">Active</Label>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {editingCode ? 'Save Changes' : 'Create Code'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default DiscountCodesManagement;
@@ -0,0 +1,223 @@
+import { useState, useEffect } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { QuestionDraft, QuestionType, validateQuestionDraft } from '@/types/exam';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { QuestionBankEditor } from '@/components/admin/QuestionBankEditor';
+import {
+  ArrowLeft,
+  Save,
+  Loader2,
+  ListChecks
+} from 'lucide-react';
+
+interface CourseInfo {
+  id: string;
+  title: string;
+  level: number;
+  exam_pass_percentage: number;
+}
+
+const ExamQuestionEditor = () => {
+  const { courseId } = useParams<{ courseId: string }>();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [course, setCourse] = useState<CourseInfo | null>(null);
+  const [questions, setQuestions] = useState<QuestionDraft[]>([]);
+  const [savedIds, setSavedIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (courseId) {
+      fetchData();
+    }
+  }, [courseId]);
+
+  const fetchData = async () => {
+    try {
+      const { data: courseData, error: courseError } = await supabase
+        .from('courses')
+        .select('id, title, level, exam_pass_percentage')
+        .eq('id', courseId)
+        .single();
+
+      if (courseError) throw courseError;
+      setCourse(courseData);
+
+      const { data: questionData, error: questionError } = await supabase
+        .from('exam_questions')
+        .select('*')
+        .eq('course_id', courseId)
+        .order('order_index', { ascending: true });
+
+      if (questionError) throw questionError;
+
+      const drafts = (questionData || []).map(q => ({
+        id: q.id,
+        question_type: q.question_type as QuestionType,
+        prompt: q.prompt,
+        options: (q.options as string[]) || [],
+        correct_answers: (q.correct_answers as (number | string)[]) || [],
+        points: q.points,
+      }));
+      setQuestions(drafts);
+      setSavedIds(drafts.map(q => q.id));
+    } catch (error) {
+      console.error('Error fetching exam questions:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to fetch exam questions',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    const validationError = questions
+      .map((q, i) => validateQuestionDraft(q, i))
+      .find(message => message !== null);
+
+    if (validationError) {
+      toast({
+        title: 'Invalid question',
+        description: validationError,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const keptIds = questions.filter(q => q.id).map(q => q.id);
+      const removedIds = savedIds.filter(id => !keptIds.includes(id));
+
+      if (removedIds.length > 0) {
+        const { error } = await supabase
+          .from('exam_questions')
+          .delete()
+          .in('id', removedIds);
+
+        if (error) throw error;
+      }
+
+      for (const [index, question] of questions.entries()) {
+        const row = {
+          course_id: courseId,
+          question_type: question.question_type,
+          prompt: question.prompt.trim(),
+          options: question.question_type === 'short_answer' ? [] : question.options.map(o => o.trim()),
+          correct_answers: question.question_type === 'short_answer'
+            ? question.correct_answers.map(a => String(a).trim()).filter(Boolean)
+            : question.correct_answers,
+          points: question.points,
+          order_index: index,
+        };
+
+        const { error } = question.id
+          ? await supabase.from('exam_questions').update(row).eq('id', question.id)
+          : await supabase.from('exam_questions').insert([row]);
+
+        if (error) throw error;
+      }
+
+      toast({ title: 'Success', description: 'Question bank saved successfully' });
+      await fetchData();
+    } catch (error) {
+      console.error('Error saving exam questions:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to save question bank',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleBack = () => {
+    navigate('/admin/content?tab=exams');
+  };
+
+  const totalPoints = questions.reduce((sum, q) => sum + q.points, 0);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="flex items-center gap-2">
+          <Loader2 className="h-5 w-5 animate-spin" />
+          <span>Loading...</span>
+        </div>
+      </div>
+    );
+  }
+
+  if (!course) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <h2 className="text-2xl font-bold mb-2">Course not found</h2>
+          <p className="text-muted-foreground">The requested course could not be found.</p>
+          <Button onClick={handleBack} className="mt-4">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Content Management
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Button variant="outline" onClick={handleBack}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Exams
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold">Exam Question Bank</h1>
+            <p className="text-muted-foreground">
+              Level {course.level} - {course.title}
+            </p>
+          </div>
+        </div>
+        <Button onClick={handleSave} disabled={saving}>
+          {saving ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <Save className="h-4 w-4 mr-2" />
+          )}
+          Save Questions
+        </Button>
+      </div>
+
+      {/* Summary */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ListChecks className="h-5 w-5" />
+            Summary
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-wrap gap-2">
+            <Badge variant="secondary">{questions.length} question{questions.length !== 1 ? 's' : ''}</Badge>
+            <Badge variant="secondary">{totalPoints} total points</Badge>
+            <Badge variant="outline">Pass mark: {course.exam_pass_percentage}%</Badge>
+          </div>
+        </CardContent>
+      </Card>
+
+      <QuestionBankEditor questions={questions} onQuestionsChange={setQuestions} />
+    </div>
+  );
+};
+
+export default ExamQuestionEditor;
@@ -0,0 +1,489 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { BILLING_INTERVAL_LABELS, BillingInterval, CertificationPrice, currencyDecimals, formatPrice, isPriceActive } from '@/types/pricing';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Loader2, DollarSign, Plus, Edit, Trash2, StopCircle } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface PriceFormData {
+  level: string;
+  currency: string;
+  amount: string;
+  stripe_price_id: string;
+  billing_interval: BillingInterval;
+  active_from: string;
+  active_until: string;
+}
+
+// datetime-local inputs work in local time without a zone suffix
+const toLocalInput = (iso: string | null) => (iso ? format(new Date(iso), "yyyy-MM-dd'T'HH:mm") : '');
+
+const emptyForm = (): PriceFormData => ({
+  level: '1',
+  currency: 'usd',
+  amount: '',
+  stripe_price_id: '',
+  billing_interval: 'one_time',
+  active_from: toLocalInput(new Date().toISOString()),
+  active_until: '',
+});
+
+const PricingManagement = () => {
+  const [prices, setPrices] = useState<CertificationPrice[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingPrice, setEditingPrice] = useState<CertificationPrice | null>(null);
+  const [formData, setFormData] = useState<PriceFormData>(emptyForm());
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchPrices();
+  }, []);
+
+  const fetchPrices = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('certification_prices')
+        .select('*')
+        .order('level', { ascending: true })
+        .order('active_from', { ascending: false });
+
+      if (error) throw error;
+      setPrices((data || []) as CertificationPrice[]);
+    } catch (error) {
+      console.error('Error fetching prices:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load certification prices',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openCreateDialog = () => {
+    setEditingPrice(null);
+    setFormData(emptyForm());
+    setDialogOpen(true);
+  };
+
+  const openEditDialog = (price: CertificationPrice) => {
+    setEditingPrice(price);
+    setFormData({
+      level: String(price.level),
+      currency: price.currency,
+      amount: (price.amount / 10 ** currencyDecimals(price.currency)).toString(),
+      stripe_price_id: price.stripe_price_id || '',
+      billing_interval: price.billing_interval,
+      active_from: toLocalInput(price.active_from),
+      active_until: toLocalInput(price.active_until),
+    });
+    setDialogOpen(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const currency = formData.currency.trim().toLowerCase();
+    const level = parseInt(formData.level);
+    const amount = parseFloat(formData.amount);
+
+    let validationError: string | null = null;
+    if (!level || level < 1) {
+      validationError = 'Level must be a positive number';
+    } else if (!/^[a-z]{3}$/.test(currency)) {
+      validationError = 'Currency must be a three-letter ISO code';
+    } else if (isNaN(amount) || amount < 0) {
+      validationError = 'Amount must be zero or more';
+    } else if (!formData.active_from) {
+      validationError = 'Active from date is required';
+    } else if (formData.active_until && new Date(formData.active_until) <= new Date(formData.active_from)) {
+      validationError = 'Active until must be after active from';
+    }
+
+    if (validationError) {
+      toast({ title: 'Invalid price', description: validationError, variant: 'destructive' });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const priceData = {
+        level,
+        currency,
+        amount: Math.round(amount * 10 ** currencyDecimals(currency)),
+        stripe_price_id: formData.stripe_price_id.trim() || null,
+        billing_interval: formData.billing_interval,
+        active_from: new Date(formData.active_from).toISOString(),
+        active_until: formData.active_until ? new Date(formData.active_until).toISOString() : null,
+      };
+
+      if (editingPrice) {
+        const { error } = await supabase
+          .from('certification_prices')
+          .update(priceData)
+          .eq('id', editingPrice.id);
+
+        if (error) throw error;
+        toast({ title: 'Success', description: 'Price updated successfully' });
+      } else {
+        const { error } = await supabase
+          .from('certification_prices')
+          .insert([priceData]);
+
+        if (error) throw error;
+        toast({ title: 'Success', description: 'Price created successfully' });
+      }
+
+      setDialogOpen(false);
+      await fetchPrices();
+    } catch (error) {
+      console.error('Error saving price:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to save price',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleEndNow = async (price: CertificationPrice) => {
+    try {
+      const { error } = await supabase
+        .from('certification_prices')
+        .update({ active_until: new Date().toISOString() })
+        .eq('id', price.id);
+
+      if (error) throw error;
+      toast({ title: 'Success', description: `Level ${price.level} price ended` });
+      await fetchPrices();
+    } catch (error) {
+      console.error('Error ending price:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to end price',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDelete = async (price: CertificationPrice) => {
+    try {
+      const { error } = await supabase
+        .from('certification_prices')
+        .delete()
+        .eq('id', price.id);
+
+      if (error) throw error;
+      toast({ title: 'Success', description: 'Price deleted successfully' });
+      await fetchPrices();
+    } catch (error) {
+      console.error('Error deleting price:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to delete price',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // Checkout charges the most recently started active price for each level
+  const chargedPriceIds = new Set(
+    [...new Set(prices.map(p => p.level))]
+      .map(level => prices.find(p => p.level === level && isPriceActive(p))?.id)
+      .filter(Boolean)
+  );
+
+  const getStatusBadge = (price: CertificationPrice) => {
+    const now = new Date();
+    if (chargedPriceIds.has(price.id)) {
+      return <Badge className="bg-green-600">Active</Badge>;
+    }
+    if (new Date(price.active_from) > now) {
+      return <Badge variant="secondary">Scheduled</Badge>;
+    }
+    if (price.active_until && new Date(price.active_until) <= now) {
+      return <Badge variant="outline">Expired</Badge>;
+    }
+    return <Badge variant="outline">Superseded</Badge>;
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="flex items-center gap-2">
+          <Loader2 className="h-5 w-5 animate-spin" />
+          <span>Loading prices...</span>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight flex items-center gap-2">
+            <DollarSign className="h-8 w-8" />
+            Certification Pricing
+          </h1>
+          <p className="text-muted-foreground">
+            Set what learners pay for each certification level
+          </p>
+        </div>
+        <Button onClick={openCreateDialog}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Price
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Price List</CardTitle>
+          <CardDescription>
+            When several prices overlap, the one that started most recently is charged at checkout.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {prices.length === 0 ? (
+            <div className="text-center py-8">
+              <DollarSign className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+              <h3 className="text-lg font-semibold mb-2">No Prices Configured</h3>
+              <p className="text-muted-foreground">
+                Learners cannot pay for a level until it has an active price.
+              </p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Level</TableHead>
+                    <TableHead>Price</TableHead>
+                    <TableHead>Billing</TableHead>
+                    <TableHead>Stripe Price</TableHead>
+                    <TableHead>Active From</TableHead>
+                    <TableHead>Active Until</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {prices.map((price) => (
+                    <TableRow key={price.id}>
+                      <TableCell>
+                        <Badge variant="outline">Level {price.level}</Badge>
+                      </TableCell>
+                      <TableCell className="font-medium">
+                        {formatPrice(price.amount, price.currency)}
+                      </TableCell>
+                      <TableCell>{BILLING_INTERVAL_LABELS[price.billing_interval]}</TableCell>
+                      <TableCell className="font-mono text-xs">
+                        {price.stripe_price_id || '—'}
+                      </TableCell>
+                      <TableCell>{format(new Date(price.active_from), 'MMM d, yyyy HH:mm')}</TableCell>
+                      <TableCell>
+                        {price.active_until ? format(new Date(price.active_until), 'MMM d, yyyy HH:mm') : 'No end date'}
+                      </TableCell>
+                      <TableCell>{getStatusBadge(price)}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <Button variant="outline" size="sm" onClick={() => openEditDialog(price)}>
+                            <Edit className="h-3 w-3 mr-1" />
+                            Edit
+                          </Button>
+                          {isPriceActive(price) && (
+                            <Button variant="outline" size="sm" onClick={() => handleEndNow(price)}>
+                              <StopCircle className="h-3 w-3 mr-1" />
+                              End Now
+                            </Button>
+                          )}
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button variant="outline" size="sm" className="text-red-600 hover:text-red-700">
+                                <Trash2 className="h-3 w-3" />
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Delete Price</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  Are you sure you want to delete this Level {price.level} price of {formatPrice(price.amount, price.currency)}?
+                                  Use "End Now" instead to keep it in the price history.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction
+                                  onClick={() => handleDelete(price)}
+                                  className="bg-red-600 hover:bg-red-700"
+                                >
+                                  Delete
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <form onSubmit={handleSave} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>{editingPrice ? 'Edit Price' : 'Add Price'}</DialogTitle>
+              <DialogDescription>
+                Amounts are entered in the currency's normal units, e.g. 29.99.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="price-level">Level *</Label>
+                <Input
+                  id="price-level"
+                  type="number"
+                  min="1"
+                  value={formData.level}
+                  onChange={(e) => setFormData({ ...formData, level: e.target.value })}
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="price-currency">Currency *</Label>
+                <Input
+                  id="price-currency"
+                  value={formData.currency}
+                  onChange={(e) => setFormData({ ...formData, currency: e.target.value })}
+                  placeholder="usd"
+                  maxLength={3}
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="price-amount">Amount *</Label>
+                <Input
+                  id="price-amount"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={formData.amount}
+                  onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                  placeholder="29.99"
+                  required
+                />
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="price-billing">Billing *</Label>
+              <Select
+                value={formData.billing_interval}
+                onValueChange={(value: BillingInterval) => setFormData({ ...formData, billing_interval: value })}
+              >
+                <SelectTrigger id="price-billing">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(BILLING_INTERVAL_LABELS) as BillingInterval[]).map((interval) => (
+                    <SelectItem key={interval} value={interval}>
+                      {BILLING_INTERVAL_LABELS[interval]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground mt-1">
+                Yearly certifications are sold as a Stripe subscription and expire if not renewed.
+              </p>
+            </div>
+
+            <div>
+              <Label htmlFor="price-stripe">Stripe Price ID (optional)</Label>
+              <Input
+                id="price-stripe"
+                value={formData.stripe_price_id}
+                onChange={(e) => setFormData({ ...formData, stripe_price_id: e.target.value })}
+                placeholder="price_..."
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                When set, Stripe charges this Price and the amount above is only used for display.
+                For yearly billing it must be a recurring yearly Price.
+              </p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="price-from">Active From *</Label>
+                <Input
+                  id="price-from"
+                  type="datetime-local"
+                  value={formData.active_from}
+                  onChange={(e) => setFormData({ ...formData, active_from: e.target.value })}
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="price-until">Active Until</Label>
+                <Input
+                  id="price-until"
+                  type="datetime-local"
+                  value={formData.active_until}
+                  onChange={(e) => setFormData({ ...formData, active_until: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Save Price
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default PricingManagement;
@@ -0,0 +1,243 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Loader2, Webhook, RotateCcw, CheckCircle } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface StripeEvent {
+  id: string;
+  type: string;
+  status: 'processing' | 'processed' | 'failed';
+  error: string | null;
+  attempts: number;
+  livemode: boolean;
+  received_at: string;
+  processed_at: string | null;
+  updated_at: string;
+}
+
+type StatusFilter = 'failed' | 'all';
+
+// The ledger grows with every webhook delivery, so only the most recent events are listed
+const EVENT_LIMIT = 100;
+
+const StripeEventsManagement = () => {
+  const [events, setEvents] = useState<StripeEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState<StatusFilter>('failed');
+  const [replayingId, setReplayingId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchEvents();
+  }, [filter]);
+
+  const fetchEvents = async () => {
+    setLoading(true);
+    try {
+      let query = supabase
+        .from('stripe_events')
+        .select('id, type, status, error, attempts, livemode, received_at, processed_at, updated_at')
+        .order('received_at', { ascending: false })
+        .limit(EVENT_LIMIT);
+
+      if (filter === 'failed') {
+        query = query.eq('status', 'failed');
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      setEvents((data || []) as StripeEvent[]);
+    } catch (error) {
+      console.error('Error fetching stripe events:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load Stripe events',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReplay = async (event: StripeEvent) => {
+    setReplayingId(event.id);
+    try {
+      const { data, error } = await supabase.functions.invoke('replay-stripe-event', {
+        body: { event_id: event.id }
+      });
+
+      if (error) throw error;
+
+      if (data.success) {
+        toast({ title: 'Event Replayed', description: `${event.type} was processed successfully` });
+      } else {
+        toast({
+          title: 'Replay Failed',
+          description: data.error,
+          variant: 'destructive',
+        });
+      }
+
+      await fetchEvents();
+    } catch (error) {
+      console.error('Error replaying stripe event:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to replay event',
+        variant: 'destructive',
+      });
+    } finally {
+      setReplayingId(null);
+    }
+  };
+
+  const getStatusBadge = (status: StripeEvent['status']) => {
+    switch (status) {
+      case 'processed':
+        return <Badge className="bg-green-600">Processed</Badge>;
+      case 'failed':
+        return <Badge variant="destructive">Failed</Badge>;
+      default:
+        return <Badge variant="secondary">Processing</Badge>;
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight flex items-center gap-2">
+          <Webhook className="h-8 w-8" />
+          Stripe Events
+        </h1>
+        <p className="text-muted-foreground">
+          Webhook deliveries from Stripe and the outcome of processing them
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Event Ledger</CardTitle>
+              <CardDescription>
+                Replaying an event applies it to the learner's current workflow, not the state at the time it was sent.
+              </CardDescription>
+            </div>
+            <Tabs value={filter} onValueChange={(value) => setFilter(value as StatusFilter)}>
+              <TabsList>
+                <TabsTrigger value="failed">Failed</TabsTrigger>
+                <TabsTrigger value="all">All</TabsTrigger>
+              </TabsList>
+            </Tabs>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="flex items-center gap-2">
+                <Loader2 className="h-5 w-5 animate-spin" />
+                <span>Loading events...</span>
+              </div>
+            </div>
+          ) : events.length === 0 ? (
+            <div className="text-center py-8">
+              <CheckCircle className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+              <h3 className="text-lg font-semibold mb-2">
+                {filter === 'failed' ? 'No Failed Events' : 'No Events Yet'}
+              </h3>
+              <p className="text-muted-foreground">
+                {filter === 'failed'
+                  ? 'Every Stripe event received so far was processed successfully.'
+                  : 'Events appear here once Stripe starts sending webhooks.'}
+              </p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Event</TableHead>
+                    <TableHead>Received</TableHead>
+                    <TableHead>Attempts</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Error</TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {events.map((event) => (
+                    <TableRow key={event.id}>
+                      <TableCell>
+                        <div className="font-medium">{event.type}</div>
+                        <div className="font-mono text-xs text-muted-foreground">
+                          {event.id}{!event.livemode && ' · test mode'}
+                        </div>
+                      </TableCell>
+                      <TableCell>{format(new Date(event.received_at), 'MMM d, yyyy HH:mm')}</TableCell>
+                      <TableCell>{event.attempts}</TableCell>
+                      <TableCell>{getStatusBadge(event.status)}</TableCell>
+                      <TableCell className="max-w-xs text-sm text-red-600">
+                        {event.error || '—'}
+                      </TableCell>
+                      <TableCell>
+                        {event.status === 'failed' && (
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button variant="outline" size="sm" disabled={replayingId === event.id}>
+                                {replayingId === event.id ? (
+                                  <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                                ) : (
+                                  <RotateCcw className="h-3 w-3 mr-1" />
+                                )}
+                                Replay
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Replay Event</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  Process {event.type} ({event.id}) again? The learner's workflow may change
+                                  based on its current state.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction onClick={() => handleReplay(event)}>
+                                  Replay
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default StripeEventsManagement;
@@ -1,8 +1,10 @@
 import { useState, useEffect } from 'react';
 import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
 import { useToast } from '@/hooks/use-toast';
-import { SubsectionAttachment } from '@/types/course';
+import { SubsectionAttachment, SubsectionCaption, VideoChapter } from '@/types/course';
+import { QuestionDraft, QuestionType, validateQuestionDraft } from '@/types/exam';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -10,8 +12,14 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
 import { RichTextEditor } from '@/components/ui/rich-text-editor';
 import { PDFAttachmentManager } from '@/components/admin/PDFAttachmentManager';
+import { QuestionBankEditor } from '@/components/admin/QuestionBankEditor';
+import { CaptionManager } from '@/components/admin/CaptionManager';
+import { VIDEO_PROVIDER_LABELS, detectVideoSource } from '@/lib/video-providers';
+import { formatTimestamp, parseTimestamp, parseWebVtt } from '@/lib/webvtt';
 import { 
   ArrowLeft, 
   Save, 
@@ -19,19 +27,54 @@ import {
   Play, 
   HelpCircle,
   Loader2,
-  BookOpen
+  BookOpen,
+  ListChecks,
+  Upload,
+  Bookmark
 } from 'lucide-react';
 
+const VIDEO_UPLOAD_TYPES = ['video/mp4', 'video/webm', 'video/quicktime'];
+
+// One chapter per line as "m:ss Title"; returns an error message for the first bad line
+const parseChapterLines = (text: string): { chapters: VideoChapter[]; error: string | null } => {
+  const chapters: VideoChapter[] = [];
+
+  for (const [index, line] of text.split('\n').entries()) {
+    if (!line.trim()) continue;
+
+    const [timestamp, ...titleWords] = line.trim().split(/\s+/);
+    const start = parseTimestamp(timestamp);
+    const title = titleWords.join(' ');
+
+    if (start === null || !title) {
+      return { chapters: [], error: `Line ${index + 1} should look like "1:30 Chapter title".` };
+    }
+    if (chapters.some(c => c.start_seconds === start)) {
+      return { chapters: [], error: `Line ${index + 1} repeats the start time ${timestamp}.` };
+    }
+
+    chapters.push({ start_seconds: start, title });
+  }
+
+  return { chapters: chapters.sort((a, b) => a.start_seconds - b.start_seconds), error: null };
+};
+
 interface SubsectionFormData {
   title: string;
   content: string;
   video_url: string;
   quiz_url: string;
   quiz_height: number;
+  quiz_pass_percentage: number;
   section_id: string;
   subsection_type: 'content' | 'quiz';
   order_index: number;
   duration_minutes: number;
+  video_duration_seconds: number | null;
+  completion_min_video_percentage: number | null;
+  completion_min_minutes: number | null;
+  completion_requires_quiz_pass: boolean;
+  transcript: string;
 }
 
 interface SectionInfo {
@@ -52,6 +95,11 @@ const SubsectionEditor = () => {
   const [sectionInfo, setSectionInfo] = useState<SectionInfo | null>(null);
   const [existingSubsections, setExistingSubsections] = useState<number>(0);
   const [attachments, setAttachments] = useState<SubsectionAttachment[]>([]);
+  const [questions, setQuestions] = useState<QuestionDraft[]>([]);
+  const [savedQuestionIds, setSavedQuestionIds] = useState<string[]>([]);
+  const [uploadingVideo, setUploadingVideo] = useState(false);
+  const [captions, setCaptions] = useState<SubsectionCaption[]>([]);
+  const [chaptersText, setChaptersText] = useState('');
   
   // Get subsection ID from search params for editing
   const subsectionId = searchParams.get('subsectionId');
@@ -63,10 +111,16 @@ const SubsectionEditor = () => {
     video_url: '',
     quiz_url: '',
     quiz_height: 800,
+    quiz_pass_percentage: 70,
     section_id: sectionId || '',
     subsection_type: 'content',
     order_index: 0,
-    duration_minutes: 0
+    duration_minutes: 0,
+    video_duration_seconds: null,
+    completion_min_video_percentage: null,
+    completion_min_minutes: null,
+    completion_requires_quiz_pass: true,
+    transcript: ''
   });
 
   useEffect(() => {
@@ -151,12 +205,21 @@ const SubsectionEditor = () => {
         video_url: data.video_url || '',
         quiz_url: data.quiz_url || '',
         quiz_height: data.quiz_height || 800,
+        quiz_pass_percentage: data.quiz_pass_percentage,
         section_id: data.section_id,
         subsection_type: data.subsection_type as 'content' | 'quiz',
         order_index: data.order_index,
-        duration_minutes: data.duration_minutes || 0
+        duration_minutes: data.duration_minutes || 0,
+        video_duration_seconds: data.video_duration_seconds,
+        completion_min_video_percentage: data.completion_min_video_percentage,
+        completion_min_minutes: data.completion_min_minutes,
+        completion_requires_quiz_pass: data.completion_requires_quiz_pass,
+        transcript: data.transcript || ''
       });
 
+      const chapters = (data.chapters as unknown as VideoChapter[]) || [];
+      setChaptersText(chapters.map(c => `${formatTimestamp(c.start_seconds)} ${c.title}`).join('\n'));
+
       // Fetch attachments
       const { data: attachmentsData, error: attachmentsError } = await supabase
         .from('subsection_attachments')
@@ -166,6 +229,34 @@ const SubsectionEditor = () => {
 
       if (attachmentsError) throw attachmentsError;
       setAttachments(attachmentsData || []);
+
+      const { data: captionsData, error: captionsError } = await supabase
+        .from('subsection_captions')
+        .select('*')
+        .eq('subsection_id', subsectionId)
+        .order('label', { ascending: true });
+
+      if (captionsError) throw captionsError;
+      setCaptions(captionsData || []);
+
+      const { data: questionData, error: questionError } = await supabase
+        .from('quiz_questions')
+        .select('*')
+        .eq('subsection_id', subsectionId)
+        .order('order_index', { ascending: true });
+
+      if (questionError) throw questionError;
+
+      const drafts = (questionData || []).map(q => ({
+        id: q.id,
+        question_type: q.question_type as QuestionType,
+        prompt: q.prompt,
+        options: (q.options as string[]) || [],
+        correct_answers: (q.correct_answers as (number | string)[]) || [],
+        points: q.points,
+      }));
+      setQuestions(drafts);
+      setSavedQuestionIds(drafts.map(q => q.id));
     } catch (error) {
       console.error('Error fetching subsection data:', error);
       toast({
@@ -184,13 +275,144 @@ const SubsectionEditor = () => {
     }
   }, [isEditing, sectionInfo]);
 
+  // Uploads go to the subsection-videos bucket; the public URL then plays like any video file
+  const handleVideoUpload = async (file: File) => {
+    if (!VIDEO_UPLOAD_TYPES.includes(file.type)) {
+      toast({
+        title: 'Invalid File Type',
+        description: 'Please upload an MP4, WebM or MOV video.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setUploadingVideo(true);
+    try {
+      const fileName = `${sectionId}/${Date.now()}_${file.name}`;
+
+      const { error: uploadError } = await supabase.storage
+        .from('subsection-videos')
+        .upload(fileName, file, {
+          cacheControl: '3600',
+          upsert: false
+        });
+
+      if (uploadError) throw uploadError;
+
+      const { data: { publicUrl } } = supabase.storage
+        .from('subsection-videos')
+        .getPublicUrl(fileName);
+
+      setFormData(prev => ({ ...prev, video_url: publicUrl }));
+      toast({
+        title: 'Video Uploaded',
+        description: `${file.name} has been uploaded. Save the subsection to use it.`,
+      });
+    } catch (error) {
+      console.error('Error uploading video:', error);
+      toast({
+        title: 'Upload Failed',
+        description: 'Failed to upload video. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setUploadingVideo(false);
+    }
+  };
+
+  // Content subsections keep no questions, so switching a quiz back to content clears its bank
+  const saveQuestions = async (targetSubsectionId: string) => {
+    const questionsToSave = formData.subsection_type === 'quiz' ? questions : [];
+    const keptIds = questionsToSave.filter(q => q.id).map(q => q.id);
+    const removedIds = savedQuestionIds.filter(id => !keptIds.includes(id));
+
+    if (removedIds.length > 0) {
+      const { error } = await supabase
+        .from('quiz_questions')
+        .delete()
+        .in('id', removedIds);
+
+      if (error) throw error;
+    }
+
+    for (const [index, question] of questionsToSave.entries()) {
+      const row = {
+        subsection_id: targetSubsectionId,
+        question_type: question.question_type,
+        prompt: question.prompt.trim(),
+        options: question.question_type === 'short_answer' ? [] : question.options.map(o => o.trim()),
+        correct_answers: question.question_type === 'short_answer'
+          ? question.correct_answers.map(a => String(a).trim()).filter(Boolean)
+          : question.correct_answers,
+        points: question.points,
+        order_index: index,
+      };
+
+      const { error } = question.id
+        ? await supabase.from('quiz_questions').update(row).eq('id', question.id)
+        : await supabase.from('quiz_questions').insert([row]);
+
+      if (error) throw error;
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+
+    if (formData.subsection_type === 'quiz') {
+      const validationError = questions
+        .map((q, i) => validateQuestionDraft(q, i))
+        .find(message => message !== null);
+
+      if (validationError) {
+        toast({
+          title: 'Invalid question',
+          description: validationError,
+          variant: 'destructive',
+        });
+        return;
+      }
+    }
+
+    // Both fields are hidden without a video, so leftovers in them are dropped rather than checked
+    const { chapters, error: chaptersError } = parseChapterLines(formData.video_url ? chaptersText : '');
+    if (chaptersError) {
+      toast({
+        title: 'Invalid chapters',
+        description: chaptersError,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (formData.video_url && formData.completion_min_video_percentage && !formData.video_duration_seconds) {
+      toast({
+        title: 'Missing video length',
+        description: 'Enter the video length to use the minimum video watched rule.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const transcript = formData.video_url ? formData.transcript.trim() : '';
+    if (transcript && parseWebVtt(transcript).length === 0) {
+      toast({
+        title: 'Invalid transcript',
+        description: 'The transcript must be WebVTT with at least one timed cue.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
     setSaving(true);
     
     try {
       const submitData = {
         ...formData,
+        transcript: transcript || null,
+        chapters: chapters as unknown as Json,
+        // A video rule means nothing without a video to watch
+        completion_min_video_percentage: formData.video_url ? formData.completion_min_video_percentage : null,
         section_id: sectionId,
         order_index: isEditing ? formData.order_index : existingSubsections
       };
@@ -202,13 +424,17 @@ const SubsectionEditor = () => {
           .eq('id', subsectionId);
 
         if (error) throw error;
+        await saveQuestions(subsectionId!);
         toast({ title: 'Success', description: 'Subsection updated successfully' });
       } else {
-        const { error } = await supabase
+        const { data: created, error } = await supabase
           .from('subsections')
-          .insert([submitData]);
+          .insert([submitData])
+          .select('id')
+          .single();
 
         if (error) throw error;
+        await saveQuestions(created.id);
         toast({ title: 'Success', description: 'Subsection created successfully' });
       }
 
@@ -398,51 +624,245 @@ const SubsectionEditor = () => {
             {/* Video URL */}
             <div>
               <Label htmlFor="video-url">Video URL (optional)</Label>
-              <Input
-                id="video-url"
-                value={formData.video_url}
-                onChange={(e) => setFormData({ ...formData, video_url: e.target.value })}
-                placeholder="https://youtube.com/watch?v=... or https://vimeo.com/..."
-              />
+              <div className="flex gap-2">
+                <Input
+                  id="video-url"
+                  value={formData.video_url}
+                  onChange={(e) => setFormData({ ...formData, video_url: e.target.value })}
+                  placeholder="https://youtube.com/watch?v=... or https://vimeo.com/..."
+                />
+                <input
+                  type="file"
+                  accept={VIDEO_UPLOAD_TYPES.join(',')}
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) handleVideoUpload(file);
+                    e.target.value = '';
+                  }}
+                  className="hidden"
+                  id="video-upload"
+                  disabled={uploadingVideo}
+                />
+                <Button type="button" variant="outline" disabled={uploadingVideo} asChild>
+                  <Label htmlFor="video-upload" className="cursor-pointer">
+                    {uploadingVideo ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <Upload className="h-4 w-4 mr-2" />
+                    )}
+                    {uploadingVideo ? 'Uploading...' : 'Upload'}
+                  </Label>
+                </Button>
+              </div>
+              {formData.video_url && (
+                <Badge variant="outline" className="mt-2">
+                  {VIDEO_PROVIDER_LABELS[detectVideoSource(formData.video_url).provider]}
+                </Badge>
+              )}
               <p className="text-xs text-muted-foreground mt-1">
-                Add a video URL to make this a video-based subsection. Leave empty for text-only content.
+                Paste a YouTube, Vimeo, Wistia, Loom or HLS (.m3u8) link, or upload an MP4, WebM or MOV file. Leave empty for text-only content.
               </p>
             </div>
 
-            {/* Quiz URL and Height - Only show for quiz type */}
+            {/* Chapters and transcript - Only show when there is a video */}
+            {formData.video_url && (
+              <div className="space-y-4">
+                <div>
+                  <Label htmlFor="chapters" className="flex items-center gap-2">
+                    <Bookmark className="h-4 w-4" />
+                    Chapters (optional)
+                  </Label>
+                  <Textarea
+                    id="chapters"
+                    value={chaptersText}
+                    onChange={(e) => setChaptersText(e.target.value)}
+                    placeholder={'0:00 Introduction\n2:15 Setting up\n10:40 Summary'}
+                    rows={4}
+                    className="font-mono text-sm"
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">
+                    One chapter per line: a start time followed by its title. Chapters are marked on the seek bar.
+                  </p>
+                </div>
+
+                <div>
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="transcript">Transcript (optional)</Label>
+                    <input
+                      type="file"
+                      accept=".vtt,text/vtt"
+                      onChange={async (e) => {
+                        const file = e.target.files?.[0];
+                        e.target.value = '';
+                        if (file) {
+                          const text = await file.text();
+                          setFormData(prev => ({ ...prev, transcript: text }));
+                        }
+                      }}
+                      className="hidden"
+                      id="transcript-upload"
+                    />
+                    <Button type="button" variant="ghost" size="sm" asChild>
+                      <Label htmlFor="transcript-upload" className="cursor-pointer">
+                        <Upload className="h-4 w-4 mr-2" />
+                        Load .vtt File
+                      </Label>
+                    </Button>
+                  </div>
+                  <Textarea
+                    id="transcript"
+                    value={formData.transcript}
+                    onChange={(e) => setFormData({ ...formData, transcript: e.target.value })}
+                    placeholder={'WEBVTT\n\n00:00:00.000 --> 00:00:04.000\nWelcome to this lesson.'}
+                    rows={6}
+                    className="font-mono text-sm"
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">
+                    WebVTT with timed cues. Learners can search it and click a line to jump there. Leave empty to build it from a caption track.
+                  </p>
+                </div>
+              </div>
+            )}
+
+            {/* Quiz questions and pass mark - Only show for quiz type */}
             {formData.subsection_type === 'quiz' && (
               <div className="space-y-4">
                 <div>
-                  <Label htmlFor="quiz-url">Quiz URL *</Label>
+                  <Label htmlFor="quiz-pass">Pass Mark (%) *</Label>
                   <Input
-                    id="quiz-url"
-                    value={formData.quiz_url}
-                    onChange={(e) => setFormData({ ...formData, quiz_url: e.target.value })}
-                    placeholder="https://docs.google.com/forms/d/e/..."
-                    required={formData.subsection_type === 'quiz'}
+                    id="quiz-pass"
+                    type="number"
+                    min="0"
+                    max="100"
+                    value={formData.quiz_pass_percentage}
+                    onChange={(e) => setFormData({ ...formData, quiz_pass_percentage: parseInt(e.target.value) || 0 })}
+                    placeholder="70"
+                    required
                   />
                   <p className="text-xs text-muted-foreground mt-1">
-                    Enter the Google Form URL or other quiz platform URL. This will be embedded as an iframe for students to complete.
+                    Learners complete this subsection by scoring at least this percentage. They can retake the quiz as often as they like.
                   </p>
                 </div>
+
+                <div className="space-y-2">
+                  <Label>Questions</Label>
+                  <QuestionBankEditor questions={questions} onQuestionsChange={setQuestions} />
+                </div>
+
+                {questions.length === 0 && (
+                  <div className="space-y-4">
+                    <div>
+                      <Label htmlFor="quiz-url">Embedded Quiz URL *</Label>
+                      <Input
+                        id="quiz-url"
+                        value={formData.quiz_url}
+                        onChange={(e) => setFormData({ ...formData, quiz_url: e.target.value })}
+                        placeholder="https://docs.google.com/forms/d/e/..."
+                        required
+                      />
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Only used when the quiz has no questions above. Enter the Google Form URL or other quiz platform URL; it is embedded as an iframe and cannot be scored.
+                      </p>
+                    </div>
+                    <div>
+                      <Label htmlFor="quiz-height">Quiz Height (pixels) *</Label>
+                      <Input
+                        id="quiz-height"
+                        type="number"
+                        min="400"
+                        max="5000"
+                        value={formData.quiz_height}
+                        onChange={(e) => setFormData({ ...formData, quiz_height: parseInt(e.target.value) || 800 })}
+                        placeholder="2808"
+                        required
+                      />
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Go to your Google Form → Send → Embed HTML → Copy the height value shown (e.g., 2808 px) and paste it here.
+                      </p>
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+
+            <Separator />
+
+            {/* Completion rules */}
+            <div className="space-y-4">
+              <div>
+                <Label className="flex items-center gap-2">
+                  <ListChecks className="h-4 w-4" />
+                  Completion Rules
+                </Label>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Learners can only mark this subsection as complete once every rule below is met. Leave a field empty to skip that rule.
+                </p>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {formData.video_url && (
+                  <div>
+                    <Label htmlFor="completion-video">Minimum Video Watched (%)</Label>
+                    <Input
+                      id="completion-video"
+                      type="number"
+                      min="1"
+                      max="100"
+                      value={formData.completion_min_video_percentage ?? ''}
+                      onChange={(e) => setFormData({ ...formData, completion_min_video_percentage: parseInt(e.target.value) || null })}
+                      placeholder="No video rule"
+                    />
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Share of the video the learner must actually play. Skipping ahead does not count, and embedded Loom videos cannot report playback.
+                    </p>
+                  </div>
+                )}
+                {formData.video_url && (
+                  <div>
+                    <Label htmlFor="video-duration">Video Length (seconds)</Label>
+                    <Input
+                      id="video-duration"
+                      type="number"
+                      min="1"
+                      value={formData.video_duration_seconds ?? ''}
+                      onChange={(e) => setFormData({ ...formData, video_duration_seconds: parseInt(e.target.value) || null })}
+                      placeholder="e.g., 754"
+                    />
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Required for the video rule. Reported progress is checked against the time the learner actually spent on the page.
+                    </p>
+                  </div>
+                )}
                 <div>
-                  <Label htmlFor="quiz-height">Quiz Height (pixels) *</Label>
+                  <Label htmlFor="completion-minutes">Minimum Time on Page (minutes)</Label>
                   <Input
-                    id="quiz-height"
+                    id="completion-minutes"
                     type="number"
-                    min="400"
-                    max="5000"
-                    value={formData.quiz_height}
-                    onChange={(e) => setFormData({ ...formData, quiz_height: parseInt(e.target.value) || 800 })}
-                    placeholder="2808"
-                    required={formData.subsection_type === 'quiz'}
+                    min="1"
+                    value={formData.completion_min_minutes ?? ''}
+                    onChange={(e) => setFormData({ ...formData, completion_min_minutes: parseInt(e.target.value) || null })}
+                    placeholder="No time rule"
                   />
                   <p className="text-xs text-muted-foreground mt-1">
-                    Go to your Google Form → Send → Embed HTML → Copy the height value shown (e.g., 2808 px) and paste it here.
+                    Only time with the page open in the foreground is counted.
                   </p>
                 </div>
               </div>
-            )}
+              {formData.subsection_type === 'quiz' && questions.length > 0 && (
+                <div className="flex items-center justify-between rounded-lg border p-3">
+                  <div>
+                    <Label htmlFor="completion-quiz">Require a passing quiz score</Label>
+                    <p className="text-xs text-muted-foreground">
+                      When off, the quiz is practice only and learners mark the subsection complete themselves.
+                    </p>
+                  </div>
+                  <Switch
+                    id="completion-quiz"
+                    checked={formData.completion_requires_quiz_pass}
+                    onCheckedChange={(checked) => setFormData({ ...formData, completion_requires_quiz_pass: checked })}
+                  />
+                </div>
+              )}
+            </div>
 
             {/* Content */}
             <div>
@@ -489,6 +909,16 @@ const SubsectionEditor = () => {
           onAttachmentsChange={setAttachments}
         />
       )}
+
+      {/* Captions - Only show for existing subsections */}
+      {isEditing && subsectionId && (
+        <CaptionManager
+          subsectionId={subsectionId}
+          videoUrl={formData.video_url}
+          captions={captions}
+          onCaptionsChange={setCaptions}
+        />
+      )}
     </div>
   );
 };
@@ -8,6 +8,16 @@ import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Separator } from '@/components/ui/separator';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
 import { 
   ArrowLeft, 
   User, 
@@ -26,14 +36,234 @@ import {
   Phone,
   Globe,
   GraduationCap,
-  FileText
+  FileText,
+  FileSignature,
+  CreditCard,
+  ClipboardCheck,
+  History
 } from 'lucide-react';
 import { useState as useReactState, useEffect as useReactEffect } from 'react';
 import { formatDistanceToNow, format } from 'date-fns';
+import { formatPrice } from '@/types/pricing';
+import { CertificationReviewRecord } from '@/types/exam';
+import CertificationTimeline from '@/components/CertificationTimeline';
+
+type SanctionAction = 'suspend' | 'revoke' | 'reinstate';
+
+interface CertificationWorkflowRow {
+  id: string;
+  level: number;
+  current_step: string;
+  certification_status: string;
+  certification_status_reason: string | null;
+  certification_status_changed_at: string | null;
+  courses: { title: string; level: number } | null;
+}
+
+const SANCTION_LABELS: Record<SanctionAction, string> = {
+  suspend: 'Suspend',
+  revoke: 'Revoke',
+  reinstate: 'Reinstate',
+};
 
 // Certification Status Component
 const CertificationStatusDisplay = ({ userId }: { userId: string }) => {
-  const [workflows, setWorkflows] = useReactState<any[]>([]);
+  const { toast } = useToast();
+  const [workflows, setWorkflows] = useReactState<CertificationWorkflowRow[]>([]);
+  const [loading, setLoading] = useReactState(true);
+  const [pendingAction, setPendingAction] = useReactState<{ workflow: CertificationWorkflowRow; action: SanctionAction } | null>(null);
+  const [reason, setReason] = useReactState('');
+  const [submitting, setSubmitting] = useReactState(false);
+
+  const fetchWorkflows = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('certification_workflows')
+        .select('*, courses(title, level)')
+        .eq('user_id', userId)
+        .order('level');
+
+      if (error) throw error;
+      setWorkflows(data || []);
+    } catch (error) {
+      console.error('Error fetching certification workflows:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useReactEffect(() => {
+    fetchWorkflows();
+  }, [userId]);
+
+  const openSanctionDialog = (workflow: CertificationWorkflowRow, action: SanctionAction) => {
+    setReason('');
+    setPendingAction({ workflow, action });
+  };
+
+  const handleSanction = async () => {
+    if (!pendingAction || !reason.trim()) return;
+
+    const { workflow, action } = pendingAction;
+    setSubmitting(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('handle-admin-certification-action', {
+        body: {
+          user_id: userId,
+          level: workflow.level,
+          action,
+          reason: reason.trim()
+        }
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: 'Success',
+        description: data.message,
+      });
+      setPendingAction(null);
+      await fetchWorkflows();
+    } catch (error) {
+      console.error(`Error applying ${action} to certification:`, error);
+      toast({
+        title: 'Error',
+        description: `Failed to ${action} certification`,
+        variant: 'destructive',
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return <div>Loading certification status...</div>;
+  }
+
+  if (workflows.length === 0) {
+    return <div className="text-muted-foreground">No certification workflows started</div>;
+  }
+
+  const getStatusBadge = (workflow: CertificationWorkflowRow) => {
+    if (workflow.certification_status === 'revoked') {
+      return <Badge variant="destructive">Revoked</Badge>;
+    }
+    if (workflow.certification_status === 'suspended') {
+      return <Badge variant="destructive">Suspended</Badge>;
+    }
+    if (workflow.current_step === 'completed') {
+      return <Badge className="bg-green-600">Certified</Badge>;
+    }
+    
+    switch (workflow.current_step) {
+      case 'exam':
+        return <Badge variant="outline">Exam Phase</Badge>;
+      case 'admin_approval':
+        return <Badge variant="secondary">Under Review</Badge>;
+      case 'contract':
+        return <Badge variant="outline">Contract Phase</Badge>;
+      case 'payment':
+        return <Badge variant="outline">Payment Phase</Badge>;
+      default:
+        return <Badge variant="outline">In Progress</Badge>;
+    }
+  };
+
+  // Mirrors the transitions accepted by handle-admin-certification-action
+  const getAvailableActions = (workflow: CertificationWorkflowRow): SanctionAction[] => {
+    switch (workflow.certification_status) {
+      case 'suspended':
+        return ['reinstate', 'revoke'];
+      case 'revoked':
+        return ['reinstate'];
+      default:
+        return workflow.current_step === 'completed' ? ['suspend', 'revoke'] : [];
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {workflows.map((workflow) => (
+        <div key={workflow.id} className="p-3 border rounded-lg space-y-2">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <GraduationCap className="h-4 w-4 text-primary" />
+              <div>
+                <div className="font-medium">Level {workflow.level} Certification</div>
+                <div className="text-sm text-muted-foreground">
+                  {workflow.courses?.title}
+                </div>
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              {getStatusBadge(workflow)}
+              {getAvailableActions(workflow).map(action => (
+                <Button
+                  key={action}
+                  size="sm"
+                  variant={action === 'reinstate' ? 'outline' : 'destructive'}
+                  onClick={() => openSanctionDialog(workflow, action)}
+                >
+                  {SANCTION_LABELS[action]}
+                </Button>
+              ))}
+            </div>
+          </div>
+          {workflow.certification_status !== 'active' && workflow.certification_status_reason && (
+            <p className="text-sm text-muted-foreground pl-7">
+              Reason: {workflow.certification_status_reason}
+              {workflow.certification_status_changed_at && (
+                <> ({format(new Date(workflow.certification_status_changed_at), 'MMM d, yyyy')})</>
+              )}
+            </p>
+          )}
+        </div>
+      ))}
+
+      <Dialog open={!!pendingAction} onOpenChange={(open) => !open && setPendingAction(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {pendingAction && `${SANCTION_LABELS[pendingAction.action]} Level ${pendingAction.workflow.level} Certification`}
+            </DialogTitle>
+            <DialogDescription>
+              {pendingAction?.action === 'revoke' && 'The learner loses their certificate, digital badge and directory listing, and their subscription will not renew.'}
+              {pendingAction?.action === 'suspend' && 'The certification stops verifying as valid and the learner is hidden from the directory until reinstated.'}
+              {pendingAction?.action === 'reinstate' && 'The certification is restored to good standing and any withdrawn certificate is reissued.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="sanction-reason">Reason</Label>
+            <Textarea
+              id="sanction-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Recorded in the audit log and shown to the learner"
+              rows={3}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPendingAction(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant={pendingAction?.action === 'reinstate' ? 'default' : 'destructive'}
+              onClick={handleSanction}
+              disabled={submitting || !reason.trim()}
+            >
+              {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {pendingAction && SANCTION_LABELS[pendingAction.action]}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+// Certification Timeline Component
+const CertificationTimelineDisplay = ({ userId }: { userId: string }) => {
+  const [workflows, setWorkflows] = useReactState<{ id: string; level: number }[]>([]);
   const [loading, setLoading] = useReactState(true);
 
   useReactEffect(() => {
@@ -41,7 +271,7 @@ const CertificationStatusDisplay = ({ userId }: { userId: string }) => {
       try {
         const { data, error } = await supabase
           .from('certification_workflows')
-          .select('*, courses(title, level)')
+          .select('id, level')
           .eq('user_id', userId)
           .order('level');
 
@@ -58,54 +288,287 @@ const CertificationStatusDisplay = ({ userId }: { userId: string }) => {
   }, [userId]);
 
   if (loading) {
-    return <div>Loading certification status...</div>;
+    return <div>Loading certification timeline...</div>;
   }
 
   if (workflows.length === 0) {
     return <div className="text-muted-foreground">No certification workflows started</div>;
   }
 
-  const getStatusBadge = (workflow: any) => {
-    if (workflow.subscription_status === 'active') {
-      return <Badge className="bg-green-600">Certified</Badge>;
+  return (
+    <div className="space-y-6">
+      {workflows.map((workflow) => (
+        <div key={workflow.id} className="space-y-3">
+          <div className="font-medium">Level {workflow.level} Certification</div>
+          <CertificationTimeline workflowId={workflow.id} audience="admin" />
+        </div>
+      ))}
+    </div>
+  );
+};
+
+// Contract Events Component
+const ContractEventsDisplay = ({ userId }: { userId: string }) => {
+  const [events, setEvents] = useReactState<ContractEvent[]>([]);
+  const [loading, setLoading] = useReactState(true);
+
+  useReactEffect(() => {
+    const fetchEvents = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('contract_events')
+          .select('id, action, event_type, provider, document_id, created_at, certification_workflows(level)')
+          .eq('user_id', userId)
+          .order('created_at', { ascending: false });
+
+        if (error) throw error;
+        setEvents(data || []);
+      } catch (error) {
+        console.error('Error fetching contract events:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchEvents();
+  }, [userId]);
+
+  if (loading) {
+    return <div>Loading contract events...</div>;
+  }
+
+  if (events.length === 0) {
+    return <div className="text-muted-foreground">No contract activity yet</div>;
+  }
+
+  const getActionBadge = (action: string) => {
+    switch (action) {
+      case 'signed':
+        return <Badge className="bg-green-600">Signed</Badge>;
+      case 'declined':
+        return <Badge variant="destructive">Declined</Badge>;
+      case 'viewed':
+        return <Badge variant="secondary">Viewed</Badge>;
+      case 'sent':
+        return <Badge variant="outline">Sent</Badge>;
+      default:
+        return <Badge variant="outline">Updated</Badge>;
     }
-    
-    switch (workflow.current_step) {
-      case 'exam':
-        return <Badge variant="outline">Exam Phase</Badge>;
-      case 'admin_approval':
-        return <Badge variant="secondary">Under Review</Badge>;
-      case 'contract':
-        return <Badge variant="outline">Contract Phase</Badge>;
-      case 'payment':
-        return <Badge variant="outline">Payment Phase</Badge>;
+  };
+
+  return (
+    <div className="space-y-3">
+      {events.map((event) => (
+        <div key={event.id} className="flex items-center justify-between p-3 border rounded-lg">
+          <div className="flex items-center gap-3">
+            <FileSignature className="h-4 w-4 text-primary" />
+            <div>
+              <div className="font-medium">
+                {event.certification_workflows ? `Level ${event.certification_workflows.level} Agreement` : 'Agreement'}
+              </div>
+              <div className="text-sm text-muted-foreground">
+                {event.event_type} · {event.provider} document {event.document_id}
+              </div>
+            </div>
+          </div>
+          <div className="flex items-center gap-3">
+            <span className="text-sm text-muted-foreground">
+              {format(new Date(event.created_at), 'MMM d, yyyy HH:mm')}
+            </span>
+            {getActionBadge(event.action)}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const PaymentEventsDisplay = ({ userId }: { userId: string }) => {
+  const [events, setEvents] = useReactState<PaymentEvent[]>([]);
+  const [loading, setLoading] = useReactState(true);
+
+  useReactEffect(() => {
+    const fetchEvents = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('payment_events')
+          .select('id, event_type, stripe_object_id, previous_subscription_status, new_subscription_status, amount, currency, reason, created_at, certification_workflows(level)')
+          .eq('user_id', userId)
+          .order('created_at', { ascending: false });
+
+        if (error) throw error;
+        setEvents(data || []);
+      } catch (error) {
+        console.error('Error fetching payment events:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchEvents();
+  }, [userId]);
+
+  if (loading) {
+    return <div>Loading payment events...</div>;
+  }
+
+  if (events.length === 0) {
+    return <div className="text-muted-foreground">No payment activity yet</div>;
+  }
+
+  const getEventBadge = (eventType: string) => {
+    switch (eventType) {
+      case 'checkout.session.completed':
+        return <Badge className="bg-green-600">Paid</Badge>;
+      case 'charge.refunded':
+        return <Badge variant="destructive">Refunded</Badge>;
+      case 'charge.dispute.created':
+        return <Badge variant="destructive">Disputed</Badge>;
+      case 'payment_intent.payment_failed':
+        return <Badge variant="secondary">Failed</Badge>;
+      case 'checkout.session.expired':
+        return <Badge variant="outline">Expired</Badge>;
       default:
-        return <Badge variant="outline">In Progress</Badge>;
+        return <Badge variant="outline">{eventType}</Badge>;
     }
   };
 
   return (
     <div className="space-y-3">
-      {workflows.map((workflow) => (
-        <div key={workflow.id} className="flex items-center justify-between p-3 border rounded-lg">
+      {events.map((event) => (
+        <div key={event.id} className="flex items-center justify-between p-3 border rounded-lg">
           <div className="flex items-center gap-3">
-            <GraduationCap className="h-4 w-4 text-primary" />
+            <CreditCard className="h-4 w-4 text-primary" />
             <div>
-              <div className="font-medium">Level {workflow.level} Certification</div>
+              <div className="font-medium">
+                {event.certification_workflows ? `Level ${event.certification_workflows.level} Payment` : 'Payment'}
+                {event.amount !== null && event.currency && ` · ${formatPrice(event.amount, event.currency)}`}
+              </div>
               <div className="text-sm text-muted-foreground">
-                {workflow.courses?.title}
+                {event.reason || event.event_type}
+                {event.new_subscription_status && event.new_subscription_status !== event.previous_subscription_status &&
+                  ` · ${event.previous_subscription_status} → ${event.new_subscription_status}`}
               </div>
             </div>
           </div>
-          <div className="flex items-center gap-2">
-            {getStatusBadge(workflow)}
+          <div className="flex items-center gap-3">
+            <span className="text-sm text-muted-foreground">
+              {format(new Date(event.created_at), 'MMM d, yyyy HH:mm')}
+            </span>
+            {getEventBadge(event.event_type)}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+// Review History Component
+const ReviewHistoryDisplay = ({ userId }: { userId: string }) => {
+  const [reviews, setReviews] = useReactState<CertificationReviewRecord[]>([]);
+  const [reviewerNames, setReviewerNames] = useReactState<Record<string, string>>({});
+  const [loading, setLoading] = useReactState(true);
+
+  useReactEffect(() => {
+    const fetchReviews = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('certification_reviews')
+          .select('*')
+          .eq('user_id', userId)
+          .order('created_at', { ascending: false });
+
+        if (error) throw error;
+        setReviews((data || []) as CertificationReviewRecord[]);
+
+        const reviewerIds = [...new Set((data || []).map(review => review.reviewer_id))];
+        if (reviewerIds.length > 0) {
+          const { data: reviewers } = await supabase
+            .from('profiles')
+            .select('user_id, first_name, last_name')
+            .in('user_id', reviewerIds);
+
+          const names: Record<string, string> = {};
+          (reviewers || []).forEach(reviewer => {
+            names[reviewer.user_id] = `${reviewer.first_name} ${reviewer.last_name}`;
+          });
+          setReviewerNames(names);
+        }
+      } catch (error) {
+        console.error('Error fetching certification reviews:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchReviews();
+  }, [userId]);
+
+  if (loading) {
+    return <div>Loading review history...</div>;
+  }
+
+  if (reviews.length === 0) {
+    return <div className="text-muted-foreground">No certification reviews yet</div>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {reviews.map((review) => (
+        <div key={review.id} className="p-3 border rounded-lg space-y-2">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <ClipboardCheck className="h-4 w-4 text-primary" />
+              <div>
+                <div className="font-medium">Level {review.level} Review</div>
+                <div className="text-sm text-muted-foreground">
+                  by {reviewerNames[review.reviewer_id] || 'Unknown reviewer'}
+                </div>
+              </div>
+            </div>
+            <div className="flex items-center gap-3">
+              <span className="text-sm text-muted-foreground">
+                {format(new Date(review.created_at), 'MMM d, yyyy HH:mm')}
+              </span>
+              {review.decision === 'approved' ? (
+                <Badge className="bg-green-600">Approved</Badge>
+              ) : (
+                <Badge variant="destructive">Rejected</Badge>
+              )}
+            </div>
           </div>
+          {review.notes && (
+            <p className="text-sm whitespace-pre-wrap pl-7">{review.notes}</p>
+          )}
         </div>
       ))}
     </div>
   );
 };
 
+interface ContractEvent {
+  id: string;
+  action: string;
+  event_type: string;
+  provider: string;
+  document_id: string;
+  created_at: string;
+  certification_workflows: { level: number } | null;
+}
+
+interface PaymentEvent {
+  id: string;
+  event_type: string;
+  stripe_object_id: string;
+  previous_subscription_status: string | null;
+  new_subscription_status: string | null;
+  amount: number | null;
+  currency: string | null;
+  reason: string | null;
+  created_at: string;
+  certification_workflows: { level: number } | null;
+}
+
 interface UserDetailData {
   id: string;
   email: string;
@@ -543,6 +1006,58 @@ const UserDetail = () => {
         </CardContent>
       </Card>
 
+      {/* Certification Timeline */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Certification Timeline
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <CertificationTimelineDisplay userId={userData.id} />
+        </CardContent>
+      </Card>
+
+      {/* Review History */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ClipboardCheck className="h-5 w-5" />
+            Review History
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ReviewHistoryDisplay userId={userData.id} />
+        </CardContent>
+      </Card>
+
+      {/* Contract Events */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FileSignature className="h-5 w-5" />
+            Contract Events
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ContractEventsDisplay userId={userData.id} />
+        </CardContent>
+      </Card>
+
+      {/* Payment Events */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CreditCard className="h-5 w-5" />
+            Payment Events
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <PaymentEventsDisplay userId={userData.id} />
+        </CardContent>
+      </Card>
+
       {/* Overall Statistics */}
       <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
         <Card>
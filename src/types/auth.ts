@@ -15,6 +15,7 @@ export interface Profile {
   service_regions: string[] | null;
   languages_spoken: string[] | null;
   avatar_url: string | null;
+  directory_visible: boolean;
   created_at: string;
   updated_at: string;
 }
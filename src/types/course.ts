@@ -32,11 +32,33 @@ export interface Subsection {
   subsection_type: 'content' | 'quiz';
   order_index: number;
   duration_minutes: number | null;
+  video_duration_seconds?: number | null;
+  completion_min_video_percentage?: number | null;
+  completion_min_minutes?: number | null;
+  completion_requires_quiz_pass?: boolean;
+  transcript?: string | null;
+  chapters?: VideoChapter[];
   created_at: string;
   updated_at: string;
   attachments?: SubsectionAttachment[];
 }
 
+export interface VideoChapter {
+  start_seconds: number;
+  title: string;
+}
+
+export interface SubsectionCaption {
+  id: string;
+  subsection_id: string;
+  language: string;
+  label: string;
+  file_name: string;
+  file_url: string;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface SubsectionAttachment {
   id: string;
   subsection_id: string;
@@ -87,6 +109,9 @@ export interface UserProgress {
   subsection_id?: string | null; // New field for sections structure
   completed_at: string | null;
   progress_percentage: number;
+  time_spent_seconds: number;
+  video_watched_percentage: number;
+  last_activity_at: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -0,0 +1,150 @@
+export type QuestionType = 'single_choice' | 'multiple_choice' | 'true_false' | 'short_answer';
+
+export interface ExamQuestion {
+  id: string;
+  course_id: string;
+  question_type: QuestionType;
+  prompt: string;
+  options: string[];
+  correct_answers: (number | string)[];
+  points: number;
+  order_index: number;
+  created_at: string;
+  updated_at: string;
+}
+
+// Question as delivered to the learner (no correct answers)
+export interface ExamQuestionForAttempt {
+  id: string;
+  question_type: QuestionType;
+  prompt: string;
+  options: string[];
+  points: number;
+  order_index: number;
+}
+
+export type ExamAnswer = number[] | string;
+
+export interface ExamAttemptSession {
+  started_at: string;
+  expires_at: string | null;
+  duration_minutes: number | null;
+  pass_percentage: number;
+  questions: ExamQuestionForAttempt[];
+}
+
+export interface ExamSubmissionResult {
+  passed: boolean;
+  score: number;
+  max_score: number;
+  percentage: number;
+  pass_percentage: number;
+  time_expired: boolean;
+}
+
+// Shape stored in certification_workflows.exam_results_json by the native engine
+export interface NativeExamResults extends ExamSubmissionResult {
+  source: 'native';
+  started_at: string;
+  submitted_at: string;
+}
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  single_choice: 'Single choice',
+  multiple_choice: 'Multiple choice',
+  true_false: 'True / False',
+  short_answer: 'Short answer',
+};
+
+// Editable question in the admin question bank editor
+export interface QuestionDraft {
+  id?: string;
+  question_type: QuestionType;
+  prompt: string;
+  options: string[];
+  correct_answers: (number | string)[];
+  points: number;
+}
+
+// Returns the first problem that would make a question unscorable, or null
+export const validateQuestionDraft = (question: QuestionDraft, position: number): string | null => {
+  const label = `Question ${position + 1}`;
+  if (!question.prompt.trim()) return `${label} needs a prompt`;
+
+  if (question.question_type === 'short_answer') {
+    const accepted = question.correct_answers.filter(a => typeof a === 'string' && a.trim());
+    return accepted.length === 0 ? `${label} needs at least one accepted answer` : null;
+  }
+
+  if (question.options.length < 2 || question.options.some(o => !o.trim())) {
+    return `${label} needs at least two non-empty options`;
+  }
+  if (question.correct_answers.length === 0) return `${label} needs a correct answer`;
+  if (question.question_type !== 'multiple_choice' && question.correct_answers.length !== 1) {
+    return `${label} must have exactly one correct answer`;
+  }
+  return null;
+};
+
+// Row of exam_attempts; one per submission, never overwritten
+export interface ExamAttempt {
+  id: string;
+  workflow_id: string;
+  user_id: string;
+  level: number;
+  attempt_number: number;
+  source: 'native' | 'external';
+  submission_id: string | null;
+  score: number | null;
+  max_score: number | null;
+  percentage: number | null;
+  passed: boolean | null;
+  answers: Record<string, ExamAnswer>;
+  results_json: Record<string, unknown> | null;
+  started_at: string | null;
+  submitted_at: string;
+  created_at: string;
+}
+
+// Row of certification_reviews; one per approve/reject decision by an admin
+export interface CertificationReviewRecord {
+  id: string;
+  workflow_id: string;
+  level: number;
+  decision: 'approved' | 'rejected';
+  notes: string | null;
+  exam_attempt_id: string | null;
+  reviewer_id: string;
+  created_at: string;
+}
+
+// Row returned by get_exam_eligibility(); the course's exam policy applied to one learner
+export interface ExamEligibility {
+  eligible: boolean;
+  reason: string | null;
+  attempts_used: number;
+  max_attempts: number | null;
+  next_attempt_at: string | null;
+  available_until: string | null;
+  required_quiz_percentage: number | null;
+  lowest_quiz_percentage: number | null;
+}
+
+// Quiz as delivered to the learner by get-subsection-quiz (no correct answers)
+export interface QuizSession {
+  pass_percentage: number;
+  questions: ExamQuestionForAttempt[];
+  best_attempt: { percentage: number; passed: boolean; created_at: string } | null;
+}
+
+// A passed quiz stays not completed while blockers lists unmet completion rules
+export interface QuizSubmissionResult {
+  passed: boolean;
+  completed: boolean;
+  blockers: string[];
+  score: number;
+  max_score: number;
+  percentage: number;
+  pass_percentage: number;
+  questions: { question_id: string; correct: boolean }[];
+}
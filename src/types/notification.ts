@@ -0,0 +1,27 @@
+export type NotificationType = 'workflow_status' | 'comment_reply' | 'course_content';
+
+export interface AppNotification {
+  id: string;
+  user_id: string;
+  type: NotificationType;
+  title: string;
+  body: string | null;
+  link: string | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+export interface NotificationPreferences {
+  workflow_status: boolean;
+  comment_reply: boolean;
+  course_content: boolean;
+  email_enabled: boolean;
+}
+
+// Applied when the learner has never saved their preferences
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  workflow_status: true,
+  comment_reply: true,
+  course_content: true,
+  email_enabled: true,
+};
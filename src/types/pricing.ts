@@ -0,0 +1,96 @@
+export type BillingInterval = 'one_time' | 'year';
+
+export const BILLING_INTERVAL_LABELS: Record<BillingInterval, string> = {
+  one_time: 'One-time',
+  year: 'Yearly renewal',
+};
+
+export interface CertificationPrice {
+  id: string;
+  level: number;
+  currency: string;
+  // Smallest currency unit (e.g. cents)
+  amount: number;
+  stripe_price_id: string | null;
+  billing_interval: BillingInterval;
+  active_from: string;
+  active_until: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Decimal places of the currency's minor unit, e.g. 2 for USD, 0 for JPY
+export const currencyDecimals = (currency: string) =>
+  new Intl.NumberFormat(undefined, { style: 'currency', currency: currency.toUpperCase() })
+    .resolvedOptions().maximumFractionDigits;
+
+export const formatPrice = (amount: number, currency: string) =>
+  new Intl.NumberFormat(undefined, { style: 'currency', currency: currency.toUpperCase() })
+    .format(amount / 10 ** currencyDecimals(currency));
+
+export const isPriceActive = (price: CertificationPrice, at: Date = new Date()) =>
+  new Date(price.active_from) <= at && (!price.active_until || new Date(price.active_until) > at);
+
+// Days before expiry that a certification without auto-renewal counts as due for renewal.
+// Mirrors RENEWAL_WINDOW_DAYS in supabase/functions/_shared/pricing.ts.
+export const RENEWAL_NOTICE_DAYS = 30;
+
+export type RenewalState = 'not_applicable' | 'active' | 'renewal_due' | 'expired';
+
+export interface RenewableWorkflow {
+  subscription_status: string;
+  certification_expires_at?: string | null;
+  stripe_subscription_id?: string | null;
+}
+
+export const getRenewalState = (workflow: RenewableWorkflow, at: Date = new Date()): RenewalState => {
+  if (workflow.subscription_status === 'expired') return 'expired';
+  if (workflow.subscription_status === 'past_due') return 'renewal_due';
+  if (workflow.subscription_status !== 'paid' || !workflow.certification_expires_at) return 'not_applicable';
+
+  const expiresAt = new Date(workflow.certification_expires_at);
+  if (expiresAt <= at) return 'expired';
+
+  // Auto-renewing subscriptions are charged by Stripe; only manual renewals come due
+  const noticeFrom = expiresAt.getTime() - RENEWAL_NOTICE_DAYS * 24 * 60 * 60 * 1000;
+  if (!workflow.stripe_subscription_id && at.getTime() >= noticeFrom) return 'renewal_due';
+
+  return 'active';
+};
+
+export type DiscountType = 'percent' | 'amount';
+
+export interface DiscountCode {
+  id: string;
+  code: string;
+  description: string | null;
+  discount_type: DiscountType;
+  percent_off: number | null;
+  // Smallest unit of currency, only for 'amount' codes
+  amount_off: number | null;
+  currency: string | null;
+  max_redemptions: number | null;
+  expires_at: string | null;
+  allowed_levels: number[] | null;
+  allowed_email_domains: string[] | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// Preview returned by the validate-discount-code function
+export interface DiscountPreview {
+  valid: boolean;
+  reason?: string;
+  code?: string;
+  description?: string | null;
+  currency?: string;
+  original_amount?: number;
+  discount_amount?: number;
+  final_amount?: number;
+}
+
+export const formatDiscount = (code: Pick<DiscountCode, 'discount_type' | 'percent_off' | 'amount_off' | 'currency'>) =>
+  code.discount_type === 'percent'
+    ? `${code.percent_off}% off`
+    : `${formatPrice(code.amount_off ?? 0, code.currency ?? 'usd')} off`;
@@ -0,0 +1,35 @@
+export type WorkflowStep = 'exam' | 'approval' | 'contract' | 'payment' | 'completed';
+
+// Row of workflow_transitions; written by transition_workflow() for every workflow move
+export interface WorkflowTransitionRecord {
+  id: string;
+  workflow_id: string;
+  user_id: string;
+  from_step: WorkflowStep;
+  to_step: WorkflowStep;
+  changes: Record<string, unknown>;
+  source: string;
+  actor_id: string | null;
+  reason: string | null;
+  created_at: string;
+}
+
+// Row of certification_status_changes; one per suspend/revoke/reinstate by an admin
+export interface CertificationStatusChangeRecord {
+  id: string;
+  workflow_id: string;
+  action: string;
+  previous_status: string;
+  new_status: string;
+  performed_by: string;
+  reason: string;
+  created_at: string;
+}
+
+export const WORKFLOW_STEP_LABELS: Record<WorkflowStep, string> = {
+  exam: 'Exam',
+  approval: 'Admin Approval',
+  contract: 'Contract',
+  payment: 'Payment',
+  completed: 'Certified',
+};
@@ -0,0 +1,246 @@
+// Issues the PDF certificate for a completed certification workflow and links it from course_completions
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { renderCertificatePdf } from "./pdf.ts";
+
+export const CERTIFICATES_BUCKET = "certificates";
+
+export type CertificateLogger = (step: string, details?: unknown) => void;
+
+// 5, 10, 20, 40 minutes... capped at 12 hours
+const RETRY_BASE_MS = 5 * 60 * 1000;
+const RETRY_MAX_MS = 12 * 60 * 60 * 1000;
+
+export interface CertificateWorkflow {
+  id: string;
+  user_id: string;
+  course_id: string;
+  level: number;
+}
+
+export interface Certificate {
+  id: string;
+  serial: string;
+  workflow_id: string;
+  storage_path: string;
+}
+
+// No 0/O or 1/I so serials survive being read aloud or retyped from paper
+const SERIAL_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+const generateSerial = (level: number, year: number) => {
+  const bytes = crypto.getRandomValues(new Uint8Array(8));
+  const random = Array.from(bytes, (byte) => SERIAL_ALPHABET[byte % SERIAL_ALPHABET.length]).join("");
+  return `MW-L${level}-${year}-${random}`;
+};
+
+const getVerifyUrl = (serial: string) => {
+  const siteUrl = Deno.env.get("SITE_URL");
+  return siteUrl ? `${siteUrl.replace(/\/$/, "")}/verify/${serial}` : null;
+};
+
+const getCertificateForWorkflow = async (supabase: SupabaseClient, workflowId: string) => {
+  const { data, error } = await supabase
+    .from("certificates")
+    .select("id, serial, workflow_id, storage_path")
+    .eq("workflow_id", workflowId)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load certificate: ${error.message}`);
+  return data as Certificate | null;
+};
+
+export const getCertificateUrl = (supabase: SupabaseClient, certificate: Certificate) =>
+  supabase.storage.from(CERTIFICATES_BUCKET).getPublicUrl(certificate.storage_path).data.publicUrl;
+
+const linkCertificate = async (supabase: SupabaseClient, workflow: CertificateWorkflow, certificate: Certificate) => {
+  const { error } = await supabase
+    .from("course_completions")
+    .update({ certificate_url: getCertificateUrl(supabase, certificate) })
+    .eq("user_id", workflow.user_id)
+    .eq("course_id", workflow.course_id);
+
+  if (error) throw new Error(`Failed to link certificate: ${error.message}`);
+};
+
+// Idempotent: a workflow keeps its first certificate through renewals and replays,
+// and the course completion is re-linked to it when it has been recreated.
+// Call after recordCourseCompletion so there is a completion row to link.
+// Revoked certifications get nothing until an admin reinstates them.
+export const issueCertificate = async (
+  supabase: SupabaseClient,
+  workflow: CertificateWorkflow
+): Promise<Certificate | null> => {
+  const { data: standing, error: standingError } = await supabase
+    .from("certification_workflows")
+    .select("certification_status")
+    .eq("id", workflow.id)
+    .maybeSingle();
+
+  if (standingError) throw new Error(`Failed to load workflow: ${standingError.message}`);
+  if (standing?.certification_status === "revoked") return null;
+
+  const existing = await getCertificateForWorkflow(supabase, workflow.id);
+  if (existing) {
+    await linkCertificate(supabase, workflow, existing);
+    return existing;
+  }
+
+  const [{ data: profile, error: profileError }, { data: course, error: courseError }, { data: details, error: workflowError }] =
+    await Promise.all([
+      supabase.from("profiles").select("first_name, last_name").eq("user_id", workflow.user_id).maybeSingle(),
+      supabase.from("courses").select("title").eq("id", workflow.course_id).maybeSingle(),
+      supabase.from("certification_workflows").select("completed_at").eq("id", workflow.id).maybeSingle(),
+    ]);
+
+  if (profileError || !profile) throw new Error(`Failed to load learner profile: ${profileError?.message ?? "not found"}`);
+  if (courseError || !course) throw new Error(`Failed to load course: ${courseError?.message ?? "not found"}`);
+  if (workflowError) throw new Error(`Failed to load workflow: ${workflowError.message}`);
+
+  const completedAt = details?.completed_at ? new Date(details.completed_at) : new Date();
+  const recipientName = `${profile.first_name} ${profile.last_name}`.trim();
+  const serial = generateSerial(workflow.level, completedAt.getUTCFullYear());
+
+  const pdf = await renderCertificatePdf({
+    serial,
+    recipientName,
+    level: workflow.level,
+    courseTitle: course.title,
+    completedAt,
+    verifyUrl: getVerifyUrl(serial),
+  });
+
+  const storagePath = `${workflow.user_id}/${serial}.pdf`;
+  const { error: uploadError } = await supabase.storage
+    .from(CERTIFICATES_BUCKET)
+    .upload(storagePath, pdf, { contentType: "application/pdf" });
+
+  if (uploadError) throw new Error(`Failed to store certificate: ${uploadError.message}`);
+
+  const { data: certificate, error: insertError } = await supabase
+    .from("certificates")
+    .insert({
+      serial,
+      workflow_id: workflow.id,
+      user_id: workflow.user_id,
+      course_id: workflow.course_id,
+      level: workflow.level,
+      recipient_name: recipientName,
+      completed_at: completedAt.toISOString(),
+      storage_path: storagePath,
+    })
+    .select("id, serial, workflow_id, storage_path")
+    .single();
+
+  if (insertError) {
+    await supabase.storage.from(CERTIFICATES_BUCKET).remove([storagePath]);
+
+    // A concurrent delivery issued the certificate first
+    const concurrent = insertError.code === "23505" ? await getCertificateForWorkflow(supabase, workflow.id) : null;
+    if (!concurrent) throw new Error(`Failed to record certificate: ${insertError.message}`);
+
+    await linkCertificate(supabase, workflow, concurrent);
+    return concurrent;
+  }
+
+  await linkCertificate(supabase, workflow, certificate as Certificate);
+  return certificate as Certificate;
+};
+
+const retryDelay = (attempts: number) => Math.min(RETRY_BASE_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_MS);
+
+const queueCertificateRetry = async (
+  supabase: SupabaseClient,
+  workflowId: string,
+  message: string,
+  log: CertificateLogger
+) => {
+  const { data: existing } = await supabase
+    .from("certificate_retries")
+    .select("attempts")
+    .eq("workflow_id", workflowId)
+    .maybeSingle();
+
+  const attempts = (existing?.attempts ?? 0) + 1;
+  const { error } = await supabase
+    .from("certificate_retries")
+    .upsert({
+      workflow_id: workflowId,
+      attempts,
+      last_error: message,
+      next_attempt_at: new Date(Date.now() + retryDelay(attempts)).toISOString(),
+    }, { onConflict: "workflow_id" });
+
+  if (error) log("ERROR queueing certificate retry", { workflowId, message: error.message });
+};
+
+// For payment handlers: never throws, so a certificate that cannot be rendered or stored does
+// not fail the payment that completed the workflow. Failures are queued in certificate_retries
+// for the issue-pending-certificates function.
+export const issueCertificateOrQueue = async (
+  supabase: SupabaseClient,
+  workflow: CertificateWorkflow,
+  log: CertificateLogger
+): Promise<Certificate | null> => {
+  let certificate: Certificate | null;
+  try {
+    certificate = await issueCertificate(supabase, workflow);
+  } catch (issueError) {
+    const message = issueError instanceof Error ? issueError.message : String(issueError);
+    log("ERROR issuing certificate, queued for retry", { workflowId: workflow.id, message });
+    await queueCertificateRetry(supabase, workflow.id, message, log);
+    return null;
+  }
+
+  const { error } = await supabase.from("certificate_retries").delete().eq("workflow_id", workflow.id);
+  if (error) log("ERROR clearing certificate retry", { workflowId: workflow.id, message: error.message });
+  return certificate;
+};
+
+// Revocation: the PDF is deleted and unlinked, but the certificate row stays so its serial
+// keeps verifying as revoked
+export const withdrawCertificate = async (supabase: SupabaseClient, workflow: CertificateWorkflow) => {
+  const certificate = await getCertificateForWorkflow(supabase, workflow.id);
+  if (!certificate) return;
+
+  const { error: removeError } = await supabase.storage.from(CERTIFICATES_BUCKET).remove([certificate.storage_path]);
+  if (removeError) throw new Error(`Failed to remove certificate: ${removeError.message}`);
+
+  const { error } = await supabase
+    .from("course_completions")
+    .update({ certificate_url: null })
+    .eq("user_id", workflow.user_id)
+    .eq("course_id", workflow.course_id);
+
+  if (error) throw new Error(`Failed to unlink certificate: ${error.message}`);
+};
+
+// Reinstatement: regenerates the withdrawn PDF with its original serial and details
+export const restoreCertificate = async (supabase: SupabaseClient, workflow: CertificateWorkflow) => {
+  const { data: certificate, error } = await supabase
+    .from("certificates")
+    .select("id, serial, workflow_id, storage_path, recipient_name, level, completed_at, courses(title)")
+    .eq("workflow_id", workflow.id)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load certificate: ${error.message}`);
+  if (!certificate) return issueCertificate(supabase, workflow);
+
+  const course = certificate.courses as unknown as { title: string } | null;
+  const pdf = await renderCertificatePdf({
+    serial: certificate.serial,
+    recipientName: certificate.recipient_name,
+    level: certificate.level,
+    courseTitle: course?.title ?? `Level ${certificate.level}`,
+    completedAt: new Date(certificate.completed_at),
+    verifyUrl: getVerifyUrl(certificate.serial),
+  });
+
+  const { error: uploadError } = await supabase.storage
+    .from(CERTIFICATES_BUCKET)
+    .upload(certificate.storage_path, pdf, { contentType: "application/pdf", upsert: true });
+
+  if (uploadError) throw new Error(`Failed to store certificate: ${uploadError.message}`);
+
+  await linkCertificate(supabase, workflow, certificate);
+  return certificate as Certificate;
+};
@@ -0,0 +1,142 @@
+import { PDFDocument, PDFFont, rgb } from "https://esm.sh/pdf-lib@1.17.1";
+import fontkit from "https://esm.sh/@pdf-lib/fontkit@1.1.1";
+
+export interface CertificatePdfInput {
+  serial: string;
+  recipientName: string;
+  level: number;
+  courseTitle: string;
+  completedAt: Date;
+  verifyUrl: string | null;
+}
+
+// A4 landscape, in PDF points
+const PAGE_WIDTH = 842;
+const PAGE_HEIGHT = 595;
+
+const BRAND = rgb(0.11, 0.27, 0.53);
+const MUTED = rgb(0.4, 0.4, 0.45);
+
+interface FontFamily {
+  regular: string;
+  bold: string;
+}
+
+const NOTO_URL = "https://cdn.jsdelivr.net/gh/notofonts/notofonts.github.io/fonts";
+const NOTO_CJK_URL = "https://cdn.jsdelivr.net/gh/notofonts/noto-cjk@main/Sans/SubsetOTF";
+
+const notoFamily = (name: string): FontFamily => ({
+  regular: `${NOTO_URL}/${name}/hinted/ttf/${name}-Regular.ttf`,
+  bold: `${NOTO_URL}/${name}/hinted/ttf/${name}-Bold.ttf`,
+});
+
+const notoCjkFamily = (region: string): FontFamily => ({
+  regular: `${NOTO_CJK_URL}/${region}/NotoSans${region}-Regular.otf`,
+  bold: `${NOTO_CJK_URL}/${region}/NotoSans${region}-Bold.otf`,
+});
+
+// The standard PDF fonts only encode Latin-1, so names are set in Unicode fonts instead.
+// Noto Sans covers Latin (Vietnamese included), Greek and Cyrillic; the other families are
+// only downloaded when a name or course title needs them. pdf-lib does no shaping, so joined
+// scripts such as Arabic render as isolated letters, but never fail the certificate.
+const FONT_FAMILIES: FontFamily[] = [
+  notoFamily("NotoSans"),
+  notoFamily("NotoSansArabic"),
+  notoFamily("NotoSansHebrew"),
+  notoFamily("NotoSansDevanagari"),
+  notoFamily("NotoSansThai"),
+  notoCjkFamily("SC"),
+  notoCjkFamily("JP"),
+  notoCjkFamily("KR"),
+];
+
+// Kept for the life of the function instance; a failed download is retried on the next call
+const fontFiles = new Map<string, Promise<Uint8Array>>();
+
+const loadFontFile = (url: string) => {
+  let file = fontFiles.get(url);
+  if (!file) {
+    file = fetch(url).then(async (response) => {
+      if (!response.ok) throw new Error(`Failed to download font ${url}: ${response.status}`);
+      return new Uint8Array(await response.arrayBuffer());
+    });
+    file.catch(() => fontFiles.delete(url));
+    fontFiles.set(url, file);
+  }
+  return file;
+};
+
+const coversText = async (family: FontFamily, text: string) => {
+  const font = fontkit.create(await loadFontFile(family.regular));
+  return Array.from(text.replace(/\s/g, "")).every((char) => font.hasGlyphForCodePoint(char.codePointAt(0)!));
+};
+
+// First family that has a glyph for every character, falling back to Noto Sans
+const pickFontFamily = async (text: string) => {
+  for (const family of FONT_FAMILIES) {
+    if (await coversText(family, text)) return family;
+  }
+  return FONT_FAMILIES[0];
+};
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric", timeZone: "UTC" });
+
+export const renderCertificatePdf = async (input: CertificatePdfInput): Promise<Uint8Array> => {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(`Level ${input.level} Certificate - ${input.recipientName}`);
+  pdf.setSubject(input.serial);
+  pdf.setProducer("MovingWaldo Certification");
+
+  pdf.registerFontkit(fontkit);
+
+  const embedded = new Map<string, PDFFont>();
+  const embedFont = async (url: string) => {
+    if (!embedded.has(url)) {
+      embedded.set(url, await pdf.embedFont(await loadFontFile(url), { subset: true }));
+    }
+    return embedded.get(url)!;
+  };
+
+  const base = FONT_FAMILIES[0];
+  const [nameFamily, courseFamily] = await Promise.all([
+    pickFontFamily(input.recipientName),
+    pickFontFamily(input.courseTitle),
+  ]);
+  const regular = await embedFont(base.regular);
+  const bold = await embedFont(base.bold);
+  const nameFont = await embedFont(nameFamily.bold);
+  const courseFont = await embedFont(courseFamily.bold);
+
+  const page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+
+  const centered = (text: string, y: number, size: number, font = regular, color = MUTED) => {
+    const width = font.widthOfTextAtSize(text, size);
+    page.drawText(text, { x: (PAGE_WIDTH - width) / 2, y, size, font, color });
+  };
+
+  page.drawRectangle({
+    x: 24, y: 24, width: PAGE_WIDTH - 48, height: PAGE_HEIGHT - 48,
+    borderColor: BRAND, borderWidth: 4,
+  });
+  page.drawRectangle({
+    x: 36, y: 36, width: PAGE_WIDTH - 72, height: PAGE_HEIGHT - 72,
+    borderColor: BRAND, borderWidth: 1,
+  });
+
+  centered("MOVINGWALDO", 480, 16, bold, BRAND);
+  centered("Certificate of Completion", 430, 36, bold, BRAND);
+  centered("This certifies that", 375, 14);
+  centered(input.recipientName, 330, 32, nameFont, rgb(0.1, 0.1, 0.1));
+  centered(`has successfully completed the Level ${input.level} certification`, 285, 14);
+  centered(input.courseTitle, 260, 16, courseFont, rgb(0.2, 0.2, 0.2));
+  centered(`Completed on ${formatDate(input.completedAt)}`, 215, 13);
+
+  centered(`Certificate No. ${input.serial}`, 90, 11, bold, BRAND);
+  centered(
+    input.verifyUrl ? `Verify at ${input.verifyUrl}` : "Verify this certificate using its number",
+    70, 9
+  );
+
+  return pdf.save();
+};
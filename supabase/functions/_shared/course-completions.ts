@@ -0,0 +1,24 @@
+// course_completions marks a level as certified; can_access_course() unlocks the next level from it
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+
+// Keeps the original completed_at when a renewal records the same course again
+export const recordCourseCompletion = async (supabase: SupabaseClient, userId: string, courseId: string) => {
+  const { error } = await supabase
+    .from("course_completions")
+    .upsert(
+      { user_id: userId, course_id: courseId },
+      { onConflict: "user_id,course_id", ignoreDuplicates: true }
+    );
+
+  if (error) throw new Error(`Failed to record course completion: ${error.message}`);
+};
+
+export const removeCourseCompletion = async (supabase: SupabaseClient, userId: string, courseId: string) => {
+  const { error } = await supabase
+    .from("course_completions")
+    .delete()
+    .eq("user_id", userId)
+    .eq("course_id", courseId);
+
+  if (error) throw new Error(`Failed to remove course completion: ${error.message}`);
+};
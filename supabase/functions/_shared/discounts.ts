@@ -0,0 +1,150 @@
+// Discount code validation and redemption bookkeeping for certification checkout.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import type { CertificationPrice } from "./pricing.ts";
+
+export interface DiscountCode {
+  id: string;
+  code: string;
+  description: string | null;
+  discount_type: "percent" | "amount";
+  percent_off: number | null;
+  amount_off: number | null;
+  currency: string | null;
+  max_redemptions: number | null;
+  expires_at: string | null;
+  allowed_levels: number[] | null;
+  allowed_email_domains: string[] | null;
+  is_active: boolean;
+}
+
+export interface AppliedDiscount {
+  code: DiscountCode;
+  currency: string;
+  original_amount: number;
+  discount_amount: number;
+  final_amount: number;
+}
+
+export type DiscountResolution =
+  | { valid: true; discount: AppliedDiscount }
+  | { valid: false; reason: string };
+
+interface DiscountContext {
+  level: number;
+  email: string;
+  price: CertificationPrice;
+}
+
+export const resolveDiscount = async (
+  supabase: SupabaseClient,
+  rawCode: string,
+  { level, email, price }: DiscountContext
+): Promise<DiscountResolution> => {
+  const code = rawCode.trim();
+  if (!code) return { valid: false, reason: "Enter a discount code" };
+
+  // ilike without wildcards gives the case-insensitive match the unique index enforces
+  const { data, error } = await supabase
+    .from("discount_codes")
+    .select("*")
+    .ilike("code", code.replace(/[%_\\]/g, "\\$&"))
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to look up discount code: ${error.message}`);
+
+  const discountCode = data as DiscountCode | null;
+  if (!discountCode || !discountCode.is_active) {
+    return { valid: false, reason: "This discount code is not valid" };
+  }
+
+  if (discountCode.expires_at && new Date(discountCode.expires_at) <= new Date()) {
+    return { valid: false, reason: "This discount code has expired" };
+  }
+
+  if (discountCode.allowed_levels?.length && !discountCode.allowed_levels.includes(level)) {
+    return { valid: false, reason: `This discount code cannot be used for Level ${level}` };
+  }
+
+  const domain = email.split("@").pop()?.toLowerCase() ?? "";
+  if (discountCode.allowed_email_domains?.length &&
+      !discountCode.allowed_email_domains.some((d) => d.toLowerCase() === domain)) {
+    return { valid: false, reason: "This discount code is not available for your email address" };
+  }
+
+  if (discountCode.max_redemptions !== null) {
+    const { count, error: countError } = await supabase
+      .from("discount_redemptions")
+      .select("id", { count: "exact", head: true })
+      .eq("discount_code_id", discountCode.id)
+      .in("status", ["pending", "completed"]);
+
+    if (countError) throw new Error(`Failed to count redemptions: ${countError.message}`);
+    if ((count ?? 0) >= discountCode.max_redemptions) {
+      return { valid: false, reason: "This discount code has reached its redemption limit" };
+    }
+  }
+
+  let discountAmount: number;
+  if (discountCode.discount_type === "percent") {
+    discountAmount = Math.round(price.amount * (discountCode.percent_off ?? 0) / 100);
+  } else {
+    if (discountCode.currency !== price.currency) {
+      return { valid: false, reason: `This discount code cannot be used with ${price.currency.toUpperCase()} prices` };
+    }
+    discountAmount = Math.min(discountCode.amount_off ?? 0, price.amount);
+  }
+
+  return {
+    valid: true,
+    discount: {
+      code: discountCode,
+      currency: price.currency,
+      original_amount: price.amount,
+      discount_amount: discountAmount,
+      final_amount: price.amount - discountAmount,
+    },
+  };
+};
+
+// Atomically holds one use of the code for this workflow (see reserve_discount_redemption)
+export const reserveRedemption = async (
+  supabase: SupabaseClient,
+  discount: AppliedDiscount,
+  workflowId: string,
+  userId: string
+): Promise<string> => {
+  const { data, error } = await supabase.rpc("reserve_discount_redemption", {
+    _discount_code_id: discount.code.id,
+    _workflow_id: workflowId,
+    _user_id: userId,
+    _amount_discounted: discount.discount_amount,
+    _currency: discount.currency,
+  });
+
+  if (error) throw new Error(error.message);
+  return data as string;
+};
+
+export const updateRedemption = async (
+  supabase: SupabaseClient,
+  redemptionId: string,
+  updates: { status?: "completed" | "released"; stripe_checkout_session_id?: string }
+) => {
+  const { error } = await supabase
+    .from("discount_redemptions")
+    .update(updates)
+    .eq("id", redemptionId);
+
+  if (error) throw new Error(`Failed to update discount redemption: ${error.message}`);
+};
+
+// A refund or dispute gives the use of the code back, so it no longer counts against max_redemptions
+export const releaseWorkflowRedemption = async (supabase: SupabaseClient, workflowId: string) => {
+  const { error } = await supabase
+    .from("discount_redemptions")
+    .update({ status: "released" })
+    .eq("workflow_id", workflowId)
+    .eq("status", "completed");
+
+  if (error) throw new Error(`Failed to release discount redemption: ${error.message}`);
+};
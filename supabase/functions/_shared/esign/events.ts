@@ -0,0 +1,21 @@
+// Appends a row to contract_events, the audit trail of e-signature activity
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import type { ESignEventAction } from "./types.ts";
+
+export interface ContractEventInput {
+  workflow_id: string | null;
+  user_id: string | null;
+  provider: string;
+  document_id: string;
+  action: ESignEventAction;
+  event_type: string;
+  payload?: unknown;
+}
+
+export const recordContractEvent = async (supabase: SupabaseClient, input: ContractEventInput) => {
+  const { error } = await supabase
+    .from("contract_events")
+    .insert({ ...input, payload: input.payload ?? null });
+
+  if (error) throw new Error(`Failed to record contract event: ${error.message}`);
+};
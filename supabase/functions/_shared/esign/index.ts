@@ -0,0 +1,35 @@
+import { createMockProvider } from "./mock.ts";
+import { createSignNowProvider } from "./signnow.ts";
+import type { ESignProvider, ESignProviderName } from "./types.ts";
+
+export type {
+  ESignDocumentStatus,
+  ESignEventAction,
+  ESignProvider,
+  ESignProviderName,
+  ESignWebhookEvent,
+  SigningDocument,
+} from "./types.ts";
+
+// Resolve the configured provider; SignNow unless ESIGN_PROVIDER=mock
+export const getESignProvider = (name?: string | null): ESignProvider => {
+  const providerName = (name ?? Deno.env.get("ESIGN_PROVIDER") ?? "signnow") as ESignProviderName;
+
+  switch (providerName) {
+    case "mock":
+      return createMockProvider({ webhookSecret: Deno.env.get("ESIGN_WEBHOOK_SECRET") ?? "" });
+    case "signnow": {
+      const accessToken = Deno.env.get("SIGNNOW_API_KEY");
+      if (!accessToken) throw new Error("SIGNNOW_API_KEY is not configured");
+      return createSignNowProvider({
+        accessToken,
+        webhookSecret: Deno.env.get("SIGNNOW_WEBHOOK_SECRET") ?? "",
+        apiBase: Deno.env.get("SIGNNOW_API_BASE")
+      });
+    }
+    default:
+      throw new Error(`Unknown e-signature provider: ${providerName}`);
+  }
+};
+
+export const SIGNED_CONTRACTS_BUCKET = "signed-contracts";
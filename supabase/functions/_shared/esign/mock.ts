@@ -0,0 +1,64 @@
+import { verifyHmacSignature } from "../hmac.ts";
+import type {
+  CreateSigningDocumentInput,
+  ESignProvider,
+  ESignWebhookEvent,
+  SigningDocument,
+} from "./types.ts";
+
+// Local provider for development and testing. No external calls are made;
+// signing is completed by posting { document_id, status: "signed" } to the
+// handle-signnow-webhook function, signed with ESIGN_WEBHOOK_SECRET in the
+// x-esign-signature header.
+
+const SIGNATURE_HEADER = "x-esign-signature";
+
+const MOCK_PDF = `%PDF-1.4
+1 0 obj << /Type /Catalog /Pages 2 0 R >> endobj
+2 0 obj << /Type /Pages /Kids [3 0 R] /Count 1 >> endobj
+3 0 obj << /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] >> endobj
+trailer << /Root 1 0 R >>
+%%EOF`;
+
+interface MockConfig {
+  webhookSecret: string;
+}
+
+export const createMockProvider = ({ webhookSecret }: MockConfig): ESignProvider => ({
+  name: "mock",
+
+  createSigningDocument(input: CreateSigningDocumentInput): Promise<SigningDocument> {
+    const documentId = `mock_${crypto.randomUUID()}`;
+    const signingUrl = new URL(input.redirectUrl);
+    signingUrl.searchParams.set("mock_document_id", documentId);
+
+    return Promise.resolve({ documentId, signingUrl: signingUrl.toString() });
+  },
+
+  downloadSignedDocument(): Promise<Uint8Array> {
+    return Promise.resolve(new TextEncoder().encode(MOCK_PDF));
+  },
+
+  verifyWebhookSignature(rawBody: string, headers: Headers): Promise<boolean> {
+    return verifyHmacSignature(webhookSecret, rawBody, headers.get(SIGNATURE_HEADER));
+  },
+
+  parseWebhookEvent(payload: Record<string, unknown>): ESignWebhookEvent | null {
+    const documentId = payload.document_id as string | undefined;
+    const status = String(payload.status ?? "").toLowerCase();
+    if (!documentId) return null;
+
+    const action: ESignWebhookEvent["action"] =
+      status === "signed" ? "signed"
+        : status === "rejected" || status === "declined" ? "declined"
+        : status === "viewed" ? "viewed"
+        : "updated";
+
+    return {
+      documentId,
+      status: action === "signed" ? "signed" : action === "declined" ? "rejected" : "pending_signing",
+      action,
+      eventType: `mock.${status || "update"}`,
+    };
+  },
+});
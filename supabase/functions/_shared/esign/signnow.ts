@@ -0,0 +1,121 @@
+import { verifyHmacSignature } from "../hmac.ts";
+import type {
+  CreateSigningDocumentInput,
+  ESignProvider,
+  ESignWebhookEvent,
+  SigningDocument,
+} from "./types.ts";
+
+const DEFAULT_API_BASE = "https://api.signnow.com";
+// Minutes an embedded signing link stays valid
+const LINK_EXPIRATION_MINUTES = 45;
+const SIGNATURE_HEADER = "x-signnow-signature";
+
+interface SignNowConfig {
+  accessToken: string;
+  // secret_key registered with the event subscription
+  webhookSecret: string;
+  apiBase?: string;
+}
+
+const toAction = (eventType: string): ESignWebhookEvent["action"] => {
+  if (eventType === "document.complete") return "signed";
+  if (eventType.includes("decline")) return "declined";
+  if (eventType.includes("open") || eventType.includes("view")) return "viewed";
+  if (eventType.includes("invite.create") || eventType.includes("sent")) return "sent";
+  return "updated";
+};
+
+export const createSignNowProvider = ({ accessToken, webhookSecret, apiBase }: SignNowConfig): ESignProvider => {
+  const base = (apiBase || DEFAULT_API_BASE).replace(/\/$/, "");
+
+  const request = async (path: string, init: RequestInit = {}) => {
+    const response = await fetch(`${base}${path}`, {
+      ...init,
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        Accept: "application/json",
+        ...(init.body ? { "Content-Type": "application/json" } : {}),
+        ...init.headers,
+      },
+    });
+
+    if (!response.ok) {
+      const body = await response.text();
+      throw new Error(`SignNow ${init.method ?? "GET"} ${path} failed (${response.status}): ${body}`);
+    }
+    return response;
+  };
+
+  const requestJson = async (path: string, init: RequestInit = {}) => (await request(path, init)).json();
+
+  return {
+    name: "signnow",
+
+    async createSigningDocument(input: CreateSigningDocumentInput): Promise<SigningDocument> {
+      // Copy the level template into a new document for this signer
+      const copy = await requestJson(`/template/${input.templateId}/copy`, {
+        method: "POST",
+        body: JSON.stringify({ document_name: input.documentName }),
+      });
+      const documentId: string = copy.id;
+
+      // Templates define a single signer role; invite the learner into it
+      const document = await requestJson(`/document/${documentId}`);
+      const role = document.roles?.[0];
+      if (!role) throw new Error(`SignNow template ${input.templateId} has no signer role`);
+
+      const [firstName, ...rest] = (input.signer.name ?? "").trim().split(/\s+/);
+      const invites = await requestJson(`/v2/documents/${documentId}/embedded-invites`, {
+        method: "POST",
+        body: JSON.stringify({
+          invites: [{
+            email: input.signer.email,
+            role_id: role.unique_id,
+            order: 1,
+            auth_method: "none",
+            first_name: firstName || undefined,
+            last_name: rest.join(" ") || undefined,
+            redirect_uri: input.redirectUrl,
+            decline_redirect_uri: input.redirectUrl,
+          }],
+        }),
+      });
+      const inviteId: string | undefined = invites.data?.[0]?.id;
+      if (!inviteId) throw new Error("SignNow did not return an embedded invite");
+
+      const link = await requestJson(`/v2/documents/${documentId}/embedded-invites/${inviteId}/link`, {
+        method: "POST",
+        body: JSON.stringify({ auth_method: "none", link_expiration: LINK_EXPIRATION_MINUTES }),
+      });
+
+      return { documentId, signingUrl: link.data.link };
+    },
+
+    async downloadSignedDocument(documentId: string): Promise<Uint8Array> {
+      const response = await request(`/document/${documentId}/download?type=collapsed`, {
+        headers: { Accept: "application/pdf" },
+      });
+      return new Uint8Array(await response.arrayBuffer());
+    },
+
+    verifyWebhookSignature(rawBody: string, headers: Headers): Promise<boolean> {
+      return verifyHmacSignature(webhookSecret, rawBody, headers.get(SIGNATURE_HEADER));
+    },
+
+    parseWebhookEvent(payload: Record<string, unknown>): ESignWebhookEvent | null {
+      // Event subscriptions nest data under meta/content
+      const meta = (payload.meta ?? {}) as Record<string, unknown>;
+      const content = (payload.content ?? payload) as Record<string, unknown>;
+      const eventType = String(meta.event ?? payload.event ?? payload.event_type ?? "");
+      const documentId = content.document_id as string | undefined;
+      if (!documentId) return null;
+
+      const action = toAction(eventType);
+      const status: ESignWebhookEvent["status"] =
+        action === "signed" ? "signed" : action === "declined" ? "rejected" : "pending_signing";
+
+      return { documentId, status, action, eventType };
+    },
+  };
+};
@@ -0,0 +1,41 @@
+// Contract every e-signature provider implements. Functions only talk to this
+// interface so the provider can be swapped with the ESIGN_PROVIDER env var.
+
+export type ESignProviderName = "signnow" | "mock";
+
+export interface CreateSigningDocumentInput {
+  templateId: string;
+  documentName: string;
+  signer: {
+    email: string;
+    name?: string;
+  };
+  // Where the provider sends the signer once they finish
+  redirectUrl: string;
+}
+
+export interface SigningDocument {
+  documentId: string;
+  signingUrl: string;
+}
+
+export type ESignDocumentStatus = "pending_signing" | "signed" | "rejected";
+
+// Normalised lifecycle step recorded in contract_events
+export type ESignEventAction = "sent" | "viewed" | "signed" | "declined" | "updated";
+
+export interface ESignWebhookEvent {
+  documentId: string;
+  status: ESignDocumentStatus;
+  action: ESignEventAction;
+  eventType: string;
+}
+
+export interface ESignProvider {
+  name: ESignProviderName;
+  createSigningDocument(input: CreateSigningDocumentInput): Promise<SigningDocument>;
+  downloadSignedDocument(documentId: string): Promise<Uint8Array>;
+  // Checks the provider's HMAC signature over the raw request body
+  verifyWebhookSignature(rawBody: string, headers: Headers): Promise<boolean>;
+  parseWebhookEvent(payload: Record<string, unknown>): ESignWebhookEvent | null;
+}
@@ -0,0 +1,94 @@
+// Appends a row to exam_attempts. Every submission is kept so retakes never
+// erase earlier results; the workflow only mirrors the latest attempt.
+// Per-question results go to the admin-only exam_attempt_question_results table:
+// learners can read their attempts, and correctness flags would leak the answer key.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+
+export interface ExamAttemptInput {
+  workflow_id: string;
+  user_id: string;
+  level: number;
+  source: "native" | "external";
+  submission_id?: string | null;
+  score?: number | null;
+  max_score?: number | null;
+  percentage?: number | null;
+  passed?: boolean | null;
+  answers?: unknown;
+  results_json?: unknown;
+  question_results?: unknown;
+  started_at?: string | null;
+  submitted_at?: string;
+}
+
+export interface RecordAttemptResult {
+  attempt: { id: string; attempt_number: number } | null;
+  duplicate: boolean;
+}
+
+// Postgres unique_violation
+const UNIQUE_VIOLATION = "23505";
+const MAX_RETRIES = 3;
+
+export const findAttemptBySubmissionId = async (supabase: SupabaseClient, submissionId: string) => {
+  const { data, error } = await supabase
+    .from("exam_attempts")
+    .select("id, attempt_number, workflow_id")
+    .eq("submission_id", submissionId)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to look up submission: ${error.message}`);
+  return data;
+};
+
+export const recordExamAttempt = async (
+  supabase: SupabaseClient,
+  input: ExamAttemptInput
+): Promise<RecordAttemptResult> => {
+  const { question_results, ...attemptInput } = input;
+
+  for (let retry = 0; retry < MAX_RETRIES; retry++) {
+    const { data: latest, error: latestError } = await supabase
+      .from("exam_attempts")
+      .select("attempt_number")
+      .eq("workflow_id", input.workflow_id)
+      .order("attempt_number", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (latestError) throw new Error(`Failed to load previous attempts: ${latestError.message}`);
+
+    const { data, error } = await supabase
+      .from("exam_attempts")
+      .insert({
+        ...attemptInput,
+        answers: input.answers ?? {},
+        attempt_number: (latest?.attempt_number ?? 0) + 1,
+      })
+      .select("id, attempt_number")
+      .single();
+
+    if (!error) {
+      if (question_results !== undefined) {
+        const { error: resultsError } = await supabase
+          .from("exam_attempt_question_results")
+          .insert({ attempt_id: data.id, workflow_id: input.workflow_id, questions: question_results });
+
+        if (resultsError) throw new Error(`Failed to record question results: ${resultsError.message}`);
+      }
+      return { attempt: data, duplicate: false };
+    }
+
+    if (error.code !== UNIQUE_VIOLATION) {
+      throw new Error(`Failed to record exam attempt: ${error.message}`);
+    }
+
+    // Either the submission was already recorded (a redelivery) or a concurrent
+    // attempt took this attempt number; only the latter is worth retrying
+    if (input.submission_id && await findAttemptBySubmissionId(supabase, input.submission_id)) {
+      return { attempt: null, duplicate: true };
+    }
+  }
+
+  throw new Error("Failed to record exam attempt: attempt number conflict");
+};
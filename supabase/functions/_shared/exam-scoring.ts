@@ -0,0 +1,84 @@
+// Server-side scoring for question banks (certification exams and course quizzes).
+// Answers are keyed by question id: choice questions send the selected
+// option indexes, short_answer questions send free text.
+
+export type QuestionType = "single_choice" | "multiple_choice" | "true_false" | "short_answer";
+
+export interface ScorableQuestion {
+  id: string;
+  question_type: QuestionType;
+  options: string[];
+  correct_answers: (number | string)[];
+  points: number;
+}
+
+export type SubmittedAnswer = number[] | string | null | undefined;
+
+export interface QuestionResult {
+  question_id: string;
+  answer: SubmittedAnswer;
+  correct: boolean;
+  points_awarded: number;
+  points_possible: number;
+}
+
+export interface ScoreResult {
+  score: number;
+  max_score: number;
+  percentage: number;
+  passed: boolean;
+  pass_percentage: number;
+  questions: QuestionResult[];
+}
+
+const normalizeText = (value: string) => value.trim().toLowerCase().replace(/\s+/g, " ");
+
+const isCorrect = (question: ScorableQuestion, answer: SubmittedAnswer): boolean => {
+  if (answer === null || answer === undefined) return false;
+
+  if (question.question_type === "short_answer") {
+    if (typeof answer !== "string" || !answer.trim()) return false;
+    const accepted = question.correct_answers.map((a) => normalizeText(String(a)));
+    return accepted.includes(normalizeText(answer));
+  }
+
+  if (!Array.isArray(answer)) return false;
+
+  const selected = [...new Set(answer.map(Number))].sort();
+  const expected = [...new Set(question.correct_answers.map(Number))].sort();
+
+  if (question.question_type !== "multiple_choice" && selected.length !== 1) return false;
+
+  return selected.length === expected.length && selected.every((value, i) => value === expected[i]);
+};
+
+export const scoreAnswers = (
+  questions: ScorableQuestion[],
+  answers: Record<string, SubmittedAnswer>,
+  passPercentage: number
+): ScoreResult => {
+  const results = questions.map((question) => {
+    const answer = answers?.[question.id];
+    const correct = isCorrect(question, answer);
+    return {
+      question_id: question.id,
+      answer: answer ?? null,
+      correct,
+      points_awarded: correct ? question.points : 0,
+      points_possible: question.points,
+    };
+  });
+
+  const score = results.reduce((acc, r) => acc + r.points_awarded, 0);
+  const maxScore = results.reduce((acc, r) => acc + r.points_possible, 0);
+  const percentage = maxScore > 0 ? Math.round((score / maxScore) * 100) : 0;
+
+  return {
+    score,
+    max_score: maxScore,
+    percentage,
+    passed: maxScore > 0 && percentage >= passPercentage,
+    pass_percentage: passPercentage,
+    questions: results,
+  };
+};
@@ -0,0 +1,46 @@
+// HMAC-SHA256 helpers for verifying signed webhook payloads.
+// Signatures are hex (optionally prefixed with "sha256=") or base64 digests
+// of the raw request body.
+
+const encoder = new TextEncoder();
+
+const toHex = (bytes: Uint8Array) =>
+  Array.from(bytes).map((b) => b.toString(16).padStart(2, "0")).join("");
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+
+export const computeHmacSha256 = async (secret: string, payload: string): Promise<Uint8Array> => {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(payload));
+  return new Uint8Array(signature);
+};
+
+// Constant-time comparison so response timing does not leak the expected signature
+const timingSafeEqual = (a: string, b: string) => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+};
+
+export const verifyHmacSignature = async (
+  secret: string,
+  payload: string,
+  signature: string | null
+): Promise<boolean> => {
+  if (!secret || !signature) return false;
+
+  const provided = signature.trim().replace(/^sha256=/i, "");
+  const digest = await computeHmacSha256(secret, payload);
+
+  return timingSafeEqual(provided.toLowerCase(), toHex(digest)) ||
+    timingSafeEqual(provided, toBase64(digest));
+};
@@ -0,0 +1,243 @@
+// Email notifications for certification workflow transitions. Every message goes through the
+// notification_emails outbox: it is queued, delivery is attempted straight away, and failures are
+// retried with backoff by the dispatch-notifications function.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { createLocalTransport } from "./local.ts";
+import { createSmtpTransport } from "./smtp.ts";
+import { renderTemplate } from "./templates.ts";
+import type { EmailTransport, EmailTransportName, NotificationData, NotificationType } from "./types.ts";
+
+export type {
+  EmailMessage,
+  EmailTransport,
+  EmailTransportName,
+  NotificationData,
+  NotificationType,
+} from "./types.ts";
+export { renderTemplate } from "./templates.ts";
+
+export type NotificationLogger = (step: string, details?: unknown) => void;
+
+export interface NotificationRow {
+  id: string;
+  type: NotificationType;
+  recipient_email: string;
+  subject: string;
+  body_text: string;
+  body_html: string;
+  status: "pending" | "sending" | "sent" | "failed";
+  attempts: number;
+  max_attempts: number;
+}
+
+export interface NotifyInput {
+  type: NotificationType;
+  workflowId: string;
+  // Type specific template values: reviewer notes, signing link, amount paid, certificate
+  details?: Partial<NotificationData>;
+  // Set when the triggering event can be redelivered so the email is only queued once
+  dedupeKey?: string;
+}
+
+// Sent to every admin rather than the learner
+const ADMIN_NOTIFICATIONS: NotificationType[] = ["exam_submitted"];
+
+// 1, 2, 4, 8 minutes... capped at 6 hours
+const RETRY_BASE_MS = 60 * 1000;
+const RETRY_MAX_MS = 6 * 60 * 60 * 1000;
+
+// Resolve the configured transport; SMTP unless NOTIFICATION_TRANSPORT=local
+export const getEmailTransport = (name?: string | null): EmailTransport => {
+  const transportName = (name ?? Deno.env.get("NOTIFICATION_TRANSPORT") ?? "smtp") as EmailTransportName;
+
+  switch (transportName) {
+    case "local":
+      return createLocalTransport({ directory: Deno.env.get("NOTIFICATION_OUTBOX_DIR") });
+    case "smtp": {
+      const hostname = Deno.env.get("SMTP_HOST");
+      const from = Deno.env.get("NOTIFICATION_FROM_EMAIL");
+      if (!hostname) throw new Error("SMTP_HOST is not configured");
+      if (!from) throw new Error("NOTIFICATION_FROM_EMAIL is not configured");
+
+      const port = parseInt(Deno.env.get("SMTP_PORT") ?? "587");
+      return createSmtpTransport({
+        hostname,
+        port,
+        username: Deno.env.get("SMTP_USERNAME"),
+        password: Deno.env.get("SMTP_PASSWORD"),
+        tls: (Deno.env.get("SMTP_TLS") ?? String(port === 465)) === "true",
+        from,
+      });
+    }
+    default:
+      throw new Error(`Unknown email transport: ${transportName}`);
+  }
+};
+
+const getUserEmail = async (supabase: SupabaseClient, userId: string) => {
+  const { data, error } = await supabase.auth.admin.getUserById(userId);
+  if (error) throw new Error(`Failed to load user ${userId}: ${error.message}`);
+  return data.user?.email ?? null;
+};
+
+const getAdminUserIds = async (supabase: SupabaseClient) => {
+  const { data, error } = await supabase
+    .from("user_roles")
+    .select("user_id")
+    .eq("role", "admin");
+
+  if (error) throw new Error(`Failed to load admins: ${error.message}`);
+  return (data ?? []).map((row) => row.user_id as string);
+};
+
+const loadTemplateData = async (supabase: SupabaseClient, workflowId: string) => {
+  const { data: workflow, error } = await supabase
+    .from("certification_workflows")
+    .select("id, user_id, level, course_id")
+    .eq("id", workflowId)
+    .single();
+
+  if (error || !workflow) throw new Error("Certification workflow not found");
+
+  const [{ data: course }, { data: profile }, learnerEmail] = await Promise.all([
+    supabase.from("courses").select("title").eq("id", workflow.course_id).maybeSingle(),
+    supabase.from("profiles").select("first_name, last_name").eq("user_id", workflow.user_id).maybeSingle(),
+    getUserEmail(supabase, workflow.user_id),
+  ]);
+
+  const fullName = [profile?.first_name, profile?.last_name].filter(Boolean).join(" ");
+
+  return {
+    workflow,
+    data: {
+      learnerName: fullName || learnerEmail || "there",
+      learnerEmail: learnerEmail ?? undefined,
+      level: workflow.level,
+      courseTitle: course?.title ?? `Level ${workflow.level}`,
+    } as NotificationData,
+  };
+};
+
+// Learners can turn workflow emails off in their account settings; no row means enabled
+const learnerEmailsEnabled = async (supabase: SupabaseClient, userId: string) => {
+  const { data, error } = await supabase
+    .from("notification_preferences")
+    .select("email_enabled")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load notification preferences: ${error.message}`);
+  return data?.email_enabled ?? true;
+};
+
+const retryDelay = (attempts: number) => Math.min(RETRY_BASE_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_MS);
+
+// Sends a row that is already in "sending" and records the outcome. Failures go back to
+// "pending" with a later next_attempt_at until max_attempts is reached.
+export const sendClaimedNotification = async (
+  supabase: SupabaseClient,
+  row: NotificationRow,
+  log: NotificationLogger
+) => {
+  let transportName: string | null = null;
+
+  try {
+    const transport = getEmailTransport();
+    transportName = transport.name;
+    await transport.send({ to: row.recipient_email, subject: row.subject, text: row.body_text, html: row.body_html });
+
+    const { error } = await supabase
+      .from("notification_emails")
+      .update({ status: "sent", transport: transportName, last_error: null, sent_at: new Date().toISOString() })
+      .eq("id", row.id);
+
+    if (error) throw new Error(`Failed to update notification: ${error.message}`);
+    log("Notification sent", { notificationId: row.id, type: row.type, transport: transportName });
+    return true;
+  } catch (sendError) {
+    const message = sendError instanceof Error ? sendError.message : String(sendError);
+    const exhausted = row.attempts >= row.max_attempts;
+
+    const { error } = await supabase
+      .from("notification_emails")
+      .update({
+        status: exhausted ? "failed" : "pending",
+        transport: transportName,
+        last_error: message,
+        next_attempt_at: new Date(Date.now() + retryDelay(row.attempts)).toISOString(),
+      })
+      .eq("id", row.id);
+
+    if (error) log("ERROR updating notification", { notificationId: row.id, message: error.message });
+    log("ERROR sending notification", { notificationId: row.id, type: row.type, attempts: row.attempts, exhausted, message });
+    return false;
+  }
+};
+
+// Moves a freshly queued row to "sending"; loses to a dispatcher that already claimed it
+const claimNotification = async (supabase: SupabaseClient, row: NotificationRow) => {
+  const { data, error } = await supabase
+    .from("notification_emails")
+    .update({ status: "sending", attempts: row.attempts + 1 })
+    .eq("id", row.id)
+    .eq("status", "pending")
+    .select("*")
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to claim notification: ${error.message}`);
+  return data as NotificationRow | null;
+};
+
+// Queues the notification for each recipient and tries to deliver it immediately.
+// Never throws: an email must not fail the workflow transition that triggered it.
+export const notify = async (supabase: SupabaseClient, input: NotifyInput, log: NotificationLogger) => {
+  try {
+    const { workflow, data: baseData } = await loadTemplateData(supabase, input.workflowId);
+    const data = { ...baseData, ...input.details };
+    const rendered = renderTemplate(input.type, data);
+
+    const toAdmins = ADMIN_NOTIFICATIONS.includes(input.type);
+    if (!toAdmins && !(await learnerEmailsEnabled(supabase, workflow.user_id))) {
+      log("Notification skipped, learner opted out of emails", { type: input.type, workflowId: workflow.id });
+      return;
+    }
+
+    const recipientIds = toAdmins ? await getAdminUserIds(supabase) : [workflow.user_id as string];
+
+    for (const recipientId of recipientIds) {
+      const email = recipientId === workflow.user_id ? data.learnerEmail : await getUserEmail(supabase, recipientId);
+      if (!email) {
+        log("Notification skipped, recipient has no email", { type: input.type, recipientId });
+        continue;
+      }
+
+      const { data: row, error } = await supabase
+        .from("notification_emails")
+        .insert({
+          type: input.type,
+          recipient_user_id: recipientId,
+          recipient_email: email,
+          workflow_id: workflow.id,
+          subject: rendered.subject,
+          body_text: rendered.text,
+          body_html: rendered.html,
+          payload: data,
+          dedupe_key: input.dedupeKey ? `${input.dedupeKey}:${recipientId}` : null,
+        })
+        .select("*")
+        .single();
+
+      if (error?.code === "23505") {
+        log("Notification already queued", { type: input.type, dedupeKey: input.dedupeKey, recipientId });
+        continue;
+      }
+      if (error || !row) throw new Error(`Failed to queue notification: ${error?.message}`);
+
+      const claimed = await claimNotification(supabase, row as NotificationRow);
+      if (claimed) await sendClaimedNotification(supabase, claimed, log);
+    }
+  } catch (notifyError) {
+    const message = notifyError instanceof Error ? notifyError.message : String(notifyError);
+    log("ERROR queueing notification", { type: input.type, workflowId: input.workflowId, message });
+  }
+};
@@ -0,0 +1,23 @@
+import type { EmailMessage, EmailTransport } from "./types.ts";
+
+// Local transport for development and testing. Nothing is sent; each message is logged
+// and, when NOTIFICATION_OUTBOX_DIR is set, written there as a JSON file so it can be
+// inspected or asserted on.
+
+interface LocalConfig {
+  directory?: string | null;
+}
+
+export const createLocalTransport = ({ directory }: LocalConfig): EmailTransport => ({
+  name: "local",
+
+  async send(message: EmailMessage): Promise<void> {
+    console.log(`[NOTIFICATIONS] Email to ${message.to}: ${message.subject}\n${message.text}`);
+
+    if (directory) {
+      const path = `${directory.replace(/\/$/, "")}/${Date.now()}-${crypto.randomUUID()}.json`;
+      await Deno.mkdir(directory, { recursive: true });
+      await Deno.writeTextFile(path, JSON.stringify(message, null, 2));
+    }
+  },
+});
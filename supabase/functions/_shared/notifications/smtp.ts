@@ -0,0 +1,40 @@
+import { SMTPClient } from "https://deno.land/x/denomailer@1.6.0/mod.ts";
+import type { EmailMessage, EmailTransport } from "./types.ts";
+
+interface SmtpConfig {
+  hostname: string;
+  port: number;
+  username?: string;
+  password?: string;
+  // Implicit TLS (port 465); otherwise STARTTLS is used when the server offers it
+  tls: boolean;
+  from: string;
+}
+
+// A connection is opened per message; edge function invocations only send a handful
+export const createSmtpTransport = (config: SmtpConfig): EmailTransport => ({
+  name: "smtp",
+
+  async send(message: EmailMessage): Promise<void> {
+    const client = new SMTPClient({
+      connection: {
+        hostname: config.hostname,
+        port: config.port,
+        tls: config.tls,
+        ...(config.username ? { auth: { username: config.username, password: config.password ?? "" } } : {}),
+      },
+    });
+
+    try {
+      await client.send({
+        from: config.from,
+        to: message.to,
+        subject: message.subject,
+        content: message.text,
+        html: message.html,
+      });
+    } finally {
+      await client.close();
+    }
+  },
+});
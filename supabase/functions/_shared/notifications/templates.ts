@@ -0,0 +1,150 @@
+// Email copy for each certification workflow notification, rendered to plain text and HTML
+import type { NotificationData, NotificationType, RenderedEmail } from "./types.ts";
+
+const BRAND = "MovingWaldo";
+
+interface TemplateContent {
+  subject: string;
+  greeting: string;
+  paragraphs: string[];
+  // Quoted block, used for reviewer notes
+  quote?: string | null;
+  action?: { label: string; url: string } | null;
+}
+
+// Links are only included when SITE_URL is configured
+const siteLink = (path: string) => {
+  const siteUrl = Deno.env.get("SITE_URL");
+  return siteUrl ? `${siteUrl.replace(/\/$/, "")}${path}` : null;
+};
+
+const link = (label: string, url: string | null | undefined) => (url ? { label, url } : null);
+
+const formatAmount = (amount?: number | null, currency?: string | null) => {
+  if (amount == null) return null;
+  return new Intl.NumberFormat("en-CA", {
+    style: "currency",
+    currency: (currency ?? "cad").toUpperCase(),
+  }).format(amount / 100);
+};
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+const TEMPLATES: Record<NotificationType, (data: NotificationData) => TemplateContent> = {
+  exam_submitted: (data) => ({
+    subject: `Level ${data.level} exam submitted by ${data.learnerName}`,
+    greeting: "Hello,",
+    paragraphs: [
+      `${data.learnerName}${data.learnerEmail ? ` (${data.learnerEmail})` : ""} has submitted the ${data.courseTitle} certification exam.`,
+      "The submission is waiting for your review.",
+    ],
+    action: link("Review certifications", siteLink("/admin/certifications")),
+  }),
+
+  certification_approved: (data) => ({
+    subject: `Your Level ${data.level} certification has been approved`,
+    greeting: `Hi ${data.learnerName},`,
+    paragraphs: [
+      `Good news: your ${data.courseTitle} exam has been approved.`,
+      "The next step is to sign your Relocation Specialist Agreement.",
+    ],
+    quote: data.notes,
+    action: link("Sign the agreement", siteLink(`/certification/${data.level}/contract`)),
+  }),
+
+  certification_rejected: (data) => ({
+    subject: `Your Level ${data.level} certification needs another attempt`,
+    greeting: `Hi ${data.learnerName},`,
+    paragraphs: [
+      `Your ${data.courseTitle} exam was reviewed and was not approved this time.`,
+      "Please read the reviewer's feedback below before retaking the exam.",
+    ],
+    quote: data.notes,
+    action: link("Retake the exam", siteLink(`/certification/${data.level}/exam`)),
+  }),
+
+  contract_ready: (data) => ({
+    subject: `Your Level ${data.level} agreement is ready to sign`,
+    greeting: `Hi ${data.learnerName},`,
+    paragraphs: [
+      `Your Relocation Specialist Agreement for ${data.courseTitle} is ready.`,
+      "Sign it to continue to payment and complete your certification.",
+    ],
+    action: link("Sign the agreement", data.signingUrl ?? siteLink(`/certification/${data.level}/contract`)),
+  }),
+
+  contract_signed: (data) => ({
+    subject: `We received your signed Level ${data.level} agreement`,
+    greeting: `Hi ${data.learnerName},`,
+    paragraphs: [
+      `Thank you for signing your Relocation Specialist Agreement for ${data.courseTitle}.`,
+      "The last step is the certification payment.",
+    ],
+    action: link("Continue to payment", siteLink(`/certification/${data.level}/payment`)),
+  }),
+
+  payment_received: (data) => {
+    const amount = formatAmount(data.amount, data.currency);
+    return {
+      subject: `Payment received for your Level ${data.level} certification`,
+      greeting: `Hi ${data.learnerName},`,
+      paragraphs: [
+        amount
+          ? `We received your payment of ${amount} for ${data.courseTitle}.`
+          : `We received your payment for ${data.courseTitle}.`,
+        "A receipt is available from the billing portal in your account settings.",
+      ],
+      action: link("Account settings", siteLink("/account-settings")),
+    };
+  },
+
+  certification_completed: (data) => ({
+    subject: `Congratulations, you are a Level ${data.level} certified Relocation Specialist`,
+    greeting: `Hi ${data.learnerName},`,
+    paragraphs: [
+      `You have completed ${data.courseTitle} and your certification is now active.`,
+      data.certificateSerial
+        ? `Your certificate number is ${data.certificateSerial}. Anyone can confirm it on our verification page.`
+        : "Your certificate is available from your course dashboard.",
+    ],
+    action: link("Download your certificate", data.certificateUrl ?? siteLink("/")),
+  }),
+};
+
+export const renderTemplate = (type: NotificationType, data: NotificationData): RenderedEmail => {
+  const content = TEMPLATES[type](data);
+
+  const text = [
+    content.greeting,
+    ...content.paragraphs,
+    ...(content.quote ? [`Reviewer notes:\n${content.quote}`] : []),
+    ...(content.action ? [`${content.action.label}: ${content.action.url}`] : []),
+    `— The ${BRAND} Certification team`,
+  ].join("\n\n");
+
+  const html = `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f5f7fa;font-family:Arial,Helvetica,sans-serif;color:#1f2937;">
+    <div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;padding:32px;">
+      <h1 style="font-size:20px;margin:0 0 24px;">${escapeHtml(content.subject)}</h1>
+      <p>${escapeHtml(content.greeting)}</p>
+      ${content.paragraphs.map((paragraph) => `<p>${escapeHtml(paragraph)}</p>`).join("\n      ")}
+      ${content.quote
+        ? `<blockquote style="margin:16px 0;padding:12px 16px;border-left:4px solid #d1d5db;background:#f9fafb;white-space:pre-wrap;">${escapeHtml(content.quote)}</blockquote>`
+        : ""}
+      ${content.action
+        ? `<p style="margin:24px 0;"><a href="${escapeHtml(content.action.url)}" style="background:#2563eb;color:#ffffff;padding:12px 20px;border-radius:6px;text-decoration:none;">${escapeHtml(content.action.label)}</a></p>`
+        : ""}
+      <p style="color:#6b7280;">The ${BRAND} Certification team</p>
+    </div>
+  </body>
+</html>`;
+
+  return { subject: content.subject, text, html };
+};
@@ -0,0 +1,45 @@
+// Contract every email transport implements. Functions only queue notifications;
+// the transport is chosen with the NOTIFICATION_TRANSPORT env var.
+
+export type EmailTransportName = "smtp" | "local";
+
+export type NotificationType =
+  | "exam_submitted"
+  | "certification_approved"
+  | "certification_rejected"
+  | "contract_ready"
+  | "contract_signed"
+  | "payment_received"
+  | "certification_completed";
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface EmailTransport {
+  name: EmailTransportName;
+  send(message: EmailMessage): Promise<void>;
+}
+
+// Values available to the templates; which ones are set depends on the notification type
+export interface NotificationData {
+  learnerName: string;
+  learnerEmail?: string;
+  level: number;
+  courseTitle: string;
+  notes?: string | null;
+  signingUrl?: string | null;
+  amount?: number | null;
+  currency?: string | null;
+  certificateSerial?: string | null;
+  certificateUrl?: string | null;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
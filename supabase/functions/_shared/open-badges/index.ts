@@ -0,0 +1,135 @@
+// Open Badges 3.0 credentials for completed certification levels. The issuer profile and one
+// achievement (badge class) per level are hosted by the open-badges function.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { signDocument } from "./signing.ts";
+
+export { getPublicKeyMultibase, verifyDocument } from "./signing.ts";
+
+export const OB_CONTEXT = [
+  "https://www.w3.org/ns/credentials/v2",
+  "https://purl.imsglobal.org/spec/ob/v3p0/context-3.0.3.json",
+];
+
+export const ISSUER_NAME = "MovingWaldo";
+
+export type BadgeStatus = "valid" | "expired" | "suspended" | "revoked";
+
+// A credential signed with a validUntil that no longer matches the certification's expiry,
+// because the certification has been renewed since it was issued
+export const isCredentialStale = (credential: { validUntil?: string }, workflow: BadgeWorkflow) => {
+  const validUntil = credential.validUntil ? new Date(credential.validUntil).getTime() : null;
+  const expiresAt = workflow.certification_expires_at ? new Date(workflow.certification_expires_at).getTime() : null;
+  return validUntil !== expiresAt;
+};
+
+export interface BadgeWorkflow {
+  id: string;
+  user_id: string;
+  level: number;
+  subscription_status: string;
+  current_step: string;
+  certification_status: string;
+  completed_at: string | null;
+  certification_expires_at: string | null;
+}
+
+interface BadgeCourse {
+  title: string;
+  description: string | null;
+}
+
+// Public base URL of the open-badges function; every hosted id is derived from it
+export const getBadgesBaseUrl = () => `${Deno.env.get("SUPABASE_URL") ?? ""}/functions/v1/open-badges`;
+
+export const getIssuerId = () => `${getBadgesBaseUrl()}/issuer`;
+
+export const getVerificationMethod = () => `${getIssuerId()}#key-1`;
+
+export const getAchievementId = (level: number) => `${getBadgesBaseUrl()}/achievements/level-${level}`;
+
+export const buildIssuerProfile = () => {
+  const siteUrl = Deno.env.get("SITE_URL");
+  return {
+    id: getIssuerId(),
+    type: ["Profile"],
+    name: ISSUER_NAME,
+    ...(siteUrl ? { url: siteUrl } : {}),
+  };
+};
+
+export const buildAchievement = (level: number, course: BadgeCourse) => ({
+  id: getAchievementId(level),
+  type: ["Achievement"],
+  achievementType: "Certification",
+  name: `Level ${level} Certified Relocation Specialist`,
+  description: course.description ?? course.title,
+  criteria: {
+    narrative: `Completed the Level ${level} course "${course.title}", passed the certification exam, ` +
+      "was approved by a MovingWaldo reviewer and signed the certification agreement.",
+  },
+  creator: buildIssuerProfile(),
+});
+
+// Mirrors certification_standing() in SQL; refunded or cancelled certifications count as revoked
+export const getBadgeStatus = (workflow: BadgeWorkflow): BadgeStatus => {
+  if (workflow.certification_status === "revoked") return "revoked";
+  if (workflow.certification_status === "suspended") return "suspended";
+  if (workflow.certification_expires_at && new Date(workflow.certification_expires_at) <= new Date()) {
+    return "expired";
+  }
+  const inGoodStanding = workflow.current_step === "completed" &&
+    (workflow.subscription_status === "paid" || workflow.subscription_status === "past_due");
+  return inGoodStanding ? "valid" : "revoked";
+};
+
+const sha256Hex = async (text: string) => {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+};
+
+// The learner is identified by a salted email hash so the credential doesn't expose their address
+export const buildSignedCredential = async (input: {
+  credentialId: string;
+  workflow: BadgeWorkflow;
+  course: BadgeCourse;
+  recipientName: string;
+  email: string;
+}) => {
+  const salt = crypto.randomUUID().replace(/-/g, "");
+  const { workflow } = input;
+
+  const credential = {
+    "@context": OB_CONTEXT,
+    id: `urn:uuid:${input.credentialId}`,
+    type: ["VerifiableCredential", "OpenBadgeCredential"],
+    name: `Level ${workflow.level} Certified Relocation Specialist`,
+    issuer: buildIssuerProfile(),
+    validFrom: workflow.completed_at ?? new Date().toISOString(),
+    ...(workflow.certification_expires_at ? { validUntil: workflow.certification_expires_at } : {}),
+    credentialSubject: {
+      type: ["AchievementSubject"],
+      name: input.recipientName,
+      identifier: [{
+        type: "IdentityObject",
+        identityType: "emailAddress",
+        hashed: true,
+        identityHash: `sha256$${await sha256Hex(input.email.toLowerCase() + salt)}`,
+        salt,
+      }],
+      achievement: buildAchievement(workflow.level, input.course),
+    },
+  };
+
+  return signDocument(credential, getVerificationMethod());
+};
+
+export const getCredentialRecord = async (supabase: SupabaseClient, credentialId: string) => {
+  const { data, error } = await supabase
+    .from("open_badge_credentials")
+    .select("id, workflow_id, level, credential, superseded_at")
+    .eq("id", credentialId)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load badge credential: ${error.message}`);
+  return data;
+};
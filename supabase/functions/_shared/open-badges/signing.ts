@@ -0,0 +1,147 @@
+// Data Integrity proofs using the eddsa-jcs-2022 cryptosuite (W3C vc-di-eddsa):
+// Ed25519 over the SHA-256 hashes of the JCS-canonicalized proof options and document.
+// The signing key is an Ed25519 private JWK in OPEN_BADGES_SIGNING_KEY.
+
+export interface DataIntegrityProof {
+  "@context"?: unknown;
+  type: "DataIntegrityProof";
+  cryptosuite: "eddsa-jcs-2022";
+  created: string;
+  verificationMethod: string;
+  proofPurpose: "assertionMethod";
+  proofValue?: string;
+}
+
+const BASE58_ALPHABET = "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+
+// Multicodec prefix for an Ed25519 public key, used in Multikey publicKeyMultibase
+const ED25519_PUB_PREFIX = [0xed, 0x01];
+
+// RFC 8785 JSON Canonicalization Scheme; default sort compares UTF-16 code units as JCS requires
+export const canonicalize = (value: unknown): string => {
+  if (value === null || typeof value !== "object") return JSON.stringify(value);
+  if (Array.isArray(value)) return `[${value.map(canonicalize).join(",")}]`;
+
+  const record = value as Record<string, unknown>;
+  const members = Object.keys(record)
+    .filter((key) => record[key] !== undefined)
+    .sort()
+    .map((key) => `${JSON.stringify(key)}:${canonicalize(record[key])}`);
+  return `{${members.join(",")}}`;
+};
+
+const base58Encode = (bytes: Uint8Array) => {
+  let zeros = 0;
+  while (zeros < bytes.length && bytes[zeros] === 0) zeros++;
+
+  let value = bytes.reduce((acc, byte) => acc * 256n + BigInt(byte), 0n);
+  let encoded = "";
+  while (value > 0n) {
+    encoded = BASE58_ALPHABET[Number(value % 58n)] + encoded;
+    value /= 58n;
+  }
+  return "1".repeat(zeros) + encoded;
+};
+
+const base58Decode = (text: string) => {
+  let zeros = 0;
+  while (zeros < text.length && text[zeros] === "1") zeros++;
+
+  let value = 0n;
+  for (const char of text) {
+    const digit = BASE58_ALPHABET.indexOf(char);
+    if (digit < 0) throw new Error("Invalid base58 character");
+    value = value * 58n + BigInt(digit);
+  }
+
+  const bytes: number[] = [];
+  while (value > 0n) {
+    bytes.unshift(Number(value % 256n));
+    value /= 256n;
+  }
+  return new Uint8Array([...new Array(zeros).fill(0), ...bytes]);
+};
+
+const base64UrlDecode = (text: string) => {
+  const base64 = text.replace(/-/g, "+").replace(/_/g, "/");
+  const padded = base64 + "=".repeat((4 - (base64.length % 4)) % 4);
+  return Uint8Array.from(atob(padded), (char) => char.charCodeAt(0));
+};
+
+const sha256 = async (text: string) =>
+  new Uint8Array(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text)));
+
+const hashData = async (proofConfig: Record<string, unknown>, document: Record<string, unknown>) => {
+  const [proofHash, documentHash] = await Promise.all([
+    sha256(canonicalize(proofConfig)),
+    sha256(canonicalize(document)),
+  ]);
+  return new Uint8Array([...proofHash, ...documentHash]);
+};
+
+const getSigningJwk = (): JsonWebKey => {
+  const raw = Deno.env.get("OPEN_BADGES_SIGNING_KEY");
+  if (!raw) throw new Error("OPEN_BADGES_SIGNING_KEY is not configured");
+
+  const jwk = JSON.parse(raw) as JsonWebKey;
+  if (jwk.kty !== "OKP" || jwk.crv !== "Ed25519" || !jwk.d || !jwk.x) {
+    throw new Error("OPEN_BADGES_SIGNING_KEY must be an Ed25519 private JWK");
+  }
+  return jwk;
+};
+
+// Public half of the signing key as a Multikey publicKeyMultibase value
+export const getPublicKeyMultibase = () => {
+  const { x } = getSigningJwk();
+  return `z${base58Encode(new Uint8Array([...ED25519_PUB_PREFIX, ...base64UrlDecode(x!)]))}`;
+};
+
+export const signDocument = async <T extends Record<string, unknown>>(
+  document: T,
+  verificationMethod: string,
+  created: Date = new Date()
+): Promise<T & { proof: DataIntegrityProof }> => {
+  const jwk = getSigningJwk();
+  const key = await crypto.subtle.importKey("jwk", jwk, { name: "Ed25519" }, false, ["sign"]);
+
+  const proofConfig: DataIntegrityProof = {
+    "@context": document["@context"],
+    type: "DataIntegrityProof",
+    cryptosuite: "eddsa-jcs-2022",
+    created: created.toISOString().replace(/\.\d{3}Z$/, "Z"),
+    verificationMethod,
+    proofPurpose: "assertionMethod",
+  };
+
+  const data = await hashData(proofConfig as unknown as Record<string, unknown>, document);
+  const signature = new Uint8Array(await crypto.subtle.sign("Ed25519", key, data));
+
+  return { ...document, proof: { ...proofConfig, proofValue: `z${base58Encode(signature)}` } };
+};
+
+// Checks the proof against our own signing key; credentials from other issuers are rejected
+export const verifyDocument = async (document: Record<string, unknown>, verificationMethod: string) => {
+  const { proof, ...unsecured } = document as Record<string, unknown> & { proof?: DataIntegrityProof };
+  if (!proof || proof.type !== "DataIntegrityProof" || proof.cryptosuite !== "eddsa-jcs-2022") return false;
+  if (proof.verificationMethod !== verificationMethod || !proof.proofValue?.startsWith("z")) return false;
+
+  const { proofValue, ...proofConfig } = proof;
+  if (canonicalize(proofConfig["@context"]) !== canonicalize(unsecured["@context"])) return false;
+
+  const { x } = getSigningJwk();
+  const key = await crypto.subtle.importKey(
+    "jwk",
+    { kty: "OKP", crv: "Ed25519", x },
+    { name: "Ed25519" },
+    false,
+    ["verify"]
+  );
+
+  try {
+    const signature = base58Decode(proofValue.slice(1));
+    const data = await hashData(proofConfig as unknown as Record<string, unknown>, unsecured);
+    return await crypto.subtle.verify("Ed25519", key, signature, data);
+  } catch {
+    return false;
+  }
+};
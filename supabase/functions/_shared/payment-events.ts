@@ -0,0 +1,32 @@
+// Appends a row to payment_events, the audit trail of Stripe payment activity
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+
+export interface PaymentEventInput {
+  workflow_id: string | null;
+  user_id: string | null;
+  stripe_event_id: string;
+  event_type: string;
+  stripe_object_id: string;
+  previous_subscription_status?: string | null;
+  new_subscription_status?: string | null;
+  amount?: number | null;
+  currency?: string | null;
+  reason?: string | null;
+  payload?: unknown;
+}
+
+export const recordPaymentEvent = async (supabase: SupabaseClient, input: PaymentEventInput) => {
+  const { error } = await supabase
+    .from("payment_events")
+    .insert({
+      ...input,
+      previous_subscription_status: input.previous_subscription_status ?? null,
+      new_subscription_status: input.new_subscription_status ?? null,
+      amount: input.amount ?? null,
+      currency: input.currency ?? null,
+      reason: input.reason ?? null,
+      payload: input.payload ?? null,
+    });
+
+  if (error) throw new Error(`Failed to record payment event: ${error.message}`);
+};
@@ -0,0 +1,39 @@
+// Server-side lookup of the price a learner pays for a certification level.
+// Prices are never taken from the client.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+
+export interface CertificationPrice {
+  id: string;
+  level: number;
+  currency: string;
+  amount: number;
+  stripe_price_id: string | null;
+  billing_interval: "one_time" | "year";
+  active_from: string;
+  active_until: string | null;
+}
+
+// How long before certification_expires_at a learner without auto-renewal may renew.
+// Mirrored by RENEWAL_NOTICE_DAYS in src/types/pricing.ts.
+export const RENEWAL_WINDOW_DAYS = 30;
+
+// Most recently started price whose active window contains `at`
+export const getActivePrice = async (
+  supabase: SupabaseClient,
+  level: number,
+  at: Date = new Date()
+): Promise<CertificationPrice | null> => {
+  const iso = at.toISOString();
+  const { data, error } = await supabase
+    .from("certification_prices")
+    .select("*")
+    .eq("level", level)
+    .lte("active_from", iso)
+    .or(`active_until.is.null,active_until.gt.${iso}`)
+    .order("active_from", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load certification price: ${error.message}`);
+  return data;
+};
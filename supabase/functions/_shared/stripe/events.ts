@@ -0,0 +1,461 @@
+// Applies a Stripe event to certification workflows. Shared by the webhook and admin replays,
+// so every handler reads the current workflow state instead of trusting the event alone.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import Stripe from "https://esm.sh/stripe@14.21.0";
+import { releaseWorkflowRedemption, updateRedemption } from "../discounts.ts";
+import { recordPaymentEvent } from "../payment-events.ts";
+import { recordCourseCompletion, removeCourseCompletion } from "../course-completions.ts";
+import { getCertificateUrl, issueCertificateOrQueue } from "../certificates/index.ts";
+import { notify } from "../notifications/index.ts";
+import { transitionWorkflow, type WorkflowStep } from "../workflow.ts";
+import { markStripeEventFailed, markStripeEventProcessed } from "./ledger.ts";
+
+export type StripeEventLogger = (step: string, details?: unknown) => void;
+
+const WORKFLOW_COLUMNS = "id, user_id, course_id, level, subscription_status, current_step, stripe_subscription_id";
+
+interface PaymentWorkflow {
+  id: string;
+  user_id: string;
+  course_id: string;
+  level: number;
+  subscription_status: string;
+  current_step: string;
+  stripe_subscription_id: string | null;
+}
+
+// Refunded or disputed payments no longer count; the learner is sent back to the payment step
+const REVOKED_PAYMENT = {
+  subscription_status: "cancelled",
+  current_step: "payment" as const,
+  completed_at: null,
+};
+
+const paymentIntentId = (intent: string | Stripe.PaymentIntent | null) =>
+  typeof intent === "string" ? intent : intent?.id ?? null;
+
+const objectId = (value: string | { id: string } | null) =>
+  typeof value === "string" ? value : value?.id ?? null;
+
+const toIso = (unixSeconds: number) => new Date(unixSeconds * 1000).toISOString();
+
+const findWorkflowBySubscription = async (supabase: SupabaseClient, subscriptionId: string) => {
+  const { data } = await supabase
+    .from("certification_workflows")
+    .select(WORKFLOW_COLUMNS)
+    .eq("stripe_subscription_id", subscriptionId)
+    .maybeSingle();
+  return data as PaymentWorkflow | null;
+};
+
+// The first invoice of a subscription can arrive before checkout.session.completed has stored its id
+const findWorkflowForInvoice = async (supabase: SupabaseClient, invoice: Stripe.Invoice) => {
+  const subscriptionId = objectId(invoice.subscription);
+  if (!subscriptionId) return null;
+
+  const workflow = await findWorkflowBySubscription(supabase, subscriptionId);
+  if (workflow) return workflow;
+
+  const workflowId = invoice.subscription_details?.metadata?.workflow_id;
+  return workflowId ? findWorkflowById(supabase, workflowId) : null;
+};
+
+const findWorkflowById = async (supabase: SupabaseClient, workflowId: string) => {
+  const { data } = await supabase
+    .from("certification_workflows")
+    .select(WORKFLOW_COLUMNS)
+    .eq("id", workflowId)
+    .maybeSingle();
+  return data as PaymentWorkflow | null;
+};
+
+const findWorkflowBySession = async (supabase: SupabaseClient, sessionId: string) => {
+  const { data } = await supabase
+    .from("certification_workflows")
+    .select(WORKFLOW_COLUMNS)
+    .eq("stripe_checkout_session_id", sessionId)
+    .maybeSingle();
+  return data as PaymentWorkflow | null;
+};
+
+const findWorkflowByPaymentIntent = async (supabase: SupabaseClient, stripe: Stripe, intentId: string) => {
+  const { data } = await supabase
+    .from("certification_workflows")
+    .select(WORKFLOW_COLUMNS)
+    .eq("stripe_payment_intent_id", intentId)
+    .maybeSingle();
+  if (data) return data as PaymentWorkflow;
+
+  // Workflows paid before the intent id was stored are matched through their checkout session
+  const sessions = await stripe.checkout.sessions.list({ payment_intent: intentId, limit: 1 });
+  const session = sessions.data[0];
+  return session ? findWorkflowBySession(supabase, session.id) : null;
+};
+
+// Subscription charges carry no checkout payment intent; they are matched through their invoice
+const findWorkflowForCharge = async (supabase: SupabaseClient, stripe: Stripe, charge: Stripe.Charge) => {
+  const invoiceId = objectId(charge.invoice);
+  if (invoiceId) {
+    const invoice = await stripe.invoices.retrieve(invoiceId);
+    const workflow = await findWorkflowForInvoice(supabase, invoice);
+    if (workflow) return workflow;
+  }
+
+  const intentId = paymentIntentId(charge.payment_intent);
+  return intentId ? findWorkflowByPaymentIntent(supabase, stripe, intentId) : null;
+};
+
+const auditBase = (event: Stripe.Event, workflow: PaymentWorkflow | null, objectId: string) => ({
+  workflow_id: workflow?.id ?? null,
+  user_id: workflow?.user_id ?? null,
+  stripe_event_id: event.id,
+  event_type: event.type,
+  stripe_object_id: objectId,
+  payload: event.data.object,
+});
+
+// Moves the workflow and writes the matching payment_events audit row
+const applyPaymentChange = async (
+  supabase: SupabaseClient,
+  event: Stripe.Event,
+  workflow: PaymentWorkflow,
+  objectId: string,
+  updates: Record<string, unknown> & { subscription_status: string; current_step?: WorkflowStep },
+  details: { amount?: number | null; currency?: string | null; reason?: string | null } = {}
+) => {
+  const { current_step, ...changes } = updates;
+  await transitionWorkflow(supabase, workflow.id, {
+    to: current_step,
+    changes,
+    source: `stripe:${event.type}`,
+    reason: details.reason
+  });
+
+  await recordPaymentEvent(supabase, {
+    ...auditBase(event, workflow, objectId),
+    ...details,
+    previous_subscription_status: workflow.subscription_status,
+    new_subscription_status: updates.subscription_status,
+  });
+};
+
+// A refunded or disputed certification must not renew at the next billing cycle
+const cancelSubscription = async (stripe: Stripe, workflow: PaymentWorkflow, log: StripeEventLogger) => {
+  if (!workflow.stripe_subscription_id) return;
+
+  const subscription = await stripe.subscriptions.retrieve(workflow.stripe_subscription_id);
+  if (subscription.status === "canceled") return;
+
+  await stripe.subscriptions.cancel(subscription.id);
+  log("Subscription cancelled", { workflowId: workflow.id, subscriptionId: subscription.id });
+};
+
+// Revokes a fully refunded or disputed payment and everything it unlocked
+const revokePayment = async (
+  supabase: SupabaseClient,
+  stripe: Stripe,
+  event: Stripe.Event,
+  workflow: PaymentWorkflow,
+  objectId: string,
+  details: { amount?: number | null; currency?: string | null; reason: string },
+  log: StripeEventLogger
+) => {
+  await applyPaymentChange(supabase, event, workflow, objectId, REVOKED_PAYMENT, details);
+  await removeCourseCompletion(supabase, workflow.user_id, workflow.course_id);
+  await releaseWorkflowRedemption(supabase, workflow.id);
+  await cancelSubscription(stripe, workflow, log);
+};
+
+export const processStripeEvent = async (
+  supabase: SupabaseClient,
+  stripe: Stripe,
+  event: Stripe.Event,
+  log: StripeEventLogger
+) => {
+  switch (event.type) {
+    case "checkout.session.completed": {
+      const session = event.data.object as Stripe.Checkout.Session;
+      log("Processing checkout.session.completed", { sessionId: session.id });
+
+      const clientReferenceId = session.client_reference_id;
+      const metadata = session.metadata;
+
+      let userId: string;
+      let level: number;
+
+      // Prefer metadata; client_reference_id is "<user uuid>-<level>" and the uuid itself contains dashes
+      if (metadata?.user_id && metadata?.level) {
+        userId = metadata.user_id;
+        level = parseInt(metadata.level);
+      } else if (clientReferenceId && clientReferenceId.includes("-")) {
+        const separator = clientReferenceId.lastIndexOf("-");
+        userId = clientReferenceId.slice(0, separator);
+        level = parseInt(clientReferenceId.slice(separator + 1));
+      } else {
+        throw new Error("Cannot identify user_id and level from session data");
+      }
+
+      log("Extracted session data", { userId, level, sessionId: session.id });
+
+      // Opening a new checkout replaces the stored session id, so an older session that is still
+      // open and gets paid is matched through the workflow id in its metadata
+      const workflow = await findWorkflowBySession(supabase, session.id)
+        ?? (metadata?.workflow_id ? await findWorkflowById(supabase, metadata.workflow_id) : null);
+
+      if (!workflow || workflow.user_id !== userId || workflow.level !== level) {
+        throw new Error(`Certification workflow not found for session ${session.id}`);
+      }
+
+      const paid = session.payment_status === "paid";
+      const subscriptionId = objectId(session.subscription);
+
+      // Annual certifications expire at the end of the paid subscription period
+      let expiresAt: string | null = null;
+      if (subscriptionId) {
+        const subscription = await stripe.subscriptions.retrieve(subscriptionId);
+        expiresAt = toIso(subscription.current_period_end);
+      }
+
+      await applyPaymentChange(supabase, event, workflow, session.id, {
+        subscription_status: paid ? "paid" : "pending_payment",
+        current_step: paid ? "completed" : "payment",
+        completed_at: paid ? new Date().toISOString() : null,
+        stripe_checkout_session_id: session.id,
+        stripe_payment_intent_id: paymentIntentId(session.payment_intent),
+        stripe_customer_id: objectId(session.customer),
+        stripe_subscription_id: subscriptionId,
+        certification_expires_at: expiresAt,
+      }, { amount: session.amount_total, currency: session.currency });
+
+      log("Workflow updated successfully", { workflowId: workflow.id });
+
+      if (metadata?.discount_redemption_id && paid) {
+        await updateRedemption(supabase, metadata.discount_redemption_id, { status: "completed" });
+        log("Discount redemption completed", { redemptionId: metadata.discount_redemption_id });
+      }
+
+      // The completion record is what unlocks the next level
+      if (paid) {
+        await recordCourseCompletion(supabase, workflow.user_id, workflow.course_id);
+        const certificate = await issueCertificateOrQueue(supabase, workflow, log);
+        log("Payment completed - certification process finished", { courseId: workflow.course_id, serial: certificate?.serial });
+
+        await notify(supabase, {
+          type: "payment_received",
+          workflowId: workflow.id,
+          details: { amount: session.amount_total, currency: session.currency },
+          dedupeKey: `payment_received:${event.id}`
+        }, log);
+        await notify(supabase, {
+          type: "certification_completed",
+          workflowId: workflow.id,
+          details: {
+            certificateSerial: certificate?.serial,
+            certificateUrl: certificate ? getCertificateUrl(supabase, certificate) : null
+          },
+          dedupeKey: `certification_completed:${event.id}`
+        }, log);
+      }
+
+      break;
+    }
+
+    case "checkout.session.expired": {
+      const session = event.data.object as Stripe.Checkout.Session;
+      log("Processing checkout.session.expired", { sessionId: session.id });
+
+      const workflow = await findWorkflowBySession(supabase, session.id);
+
+      // Only the workflow's current checkout matters; older sessions are replaced when a new one is opened
+      if (workflow && workflow.subscription_status === "pending_payment") {
+        await applyPaymentChange(supabase, event, workflow, session.id, {
+          subscription_status: "cancelled",
+          current_step: "payment",
+        }, { reason: "Checkout session expired before payment" });
+        log("Workflow cancelled", { workflowId: workflow.id });
+      } else {
+        await recordPaymentEvent(supabase, auditBase(event, workflow, session.id));
+      }
+
+      if (session.metadata?.discount_redemption_id) {
+        await updateRedemption(supabase, session.metadata.discount_redemption_id, { status: "released" });
+        log("Discount redemption released", { redemptionId: session.metadata.discount_redemption_id });
+      }
+
+      break;
+    }
+
+    case "payment_intent.payment_failed": {
+      const intent = event.data.object as Stripe.PaymentIntent;
+      log("Processing payment_intent.payment_failed", { paymentIntentId: intent.id });
+
+      const workflow = intent.metadata?.workflow_id
+        ? await findWorkflowById(supabase, intent.metadata.workflow_id)
+        : await findWorkflowByPaymentIntent(supabase, stripe, intent.id);
+      const reason = intent.last_payment_error?.message ?? null;
+
+      // The learner can retry with another card while checkout is open, so the workflow stays payable
+      if (workflow && workflow.subscription_status !== "paid") {
+        await applyPaymentChange(supabase, event, workflow, intent.id, {
+          subscription_status: "pending_payment",
+          current_step: "payment",
+        }, { amount: intent.amount, currency: intent.currency, reason });
+      } else {
+        await recordPaymentEvent(supabase, {
+          ...auditBase(event, workflow, intent.id),
+          amount: intent.amount,
+          currency: intent.currency,
+          reason,
+        });
+      }
+
+      break;
+    }
+
+    case "charge.refunded": {
+      const charge = event.data.object as Stripe.Charge;
+      log("Processing charge.refunded", { chargeId: charge.id, fullyRefunded: charge.refunded });
+
+      const workflow = await findWorkflowForCharge(supabase, stripe, charge);
+      const details = { amount: charge.amount_refunded, currency: charge.currency };
+
+      // Partial refunds are recorded but leave the certification in place
+      if (workflow && charge.refunded) {
+        await revokePayment(supabase, stripe, event, workflow, charge.id, { ...details, reason: "Payment refunded" }, log);
+        log("Workflow cancelled after refund", { workflowId: workflow.id });
+      } else {
+        await recordPaymentEvent(supabase, {
+          ...auditBase(event, workflow, charge.id),
+          ...details,
+          reason: charge.refunded ? "Payment refunded" : "Payment partially refunded",
+        });
+      }
+
+      break;
+    }
+
+    case "charge.dispute.created": {
+      const dispute = event.data.object as Stripe.Dispute;
+      log("Processing charge.dispute.created", { disputeId: dispute.id, reason: dispute.reason });
+
+      const charge = typeof dispute.charge === "string"
+        ? await stripe.charges.retrieve(dispute.charge)
+        : dispute.charge;
+      const workflow = await findWorkflowForCharge(supabase, stripe, charge);
+      const details = { amount: dispute.amount, currency: dispute.currency, reason: `Payment disputed: ${dispute.reason}` };
+
+      if (workflow) {
+        await revokePayment(supabase, stripe, event, workflow, dispute.id, details, log);
+        log("Workflow cancelled after dispute", { workflowId: workflow.id });
+      } else {
+        await recordPaymentEvent(supabase, { ...auditBase(event, null, dispute.id), ...details });
+      }
+
+      break;
+    }
+
+    case "invoice.payment_succeeded": {
+      const invoice = event.data.object as Stripe.Invoice;
+      log("Processing invoice.payment_succeeded", { invoiceId: invoice.id, billingReason: invoice.billing_reason });
+
+      const workflow = await findWorkflowForInvoice(supabase, invoice);
+      if (!workflow) {
+        log("No subscription workflow for invoice", { invoiceId: invoice.id });
+        break;
+      }
+
+      // Each paid invoice extends the certification to the end of its billing period
+      const periodEnd = invoice.lines.data[0]?.period.end;
+      await applyPaymentChange(supabase, event, workflow, invoice.id, {
+        subscription_status: "paid",
+        current_step: "completed",
+        stripe_subscription_id: objectId(invoice.subscription),
+        ...(periodEnd ? { certification_expires_at: toIso(periodEnd) } : {}),
+      }, {
+        amount: invoice.amount_paid,
+        currency: invoice.currency,
+        reason: invoice.billing_reason === "subscription_cycle" ? "Annual renewal paid" : null,
+      });
+
+      await recordCourseCompletion(supabase, workflow.user_id, workflow.course_id);
+      await issueCertificateOrQueue(supabase, workflow, log);
+      log("Certification renewed", { workflowId: workflow.id, periodEnd });
+
+      // The first invoice of a subscription is already covered by the checkout session emails
+      if (invoice.billing_reason === "subscription_cycle") {
+        await notify(supabase, {
+          type: "payment_received",
+          workflowId: workflow.id,
+          details: { amount: invoice.amount_paid, currency: invoice.currency },
+          dedupeKey: `payment_received:${event.id}`
+        }, log);
+      }
+      break;
+    }
+
+    case "invoice.payment_failed": {
+      const invoice = event.data.object as Stripe.Invoice;
+      log("Processing invoice.payment_failed", { invoiceId: invoice.id, billingReason: invoice.billing_reason });
+
+      const workflow = await findWorkflowForInvoice(supabase, invoice);
+      const details = {
+        amount: invoice.amount_due,
+        currency: invoice.currency,
+        reason: "Renewal payment failed",
+      };
+
+      // Failures of the first invoice are handled by checkout; renewals stay certified until expiry while Stripe retries
+      if (workflow && invoice.billing_reason !== "subscription_create") {
+        await applyPaymentChange(supabase, event, workflow, invoice.id, { subscription_status: "past_due" }, details);
+        log("Renewal marked past due", { workflowId: workflow.id });
+      } else {
+        await recordPaymentEvent(supabase, { ...auditBase(event, workflow, invoice.id), ...details });
+      }
+
+      break;
+    }
+
+    case "customer.subscription.deleted": {
+      const subscription = event.data.object as Stripe.Subscription;
+      log("Processing customer.subscription.deleted", { subscriptionId: subscription.id });
+
+      const workflow = await findWorkflowBySubscription(supabase, subscription.id);
+
+      // Refunds and disputes cancel the subscription themselves and have already revoked the workflow
+      if (workflow && workflow.subscription_status !== "cancelled") {
+        // The learner has to check out again to renew
+        await applyPaymentChange(supabase, event, workflow, subscription.id, {
+          subscription_status: "expired",
+          current_step: "payment",
+          certification_expires_at: toIso(subscription.ended_at ?? subscription.current_period_end),
+        }, { reason: "Subscription lapsed" });
+        log("Certification lapsed", { workflowId: workflow.id });
+      } else {
+        await recordPaymentEvent(supabase, auditBase(event, workflow, subscription.id));
+      }
+
+      break;
+    }
+
+    default:
+      log("Unhandled event type", { eventType: event.type });
+  }
+};
+
+// Processes an event already claimed in the stripe_events ledger and records the outcome
+export const runClaimedStripeEvent = async (
+  supabase: SupabaseClient,
+  stripe: Stripe,
+  event: Stripe.Event,
+  log: StripeEventLogger
+) => {
+  try {
+    await processStripeEvent(supabase, stripe, event, log);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    await markStripeEventFailed(supabase, event.id, message);
+    throw error;
+  }
+
+  await markStripeEventProcessed(supabase, event.id);
+};
@@ -0,0 +1,84 @@
+// stripe_events ledger: one row per Stripe event id, claimed before processing so that
+// redeliveries are skipped and failed events can be retried or replayed exactly once at a time.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import type Stripe from "https://esm.sh/stripe@14.21.0";
+
+export type StripeEventStatus = "processing" | "processed" | "failed";
+
+export interface StripeEventRow {
+  id: string;
+  type: string;
+  status: StripeEventStatus;
+  payload: Stripe.Event;
+  error: string | null;
+  attempts: number;
+  updated_at: string;
+}
+
+// A "processing" row older than this is assumed to belong to a crashed invocation
+const STALE_PROCESSING_MS = 5 * 60 * 1000;
+
+export const getStripeEvent = async (supabase: SupabaseClient, eventId: string) => {
+  const { data, error } = await supabase
+    .from("stripe_events")
+    .select("*")
+    .eq("id", eventId)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load stripe event: ${error.message}`);
+  return data as StripeEventRow | null;
+};
+
+// Moves an existing row back to "processing". The attempts check makes concurrent claims lose.
+export const reclaimStripeEvent = async (supabase: SupabaseClient, row: StripeEventRow) => {
+  const { data, error } = await supabase
+    .from("stripe_events")
+    .update({ status: "processing", error: null, attempts: row.attempts + 1 })
+    .eq("id", row.id)
+    .eq("attempts", row.attempts)
+    .select("id");
+
+  if (error) throw new Error(`Failed to claim stripe event: ${error.message}`);
+  return (data?.length ?? 0) > 0;
+};
+
+// Returns true when the caller owns processing of this event, false for duplicates
+export const claimStripeEvent = async (supabase: SupabaseClient, event: Stripe.Event) => {
+  const { error } = await supabase
+    .from("stripe_events")
+    .insert({
+      id: event.id,
+      type: event.type,
+      payload: event,
+      livemode: event.livemode,
+    });
+
+  if (!error) return true;
+  if (error.code !== "23505") throw new Error(`Failed to record stripe event: ${error.message}`);
+
+  const existing = await getStripeEvent(supabase, event.id);
+  if (!existing || existing.status === "processed") return false;
+
+  const stale = Date.now() - new Date(existing.updated_at).getTime() > STALE_PROCESSING_MS;
+  if (existing.status === "processing" && !stale) return false;
+
+  return reclaimStripeEvent(supabase, existing);
+};
+
+export const markStripeEventProcessed = async (supabase: SupabaseClient, eventId: string) => {
+  const { error } = await supabase
+    .from("stripe_events")
+    .update({ status: "processed", error: null, processed_at: new Date().toISOString() })
+    .eq("id", eventId);
+
+  if (error) throw new Error(`Failed to update stripe event: ${error.message}`);
+};
+
+export const markStripeEventFailed = async (supabase: SupabaseClient, eventId: string, message: string) => {
+  const { error } = await supabase
+    .from("stripe_events")
+    .update({ status: "failed", error: message })
+    .eq("id", eventId);
+
+  if (error) throw new Error(`Failed to update stripe event: ${error.message}`);
+};
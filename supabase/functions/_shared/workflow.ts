@@ -0,0 +1,35 @@
+// Single entry point for moving a certification workflow between steps. The legal moves live in
+// the transition_workflow() database function, which also writes the workflow_transitions history;
+// a trigger rejects any other write to current_step.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+
+export type WorkflowStep = "exam" | "approval" | "contract" | "payment" | "completed";
+
+export interface WorkflowTransition {
+  // Omit to keep the current step and only update the per-step statuses
+  to?: WorkflowStep | null;
+  // Per-step status columns written in the same update; updated_at is set by the database
+  changes?: Record<string, unknown>;
+  // Function or event requesting the move, e.g. "handle-exam-submission" or "stripe:invoice.paid"
+  source: string;
+  actorId?: string | null;
+  reason?: string | null;
+}
+
+export const transitionWorkflow = async (
+  supabase: SupabaseClient,
+  workflowId: string,
+  transition: WorkflowTransition
+) => {
+  const { data, error } = await supabase.rpc("transition_workflow", {
+    _workflow_id: workflowId,
+    _to_step: transition.to ?? null,
+    _changes: transition.changes ?? {},
+    _source: transition.source,
+    _actor_id: transition.actorId ?? null,
+    _reason: transition.reason ?? null,
+  });
+
+  if (error) throw new Error(`Failed to transition workflow: ${error.message}`);
+  return data;
+};
@@ -0,0 +1,87 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import Stripe from "https://esm.sh/stripe@14.21.0";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const logStep = (step: string, details?: unknown) => {
+  const detailsStr = details ? ` - ${JSON.stringify(details)}` : '';
+  console.log(`[CREATE-BILLING-PORTAL-SESSION] ${step}${detailsStr}`);
+};
+
+// Opens the Stripe customer portal so a learner can manage an annual certification subscription
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    logStep("Function started");
+
+    const stripeKey = Deno.env.get("STRIPE_SECRET_KEY");
+    if (!stripeKey) throw new Error("STRIPE_SECRET_KEY is not configured");
+
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_ANON_KEY") ?? ""
+    );
+
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) throw new Error("No authorization header provided");
+
+    const token = authHeader.replace("Bearer ", "");
+    const { data: userData, error: userError } = await supabaseClient.auth.getUser(token);
+    if (userError) throw new Error(`Authentication error: ${userError.message}`);
+
+    const userId = userData.user?.id;
+    if (!userId) throw new Error("User not authenticated");
+
+    const { level } = await req.json();
+    if (!level) throw new Error("Missing required field: level");
+
+    const supabaseService = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+      { auth: { persistSession: false } }
+    );
+
+    const { data: workflow, error: fetchError } = await supabaseService
+      .from("certification_workflows")
+      .select("id, stripe_customer_id, stripe_subscription_id")
+      .eq("user_id", userId)
+      .eq("level", level)
+      .single();
+
+    if (fetchError || !workflow) {
+      throw new Error("Certification workflow not found");
+    }
+
+    if (!workflow.stripe_customer_id || !workflow.stripe_subscription_id) {
+      throw new Error("This certification has no subscription to manage");
+    }
+
+    const stripe = new Stripe(stripeKey, { apiVersion: "2023-10-16" });
+    const session = await stripe.billingPortal.sessions.create({
+      customer: workflow.stripe_customer_id,
+      return_url: `${req.headers.get("origin")}/certification/${level}/payment`,
+    });
+
+    logStep("Billing portal session created", { workflowId: workflow.id });
+
+    return new Response(JSON.stringify({ url: session.url }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 200,
+    });
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logStep("ERROR in create-billing-portal-session", { message: errorMessage });
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 500,
+    });
+  }
+});
@@ -1,6 +1,12 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
 import Stripe from "https://esm.sh/stripe@14.21.0";
+import { getActivePrice, RENEWAL_WINDOW_DAYS } from "../_shared/pricing.ts";
+import { recordCourseCompletion } from "../_shared/course-completions.ts";
+import { getCertificateUrl, issueCertificateOrQueue } from "../_shared/certificates/index.ts";
+import { notify } from "../_shared/notifications/index.ts";
+import { transitionWorkflow } from "../_shared/workflow.ts";
+import { resolveDiscount, reserveRedemption, updateRedemption, type AppliedDiscount } from "../_shared/discounts.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -42,7 +48,8 @@ serve(async (req) => {
 
     logStep("User authenticated", { userId, userEmail });
 
-    const { user_id, level, price_id } = await req.json();
+    // Only identify what is being bought; the price is resolved server-side
+    const { user_id, level, discount_code } = await req.json();
 
     if (userId !== user_id) {
       throw new Error("User can only create checkout sessions for themselves");
@@ -52,7 +59,7 @@ serve(async (req) => {
       throw new Error("Missing required field: level");
     }
 
-    logStep("Request validated", { user_id, level, price_id });
+    logStep("Request validated", { user_id, level });
 
     // Use service role to check workflow status
     const supabaseService = createClient(
@@ -76,7 +83,22 @@ serve(async (req) => {
       throw new Error("Payment not available until contract is signed");
     }
 
-    logStep("Workflow validated", { workflowId: workflow.id });
+    if (workflow.subscription_status === "past_due") {
+      throw new Error("Your renewal payment is being retried. Update your payment method instead.");
+    }
+
+    // A paid workflow can only be checked out again to renew an expiring certification by hand
+    const isRenewal = workflow.subscription_status === "paid";
+    if (isRenewal) {
+      const renewableFrom = workflow.certification_expires_at
+        ? new Date(workflow.certification_expires_at).getTime() - RENEWAL_WINDOW_DAYS * 24 * 60 * 60 * 1000
+        : null;
+      if (workflow.stripe_subscription_id || renewableFrom === null || Date.now() < renewableFrom) {
+        throw new Error("This certification is already paid");
+      }
+    }
+
+    logStep("Workflow validated", { workflowId: workflow.id, isRenewal });
 
     // Initialize Stripe
     const stripe = new Stripe(stripeKey, { apiVersion: "2023-10-16" });
@@ -91,72 +113,162 @@ serve(async (req) => {
       logStep("No existing Stripe customer found");
     }
 
-    // Define default pricing based on level if no price_id provided
-    const levelPricing = {
-      1: { amount: 2999, name: "Level 1 Certification" }, // $29.99
-      2: { amount: 4999, name: "Level 2 Certification" }, // $49.99
-      3: { amount: 7999, name: "Level 3 Certification" }, // $79.99
-      4: { amount: 9999, name: "Level 4 Certification" }, // $99.99
-    };
-
-    const pricing = levelPricing[level as keyof typeof levelPricing];
-    if (!pricing && !price_id) {
+    const price = await getActivePrice(supabaseService, Number(level));
+    if (!price) {
       throw new Error(`No pricing configured for level ${level}`);
     }
 
+    const isSubscription = price.billing_interval === "year";
+    logStep("Active price resolved", { priceId: price.id, amount: price.amount, currency: price.currency, isSubscription });
+
+    let discount: AppliedDiscount | null = null;
+    let redemptionId: string | null = null;
+    if (typeof discount_code === "string" && discount_code.trim()) {
+      const resolution = await resolveDiscount(supabaseService, discount_code, {
+        level: Number(level),
+        email: userEmail,
+        price,
+      });
+      if (!resolution.valid) throw new Error(resolution.reason);
+
+      discount = resolution.discount;
+      redemptionId = await reserveRedemption(supabaseService, discount, workflow.id, user_id);
+      logStep("Discount reserved", { codeId: discount.code.id, redemptionId, finalAmount: discount.final_amount });
+    }
+
+    // Fully sponsored certifications skip Stripe entirely
+    if (discount && redemptionId && discount.final_amount === 0) {
+      const now = new Date();
+      // An early renewal adds its year to the time still left on the certification
+      const currentExpiry = isRenewal && workflow.certification_expires_at
+        ? new Date(workflow.certification_expires_at)
+        : null;
+      const expiresAt = new Date(Math.max(now.getTime(), currentExpiry?.getTime() ?? 0));
+      expiresAt.setFullYear(expiresAt.getFullYear() + 1);
+
+      // Sponsored annual certifications get a year without a Stripe subscription and must be renewed by hand
+      try {
+        await transitionWorkflow(supabaseService, workflow.id, {
+          to: "completed",
+          changes: {
+            subscription_status: "paid",
+            completed_at: workflow.completed_at ?? now.toISOString(),
+            certification_expires_at: isSubscription ? expiresAt.toISOString() : null
+          },
+          source: "create-stripe-checkout-session",
+          actorId: userId,
+          reason: `Fully discounted with code ${discount.code.code}`
+        });
+      } catch (completeError) {
+        await updateRedemption(supabaseService, redemptionId, { status: "released" });
+        throw completeError;
+      }
+
+      await updateRedemption(supabaseService, redemptionId, { status: "completed" });
+      await recordCourseCompletion(supabaseService, user_id, workflow.course_id);
+      const certificate = await issueCertificateOrQueue(supabaseService, workflow, logStep);
+      logStep("Workflow completed with full discount", { workflowId: workflow.id, serial: certificate?.serial });
+
+      await notify(supabaseService, {
+        type: "certification_completed",
+        workflowId: workflow.id,
+        details: {
+          certificateSerial: certificate?.serial,
+          certificateUrl: certificate ? getCertificateUrl(supabaseService, certificate) : null
+        }
+      }, logStep);
+
+      return new Response(JSON.stringify({ success: true, completed: true }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 200,
+      });
+    }
+
     // Create checkout session
-    const sessionConfig: any = {
+    const sessionConfig: Stripe.Checkout.SessionCreateParams = {
       customer: customerId,
       customer_email: customerId ? undefined : userEmail,
-      line_items: price_id ? [
+      line_items: price.stripe_price_id ? [
         {
-          price: price_id,
+          price: price.stripe_price_id,
           quantity: 1,
         }
       ] : [
         {
           price_data: {
-            currency: "usd",
+            currency: price.currency,
             product_data: { 
-              name: pricing.name,
+              name: `Level ${level} Certification`,
               description: `Relocation Specialist Level ${level} Certification`
             },
-            unit_amount: pricing.amount,
+            unit_amount: price.amount,
+            ...(isSubscription ? { recurring: { interval: "year" as const } } : {}),
           },
           quantity: 1,
         }
       ],
-      mode: "payment",
+      mode: isSubscription ? "subscription" : "payment",
       success_url: `${req.headers.get("origin")}/certification-success?level=${level}`,
-      cancel_url: `${req.headers.get("origin")}/certification-payment?level=${level}`,
+      cancel_url: `${req.headers.get("origin")}/certification/${level}/payment`,
       client_reference_id: `${user_id}-${level}`, // For webhook identification
       metadata: {
         user_id,
         level: level.toString(),
-        workflow_id: workflow.id
-      }
+        workflow_id: workflow.id,
+        certification_price_id: price.id,
+        ...(redemptionId ? { discount_redemption_id: redemptionId } : {})
+      },
+      // Lets the webhook match payment failures and renewal invoices back to the workflow
+      ...(isSubscription ? {
+        subscription_data: {
+          metadata: { user_id, level: level.toString(), workflow_id: workflow.id }
+        }
+      } : {
+        payment_intent_data: {
+          metadata: { user_id, workflow_id: workflow.id }
+        }
+      })
     };
 
-    const session = await stripe.checkout.sessions.create(sessionConfig);
-    logStep("Stripe session created", { sessionId: session.id });
+    let session: Stripe.Checkout.Session;
+    try {
+      if (discount) {
+        // Single-use coupon so the Stripe total always matches the reserved redemption
+        const coupon = await stripe.coupons.create({
+          name: discount.code.code,
+          duration: "once",
+          max_redemptions: 1,
+          ...(discount.code.discount_type === "percent"
+            ? { percent_off: discount.code.percent_off! }
+            : { amount_off: discount.discount_amount, currency: discount.currency }),
+        });
+        sessionConfig.discounts = [{ coupon: coupon.id }];
+      }
 
-    // Update workflow
-    const { error: updateError } = await supabaseService
-      .from("certification_workflows")
-      .update({
-        subscription_status: "pending_payment",
-        stripe_checkout_session_id: session.id,
-        current_step: "payment",
-        updated_at: new Date().toISOString()
-      })
-      .eq("user_id", user_id)
-      .eq("level", level);
+      session = await stripe.checkout.sessions.create(sessionConfig);
+    } catch (stripeError) {
+      if (redemptionId) {
+        await updateRedemption(supabaseService, redemptionId, { status: "released" });
+      }
+      throw stripeError;
+    }
+    logStep("Stripe session created", { sessionId: session.id });
 
-    if (updateError) {
-      logStep("ERROR updating workflow", { error: updateError });
-      throw new Error(`Failed to update workflow: ${updateError.message}`);
+    if (redemptionId) {
+      await updateRedemption(supabaseService, redemptionId, { stripe_checkout_session_id: session.id });
     }
 
+    // Update workflow; a renewing learner stays certified until the new payment completes
+    await transitionWorkflow(supabaseService, workflow.id, {
+      to: isRenewal ? null : "payment",
+      changes: {
+        ...(isRenewal ? {} : { subscription_status: "pending_payment" }),
+        stripe_checkout_session_id: session.id
+      },
+      source: "create-stripe-checkout-session",
+      actorId: userId
+    });
+
     logStep("Workflow updated successfully");
 
     return new Response(JSON.stringify({ 
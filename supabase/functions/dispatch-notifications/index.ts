@@ -0,0 +1,95 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { sendClaimedNotification, type NotificationRow } from "../_shared/notifications/index.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-dispatch-secret",
+};
+
+const logStep = (step: string, details?: unknown) => {
+  const detailsStr = details ? ` - ${JSON.stringify(details)}` : '';
+  console.log(`[DISPATCH-NOTIFICATIONS] ${step}${detailsStr}`);
+};
+
+const BATCH_SIZE = 25;
+
+// Retries queued notifications whose next attempt is due. Meant to be called on a schedule
+// with the NOTIFICATIONS_DISPATCH_SECRET in the x-dispatch-secret header; admins may also
+// trigger it directly.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    logStep("Function started");
+
+    const supabaseService = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+      { auth: { persistSession: false } }
+    );
+
+    const dispatchSecret = Deno.env.get("NOTIFICATIONS_DISPATCH_SECRET");
+    const providedSecret = req.headers.get("x-dispatch-secret");
+
+    if (!dispatchSecret || providedSecret !== dispatchSecret) {
+      const supabaseClient = createClient(
+        Deno.env.get("SUPABASE_URL") ?? "",
+        Deno.env.get("SUPABASE_ANON_KEY") ?? ""
+      );
+
+      const authHeader = req.headers.get("Authorization");
+      if (!authHeader) throw new Error("No authorization header provided");
+
+      const token = authHeader.replace("Bearer ", "");
+      const { data: userData, error: userError } = await supabaseClient.auth.getUser(token);
+      if (userError) throw new Error(`Authentication error: ${userError.message}`);
+
+      const adminUserId = userData.user?.id;
+      if (!adminUserId) throw new Error("User not authenticated");
+
+      const { data: adminRole, error: roleError } = await supabaseService
+        .rpc("has_role", { _user_id: adminUserId, _role: "admin" });
+
+      if (roleError || !adminRole) {
+        logStep("ERROR: User lacks admin privileges", { roleError });
+        throw new Error("Access denied: Admin privileges required");
+      }
+    }
+
+    const { data: rows, error: claimError } = await supabaseService
+      .rpc("claim_notification_emails", { _limit: BATCH_SIZE });
+
+    if (claimError) throw new Error(`Failed to claim notifications: ${claimError.message}`);
+
+    const claimed = (rows ?? []) as NotificationRow[];
+    logStep("Notifications claimed", { count: claimed.length });
+
+    let sent = 0;
+    for (const row of claimed) {
+      if (await sendClaimedNotification(supabaseService, row, logStep)) sent++;
+    }
+
+    logStep("Dispatch finished", { claimed: claimed.length, sent });
+
+    return new Response(JSON.stringify({
+      success: true,
+      claimed: claimed.length,
+      sent,
+      failed: claimed.length - sent
+    }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 200,
+    });
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logStep("ERROR in dispatch-notifications", { message: errorMessage });
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 500,
+    });
+  }
+});
@@ -0,0 +1,99 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const logStep = (step: string, details?: unknown) => {
+  const detailsStr = details ? ` - ${JSON.stringify(details)}` : '';
+  console.log(`[GET-SUBSECTION-QUIZ] ${step}${detailsStr}`);
+};
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    logStep("Function started");
+
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_ANON_KEY") ?? ""
+    );
+
+    // Authenticate user
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) throw new Error("No authorization header provided");
+
+    const token = authHeader.replace("Bearer ", "");
+    const { data: userData, error: userError } = await supabaseClient.auth.getUser(token);
+    if (userError) throw new Error(`Authentication error: ${userError.message}`);
+
+    const userId = userData.user?.id;
+    if (!userId) throw new Error("User not authenticated");
+
+    const { subsection_id } = await req.json();
+    if (!subsection_id) {
+      throw new Error("Missing required field: subsection_id");
+    }
+
+    // Use service role to read the question bank
+    const supabaseService = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+      { auth: { persistSession: false } }
+    );
+
+    const { data: subsection, error: subsectionError } = await supabaseService
+      .from("subsections")
+      .select("id, subsection_type, quiz_pass_percentage")
+      .eq("id", subsection_id)
+      .single();
+
+    if (subsectionError || !subsection) throw new Error("Subsection not found");
+    if (subsection.subsection_type !== "quiz") throw new Error("This subsection is not a quiz");
+
+    // Never send correct answers to the browser
+    const { data: questions, error: questionsError } = await supabaseService
+      .from("quiz_questions")
+      .select("id, question_type, prompt, options, points, order_index")
+      .eq("subsection_id", subsection.id)
+      .order("order_index");
+
+    if (questionsError) throw new Error(`Failed to load quiz questions: ${questionsError.message}`);
+
+    const { data: bestAttempt, error: attemptError } = await supabaseService
+      .from("quiz_attempts")
+      .select("percentage, passed, created_at")
+      .eq("subsection_id", subsection.id)
+      .eq("user_id", userId)
+      .order("percentage", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (attemptError) throw new Error(`Failed to load previous attempts: ${attemptError.message}`);
+
+    logStep("Quiz loaded", { subsectionId: subsection.id, questions: questions?.length ?? 0 });
+
+    return new Response(JSON.stringify({
+      success: true,
+      pass_percentage: subsection.quiz_pass_percentage,
+      questions: questions ?? [],
+      best_attempt: bestAttempt
+    }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 200,
+    });
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logStep("ERROR in get-subsection-quiz", { message: errorMessage });
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 500,
+    });
+  }
+});
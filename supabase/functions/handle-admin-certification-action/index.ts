@@ -1,5 +1,8 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import Stripe from "https://esm.sh/stripe@14.21.0";
+import { restoreCertificate, withdrawCertificate } from "../_shared/certificates/index.ts";
+import { notify } from "../_shared/notifications/index.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -11,6 +14,88 @@ const logStep = (step: string, details?: any) => {
   console.log(`[HANDLE-ADMIN-CERTIFICATION-ACTION] ${step}${detailsStr}`);
 };
 
+type SanctionAction = "suspend" | "revoke" | "reinstate";
+
+const SANCTION_STATUS: Record<SanctionAction, string> = {
+  suspend: "suspended",
+  revoke: "revoked",
+  reinstate: "active",
+};
+
+// Revoking stops future renewals; reinstating a revocation resumes them. Billing problems
+// must not undo the sanction itself, so failures are only logged.
+const updateRenewal = async (subscriptionId: string | null, cancelAtPeriodEnd: boolean) => {
+  const stripeKey = Deno.env.get("STRIPE_SECRET_KEY");
+  if (!subscriptionId || !stripeKey) return;
+
+  try {
+    const stripe = new Stripe(stripeKey, { apiVersion: "2023-10-16" });
+    await stripe.subscriptions.update(subscriptionId, { cancel_at_period_end: cancelAtPeriodEnd });
+    logStep("Subscription renewal updated", { subscriptionId, cancelAtPeriodEnd });
+  } catch (stripeError) {
+    const message = stripeError instanceof Error ? stripeError.message : String(stripeError);
+    logStep("ERROR updating subscription renewal", { subscriptionId, message });
+  }
+};
+
+const applySanction = async (
+  supabase: SupabaseClient,
+  adminUserId: string,
+  userId: string,
+  level: number,
+  action: SanctionAction,
+  reason: string
+) => {
+  const { data: workflow, error: fetchError } = await supabase
+    .from("certification_workflows")
+    .select("id, user_id, course_id, level, current_step, certification_status, stripe_subscription_id")
+    .eq("user_id", userId)
+    .eq("level", level)
+    .single();
+
+  if (fetchError || !workflow) throw new Error("Certification workflow not found");
+
+  const { data: lastChange, error: changeError } = await supabase
+    .from("certification_status_changes")
+    .select("action, previous_status, new_status")
+    .eq("workflow_id", workflow.id)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (changeError) throw new Error(`Failed to load status history: ${changeError.message}`);
+
+  // Withdrawing or restoring the certificate happens after the status change. When it failed,
+  // retrying the same action finds the status already changed and only repeats those steps,
+  // which are safe to run again.
+  const isRetry = lastChange?.action === action && workflow.certification_status === lastChange.new_status;
+  const previousStatus = isRetry ? lastChange.previous_status : workflow.certification_status;
+
+  let updated = workflow;
+  if (!isRetry) {
+    // Which statuses each action applies to is checked by the database against the locked row
+    const { data, error: updateError } = await supabase.rpc("change_certification_status", {
+      _workflow_id: workflow.id,
+      _action: action,
+      _reason: reason,
+      _performed_by: adminUserId
+    });
+
+    if (updateError) throw new Error(`Failed to change certification status: ${updateError.message}`);
+    updated = data;
+  }
+
+  if (action === "revoke") {
+    await withdrawCertificate(supabase, workflow);
+    await updateRenewal(workflow.stripe_subscription_id, true);
+  } else if (action === "reinstate" && previousStatus === "revoked") {
+    await restoreCertificate(supabase, workflow);
+    await updateRenewal(workflow.stripe_subscription_id, false);
+  }
+
+  return updated;
+};
+
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
@@ -54,47 +139,68 @@ serve(async (req) => {
 
     logStep("Admin role verified");
 
-    const { user_id, level, action } = await req.json();
+    const { user_id, level, action, reason, notes } = await req.json();
 
     if (!user_id || !level || !action) {
       throw new Error("Missing required fields: user_id, level, action");
     }
 
-    if (!["approve", "reject"].includes(action)) {
-      throw new Error("Invalid action. Must be 'approve' or 'reject'");
+    if (!["approve", "reject", "suspend", "revoke", "reinstate"].includes(action)) {
+      throw new Error("Invalid action. Must be 'approve', 'reject', 'suspend', 'revoke' or 'reinstate'");
     }
 
     logStep("Processing admin action", { user_id, level, action });
 
-    let updateData: any = {
-      admin_approval_status: action === "approve" ? "approved" : "rejected",
-      updated_at: new Date().toISOString()
-    };
+    if (action in SANCTION_STATUS) {
+      const trimmedReason = typeof reason === "string" ? reason.trim() : "";
+      if (!trimmedReason) throw new Error(`A reason is required to ${action} a certification`);
+
+      const workflow = await applySanction(supabaseService, adminUserId, user_id, level, action as SanctionAction, trimmedReason);
+      logStep("Certification status changed", { workflowId: workflow?.id, action });
+
+      return new Response(JSON.stringify({
+        success: true,
+        message: `Certification ${action === "reinstate" ? "reinstated" : SANCTION_STATUS[action as SanctionAction]} successfully`,
+        workflow
+      }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 200,
+      });
+    }
 
-    if (action === "approve") {
-      updateData.current_step = "contract";
-    } else {
-      updateData.current_step = "exam";
-      updateData.exam_status = "pending_submission";
+    const reviewNotes = typeof notes === "string" && notes.trim() ? notes.trim() : null;
+    if (action === "reject" && !reviewNotes) {
+      throw new Error("Reviewer notes are required to reject a certification");
     }
 
-    const { data: workflow, error: updateError } = await supabaseService
+    const { data: existingWorkflow, error: fetchError } = await supabaseService
       .from("certification_workflows")
-      .update(updateData)
+      .select("id")
       .eq("user_id", user_id)
       .eq("level", level)
-      .select()
       .single();
 
-    if (updateError) {
-      logStep("ERROR updating workflow", { error: updateError });
-      throw new Error(`Failed to update workflow: ${updateError.message}`);
-    }
+    if (fetchError || !existingWorkflow) throw new Error("Certification workflow not found");
+
+    const decision = action === "approve" ? "approved" : "rejected";
+
+    // Moves the workflow and records the review in one transaction
+    const { data: workflow, error: reviewError } = await supabaseService.rpc("review_certification", {
+      _workflow_id: existingWorkflow.id,
+      _decision: decision,
+      _notes: reviewNotes,
+      _reviewer_id: adminUserId
+    });
+
+    if (reviewError) throw new Error(`Failed to record review: ${reviewError.message}`);
 
-    logStep("Workflow updated successfully", { workflowId: workflow?.id });
+    logStep("Review recorded", { workflowId: workflow.id, decision });
 
-    // Optional: Send email notification to student
-    // await notifyStudentCertificationStatus(user_id, level, action);
+    await notify(supabaseService, {
+      type: action === "approve" ? "certification_approved" : "certification_rejected",
+      workflowId: workflow.id,
+      details: { notes: reviewNotes }
+    }, logStep);
 
     return new Response(JSON.stringify({ 
       success: true, 
@@ -1,11 +1,20 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { verifyHmacSignature } from "../_shared/hmac.ts";
+import { findAttemptBySubmissionId, recordExamAttempt } from "../_shared/exam-attempts.ts";
+import { notify } from "../_shared/notifications/index.ts";
+import { transitionWorkflow } from "../_shared/workflow.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-exam-signature",
 };
 
+// Hex HMAC-SHA256 of the raw request body, keyed with EXAM_WEBHOOK_SECRET
+const SIGNATURE_HEADER = "x-exam-signature";
+
+const asNumber = (value: unknown) => (typeof value === "number" && isFinite(value) ? value : null);
+
 const logStep = (step: string, details?: any) => {
   const detailsStr = details ? ` - ${JSON.stringify(details)}` : '';
   console.log(`[HANDLE-EXAM-SUBMISSION] ${step}${detailsStr}`);
@@ -26,47 +35,108 @@ serve(async (req) => {
       { auth: { persistSession: false } }
     );
 
-    const webhookPayload = await req.json();
+    // Verify the payload was signed with the shared secret before trusting it
+    const rawBody = await req.text();
+    const secret = Deno.env.get("EXAM_WEBHOOK_SECRET") ?? "";
+    if (!secret) throw new Error("EXAM_WEBHOOK_SECRET is not configured");
+
+    const validSignature = await verifyHmacSignature(secret, rawBody, req.headers.get(SIGNATURE_HEADER));
+    if (!validSignature) {
+      logStep("Rejected webhook with missing or invalid signature");
+      return new Response(JSON.stringify({ error: "Invalid signature" }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 401,
+      });
+    }
+
+    const webhookPayload = JSON.parse(rawBody);
     logStep("Received webhook payload", { payloadKeys: Object.keys(webhookPayload) });
 
-    // Parse Google Forms data (structure will vary based on form setup)
-    // This is a placeholder - actual implementation depends on Google Forms webhook format
-    const { user_id, level, exam_results, submission_url } = webhookPayload;
+    // External exam providers must send a stable submission_id so retried
+    // deliveries can be recognised and only recorded once
+    const { submission_id, user_id, level, exam_results, answers, submission_url, submitted_at } = webhookPayload;
 
-    if (!user_id || !level) {
-      throw new Error("Missing required fields: user_id and level");
+    if (!submission_id || !user_id || !level) {
+      throw new Error("Missing required fields: submission_id, user_id and level");
     }
 
-    logStep("Extracted form data", { user_id, level, hasResults: !!exam_results });
+    logStep("Extracted form data", { submission_id, user_id, level, hasResults: !!exam_results });
+
+    const duplicateResponse = () => new Response(JSON.stringify({
+      success: true,
+      duplicate: true,
+      message: "Submission already processed"
+    }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 200,
+    });
+
+    // Redeliveries of the same submission are acknowledged without side effects
+    if (await findAttemptBySubmissionId(supabaseClient, String(submission_id))) {
+      logStep("Duplicate submission ignored", { submission_id });
+      return duplicateResponse();
+    }
 
-    // Update certification workflow
-    const { data: workflow, error: updateError } = await supabaseClient
+    const { data: existingWorkflow, error: fetchError } = await supabaseClient
       .from("certification_workflows")
-      .update({
-        exam_status: "submitted",
-        exam_results_json: exam_results || webhookPayload,
-        exam_submission_url: submission_url,
-        current_step: "approval",
-        updated_at: new Date().toISOString()
-      })
+      .select("id, exam_started_at")
       .eq("user_id", user_id)
       .eq("level", level)
-      .select()
       .single();
 
-    if (updateError) {
-      logStep("ERROR updating workflow", { error: updateError });
-      throw new Error(`Failed to update workflow: ${updateError.message}`);
+    if (fetchError || !existingWorkflow) {
+      throw new Error("Certification workflow not found");
+    }
+
+    const results = exam_results || webhookPayload;
+    const submittedAtIso = submitted_at ? new Date(submitted_at).toISOString() : new Date().toISOString();
+
+    const { attempt, duplicate } = await recordExamAttempt(supabaseClient, {
+      workflow_id: existingWorkflow.id,
+      user_id,
+      level: Number(level),
+      source: "external",
+      submission_id: String(submission_id),
+      score: asNumber(exam_results?.score),
+      max_score: asNumber(exam_results?.max_score),
+      percentage: asNumber(exam_results?.percentage),
+      answers: answers ?? {},
+      results_json: results,
+      started_at: existingWorkflow.exam_started_at,
+      submitted_at: submittedAtIso
+    });
+
+    if (duplicate) {
+      logStep("Duplicate submission ignored", { submission_id });
+      return duplicateResponse();
     }
 
+    logStep("Exam attempt recorded", { attemptId: attempt?.id, attemptNumber: attempt?.attempt_number });
+
+    // Mirror the latest attempt on the workflow
+    const workflow = await transitionWorkflow(supabaseClient, existingWorkflow.id, {
+      to: "approval",
+      changes: {
+        exam_status: "submitted",
+        exam_results_json: results,
+        exam_submission_url: submission_url,
+        exam_submitted_at: submittedAtIso
+      },
+      source: "handle-exam-submission"
+    });
+
     logStep("Workflow updated successfully", { workflowId: workflow?.id });
 
-    // Optional: Send notification to admin (implement as needed)
-    // await notifyAdminExamSubmission(user_id, level);
+    await notify(supabaseClient, {
+      type: "exam_submitted",
+      workflowId: existingWorkflow.id,
+      dedupeKey: `exam_submitted:${attempt?.id}`
+    }, logStep);
 
     return new Response(JSON.stringify({ 
       success: true, 
-      message: "Exam submission processed successfully" 
+      message: "Exam submission processed successfully",
+      attempt_number: attempt?.attempt_number
     }), {
       headers: { ...corsHeaders, "Content-Type": "application/json" },
       status: 200,
@@ -1,9 +1,13 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { getESignProvider, SIGNED_CONTRACTS_BUCKET } from "../_shared/esign/index.ts";
+import { recordContractEvent } from "../_shared/esign/events.ts";
+import { notify } from "../_shared/notifications/index.ts";
+import { transitionWorkflow } from "../_shared/workflow.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-signnow-signature, x-esign-signature",
 };
 
 const logStep = (step: string, details?: any) => {
@@ -26,64 +30,57 @@ serve(async (req) => {
       { auth: { persistSession: false } }
     );
 
-    const webhookPayload = await req.json();
+    const provider = getESignProvider();
+
+    // Reject anything not signed with the provider's webhook secret
+    const rawBody = await req.text();
+    const validSignature = await provider.verifyWebhookSignature(rawBody, req.headers);
+    if (!validSignature) {
+      logStep("Rejected webhook with missing or invalid signature", { provider: provider.name });
+      return new Response(JSON.stringify({ error: "Invalid signature" }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 401,
+      });
+    }
+
+    const webhookPayload = JSON.parse(rawBody);
     logStep("Received SignNow webhook", { payloadKeys: Object.keys(webhookPayload) });
 
-    // TODO: Validate SignNow webhook signature for security
-    // const signature = req.headers.get("X-SignNow-Signature");
-    // if (!validateSignNowSignature(webhookPayload, signature)) {
-    //   throw new Error("Invalid webhook signature");
-    // }
-
-    // Parse SignNow webhook data (structure depends on SignNow webhook format)
-    const { 
-      document_id, 
-      status, 
-      user_id, 
-      level, 
-      document_url,
-      event_type 
-    } = webhookPayload;
-
-    if (!document_id || !status) {
+    const event = provider.parseWebhookEvent(webhookPayload);
+
+    if (!event) {
       throw new Error("Missing required webhook fields");
     }
 
-    logStep("Parsed webhook data", { document_id, status, event_type });
-
-    // Map SignNow status to our contract status
-    let contractStatus: string;
-    let currentStep: string;
-
-    switch (status.toLowerCase()) {
-      case "signed":
-      case "completed":
-        contractStatus = "signed";
-        currentStep = "payment";
-        break;
-      case "declined":
-      case "rejected":
-        contractStatus = "rejected";
-        currentStep = "contract";
-        break;
-      default:
-        contractStatus = "pending_signing";
-        currentStep = "contract";
-    }
+    logStep("Parsed webhook data", { provider: provider.name, ...event });
+
+    // Map provider status to our contract status
+    const contractStatus = event.status;
+    const currentStep = contractStatus === "signed" ? "payment" : "contract";
 
     logStep("Mapped status", { contractStatus, currentStep });
 
-    // Find and update the certification workflow
-    // Note: You may need to store document_id in the workflow record or use metadata to match
+    // Workflows are matched on the document id stored when the contract was created
     const { data: workflow, error: fetchError } = await supabaseClient
       .from("certification_workflows")
       .select("*")
-      .eq("user_id", user_id)
-      .eq("level", level)
-      .single();
+      .eq("contract_provider", provider.name)
+      .eq("contract_document_id", event.documentId)
+      .maybeSingle();
+
+    // Every verified event is logged, even when no workflow matches
+    await recordContractEvent(supabaseClient, {
+      workflow_id: workflow?.id ?? null,
+      user_id: workflow?.user_id ?? null,
+      provider: provider.name,
+      document_id: event.documentId,
+      action: event.action,
+      event_type: event.eventType,
+      payload: webhookPayload
+    });
 
     if (fetchError || !workflow) {
-      logStep("ERROR: Workflow not found", { user_id, level, error: fetchError });
+      logStep("ERROR: Workflow not found", { documentId: event.documentId, error: fetchError });
       // Still return 200 to acknowledge webhook
       return new Response(JSON.stringify({ 
         acknowledged: true, 
@@ -94,28 +91,67 @@ serve(async (req) => {
       });
     }
 
-    let updateData: any = {
-      contract_status: contractStatus,
-      current_step: currentStep,
-      updated_at: new Date().toISOString()
-    };
+    if (workflow.contract_status === "signed") {
+      logStep("Contract already signed, ignoring event", { workflowId: workflow.id });
+      return new Response(JSON.stringify({ 
+        acknowledged: true, 
+        message: "Contract already signed" 
+      }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 200,
+      });
+    }
 
-    if (document_url) {
-      updateData.contract_doc_url = document_url;
+    // Informational events (sent, viewed, ...) are only logged
+    if (event.action !== "signed" && event.action !== "declined") {
+      return new Response(JSON.stringify({ 
+        acknowledged: true, 
+        message: "Contract event recorded" 
+      }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 200,
+      });
     }
 
-    const { error: updateError } = await supabaseClient
-      .from("certification_workflows")
-      .update(updateData)
-      .eq("id", workflow.id);
+    const changes: Record<string, unknown> = { contract_status: contractStatus };
 
-    if (updateError) {
-      logStep("ERROR updating workflow", { error: updateError });
-      throw new Error(`Failed to update workflow: ${updateError.message}`);
+    // Keep our own copy of the signed agreement; provider download links expire.
+    // A storage failure must not block the workflow, so it is only logged.
+    if (contractStatus === "signed") {
+      try {
+        const pdf = await provider.downloadSignedDocument(event.documentId);
+        const path = `${workflow.user_id}/level-${workflow.level}-${event.documentId}.pdf`;
+
+        const { error: uploadError } = await supabaseClient.storage
+          .from(SIGNED_CONTRACTS_BUCKET)
+          .upload(path, pdf, { contentType: "application/pdf", upsert: true });
+
+        if (uploadError) throw uploadError;
+
+        changes.contract_signed_pdf_url = path;
+        logStep("Signed contract stored", { path });
+      } catch (storeError) {
+        const message = storeError instanceof Error ? storeError.message : String(storeError);
+        logStep("ERROR storing signed contract", { message });
+      }
     }
 
+    await transitionWorkflow(supabaseClient, workflow.id, {
+      to: currentStep,
+      changes,
+      source: `esign:${event.eventType}`
+    });
+
     logStep("Workflow updated successfully", { workflowId: workflow.id });
 
+    if (contractStatus === "signed") {
+      await notify(supabaseClient, {
+        type: "contract_signed",
+        workflowId: workflow.id,
+        dedupeKey: `contract_signed:${event.documentId}`
+      }, logStep);
+    }
+
     return new Response(JSON.stringify({ 
       acknowledged: true, 
       message: "SignNow webhook processed successfully" 
@@ -0,0 +1,134 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { buildSignedCredential, getBadgeStatus, isCredentialStale, type BadgeWorkflow } from "../_shared/open-badges/index.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const logStep = (step: string, details?: unknown) => {
+  const detailsStr = details ? ` - ${JSON.stringify(details)}` : '';
+  console.log(`[ISSUE-OPEN-BADGE] ${step}${detailsStr}`);
+};
+
+// Returns the learner's signed Open Badges 3.0 credential for a completed level, issuing it on
+// first request and again after a renewal changes the certification's expiry
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    logStep("Function started");
+
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_ANON_KEY") ?? ""
+    );
+
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) throw new Error("No authorization header provided");
+
+    const token = authHeader.replace("Bearer ", "");
+    const { data: userData, error: userError } = await supabaseClient.auth.getUser(token);
+    if (userError) throw new Error(`Authentication error: ${userError.message}`);
+
+    const user = userData.user;
+    if (!user?.id || !user.email) throw new Error("User not authenticated");
+
+    const { level } = await req.json();
+    if (!level) throw new Error("Missing required field: level");
+
+    const supabaseService = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+      { auth: { persistSession: false } }
+    );
+
+    const { data: workflow, error: fetchError } = await supabaseService
+      .from("certification_workflows")
+      .select("id, user_id, course_id, level, subscription_status, current_step, certification_status, completed_at, certification_expires_at")
+      .eq("user_id", user.id)
+      .eq("level", level)
+      .single();
+
+    if (fetchError || !workflow) {
+      throw new Error("Certification workflow not found");
+    }
+
+    if (getBadgeStatus(workflow as BadgeWorkflow) !== "valid") {
+      throw new Error("This certification is not active, so no badge can be issued");
+    }
+
+    const { data: existing, error: existingError } = await supabaseService
+      .from("open_badge_credentials")
+      .select("id, credential")
+      .eq("workflow_id", workflow.id)
+      .is("superseded_at", null)
+      .maybeSingle();
+
+    if (existingError) throw new Error(`Failed to load badge credential: ${existingError.message}`);
+
+    if (existing && !isCredentialStale(existing.credential, workflow as BadgeWorkflow)) {
+      logStep("Returning existing credential", { credentialId: existing.id });
+      return new Response(JSON.stringify({ credential: existing.credential }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 200,
+      });
+    }
+
+    if (existing) {
+      const { error: supersedeError } = await supabaseService
+        .from("open_badge_credentials")
+        .update({ superseded_at: new Date().toISOString() })
+        .eq("id", existing.id);
+
+      if (supersedeError) throw new Error(`Failed to supersede badge credential: ${supersedeError.message}`);
+      logStep("Superseded credential from the previous term", { credentialId: existing.id });
+    }
+
+    const [{ data: profile }, { data: course }] = await Promise.all([
+      supabaseService.from("profiles").select("first_name, last_name").eq("user_id", user.id).maybeSingle(),
+      supabaseService.from("courses").select("title, description").eq("id", workflow.course_id).maybeSingle(),
+    ]);
+
+    if (!profile || !course) throw new Error("Failed to load learner profile or course");
+
+    const credentialId = crypto.randomUUID();
+    const credential = await buildSignedCredential({
+      credentialId,
+      workflow: workflow as BadgeWorkflow,
+      course,
+      recipientName: `${profile.first_name} ${profile.last_name}`.trim(),
+      email: user.email,
+    });
+
+    const { error: insertError } = await supabaseService
+      .from("open_badge_credentials")
+      .insert({
+        id: credentialId,
+        workflow_id: workflow.id,
+        user_id: user.id,
+        level: workflow.level,
+        credential,
+      });
+
+    if (insertError) throw new Error(`Failed to record badge credential: ${insertError.message}`);
+
+    logStep("Credential issued", { credentialId, workflowId: workflow.id });
+
+    return new Response(JSON.stringify({ credential }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 200,
+    });
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logStep("ERROR in issue-open-badge", { message: errorMessage });
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 500,
+    });
+  }
+});
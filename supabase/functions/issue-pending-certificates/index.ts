@@ -0,0 +1,122 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { issueCertificateOrQueue, type CertificateWorkflow } from "../_shared/certificates/index.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-dispatch-secret",
+};
+
+const logStep = (step: string, details?: unknown) => {
+  const detailsStr = details ? ` - ${JSON.stringify(details)}` : '';
+  console.log(`[ISSUE-PENDING-CERTIFICATES] ${step}${detailsStr}`);
+};
+
+const BATCH_SIZE = 10;
+
+// Retries left after this stay in certificate_retries with their last error for an admin to look at
+const MAX_ATTEMPTS = 10;
+
+interface CertificateRetryRow {
+  workflow_id: string;
+  attempts: number;
+  certification_workflows: (CertificateWorkflow & { current_step: string }) | null;
+}
+
+// Retries certificates that failed to issue when their workflow completed. Meant to be called
+// on a schedule with the CERTIFICATES_DISPATCH_SECRET in the x-dispatch-secret header; admins
+// may also trigger it directly.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    logStep("Function started");
+
+    const supabaseService = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+      { auth: { persistSession: false } }
+    );
+
+    const dispatchSecret = Deno.env.get("CERTIFICATES_DISPATCH_SECRET");
+    const providedSecret = req.headers.get("x-dispatch-secret");
+
+    if (!dispatchSecret || providedSecret !== dispatchSecret) {
+      const supabaseClient = createClient(
+        Deno.env.get("SUPABASE_URL") ?? "",
+        Deno.env.get("SUPABASE_ANON_KEY") ?? ""
+      );
+
+      const authHeader = req.headers.get("Authorization");
+      if (!authHeader) throw new Error("No authorization header provided");
+
+      const token = authHeader.replace("Bearer ", "");
+      const { data: userData, error: userError } = await supabaseClient.auth.getUser(token);
+      if (userError) throw new Error(`Authentication error: ${userError.message}`);
+
+      const adminUserId = userData.user?.id;
+      if (!adminUserId) throw new Error("User not authenticated");
+
+      const { data: adminRole, error: roleError } = await supabaseService
+        .rpc("has_role", { _user_id: adminUserId, _role: "admin" });
+
+      if (roleError || !adminRole) {
+        logStep("ERROR: User lacks admin privileges", { roleError });
+        throw new Error("Access denied: Admin privileges required");
+      }
+    }
+
+    const { data: rows, error: loadError } = await supabaseService
+      .from("certificate_retries")
+      .select("workflow_id, attempts, certification_workflows(id, user_id, course_id, level, current_step)")
+      .lte("next_attempt_at", new Date().toISOString())
+      .lt("attempts", MAX_ATTEMPTS)
+      .order("next_attempt_at", { ascending: true })
+      .limit(BATCH_SIZE);
+
+    if (loadError) throw new Error(`Failed to load certificate retries: ${loadError.message}`);
+
+    const due = (rows ?? []) as unknown as CertificateRetryRow[];
+    logStep("Certificate retries due", { count: due.length });
+
+    let issued = 0;
+    for (const row of due) {
+      const workflow = row.certification_workflows;
+
+      // Refunded or disputed since the failure: there is nothing to issue any more
+      if (!workflow || workflow.current_step !== "completed") {
+        await supabaseService.from("certificate_retries").delete().eq("workflow_id", row.workflow_id);
+        logStep("Certificate retry dropped", { workflowId: row.workflow_id, currentStep: workflow?.current_step });
+        continue;
+      }
+
+      const certificate = await issueCertificateOrQueue(supabaseService, workflow, logStep);
+      if (certificate) {
+        issued++;
+        logStep("Certificate issued", { workflowId: workflow.id, serial: certificate.serial });
+      }
+    }
+
+    logStep("Retries finished", { due: due.length, issued });
+
+    return new Response(JSON.stringify({
+      success: true,
+      due: due.length,
+      issued,
+      failed: due.length - issued
+    }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 200,
+    });
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logStep("ERROR in issue-pending-certificates", { message: errorMessage });
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 500,
+    });
+  }
+});
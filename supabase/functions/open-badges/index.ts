@@ -0,0 +1,122 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import {
+  OB_CONTEXT,
+  buildAchievement,
+  buildIssuerProfile,
+  getBadgeStatus,
+  getCredentialRecord,
+  getIssuerId,
+  getPublicKeyMultibase,
+  getVerificationMethod,
+  verifyDocument,
+  type BadgeWorkflow,
+} from "../_shared/open-badges/index.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const logStep = (step: string, details?: unknown) => {
+  const detailsStr = details ? ` - ${JSON.stringify(details)}` : '';
+  console.log(`[OPEN-BADGES] ${step}${detailsStr}`);
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/ld+json" },
+    status,
+  });
+
+// Public, unauthenticated Open Badges endpoints:
+//   GET  /issuer               issuer profile with the proof verification key
+//   GET  /achievements/level-N hosted achievement (badge class) for a course level
+//   POST /verify               validates a credential's proof and reports its current status
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const path = new URL(req.url).pathname.replace(/^.*\/open-badges/, "") || "/";
+    logStep("Request received", { method: req.method, path });
+
+    const supabaseService = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+      { auth: { persistSession: false } }
+    );
+
+    if (req.method === "GET" && path === "/issuer") {
+      return json({
+        "@context": [...OB_CONTEXT, "https://w3id.org/security/multikey/v1"],
+        ...buildIssuerProfile(),
+        verificationMethod: [{
+          id: getVerificationMethod(),
+          type: "Multikey",
+          controller: getIssuerId(),
+          publicKeyMultibase: getPublicKeyMultibase(),
+        }],
+        assertionMethod: [getVerificationMethod()],
+      });
+    }
+
+    const achievementMatch = path.match(/^\/achievements\/level-(\d+)$/);
+    if (req.method === "GET" && achievementMatch) {
+      const level = parseInt(achievementMatch[1]);
+      const { data: course } = await supabaseService
+        .from("courses")
+        .select("title, description")
+        .eq("level", level)
+        .maybeSingle();
+
+      if (!course) return json({ error: "Achievement not found" }, 404);
+      return json({ "@context": OB_CONTEXT, ...buildAchievement(level, course) });
+    }
+
+    if (req.method === "POST" && path === "/verify") {
+      const body = await req.json();
+      const credential = (body?.credential ?? body) as Record<string, unknown>;
+      const credentialId = typeof credential?.id === "string" ? credential.id.replace(/^urn:uuid:/, "") : null;
+
+      const signatureValid = await verifyDocument(credential, getVerificationMethod());
+      const record = signatureValid && credentialId ? await getCredentialRecord(supabaseService, credentialId) : null;
+
+      if (!signatureValid || !record) {
+        logStep("Credential rejected", { credentialId, signatureValid });
+        return json({
+          valid: false,
+          status: signatureValid ? "unknown" : "invalid_signature",
+          checks: { signature: signatureValid, issued_by_us: !!record },
+        });
+      }
+
+      const { data: workflow, error: workflowError } = await supabaseService
+        .from("certification_workflows")
+        .select("id, user_id, level, subscription_status, current_step, certification_status, completed_at, certification_expires_at")
+        .eq("id", record.workflow_id)
+        .single();
+
+      if (workflowError || !workflow) throw new Error("Certification workflow not found");
+
+      // A superseded credential still carries the old term's validUntil; the renewed one replaces it
+      const status = record.superseded_at ? "superseded" : getBadgeStatus(workflow as BadgeWorkflow);
+      logStep("Credential verified", { credentialId, status });
+
+      return json({
+        valid: status === "valid",
+        status,
+        level: record.level,
+        checks: { signature: true, issued_by_us: true },
+      });
+    }
+
+    return json({ error: "Not found" }, 404);
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logStep("ERROR in open-badges", { message: errorMessage });
+    return json({ error: errorMessage }, 500);
+  }
+});
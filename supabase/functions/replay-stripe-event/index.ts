@@ -0,0 +1,102 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import Stripe from "https://esm.sh/stripe@14.21.0";
+import { getStripeEvent, reclaimStripeEvent } from "../_shared/stripe/ledger.ts";
+import { runClaimedStripeEvent } from "../_shared/stripe/events.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const logStep = (step: string, details?: unknown) => {
+  const detailsStr = details ? ` - ${JSON.stringify(details)}` : '';
+  console.log(`[REPLAY-STRIPE-EVENT] ${step}${detailsStr}`);
+};
+
+// Re-runs a failed Stripe event from the ledger against the current workflow state
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    logStep("Function started");
+
+    const stripeKey = Deno.env.get("STRIPE_SECRET_KEY");
+    if (!stripeKey) throw new Error("STRIPE_SECRET_KEY is not configured");
+
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_ANON_KEY") ?? ""
+    );
+
+    // Authenticate admin user
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) throw new Error("No authorization header provided");
+
+    const token = authHeader.replace("Bearer ", "");
+    const { data: userData, error: userError } = await supabaseClient.auth.getUser(token);
+    if (userError) throw new Error(`Authentication error: ${userError.message}`);
+
+    const adminUserId = userData.user?.id;
+    if (!adminUserId) throw new Error("User not authenticated");
+
+    const supabaseService = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+      { auth: { persistSession: false } }
+    );
+
+    const { data: adminRole, error: roleError } = await supabaseService
+      .rpc("has_role", { _user_id: adminUserId, _role: "admin" });
+
+    if (roleError || !adminRole) {
+      logStep("ERROR: User lacks admin privileges", { roleError });
+      throw new Error("Access denied: Admin privileges required");
+    }
+
+    const { event_id } = await req.json();
+    if (!event_id) throw new Error("Missing required field: event_id");
+
+    const row = await getStripeEvent(supabaseService, event_id);
+    if (!row) throw new Error("Stripe event not found");
+    if (row.status !== "failed") {
+      throw new Error(`Only failed events can be replayed (event is ${row.status})`);
+    }
+
+    if (!(await reclaimStripeEvent(supabaseService, row))) {
+      throw new Error("Event is already being processed");
+    }
+
+    logStep("Replaying event", { eventId: row.id, type: row.type, adminUserId, attempt: row.attempts + 1 });
+
+    const stripe = new Stripe(stripeKey, { apiVersion: "2023-10-16" });
+
+    try {
+      await runClaimedStripeEvent(supabaseService, stripe, row.payload, logStep);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logStep("Replay failed", { eventId: row.id, message });
+      return new Response(JSON.stringify({ success: false, status: "failed", error: message }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 200,
+      });
+    }
+
+    logStep("Replay succeeded", { eventId: row.id });
+
+    return new Response(JSON.stringify({ success: true, status: "processed" }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 200,
+    });
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logStep("ERROR in replay-stripe-event", { message: errorMessage });
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 500,
+    });
+  }
+});
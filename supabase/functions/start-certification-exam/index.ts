@@ -0,0 +1,245 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { scoreAnswers, type ScorableQuestion } from "../_shared/exam-scoring.ts";
+import { recordExamAttempt } from "../_shared/exam-attempts.ts";
+import { transitionWorkflow } from "../_shared/workflow.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const logStep = (step: string, details?: unknown) => {
+  const detailsStr = details ? ` - ${JSON.stringify(details)}` : '';
+  console.log(`[START-CERTIFICATION-EXAM] ${step}${detailsStr}`);
+};
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    logStep("Function started");
+
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_ANON_KEY") ?? ""
+    );
+
+    // Authenticate user
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) throw new Error("No authorization header provided");
+
+    const token = authHeader.replace("Bearer ", "");
+    const { data: userData, error: userError } = await supabaseClient.auth.getUser(token);
+    if (userError) throw new Error(`Authentication error: ${userError.message}`);
+
+    const userId = userData.user?.id;
+    if (!userId) throw new Error("User not authenticated");
+
+    logStep("User authenticated", { userId });
+
+    const { level } = await req.json();
+    if (!level) {
+      throw new Error("Missing required field: level");
+    }
+
+    // Use service role to read the question bank and manage the workflow
+    const supabaseService = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+      { auth: { persistSession: false } }
+    );
+
+    const { data: course, error: courseError } = await supabaseService
+      .from("courses")
+      .select("id, level, exam_duration_minutes, exam_pass_percentage")
+      .eq("level", level)
+      .single();
+
+    if (courseError || !course) {
+      throw new Error(`No course found for level ${level}`);
+    }
+
+    // Every subsection of the course must be completed before the exam
+    const { data: sections, error: sectionsError } = await supabaseService
+      .from("sections")
+      .select("subsections (id)")
+      .eq("course_id", course.id);
+
+    if (sectionsError) throw new Error(`Failed to load course content: ${sectionsError.message}`);
+
+    const subsectionIds = (sections ?? []).flatMap((s) => s.subsections.map((sub: { id: string }) => sub.id));
+
+    const { data: progress, error: progressError } = await supabaseService
+      .from("user_progress")
+      .select("subsection_id")
+      .eq("user_id", userId)
+      .not("completed_at", "is", null)
+      .in("subsection_id", subsectionIds);
+
+    if (progressError) throw new Error(`Failed to load progress: ${progressError.message}`);
+
+    const completedIds = new Set((progress ?? []).map((p) => p.subsection_id));
+    if (subsectionIds.length === 0 || !subsectionIds.every((id) => completedIds.has(id))) {
+      throw new Error("All course sections must be completed before taking the exam");
+    }
+
+    logStep("Course completion verified", { courseId: course.id });
+
+    // Find or create the certification workflow
+    let { data: workflow } = await supabaseService
+      .from("certification_workflows")
+      .select("*")
+      .eq("user_id", userId)
+      .eq("level", level)
+      .maybeSingle();
+
+    if (!workflow) {
+      const { data: newWorkflow, error: createError } = await supabaseService
+        .from("certification_workflows")
+        .insert({ user_id: userId, course_id: course.id, level })
+        .select()
+        .single();
+
+      if (createError) throw new Error(`Failed to create workflow: ${createError.message}`);
+      workflow = newWorkflow;
+      logStep("Workflow created", { workflowId: workflow.id });
+    }
+
+    if (!["pending_submission", "failed"].includes(workflow.exam_status)) {
+      throw new Error("The exam is not available at the current certification step");
+    }
+
+    const durationMinutes: number | null = course.exam_duration_minutes || null;
+    const now = Date.now();
+    const startedAt = workflow.exam_started_at ? new Date(workflow.exam_started_at).getTime() : null;
+    const submittedAt = workflow.exam_submitted_at ? new Date(workflow.exam_submitted_at).getTime() : null;
+    const attemptOpen = startedAt !== null && (submittedAt === null || submittedAt < startedAt);
+    const attemptEndsAt = startedAt !== null && durationMinutes !== null ? startedAt + durationMinutes * 60_000 : null;
+    const attemptExpired = attemptOpen && attemptEndsAt !== null && now > attemptEndsAt;
+
+    let examStartedAt = workflow.exam_started_at;
+
+    // An attempt left to run out was never submitted, so nothing recorded it yet. Record it as
+    // a blank, failed attempt first so it counts toward the attempt limit and starts the cooldown.
+    if (attemptExpired) {
+      const { data: scorableQuestions, error: scorableError } = await supabaseService
+        .from("exam_questions")
+        .select("id, question_type, options, correct_answers, points")
+        .eq("course_id", course.id)
+        .order("order_index");
+
+      if (scorableError) throw new Error(`Failed to load exam questions: ${scorableError.message}`);
+
+      const result = scoreAnswers((scorableQuestions ?? []) as ScorableQuestion[], {}, course.exam_pass_percentage);
+      const expiredAtIso = new Date(attemptEndsAt!).toISOString();
+      const { questions: questionResults, ...summary } = result;
+      const examResults = {
+        source: "native",
+        ...summary,
+        time_expired: true,
+        started_at: workflow.exam_started_at,
+        submitted_at: expiredAtIso
+      };
+
+      // Same key as submit-certification-exam, so a late submission and this are recorded once
+      const { duplicate } = await recordExamAttempt(supabaseService, {
+        workflow_id: workflow.id,
+        user_id: userId,
+        level: workflow.level,
+        source: "native",
+        submission_id: `native:${workflow.id}:${workflow.exam_started_at}`,
+        score: result.score,
+        max_score: result.max_score,
+        percentage: result.percentage,
+        passed: false,
+        answers: {},
+        results_json: examResults,
+        question_results: questionResults,
+        started_at: workflow.exam_started_at,
+        submitted_at: expiredAtIso
+      });
+
+      if (!duplicate) {
+        await transitionWorkflow(supabaseService, workflow.id, {
+          to: "exam",
+          changes: {
+            exam_status: "failed",
+            exam_results_json: examResults,
+            exam_submitted_at: expiredAtIso
+          },
+          source: "start-certification-exam",
+          actorId: userId,
+          reason: "Exam time ran out without a submission"
+        });
+      }
+
+      logStep("Expired attempt recorded as failed", { workflowId: workflow.id, duplicate });
+    }
+
+    // Resume an open attempt rather than resetting the timer
+    if (!attemptOpen || attemptExpired) {
+      // Attempt limits, cooldown, exam window and quiz prerequisite from the course's exam policy
+      const { data: eligibility, error: eligibilityError } = await supabaseService
+        .rpc("get_exam_eligibility", { _user_id: userId, _course_id: course.id })
+        .single();
+
+      if (eligibilityError) throw new Error(`Failed to check exam eligibility: ${eligibilityError.message}`);
+      if (!eligibility.eligible) {
+        logStep("Exam attempt refused", { workflowId: workflow.id, reason: eligibility.reason });
+        throw new Error(eligibility.reason);
+      }
+
+      examStartedAt = new Date(now).toISOString();
+
+      await transitionWorkflow(supabaseService, workflow.id, {
+        to: "exam",
+        changes: { exam_started_at: examStartedAt },
+        source: "start-certification-exam",
+        actorId: userId
+      });
+
+      logStep("Exam attempt started", { workflowId: workflow.id, examStartedAt });
+    } else {
+      logStep("Resuming open exam attempt", { workflowId: workflow.id, examStartedAt });
+    }
+
+    // Never send correct answers to the browser
+    const { data: questions, error: questionsError } = await supabaseService
+      .from("exam_questions")
+      .select("id, question_type, prompt, options, points, order_index")
+      .eq("course_id", course.id)
+      .order("order_index");
+
+    if (questionsError) throw new Error(`Failed to load exam questions: ${questionsError.message}`);
+    if (!questions || questions.length === 0) {
+      throw new Error("The exam for this level has no questions yet");
+    }
+
+    const expiresAt = durationMinutes
+      ? new Date(new Date(examStartedAt).getTime() + durationMinutes * 60_000).toISOString()
+      : null;
+
+    return new Response(JSON.stringify({
+      success: true,
+      started_at: examStartedAt,
+      expires_at: expiresAt,
+      duration_minutes: durationMinutes,
+      pass_percentage: course.exam_pass_percentage,
+      questions
+    }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 200,
+    });
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logStep("ERROR in start-certification-exam", { message: errorMessage });
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 500,
+    });
+  }
+});
@@ -0,0 +1,179 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { scoreAnswers, type ScorableQuestion } from "../_shared/exam-scoring.ts";
+import { recordExamAttempt } from "../_shared/exam-attempts.ts";
+import { notify } from "../_shared/notifications/index.ts";
+import { transitionWorkflow } from "../_shared/workflow.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Allowance for network latency when the timer runs out client-side
+const SUBMISSION_GRACE_MS = 60_000;
+
+const logStep = (step: string, details?: unknown) => {
+  const detailsStr = details ? ` - ${JSON.stringify(details)}` : '';
+  console.log(`[SUBMIT-CERTIFICATION-EXAM] ${step}${detailsStr}`);
+};
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    logStep("Function started");
+
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_ANON_KEY") ?? ""
+    );
+
+    // Authenticate user
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) throw new Error("No authorization header provided");
+
+    const token = authHeader.replace("Bearer ", "");
+    const { data: userData, error: userError } = await supabaseClient.auth.getUser(token);
+    if (userError) throw new Error(`Authentication error: ${userError.message}`);
+
+    const userId = userData.user?.id;
+    if (!userId) throw new Error("User not authenticated");
+
+    logStep("User authenticated", { userId });
+
+    const { level, answers } = await req.json();
+    if (!level || typeof answers !== "object" || answers === null) {
+      throw new Error("Missing required fields: level and answers");
+    }
+
+    const supabaseService = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+      { auth: { persistSession: false } }
+    );
+
+    const { data: workflow, error: fetchError } = await supabaseService
+      .from("certification_workflows")
+      .select("*, courses (id, exam_duration_minutes, exam_pass_percentage)")
+      .eq("user_id", userId)
+      .eq("level", level)
+      .single();
+
+    if (fetchError || !workflow) {
+      throw new Error("Certification workflow not found");
+    }
+
+    const startedAt = workflow.exam_started_at ? new Date(workflow.exam_started_at).getTime() : null;
+    const submittedAt = workflow.exam_submitted_at ? new Date(workflow.exam_submitted_at).getTime() : null;
+    if (startedAt === null || (submittedAt !== null && submittedAt >= startedAt)) {
+      throw new Error("No exam attempt in progress");
+    }
+
+    const course = workflow.courses;
+    const now = Date.now();
+    const durationMinutes: number | null = course.exam_duration_minutes || null;
+    const timeExpired = durationMinutes !== null &&
+      now > startedAt + durationMinutes * 60_000 + SUBMISSION_GRACE_MS;
+
+    const { data: questions, error: questionsError } = await supabaseService
+      .from("exam_questions")
+      .select("id, question_type, options, correct_answers, points")
+      .eq("course_id", course.id)
+      .order("order_index");
+
+    if (questionsError) throw new Error(`Failed to load exam questions: ${questionsError.message}`);
+
+    const result = scoreAnswers(
+      (questions ?? []) as ScorableQuestion[],
+      timeExpired ? {} : answers,
+      course.exam_pass_percentage
+    );
+
+    logStep("Exam scored", {
+      workflowId: workflow.id,
+      score: result.score,
+      maxScore: result.max_score,
+      passed: result.passed,
+      timeExpired
+    });
+
+    const submittedAtIso = new Date(now).toISOString();
+    const { questions: questionResults, ...summary } = result;
+    const examResults = {
+      source: "native",
+      ...summary,
+      time_expired: timeExpired,
+      started_at: workflow.exam_started_at,
+      submitted_at: submittedAtIso
+    };
+
+    // Keyed on the attempt start time so a double submit is only recorded once
+    const { attempt, duplicate } = await recordExamAttempt(supabaseService, {
+      workflow_id: workflow.id,
+      user_id: userId,
+      level: workflow.level,
+      source: "native",
+      submission_id: `native:${workflow.id}:${workflow.exam_started_at}`,
+      score: result.score,
+      max_score: result.max_score,
+      percentage: result.percentage,
+      passed: result.passed,
+      answers: timeExpired ? {} : answers,
+      results_json: examResults,
+      question_results: questionResults,
+      started_at: workflow.exam_started_at,
+      submitted_at: submittedAtIso
+    });
+
+    if (duplicate) throw new Error("This exam attempt has already been submitted");
+
+    logStep("Exam attempt recorded", { attemptId: attempt?.id, attemptNumber: attempt?.attempt_number });
+
+    const updatedWorkflow = await transitionWorkflow(supabaseService, workflow.id, {
+      to: result.passed ? "approval" : "exam",
+      changes: {
+        exam_status: result.passed ? "passed" : "failed",
+        exam_results_json: examResults,
+        exam_submitted_at: submittedAtIso
+      },
+      source: "submit-certification-exam",
+      actorId: userId
+    });
+
+    logStep("Workflow updated successfully", { workflowId: updatedWorkflow?.id });
+
+    // Only passing attempts reach the admin approval step
+    if (result.passed) {
+      await notify(supabaseService, {
+        type: "exam_submitted",
+        workflowId: workflow.id,
+        dedupeKey: `exam_submitted:${attempt?.id}`
+      }, logStep);
+    }
+
+    return new Response(JSON.stringify({
+      success: true,
+      passed: result.passed,
+      score: result.score,
+      max_score: result.max_score,
+      percentage: result.percentage,
+      pass_percentage: result.pass_percentage,
+      time_expired: timeExpired,
+      attempt_number: attempt?.attempt_number
+    }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 200,
+    });
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logStep("ERROR in submit-certification-exam", { message: errorMessage });
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 500,
+    });
+  }
+});
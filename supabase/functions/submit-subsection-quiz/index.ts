@@ -0,0 +1,174 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { scoreAnswers, type ScorableQuestion } from "../_shared/exam-scoring.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const logStep = (step: string, details?: unknown) => {
+  const detailsStr = details ? ` - ${JSON.stringify(details)}` : '';
+  console.log(`[SUBMIT-SUBSECTION-QUIZ] ${step}${detailsStr}`);
+};
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    logStep("Function started");
+
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_ANON_KEY") ?? ""
+    );
+
+    // Authenticate user
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) throw new Error("No authorization header provided");
+
+    const token = authHeader.replace("Bearer ", "");
+    const { data: userData, error: userError } = await supabaseClient.auth.getUser(token);
+    if (userError) throw new Error(`Authentication error: ${userError.message}`);
+
+    const userId = userData.user?.id;
+    if (!userId) throw new Error("User not authenticated");
+
+    logStep("User authenticated", { userId });
+
+    const { subsection_id, answers } = await req.json();
+    if (!subsection_id || typeof answers !== "object" || answers === null) {
+      throw new Error("Missing required fields: subsection_id and answers");
+    }
+
+    const supabaseService = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+      { auth: { persistSession: false } }
+    );
+
+    const { data: subsection, error: subsectionError } = await supabaseService
+      .from("subsections")
+      .select("id, subsection_type, quiz_pass_percentage, sections (course_id)")
+      .eq("id", subsection_id)
+      .single();
+
+    if (subsectionError || !subsection) throw new Error("Subsection not found");
+    if (subsection.subsection_type !== "quiz") throw new Error("This subsection is not a quiz");
+
+    const { data: questions, error: questionsError } = await supabaseService
+      .from("quiz_questions")
+      .select("id, question_type, options, correct_answers, points")
+      .eq("subsection_id", subsection.id)
+      .order("order_index");
+
+    if (questionsError) throw new Error(`Failed to load quiz questions: ${questionsError.message}`);
+    if (!questions || questions.length === 0) throw new Error("This quiz has no questions yet");
+
+    const result = scoreAnswers(
+      questions as ScorableQuestion[],
+      answers,
+      subsection.quiz_pass_percentage
+    );
+
+    logStep("Quiz scored", {
+      subsectionId: subsection.id,
+      score: result.score,
+      maxScore: result.max_score,
+      passed: result.passed
+    });
+
+    const { error: attemptError } = await supabaseService
+      .from("quiz_attempts")
+      .insert({
+        user_id: userId,
+        subsection_id: subsection.id,
+        score: result.score,
+        max_score: result.max_score,
+        percentage: result.percentage,
+        passed: result.passed,
+        pass_percentage: result.pass_percentage,
+        answers
+      });
+
+    if (attemptError) throw new Error(`Failed to record quiz attempt: ${attemptError.message}`);
+
+    // A passing attempt completes the subsection once its other completion rules (video
+    // watched, time on page) are met too; failing never undoes an earlier pass
+    let completed = false;
+    let blockers: string[] = [];
+
+    if (result.passed) {
+      const { data: remaining, error: blockersError } = await supabaseService
+        .rpc("get_subsection_completion_blockers", { _user_id: userId, _subsection_id: subsection.id });
+
+      if (blockersError) throw new Error(`Failed to check completion rules: ${blockersError.message}`);
+      blockers = remaining ?? [];
+    }
+
+    if (result.passed && blockers.length === 0) {
+      const completedAt = new Date().toISOString();
+      const { data: existingProgress, error: progressError } = await supabaseService
+        .from("user_progress")
+        .select("id, completed_at")
+        .eq("user_id", userId)
+        .eq("subsection_id", subsection.id)
+        .order("created_at")
+        .limit(1)
+        .maybeSingle();
+
+      if (progressError) throw new Error(`Failed to load progress: ${progressError.message}`);
+
+      if (!existingProgress) {
+        const { error: insertError } = await supabaseService
+          .from("user_progress")
+          .insert({
+            user_id: userId,
+            course_id: subsection.sections.course_id,
+            subsection_id: subsection.id,
+            completed_at: completedAt,
+            progress_percentage: 100
+          });
+
+        if (insertError) throw new Error(`Failed to record progress: ${insertError.message}`);
+      } else if (!existingProgress.completed_at) {
+        const { error: updateError } = await supabaseService
+          .from("user_progress")
+          .update({ completed_at: completedAt, progress_percentage: 100 })
+          .eq("id", existingProgress.id);
+
+        if (updateError) throw new Error(`Failed to record progress: ${updateError.message}`);
+      }
+
+      completed = true;
+      logStep("Subsection completed", { subsectionId: subsection.id });
+    } else if (result.passed) {
+      logStep("Quiz passed, completion rules pending", { subsectionId: subsection.id, blockers });
+    }
+
+    return new Response(JSON.stringify({
+      success: true,
+      passed: result.passed,
+      completed,
+      blockers,
+      score: result.score,
+      max_score: result.max_score,
+      percentage: result.percentage,
+      pass_percentage: result.pass_percentage,
+      questions: result.questions.map((q) => ({ question_id: q.question_id, correct: q.correct }))
+    }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 200,
+    });
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logStep("ERROR in submit-subsection-quiz", { message: errorMessage });
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 500,
+    });
+  }
+});
@@ -1,5 +1,9 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { getESignProvider } from "../_shared/esign/index.ts";
+import { recordContractEvent } from "../_shared/esign/events.ts";
+import { notify } from "../_shared/notifications/index.ts";
+import { transitionWorkflow } from "../_shared/workflow.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -19,8 +23,7 @@ serve(async (req) => {
   try {
     logStep("Function started");
 
-    const signNowApiKey = Deno.env.get("SIGNNOW_API_KEY");
-    if (!signNowApiKey) throw new Error("SIGNNOW_API_KEY is not configured");
+    const provider = getESignProvider();
 
     const supabaseClient = createClient(
       Deno.env.get("SUPABASE_URL") ?? "",
@@ -36,7 +39,8 @@ serve(async (req) => {
     if (userError) throw new Error(`Authentication error: ${userError.message}`);
     
     const userId = userData.user?.id;
-    if (!userId) throw new Error("User not authenticated");
+    const userEmail = userData.user?.email;
+    if (!userId || !userEmail) throw new Error("User not authenticated or email not available");
 
     logStep("User authenticated", { userId });
 
@@ -75,42 +79,79 @@ serve(async (req) => {
       throw new Error("Contract signing not available until admin approval is complete");
     }
 
+    if (workflow.contract_status === "signed") {
+      throw new Error("Contract has already been signed");
+    }
+
     logStep("Workflow validated", { workflowId: workflow.id });
 
-    // TODO: Integrate with SignNow API
-    // Mock implementation for now - returns a placeholder signing URL
-    logStep("Using mock SignNow implementation");
-    
-    const signNowData = {
-      document_id: `mock_doc_${Date.now()}`,
-      signing_url: `https://app.signnow.com/sign/${Date.now()}?mock=true`
-    };
-    
-    const signingUrl = signNowData.signing_url;
+    // Each level has its own agreement template
+    const { data: course, error: courseError } = await supabaseService
+      .from("courses")
+      .select("contract_template_id")
+      .eq("id", workflow.course_id)
+      .single();
 
-    logStep("Mock SignNow contract created", { documentId: signNowData.document_id });
+    if (courseError || !course) {
+      throw new Error("Course not found for workflow");
+    }
 
-    // Update workflow
-    const { error: updateError } = await supabaseService
-      .from("certification_workflows")
-      .update({
-        contract_status: "pending_signing",
-        current_step: "contract",
-        updated_at: new Date().toISOString()
-      })
+    if (!course.contract_template_id && provider.name !== "mock") {
+      throw new Error(`No contract template configured for level ${level}`);
+    }
+
+    const { data: profile } = await supabaseService
+      .from("profiles")
+      .select("first_name, last_name")
       .eq("user_id", user_id)
-      .eq("level", level);
+      .maybeSingle();
 
-    if (updateError) {
-      logStep("ERROR updating workflow", { error: updateError });
-      throw new Error(`Failed to update workflow: ${updateError.message}`);
-    }
+    const signerName = [profile?.first_name, profile?.last_name].filter(Boolean).join(" ");
+
+    const document = await provider.createSigningDocument({
+      templateId: course.contract_template_id ?? "",
+      documentName: `Level ${level} Relocation Specialist Agreement - ${signerName || userEmail}`,
+      signer: { email: userEmail, name: signerName },
+      redirectUrl: `${req.headers.get("origin")}/certification/${level}/contract`
+    });
+
+    logStep("Signing document created", { provider: provider.name, documentId: document.documentId });
+
+    // Store the document id so the webhook can find this workflow
+    await transitionWorkflow(supabaseService, workflow.id, {
+      to: "contract",
+      changes: {
+        contract_status: "pending_signing",
+        contract_provider: provider.name,
+        contract_document_id: document.documentId,
+        contract_signed_pdf_url: null
+      },
+      source: "trigger-signnow-contract",
+      actorId: userId
+    });
 
     logStep("Workflow updated successfully");
 
+    await recordContractEvent(supabaseService, {
+      workflow_id: workflow.id,
+      user_id,
+      provider: provider.name,
+      document_id: document.documentId,
+      action: "sent",
+      event_type: "contract.sent"
+    });
+
+    await notify(supabaseService, {
+      type: "contract_ready",
+      workflowId: workflow.id,
+      details: { signingUrl: document.signingUrl },
+      dedupeKey: `contract_ready:${document.documentId}`
+    }, logStep);
+
     return new Response(JSON.stringify({ 
       success: true, 
-      signing_url: signingUrl,
+      signing_url: document.signingUrl,
+      document_id: document.documentId,
       message: "Contract signing link generated successfully" 
     }), {
       headers: { ...corsHeaders, "Content-Type": "application/json" },
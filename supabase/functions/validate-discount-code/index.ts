@@ -0,0 +1,94 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { getActivePrice } from "../_shared/pricing.ts";
+import { resolveDiscount } from "../_shared/discounts.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const logStep = (step: string, details?: unknown) => {
+  const detailsStr = details ? ` - ${JSON.stringify(details)}` : '';
+  console.log(`[VALIDATE-DISCOUNT-CODE] ${step}${detailsStr}`);
+};
+
+// Previews a discount code against the learner's active price without reserving it
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    logStep("Function started");
+
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_ANON_KEY") ?? ""
+    );
+
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) throw new Error("No authorization header provided");
+
+    const token = authHeader.replace("Bearer ", "");
+    const { data: userData, error: userError } = await supabaseClient.auth.getUser(token);
+    if (userError) throw new Error(`Authentication error: ${userError.message}`);
+
+    const userEmail = userData.user?.email;
+    if (!userEmail) throw new Error("User not authenticated or email not available");
+
+    const { level, code } = await req.json();
+    if (!level || typeof code !== "string") {
+      throw new Error("Missing required fields: level, code");
+    }
+
+    const supabaseService = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+      { auth: { persistSession: false } }
+    );
+
+    const price = await getActivePrice(supabaseService, Number(level));
+    if (!price) {
+      throw new Error(`No pricing configured for level ${level}`);
+    }
+
+    const resolution = await resolveDiscount(supabaseService, code, {
+      level: Number(level),
+      email: userEmail,
+      price,
+    });
+
+    if (!resolution.valid) {
+      logStep("Discount code rejected", { level, reason: resolution.reason });
+      return new Response(JSON.stringify({ valid: false, reason: resolution.reason }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 200,
+      });
+    }
+
+    const { discount } = resolution;
+    logStep("Discount code accepted", { codeId: discount.code.id, discount: discount.discount_amount });
+
+    return new Response(JSON.stringify({
+      valid: true,
+      code: discount.code.code,
+      description: discount.code.description,
+      currency: discount.currency,
+      original_amount: discount.original_amount,
+      discount_amount: discount.discount_amount,
+      final_amount: discount.final_amount,
+    }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 200,
+    });
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logStep("ERROR in validate-discount-code", { message: errorMessage });
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 500,
+    });
+  }
+});
@@ -0,0 +1,50 @@
+-- Native certification exam engine: question banks per course, scored server-side
+CREATE TYPE public.app_question_type AS ENUM (
+  'single_choice',
+  'multiple_choice',
+  'true_false',
+  'short_answer'
+);
+
+CREATE TABLE public.exam_questions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  course_id UUID NOT NULL REFERENCES public.courses(id) ON DELETE CASCADE,
+  question_type public.app_question_type NOT NULL DEFAULT 'single_choice',
+  prompt TEXT NOT NULL,
+  options JSONB NOT NULL DEFAULT '[]'::jsonb,
+  correct_answers JSONB NOT NULL DEFAULT '[]'::jsonb,
+  points INTEGER NOT NULL DEFAULT 1 CHECK (points > 0),
+  order_index INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.exam_questions.options IS 'Answer choices as a JSON array of strings (unused for short_answer)';
+COMMENT ON COLUMN public.exam_questions.correct_answers IS 'Indexes into options for choice questions, or accepted answer strings for short_answer';
+
+-- Enable Row Level Security
+ALTER TABLE public.exam_questions ENABLE ROW LEVEL SECURITY;
+
+-- Only admins read the question bank directly; learners receive questions
+-- without answers through the start-certification-exam function
+CREATE POLICY "Admins can manage exam questions"
+ON public.exam_questions
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE INDEX IF NOT EXISTS idx_exam_questions_course_order ON public.exam_questions(course_id, order_index);
+
+CREATE TRIGGER update_exam_questions_updated_at
+BEFORE UPDATE ON public.exam_questions
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Pass mark used when scoring an attempt
+ALTER TABLE public.courses
+ADD COLUMN exam_pass_percentage INTEGER NOT NULL DEFAULT 70 CHECK (exam_pass_percentage BETWEEN 0 AND 100);
+
+-- Track the timed attempt on the workflow
+ALTER TABLE public.certification_workflows
+ADD COLUMN exam_started_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN exam_submitted_at TIMESTAMP WITH TIME ZONE;
@@ -0,0 +1,44 @@
+-- Keep every exam attempt instead of overwriting the workflow's latest result
+CREATE TABLE public.exam_attempts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  workflow_id UUID NOT NULL REFERENCES public.certification_workflows(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  level INTEGER NOT NULL,
+  attempt_number INTEGER NOT NULL,
+  source TEXT NOT NULL DEFAULT 'native' CHECK (source IN ('native', 'external')),
+  submission_id TEXT,
+  score NUMERIC,
+  max_score NUMERIC,
+  percentage NUMERIC,
+  passed BOOLEAN,
+  answers JSONB NOT NULL DEFAULT '{}'::jsonb,
+  results_json JSONB,
+  started_at TIMESTAMP WITH TIME ZONE,
+  submitted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (workflow_id, attempt_number)
+);
+
+COMMENT ON COLUMN public.exam_attempts.submission_id IS 'External submission id used to make webhook deliveries idempotent';
+
+-- A submission id can only ever be recorded once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_exam_attempts_submission_id
+ON public.exam_attempts(submission_id)
+WHERE submission_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_exam_attempts_workflow ON public.exam_attempts(workflow_id, attempt_number);
+CREATE INDEX IF NOT EXISTS idx_exam_attempts_user ON public.exam_attempts(user_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.exam_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Attempts are written by edge functions using the service role
+CREATE POLICY "Users can view their own exam attempts"
+ON public.exam_attempts
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all exam attempts"
+ON public.exam_attempts
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
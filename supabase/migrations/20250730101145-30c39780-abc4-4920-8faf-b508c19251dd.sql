@@ -0,0 +1,32 @@
+-- E-signature provider integration: per-level templates and document tracking
+
+-- Provider template each level's agreement is created from
+ALTER TABLE public.courses
+ADD COLUMN contract_template_id TEXT;
+
+-- Track the provider document so webhooks can be matched without trusting the payload
+ALTER TABLE public.certification_workflows
+ADD COLUMN contract_provider TEXT,
+ADD COLUMN contract_document_id TEXT,
+ADD COLUMN contract_signed_pdf_url TEXT;
+
+COMMENT ON COLUMN public.certification_workflows.contract_signed_pdf_url IS 'Object path of the signed agreement in the signed-contracts bucket';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_certification_workflows_contract_document
+ON public.certification_workflows(contract_provider, contract_document_id)
+WHERE contract_document_id IS NOT NULL;
+
+-- Private bucket for signed agreements, one folder per user
+INSERT INTO storage.buckets (id, name, public) VALUES ('signed-contracts', 'signed-contracts', false);
+
+CREATE POLICY "Users can view their own signed contracts" ON storage.objects
+FOR SELECT USING (
+  bucket_id = 'signed-contracts'
+  AND auth.uid()::text = (storage.foldername(name))[1]
+);
+
+CREATE POLICY "Admins can view all signed contracts" ON storage.objects
+FOR SELECT USING (
+  bucket_id = 'signed-contracts'
+  AND has_role(auth.uid(), 'admin'::app_role)
+);
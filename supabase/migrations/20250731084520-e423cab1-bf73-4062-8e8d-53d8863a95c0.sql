@@ -0,0 +1,27 @@
+-- Log of every e-signature event (sent, viewed, signed, declined, ...)
+CREATE TABLE public.contract_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  workflow_id UUID REFERENCES public.certification_workflows(id) ON DELETE SET NULL,
+  user_id UUID,
+  provider TEXT NOT NULL,
+  document_id TEXT NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('sent', 'viewed', 'signed', 'declined', 'updated')),
+  event_type TEXT NOT NULL,
+  payload JSONB,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.contract_events.event_type IS 'Raw provider event name, e.g. document.complete';
+COMMENT ON COLUMN public.contract_events.workflow_id IS 'NULL when a webhook references a document we do not know about';
+
+CREATE INDEX IF NOT EXISTS idx_contract_events_user ON public.contract_events(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_contract_events_document ON public.contract_events(provider, document_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.contract_events ENABLE ROW LEVEL SECURITY;
+
+-- Events are written by edge functions using the service role
+CREATE POLICY "Admins can view contract events"
+ON public.contract_events
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
@@ -0,0 +1,45 @@
+-- Per-level certification pricing, read server-side by the checkout function
+CREATE TABLE public.certification_prices (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  level INTEGER NOT NULL,
+  currency TEXT NOT NULL DEFAULT 'usd' CHECK (currency ~ '^[a-z]{3}$'),
+  amount INTEGER NOT NULL CHECK (amount >= 0),
+  stripe_price_id TEXT,
+  active_from TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  active_until TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (active_until IS NULL OR active_until > active_from)
+);
+
+COMMENT ON COLUMN public.certification_prices.amount IS 'Price in the smallest currency unit (e.g. cents)';
+COMMENT ON COLUMN public.certification_prices.stripe_price_id IS 'Optional Stripe Price; when set it is charged instead of amount/currency';
+
+-- Enable Row Level Security
+ALTER TABLE public.certification_prices ENABLE ROW LEVEL SECURITY;
+
+-- Prices are shown to learners before checkout
+CREATE POLICY "Anyone can view certification prices"
+ON public.certification_prices
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can manage certification prices"
+ON public.certification_prices
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE INDEX IF NOT EXISTS idx_certification_prices_level ON public.certification_prices(level, active_from DESC);
+
+CREATE TRIGGER update_certification_prices_updated_at
+BEFORE UPDATE ON public.certification_prices
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Seed with the prices previously hard-coded in create-stripe-checkout-session
+INSERT INTO public.certification_prices (level, currency, amount) VALUES
+  (1, 'usd', 2999),
+  (2, 'usd', 4999),
+  (3, 'usd', 7999),
+  (4, 'usd', 9999);
@@ -0,0 +1,124 @@
+-- Admin-managed discount and sponsorship codes for certification checkout
+CREATE TABLE public.discount_codes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  code TEXT NOT NULL,
+  description TEXT,
+  discount_type TEXT NOT NULL CHECK (discount_type IN ('percent', 'amount')),
+  percent_off INTEGER CHECK (percent_off BETWEEN 1 AND 100),
+  amount_off INTEGER CHECK (amount_off > 0),
+  currency TEXT CHECK (currency ~ '^[a-z]{3}$'),
+  max_redemptions INTEGER CHECK (max_redemptions > 0),
+  expires_at TIMESTAMP WITH TIME ZONE,
+  allowed_levels INTEGER[],
+  allowed_email_domains TEXT[],
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (
+    (discount_type = 'percent' AND percent_off IS NOT NULL AND amount_off IS NULL) OR
+    (discount_type = 'amount' AND amount_off IS NOT NULL AND currency IS NOT NULL AND percent_off IS NULL)
+  )
+);
+
+COMMENT ON COLUMN public.discount_codes.amount_off IS 'Fixed discount in the smallest currency unit of currency';
+COMMENT ON COLUMN public.discount_codes.allowed_levels IS 'NULL means the code is valid for every level';
+COMMENT ON COLUMN public.discount_codes.allowed_email_domains IS 'Lower-case email domains (e.g. brokerage.com); NULL means any learner';
+
+-- Codes are matched case-insensitively
+CREATE UNIQUE INDEX IF NOT EXISTS idx_discount_codes_code ON public.discount_codes(upper(code));
+
+-- One row per use of a code; pending rows hold a redemption while Stripe checkout is open
+CREATE TABLE public.discount_redemptions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  discount_code_id UUID NOT NULL REFERENCES public.discount_codes(id) ON DELETE CASCADE,
+  workflow_id UUID NOT NULL REFERENCES public.certification_workflows(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'completed', 'released')),
+  amount_discounted INTEGER NOT NULL,
+  currency TEXT NOT NULL,
+  stripe_checkout_session_id TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_discount_redemptions_code ON public.discount_redemptions(discount_code_id, status);
+CREATE INDEX IF NOT EXISTS idx_discount_redemptions_session ON public.discount_redemptions(stripe_checkout_session_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.discount_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.discount_redemptions ENABLE ROW LEVEL SECURITY;
+
+-- Learners never read codes directly; they are validated by edge functions
+CREATE POLICY "Admins can manage discount codes"
+ON public.discount_codes
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Admins can view discount redemptions"
+ON public.discount_redemptions
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_discount_codes_updated_at
+BEFORE UPDATE ON public.discount_codes
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_discount_redemptions_updated_at
+BEFORE UPDATE ON public.discount_redemptions
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Reserve a redemption, enforcing max_redemptions under concurrent checkouts.
+-- Any earlier pending reservation for the same workflow is released first.
+CREATE OR REPLACE FUNCTION public.reserve_discount_redemption(
+  _discount_code_id UUID,
+  _workflow_id UUID,
+  _user_id UUID,
+  _amount_discounted INTEGER,
+  _currency TEXT
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _max_redemptions INTEGER;
+  _used INTEGER;
+  _redemption_id UUID;
+BEGIN
+  SELECT max_redemptions INTO _max_redemptions
+  FROM public.discount_codes
+  WHERE id = _discount_code_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Discount code not found';
+  END IF;
+
+  UPDATE public.discount_redemptions
+  SET status = 'released'
+  WHERE workflow_id = _workflow_id AND status = 'pending';
+
+  IF _max_redemptions IS NOT NULL THEN
+    SELECT count(*) INTO _used
+    FROM public.discount_redemptions
+    WHERE discount_code_id = _discount_code_id AND status IN ('pending', 'completed');
+
+    IF _used >= _max_redemptions THEN
+      RAISE EXCEPTION 'Discount code has reached its redemption limit';
+    END IF;
+  END IF;
+
+  INSERT INTO public.discount_redemptions (discount_code_id, workflow_id, user_id, amount_discounted, currency)
+  VALUES (_discount_code_id, _workflow_id, _user_id, _amount_discounted, _currency)
+  RETURNING id INTO _redemption_id;
+
+  RETURN _redemption_id;
+END;
+$$;
+
+-- Only edge functions (service role) may reserve redemptions
+REVOKE EXECUTE ON FUNCTION public.reserve_discount_redemption(UUID, UUID, UUID, INTEGER, TEXT) FROM PUBLIC, anon, authenticated;
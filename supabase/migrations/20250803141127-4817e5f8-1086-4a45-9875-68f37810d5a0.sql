@@ -0,0 +1,39 @@
+-- Charges, refunds and disputes reference the payment intent rather than the checkout session
+ALTER TABLE public.certification_workflows
+ADD COLUMN stripe_payment_intent_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_certification_workflows_payment_intent
+ON public.certification_workflows(stripe_payment_intent_id);
+
+-- Audit trail of Stripe payment activity and the workflow changes it caused
+CREATE TABLE public.payment_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  workflow_id UUID REFERENCES public.certification_workflows(id) ON DELETE SET NULL,
+  user_id UUID,
+  stripe_event_id TEXT NOT NULL,
+  event_type TEXT NOT NULL,
+  stripe_object_id TEXT NOT NULL,
+  previous_subscription_status public.app_subscription_status,
+  new_subscription_status public.app_subscription_status,
+  amount INTEGER,
+  currency TEXT,
+  reason TEXT,
+  payload JSONB,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.payment_events.event_type IS 'Stripe event name, e.g. charge.refunded';
+COMMENT ON COLUMN public.payment_events.stripe_object_id IS 'Id of the session, charge, dispute or payment intent the event is about';
+COMMENT ON COLUMN public.payment_events.workflow_id IS 'NULL when the payment cannot be matched to a workflow';
+
+CREATE INDEX IF NOT EXISTS idx_payment_events_user ON public.payment_events(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_payment_events_workflow ON public.payment_events(workflow_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.payment_events ENABLE ROW LEVEL SECURITY;
+
+-- Events are written by the Stripe webhook using the service role
+CREATE POLICY "Admins can view payment events"
+ON public.payment_events
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
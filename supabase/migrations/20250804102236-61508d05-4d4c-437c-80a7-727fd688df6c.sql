@@ -0,0 +1,32 @@
+-- Ledger of every Stripe webhook event, used to skip redeliveries and replay failures
+CREATE TABLE public.stripe_events (
+  id TEXT NOT NULL PRIMARY KEY,
+  type TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'processed', 'failed')),
+  payload JSONB NOT NULL,
+  error TEXT,
+  attempts INTEGER NOT NULL DEFAULT 1,
+  livemode BOOLEAN NOT NULL DEFAULT false,
+  received_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  processed_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.stripe_events.id IS 'Stripe event id (evt_...)';
+COMMENT ON COLUMN public.stripe_events.attempts IS 'Number of times processing was started, including replays';
+
+CREATE INDEX IF NOT EXISTS idx_stripe_events_status ON public.stripe_events(status, received_at);
+
+-- Enable Row Level Security
+ALTER TABLE public.stripe_events ENABLE ROW LEVEL SECURITY;
+
+-- Written by the Stripe webhook and replayed through an edge function, both using the service role
+CREATE POLICY "Admins can view stripe events"
+ON public.stripe_events
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_stripe_events_updated_at
+BEFORE UPDATE ON public.stripe_events
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
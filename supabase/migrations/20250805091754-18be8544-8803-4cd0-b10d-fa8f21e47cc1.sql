@@ -0,0 +1,20 @@
+-- A level can be sold as a one-off fee or as a certification that renews every year
+ALTER TABLE public.certification_prices
+ADD COLUMN billing_interval TEXT NOT NULL DEFAULT 'one_time' CHECK (billing_interval IN ('one_time', 'year'));
+
+COMMENT ON COLUMN public.certification_prices.billing_interval IS 'year checks out as a Stripe subscription; stripe_price_id must then be a recurring yearly Price';
+
+-- past_due: a renewal payment failed and Stripe is retrying; expired: the subscription lapsed
+ALTER TYPE public.app_subscription_status ADD VALUE IF NOT EXISTS 'past_due';
+ALTER TYPE public.app_subscription_status ADD VALUE IF NOT EXISTS 'expired';
+
+ALTER TABLE public.certification_workflows
+ADD COLUMN certification_expires_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN stripe_subscription_id TEXT,
+ADD COLUMN stripe_customer_id TEXT;
+
+COMMENT ON COLUMN public.certification_workflows.certification_expires_at IS 'End of the paid subscription period; NULL for one-off certifications that never expire';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_certification_workflows_subscription
+ON public.certification_workflows(stripe_subscription_id)
+WHERE stripe_subscription_id IS NOT NULL;
@@ -0,0 +1,90 @@
+-- One certificate per certification workflow, issued when the workflow first reaches completed.
+-- The serial outlives refunds and renewals so a printed certificate can always be looked up.
+CREATE TABLE public.certificates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  serial TEXT NOT NULL UNIQUE,
+  workflow_id UUID NOT NULL UNIQUE REFERENCES public.certification_workflows(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  course_id UUID NOT NULL REFERENCES public.courses(id) ON DELETE CASCADE,
+  level INTEGER NOT NULL,
+  recipient_name TEXT NOT NULL,
+  completed_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  storage_path TEXT NOT NULL,
+  issued_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.certificates.serial IS 'Printed on the PDF and used by the public /verify/:serial page';
+COMMENT ON COLUMN public.certificates.storage_path IS 'Object path of the PDF in the certificates bucket';
+
+CREATE INDEX IF NOT EXISTS idx_certificates_user_id ON public.certificates(user_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.certificates ENABLE ROW LEVEL SECURITY;
+
+-- Issued by edge functions using the service role
+CREATE POLICY "Users can view their own certificates"
+ON public.certificates
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can manage all certificates"
+ON public.certificates
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_certificates_updated_at
+BEFORE UPDATE ON public.certificates
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Public bucket: certificates are meant to be shared, and paths contain the unguessable serial
+INSERT INTO storage.buckets (id, name, public) VALUES ('certificates', 'certificates', true);
+
+CREATE POLICY "Anyone can view certificates" ON storage.objects
+FOR SELECT USING (bucket_id = 'certificates');
+
+CREATE POLICY "Admins can manage certificate files" ON storage.objects
+FOR ALL USING (
+  bucket_id = 'certificates'
+  AND has_role(auth.uid(), 'admin'::app_role)
+);
+
+-- Public verification by serial. Only what is printed on the certificate is exposed, plus
+-- whether the certification behind it is still in good standing.
+CREATE OR REPLACE FUNCTION public.verify_certificate(_serial TEXT)
+RETURNS TABLE (
+  serial TEXT,
+  recipient_name TEXT,
+  level INTEGER,
+  course_title TEXT,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  issued_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  status TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    c.serial,
+    c.recipient_name,
+    c.level,
+    co.title,
+    c.completed_at,
+    c.issued_at,
+    w.certification_expires_at,
+    CASE
+      WHEN w.certification_expires_at IS NOT NULL AND w.certification_expires_at <= now() THEN 'expired'
+      WHEN w.subscription_status IN ('paid', 'past_due') AND w.current_step = 'completed' THEN 'valid'
+      ELSE 'invalid'
+    END
+  FROM public.certificates c
+  JOIN public.certification_workflows w ON w.id = c.workflow_id
+  JOIN public.courses co ON co.id = c.course_id
+  WHERE c.serial = upper(trim(_serial));
+$$;
+
+GRANT EXECUTE ON FUNCTION public.verify_certificate(TEXT) TO anon, authenticated;
@@ -0,0 +1,69 @@
+-- Learners opt in to the public directory of certified relocation specialists
+ALTER TABLE public.profiles
+ADD COLUMN directory_visible BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN public.profiles.directory_visible IS 'Listed in the public specialist directory while at least one certification is in good standing';
+
+-- Public directory search. Profiles stay private under RLS; only directory-safe fields of
+-- opted-in, currently certified learners are returned. All filters are optional.
+CREATE OR REPLACE FUNCTION public.search_specialist_directory(
+  _region TEXT DEFAULT NULL,
+  _language TEXT DEFAULT NULL,
+  _level INTEGER DEFAULT NULL
+)
+RETURNS TABLE (
+  profile_id UUID,
+  first_name TEXT,
+  last_name TEXT,
+  avatar_url TEXT,
+  city TEXT,
+  province_state TEXT,
+  country TEXT,
+  occupation TEXT,
+  service_regions TEXT[],
+  languages_spoken TEXT[],
+  certified_levels INTEGER[]
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH certified AS (
+    SELECT w.user_id, array_agg(DISTINCT w.level ORDER BY w.level) AS levels
+    FROM public.certification_workflows w
+    WHERE w.current_step = 'completed'
+      AND w.subscription_status IN ('paid', 'past_due')
+      AND (w.certification_expires_at IS NULL OR w.certification_expires_at > now())
+    GROUP BY w.user_id
+  )
+  SELECT
+    p.id,
+    p.first_name,
+    p.last_name,
+    p.avatar_url,
+    p.city,
+    p.province_state,
+    p.country,
+    p.occupation::TEXT,
+    COALESCE(p.service_regions, '{}'),
+    COALESCE(p.languages_spoken, '{}'),
+    c.levels
+  FROM public.profiles p
+  JOIN certified c ON c.user_id = p.user_id
+  WHERE p.directory_visible
+    AND (
+      NULLIF(trim(_region), '') IS NULL
+      OR p.city ILIKE '%' || trim(_region) || '%'
+      OR p.province_state ILIKE '%' || trim(_region) || '%'
+      OR EXISTS (SELECT 1 FROM unnest(p.service_regions) r WHERE r ILIKE '%' || trim(_region) || '%')
+    )
+    AND (
+      NULLIF(trim(_language), '') IS NULL
+      OR EXISTS (SELECT 1 FROM unnest(p.languages_spoken) l WHERE l ILIKE '%' || trim(_language) || '%')
+    )
+    AND (_level IS NULL OR _level = ANY(c.levels))
+  ORDER BY p.last_name, p.first_name;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_specialist_directory(TEXT, TEXT, INTEGER) TO anon, authenticated;
@@ -0,0 +1,29 @@
+-- Signed Open Badges 3.0 credentials, one per completed certification workflow.
+-- The stored credential is handed out again on later downloads so its id and proof stay stable.
+CREATE TABLE public.open_badge_credentials (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  workflow_id UUID NOT NULL UNIQUE REFERENCES public.certification_workflows(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  level INTEGER NOT NULL,
+  credential JSONB NOT NULL,
+  issued_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.open_badge_credentials.id IS 'Credential id, published as urn:uuid:<id>';
+COMMENT ON COLUMN public.open_badge_credentials.credential IS 'The signed OpenBadgeCredential including its DataIntegrityProof';
+
+CREATE INDEX IF NOT EXISTS idx_open_badge_credentials_user_id ON public.open_badge_credentials(user_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.open_badge_credentials ENABLE ROW LEVEL SECURITY;
+
+-- Issued by the issue-open-badge edge function using the service role
+CREATE POLICY "Users can view their own badge credentials"
+ON public.open_badge_credentials
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all badge credentials"
+ON public.open_badge_credentials
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
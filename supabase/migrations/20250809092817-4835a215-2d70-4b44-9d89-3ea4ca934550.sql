@@ -0,0 +1,153 @@
+-- Admin sanctions on a granted certification, kept apart from current_step so payment
+-- events (renewals, retries) can never silently lift a suspension or revocation
+CREATE TYPE public.app_certification_status AS ENUM ('active', 'suspended', 'revoked');
+
+ALTER TABLE public.certification_workflows
+ADD COLUMN certification_status public.app_certification_status NOT NULL DEFAULT 'active',
+ADD COLUMN certification_status_reason TEXT,
+ADD COLUMN certification_status_changed_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN public.certification_workflows.certification_status_reason IS 'Reason given by the admin for the latest suspend, revoke or reinstate';
+
+-- Audit trail of every suspend, revoke and reinstate
+CREATE TABLE public.certification_status_changes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  workflow_id UUID NOT NULL REFERENCES public.certification_workflows(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('suspend', 'revoke', 'reinstate')),
+  previous_status public.app_certification_status NOT NULL,
+  new_status public.app_certification_status NOT NULL,
+  reason TEXT NOT NULL CHECK (length(trim(reason)) > 0),
+  performed_by UUID NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_certification_status_changes_workflow_id ON public.certification_status_changes(workflow_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_certification_status_changes_user_id ON public.certification_status_changes(user_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.certification_status_changes ENABLE ROW LEVEL SECURITY;
+
+-- Written by handle-admin-certification-action using the service role
+CREATE POLICY "Users can view their own certification status changes"
+ON public.certification_status_changes
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all certification status changes"
+ON public.certification_status_changes
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Single definition of whether a certification is in good standing, shared by public verification
+-- and the specialist directory. Mirrored by getBadgeStatus() in the open-badges edge functions.
+CREATE OR REPLACE FUNCTION public.certification_standing(_workflow public.certification_workflows)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN _workflow.certification_status = 'revoked' THEN 'revoked'
+    WHEN _workflow.certification_status = 'suspended' THEN 'suspended'
+    WHEN _workflow.certification_expires_at IS NOT NULL AND _workflow.certification_expires_at <= now() THEN 'expired'
+    WHEN _workflow.subscription_status IN ('paid', 'past_due') AND _workflow.current_step = 'completed' THEN 'valid'
+    ELSE 'invalid'
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.verify_certificate(_serial TEXT)
+RETURNS TABLE (
+  serial TEXT,
+  recipient_name TEXT,
+  level INTEGER,
+  course_title TEXT,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  issued_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  status TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    c.serial,
+    c.recipient_name,
+    c.level,
+    co.title,
+    c.completed_at,
+    c.issued_at,
+    w.certification_expires_at,
+    public.certification_standing(w)
+  FROM public.certificates c
+  JOIN public.certification_workflows w ON w.id = c.workflow_id
+  JOIN public.courses co ON co.id = c.course_id
+  WHERE c.serial = upper(trim(_serial));
+$$;
+
+CREATE OR REPLACE FUNCTION public.search_specialist_directory(
+  _region TEXT DEFAULT NULL,
+  _language TEXT DEFAULT NULL,
+  _level INTEGER DEFAULT NULL
+)
+RETURNS TABLE (
+  profile_id UUID,
+  first_name TEXT,
+  last_name TEXT,
+  avatar_url TEXT,
+  city TEXT,
+  province_state TEXT,
+  country TEXT,
+  occupation TEXT,
+  service_regions TEXT[],
+  languages_spoken TEXT[],
+  certified_levels INTEGER[]
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH certified AS (
+    SELECT w.user_id, array_agg(DISTINCT w.level ORDER BY w.level) AS levels
+    FROM public.certification_workflows w
+    WHERE public.certification_standing(w) = 'valid'
+    GROUP BY w.user_id
+  ),
+  -- A revocation at any level removes the learner from the directory entirely
+  revoked AS (
+    SELECT DISTINCT w.user_id
+    FROM public.certification_workflows w
+    WHERE w.certification_status = 'revoked'
+  )
+  SELECT
+    p.id,
+    p.first_name,
+    p.last_name,
+    p.avatar_url,
+    p.city,
+    p.province_state,
+    p.country,
+    p.occupation::TEXT,
+    COALESCE(p.service_regions, '{}'),
+    COALESCE(p.languages_spoken, '{}'),
+    c.levels
+  FROM public.profiles p
+  JOIN certified c ON c.user_id = p.user_id
+  WHERE p.directory_visible
+    AND p.user_id NOT IN (SELECT user_id FROM revoked)
+    AND (
+      NULLIF(trim(_region), '') IS NULL
+      OR p.city ILIKE '%' || trim(_region) || '%'
+      OR p.province_state ILIKE '%' || trim(_region) || '%'
+      OR EXISTS (SELECT 1 FROM unnest(p.service_regions) r WHERE r ILIKE '%' || trim(_region) || '%')
+    )
+    AND (
+      NULLIF(trim(_language), '') IS NULL
+      OR EXISTS (SELECT 1 FROM unnest(p.languages_spoken) l WHERE l ILIKE '%' || trim(_language) || '%')
+    )
+    AND (_level IS NULL OR _level = ANY(c.levels))
+  ORDER BY p.last_name, p.first_name;
+$$;
@@ -0,0 +1,33 @@
+-- Every approve/reject decision on a certification, with the reviewer's notes.
+-- Rejections must explain what the learner needs to fix before retaking the exam.
+CREATE TABLE public.certification_reviews (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  workflow_id UUID NOT NULL REFERENCES public.certification_workflows(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  level INTEGER NOT NULL,
+  decision public.app_admin_approval_status NOT NULL CHECK (decision IN ('approved', 'rejected')),
+  notes TEXT,
+  exam_attempt_id UUID REFERENCES public.exam_attempts(id) ON DELETE SET NULL,
+  reviewer_id UUID NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT certification_reviews_rejection_notes CHECK (decision <> 'rejected' OR length(trim(coalesce(notes, ''))) > 0)
+);
+
+COMMENT ON COLUMN public.certification_reviews.exam_attempt_id IS 'Latest exam attempt at the time of the decision';
+
+CREATE INDEX IF NOT EXISTS idx_certification_reviews_workflow_id ON public.certification_reviews(workflow_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_certification_reviews_user_id ON public.certification_reviews(user_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.certification_reviews ENABLE ROW LEVEL SECURITY;
+
+-- Written by handle-admin-certification-action using the service role
+CREATE POLICY "Users can view their own certification reviews"
+ON public.certification_reviews
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all certification reviews"
+ON public.certification_reviews
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
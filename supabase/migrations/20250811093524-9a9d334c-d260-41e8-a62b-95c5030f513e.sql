@@ -0,0 +1,77 @@
+-- Outbox of transactional emails. Rows are rendered when queued so retries send the same
+-- message; failed deliveries are retried with backoff by the dispatch-notifications function.
+CREATE TABLE public.notifications (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  type TEXT NOT NULL CHECK (type IN (
+    'exam_submitted',
+    'certification_approved',
+    'certification_rejected',
+    'contract_ready',
+    'contract_signed',
+    'payment_received',
+    'certification_completed'
+  )),
+  recipient_user_id UUID NOT NULL,
+  recipient_email TEXT NOT NULL,
+  workflow_id UUID REFERENCES public.certification_workflows(id) ON DELETE SET NULL,
+  subject TEXT NOT NULL,
+  body_text TEXT NOT NULL,
+  body_html TEXT NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  dedupe_key TEXT UNIQUE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'sent', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_error TEXT,
+  transport TEXT,
+  sent_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.notifications.payload IS 'Template data the message was rendered from';
+COMMENT ON COLUMN public.notifications.dedupe_key IS 'Set for notifications raised by retried events (webhooks, replays) so they are only queued once';
+COMMENT ON COLUMN public.notifications.transport IS 'Email transport that delivered or last attempted the message';
+
+CREATE INDEX IF NOT EXISTS idx_notifications_due ON public.notifications(status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_notifications_recipient_user_id ON public.notifications(recipient_user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_notifications_workflow_id ON public.notifications(workflow_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+-- Queued and delivered by edge functions using the service role
+CREATE POLICY "Admins can view notifications"
+ON public.notifications
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_notifications_updated_at
+BEFORE UPDATE ON public.notifications
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Claims due notifications for delivery. SKIP LOCKED lets concurrent dispatchers run without
+-- sending the same row twice; rows stuck in 'sending' after a crash are picked up again.
+CREATE OR REPLACE FUNCTION public.claim_notifications(_limit INTEGER DEFAULT 25)
+RETURNS SETOF public.notifications
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.notifications n
+  SET status = 'sending', attempts = n.attempts + 1
+  WHERE n.id IN (
+    SELECT id
+    FROM public.notifications
+    WHERE (status = 'pending' AND next_attempt_at <= now())
+       OR (status = 'sending' AND updated_at < now() - interval '5 minutes')
+    ORDER BY next_attempt_at
+    LIMIT _limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING n.*;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_notifications(INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,306 @@
+-- The email outbox becomes notification_emails so that notifications can hold the in-app feed
+ALTER TABLE public.notifications RENAME TO notification_emails;
+ALTER INDEX public.notifications_pkey RENAME TO notification_emails_pkey;
+ALTER INDEX public.notifications_dedupe_key_key RENAME TO notification_emails_dedupe_key_key;
+ALTER INDEX public.idx_notifications_due RENAME TO idx_notification_emails_due;
+ALTER INDEX public.idx_notifications_recipient_user_id RENAME TO idx_notification_emails_recipient_user_id;
+ALTER INDEX public.idx_notifications_workflow_id RENAME TO idx_notification_emails_workflow_id;
+ALTER TABLE public.notification_emails RENAME CONSTRAINT notifications_workflow_id_fkey TO notification_emails_workflow_id_fkey;
+ALTER TRIGGER update_notifications_updated_at ON public.notification_emails RENAME TO update_notification_emails_updated_at;
+ALTER POLICY "Admins can view notifications" ON public.notification_emails RENAME TO "Admins can view notification emails";
+
+-- The claim function body names the table, so it is recreated rather than renamed
+DROP FUNCTION public.claim_notifications(INTEGER);
+
+CREATE OR REPLACE FUNCTION public.claim_notification_emails(_limit INTEGER DEFAULT 25)
+RETURNS SETOF public.notification_emails
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.notification_emails n
+  SET status = 'sending', attempts = n.attempts + 1
+  WHERE n.id IN (
+    SELECT id
+    FROM public.notification_emails
+    WHERE (status = 'pending' AND next_attempt_at <= now())
+       OR (status = 'sending' AND updated_at < now() - interval '5 minutes')
+    ORDER BY next_attempt_at
+    LIMIT _limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING n.*;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_notification_emails(INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Per-user notification preferences. A missing row means everything is enabled.
+CREATE TABLE public.notification_preferences (
+  user_id UUID NOT NULL PRIMARY KEY,
+  workflow_status BOOLEAN NOT NULL DEFAULT true,
+  comment_reply BOOLEAN NOT NULL DEFAULT true,
+  course_content BOOLEAN NOT NULL DEFAULT true,
+  email_enabled BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.notification_preferences.email_enabled IS 'Certification workflow emails to the learner; admin emails are always sent';
+
+-- Enable Row Level Security
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own notification preferences"
+ON public.notification_preferences
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own notification preferences"
+ON public.notification_preferences
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own notification preferences"
+ON public.notification_preferences
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_notification_preferences_updated_at
+BEFORE UPDATE ON public.notification_preferences
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- In-app notification feed shown by the bell in the navigation bar
+CREATE TABLE public.notifications (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('workflow_status', 'comment_reply', 'course_content')),
+  title TEXT NOT NULL,
+  body TEXT,
+  link TEXT,
+  data JSONB NOT NULL DEFAULT '{}'::jsonb,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.notifications.link IS 'In-app path opened when the notification is clicked';
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_id ON public.notifications(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_unread ON public.notifications(user_id) WHERE read_at IS NULL;
+
+-- Enable Row Level Security
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only created by the triggers below; learners can only mark them as read
+CREATE POLICY "Users can view their own notifications"
+ON public.notifications
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own notifications"
+ON public.notifications
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+REVOKE UPDATE ON public.notifications FROM authenticated;
+GRANT UPDATE (read_at) ON public.notifications TO authenticated;
+
+-- Streamed to the bell through Supabase realtime
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+
+CREATE OR REPLACE FUNCTION public.create_notification(
+  _user_id UUID,
+  _type TEXT,
+  _title TEXT,
+  _body TEXT,
+  _link TEXT,
+  _data JSONB DEFAULT '{}'::jsonb
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _enabled BOOLEAN;
+BEGIN
+  SELECT CASE _type
+    WHEN 'workflow_status' THEN p.workflow_status
+    WHEN 'comment_reply' THEN p.comment_reply
+    WHEN 'course_content' THEN p.course_content
+  END
+  INTO _enabled
+  FROM public.notification_preferences p
+  WHERE p.user_id = _user_id;
+
+  IF COALESCE(_enabled, true) THEN
+    INSERT INTO public.notifications (user_id, type, title, body, link, data)
+    VALUES (_user_id, _type, _title, _body, _link, _data);
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_notification(UUID, TEXT, TEXT, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Certification workflow changes a learner needs to act on or hear about
+CREATE OR REPLACE FUNCTION public.notify_workflow_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _title TEXT;
+  _body TEXT;
+  _link TEXT := '/';
+BEGIN
+  IF NEW.certification_status IS DISTINCT FROM OLD.certification_status THEN
+    _title := CASE NEW.certification_status
+      WHEN 'suspended' THEN format('Your Level %s certification has been suspended', NEW.level)
+      WHEN 'revoked' THEN format('Your Level %s certification has been revoked', NEW.level)
+      ELSE format('Your Level %s certification has been reinstated', NEW.level)
+    END;
+    _body := NEW.certification_status_reason;
+  ELSIF NEW.current_step = 'completed' AND OLD.current_step IS DISTINCT FROM 'completed' THEN
+    _title := format('Level %s certification complete', NEW.level);
+    _body := 'Your certificate is ready to download from your dashboard.';
+  ELSIF NEW.admin_approval_status IS DISTINCT FROM OLD.admin_approval_status AND NEW.admin_approval_status = 'approved' THEN
+    _title := format('Your Level %s exam was approved', NEW.level);
+    _body := 'Sign your Relocation Specialist Agreement to continue.';
+  ELSIF NEW.admin_approval_status IS DISTINCT FROM OLD.admin_approval_status AND NEW.admin_approval_status = 'rejected' THEN
+    _title := format('Your Level %s exam needs another attempt', NEW.level);
+    _body := 'Read the reviewer feedback before retaking the exam.';
+    _link := format('/certification/%s/exam', NEW.level);
+  ELSIF NEW.contract_status IS DISTINCT FROM OLD.contract_status AND NEW.contract_status = 'pending_signing' THEN
+    _title := format('Your Level %s agreement is ready to sign', NEW.level);
+    _link := format('/certification/%s/contract', NEW.level);
+  ELSIF NEW.contract_status IS DISTINCT FROM OLD.contract_status AND NEW.contract_status = 'signed' THEN
+    _title := format('Your Level %s agreement was signed', NEW.level);
+    _body := 'Complete the payment to finish your certification.';
+    _link := format('/certification/%s/payment', NEW.level);
+  ELSE
+    RETURN NEW;
+  END IF;
+
+  PERFORM public.create_notification(
+    NEW.user_id,
+    'workflow_status',
+    _title,
+    _body,
+    _link,
+    jsonb_build_object('workflow_id', NEW.id, 'level', NEW.level)
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_workflow_status_change
+AFTER UPDATE OF current_step, admin_approval_status, contract_status, certification_status
+ON public.certification_workflows
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_workflow_status_change();
+
+-- Replies to a learner's comment, unless they replied to themselves
+CREATE OR REPLACE FUNCTION public.notify_comment_reply()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _parent_user_id UUID;
+  _author TEXT;
+  _link TEXT;
+BEGIN
+  SELECT user_id INTO _parent_user_id
+  FROM public.comments
+  WHERE id = NEW.parent_comment_id AND NOT is_deleted;
+
+  IF _parent_user_id IS NULL OR _parent_user_id = NEW.user_id THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT NULLIF(trim(concat_ws(' ', first_name, last_name)), '') INTO _author
+  FROM public.profiles
+  WHERE user_id = NEW.user_id;
+
+  IF NEW.lesson_id IS NOT NULL THEN
+    SELECT format('/course/%s/lesson/%s', l.course_id, l.id) INTO _link
+    FROM public.lessons l
+    WHERE l.id = NEW.lesson_id;
+  ELSIF NEW.subsection_id IS NOT NULL THEN
+    SELECT format('/course/%s/subsection/%s', s.course_id, ss.id) INTO _link
+    FROM public.subsections ss
+    JOIN public.sections s ON s.id = ss.section_id
+    WHERE ss.id = NEW.subsection_id;
+  END IF;
+
+  PERFORM public.create_notification(
+    _parent_user_id,
+    'comment_reply',
+    format('%s replied to your comment', COALESCE(_author, 'Someone')),
+    left(NEW.content, 140),
+    _link,
+    jsonb_build_object('comment_id', NEW.id, 'parent_comment_id', NEW.parent_comment_id)
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_comment_reply
+AFTER INSERT ON public.comments
+FOR EACH ROW
+WHEN (NEW.parent_comment_id IS NOT NULL)
+EXECUTE FUNCTION public.notify_comment_reply();
+
+-- New lessons and subsections are announced to every learner with progress in the course
+CREATE OR REPLACE FUNCTION public.notify_course_content()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _course_id UUID;
+  _link TEXT;
+  _course_title TEXT;
+  _learner UUID;
+BEGIN
+  IF TG_TABLE_NAME = 'lessons' THEN
+    _course_id := NEW.course_id;
+    _link := format('/course/%s/lesson/%s', _course_id, NEW.id);
+  ELSE
+    SELECT course_id INTO _course_id FROM public.sections WHERE id = NEW.section_id;
+    _link := format('/course/%s/subsection/%s', _course_id, NEW.id);
+  END IF;
+
+  SELECT title INTO _course_title FROM public.courses WHERE id = _course_id;
+
+  FOR _learner IN
+    SELECT DISTINCT user_id FROM public.user_progress WHERE course_id = _course_id
+  LOOP
+    PERFORM public.create_notification(
+      _learner,
+      'course_content',
+      format('New in %s', COALESCE(_course_title, 'your course')),
+      NEW.title,
+      _link,
+      jsonb_build_object('course_id', _course_id, 'content_id', NEW.id)
+    );
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_lesson_published
+AFTER INSERT ON public.lessons
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_course_content();
+
+CREATE TRIGGER notify_subsection_published
+AFTER INSERT ON public.subsections
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_course_content();
@@ -0,0 +1,178 @@
+-- History of every certification workflow move made through transition_workflow()
+CREATE TABLE public.workflow_transitions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  workflow_id UUID NOT NULL REFERENCES public.certification_workflows(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  from_step public.app_workflow_step NOT NULL,
+  to_step public.app_workflow_step NOT NULL,
+  changes JSONB NOT NULL DEFAULT '{}'::jsonb,
+  source TEXT NOT NULL,
+  actor_id UUID,
+  reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.workflow_transitions.changes IS 'Per-step status columns written together with the move';
+COMMENT ON COLUMN public.workflow_transitions.source IS 'Edge function or event that requested the move, e.g. stripe:checkout.session.completed';
+COMMENT ON COLUMN public.workflow_transitions.actor_id IS 'Admin or learner who triggered the move; NULL for webhooks';
+
+CREATE INDEX IF NOT EXISTS idx_workflow_transitions_workflow_id ON public.workflow_transitions(workflow_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_workflow_transitions_user_id ON public.workflow_transitions(user_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.workflow_transitions ENABLE ROW LEVEL SECURITY;
+
+-- Written only by transition_workflow()
+CREATE POLICY "Users can view their own workflow transitions"
+ON public.workflow_transitions
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all workflow transitions"
+ON public.workflow_transitions
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Learners never update their workflow from the browser; every change goes through an edge function
+DROP POLICY IF EXISTS "Users can update their own certification workflows" ON public.certification_workflows;
+
+-- Moves a workflow to _to_step (or keeps its step when NULL) while writing the per-step status
+-- columns in _changes, after checking that the move is legal for the resulting statuses:
+--   exam      -> exam, approval (submitted or passed exam; a failed learner needs a passing native attempt)
+--   approval  -> contract (approved), exam (rejected)
+--   contract  -> contract, payment (signed)
+--   payment   -> payment, completed (paid)
+--   completed -> completed, payment (refund, dispute or lapse)
+CREATE OR REPLACE FUNCTION public.transition_workflow(
+  _workflow_id UUID,
+  _to_step public.app_workflow_step DEFAULT NULL,
+  _changes JSONB DEFAULT '{}'::jsonb,
+  _source TEXT DEFAULT 'unknown',
+  _actor_id UUID DEFAULT NULL,
+  _reason TEXT DEFAULT NULL
+)
+RETURNS public.certification_workflows
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _current public.certification_workflows;
+  _next public.certification_workflows;
+  _to public.app_workflow_step;
+  _protected TEXT[] := ARRAY[
+    'id', 'user_id', 'course_id', 'level', 'current_step', 'created_at', 'updated_at',
+    'certification_status', 'certification_status_reason', 'certification_status_changed_at'
+  ];
+  _bad_key TEXT;
+  _set_clause TEXT;
+  _latest_attempt RECORD;
+  _allowed BOOLEAN;
+BEGIN
+  SELECT * INTO _current
+  FROM public.certification_workflows
+  WHERE id = _workflow_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Certification workflow % not found', _workflow_id;
+  END IF;
+
+  _changes := COALESCE(_changes, '{}'::jsonb);
+  _to := COALESCE(_to_step, _current.current_step);
+
+  SELECT key INTO _bad_key
+  FROM jsonb_object_keys(_changes) AS key
+  WHERE key = ANY(_protected)
+  LIMIT 1;
+
+  IF _bad_key IS NOT NULL THEN
+    RAISE EXCEPTION 'Column % cannot be changed by a workflow transition', _bad_key;
+  END IF;
+
+  _next := jsonb_populate_record(_current, _changes);
+
+  _allowed := CASE _current.current_step
+    WHEN 'exam' THEN _to = 'exam'
+      OR (_to = 'approval' AND _next.exam_status IN ('submitted', 'passed'))
+    WHEN 'approval' THEN (_to = 'contract' AND _next.admin_approval_status = 'approved')
+      OR (_to = 'exam' AND _next.admin_approval_status = 'rejected')
+    WHEN 'contract' THEN _to = 'contract'
+      OR (_to = 'payment' AND _next.contract_status = 'signed')
+    WHEN 'payment' THEN _to = 'payment'
+      OR (_to = 'completed' AND _next.subscription_status = 'paid')
+    WHEN 'completed' THEN _to = 'completed'
+      OR (_to = 'payment' AND _next.subscription_status IN ('pending_payment', 'cancelled', 'expired'))
+    ELSE false
+  END;
+
+  IF NOT _allowed THEN
+    RAISE EXCEPTION 'Illegal workflow transition from % to % (exam %, approval %, contract %, subscription %)',
+      _current.current_step, _to, _next.exam_status, _next.admin_approval_status,
+      _next.contract_status, _next.subscription_status;
+  END IF;
+
+  -- Submissions must match a recorded attempt, and a failed learner only reaches approval by passing
+  IF _current.current_step = 'exam' AND _to = 'approval' THEN
+    SELECT passed, submitted_at INTO _latest_attempt
+    FROM public.exam_attempts
+    WHERE workflow_id = _workflow_id
+    ORDER BY attempt_number DESC
+    LIMIT 1;
+
+    IF NOT FOUND
+      OR _latest_attempt.passed IS FALSE
+      OR (_current.exam_status = 'failed' AND _latest_attempt.passed IS NOT TRUE)
+      OR (_current.exam_started_at IS NOT NULL AND _latest_attempt.submitted_at < _current.exam_started_at) THEN
+      RAISE EXCEPTION 'Workflow % has no qualifying exam attempt for approval', _workflow_id;
+    END IF;
+  END IF;
+
+  SELECT string_agg(format('%I = ($2).%I', key, key), ', ') INTO _set_clause
+  FROM jsonb_object_keys(_changes) AS key;
+
+  PERFORM set_config('app.workflow_transition', 'on', true);
+
+  EXECUTE format(
+    'UPDATE public.certification_workflows SET %s current_step = $3, updated_at = now() WHERE id = $1 RETURNING *',
+    COALESCE(_set_clause || ',', '')
+  )
+  INTO _next
+  USING _workflow_id, _next, _to;
+
+  PERFORM set_config('app.workflow_transition', 'off', true);
+
+  INSERT INTO public.workflow_transitions (workflow_id, user_id, from_step, to_step, changes, source, actor_id, reason)
+  VALUES (_workflow_id, _current.user_id, _current.current_step, _to, _changes, _source, _actor_id, _reason);
+
+  RETURN _next;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.transition_workflow(UUID, public.app_workflow_step, JSONB, TEXT, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Backstop for direct writes: new workflows start at the exam and current_step only moves
+-- inside transition_workflow()
+CREATE OR REPLACE FUNCTION public.guard_workflow_step()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.current_step <> 'exam' THEN
+      RAISE EXCEPTION 'Certification workflows must start at the exam step';
+    END IF;
+  ELSIF NEW.current_step IS DISTINCT FROM OLD.current_step
+    AND COALESCE(current_setting('app.workflow_transition', true), 'off') <> 'on' THEN
+    RAISE EXCEPTION 'current_step can only be changed through transition_workflow()';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_workflow_step
+BEFORE INSERT OR UPDATE OF current_step ON public.certification_workflows
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_workflow_step();
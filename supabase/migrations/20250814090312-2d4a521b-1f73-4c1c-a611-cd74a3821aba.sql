@@ -0,0 +1,124 @@
+-- Per-course exam policy; NULL leaves a rule switched off
+ALTER TABLE public.courses
+ADD COLUMN exam_max_attempts INTEGER CHECK (exam_max_attempts > 0),
+ADD COLUMN exam_cooldown_hours INTEGER CHECK (exam_cooldown_hours >= 0),
+ADD COLUMN exam_available_from TIMESTAMP WITH TIME ZONE,
+ADD COLUMN exam_available_until TIMESTAMP WITH TIME ZONE,
+ADD COLUMN exam_required_quiz_percentage INTEGER CHECK (exam_required_quiz_percentage BETWEEN 0 AND 100),
+ADD CONSTRAINT courses_exam_window_check CHECK (exam_available_until IS NULL OR exam_available_from IS NULL OR exam_available_until > exam_available_from);
+
+COMMENT ON COLUMN public.courses.exam_max_attempts IS 'Exam attempts allowed per learner for this level; NULL for unlimited';
+COMMENT ON COLUMN public.courses.exam_cooldown_hours IS 'Hours a learner must wait after an attempt before starting the next one';
+COMMENT ON COLUMN public.courses.exam_available_from IS 'Start of the window in which exam attempts can be started';
+COMMENT ON COLUMN public.courses.exam_available_until IS 'End of the window in which exam attempts can be started';
+COMMENT ON COLUMN public.courses.exam_required_quiz_percentage IS 'Best score every quiz of the course must reach before the exam unlocks';
+
+-- Scored attempts at in-course quizzes
+CREATE TABLE public.quiz_attempts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  subsection_id UUID NOT NULL REFERENCES public.subsections(id) ON DELETE CASCADE,
+  score NUMERIC NOT NULL,
+  max_score NUMERIC NOT NULL,
+  percentage NUMERIC NOT NULL,
+  answers JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_quiz_attempts_user_subsection ON public.quiz_attempts(user_id, subsection_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.quiz_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Attempts are scored and written by edge functions using the service role
+CREATE POLICY "Users can view their own quiz attempts"
+ON public.quiz_attempts
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all quiz attempts"
+ON public.quiz_attempts
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Checks the course's exam policy for a learner about to start a new attempt. Returns a single
+-- row; when eligible is false, reason explains why and next_attempt_at is set if waiting helps.
+CREATE OR REPLACE FUNCTION public.get_exam_eligibility(_user_id UUID, _course_id UUID)
+RETURNS TABLE (
+  eligible BOOLEAN,
+  reason TEXT,
+  attempts_used INTEGER,
+  max_attempts INTEGER,
+  next_attempt_at TIMESTAMP WITH TIME ZONE,
+  available_until TIMESTAMP WITH TIME ZONE,
+  required_quiz_percentage INTEGER,
+  lowest_quiz_percentage NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _course public.courses;
+  _last_attempt_at TIMESTAMP WITH TIME ZONE;
+  _cooldown_ends_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  -- Learners may only check themselves; edge functions call this with the service role
+  IF auth.uid() IS NOT NULL AND auth.uid() <> _user_id AND NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  SELECT * INTO _course FROM public.courses WHERE id = _course_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Course % not found', _course_id;
+  END IF;
+
+  max_attempts := _course.exam_max_attempts;
+  available_until := _course.exam_available_until;
+  required_quiz_percentage := _course.exam_required_quiz_percentage;
+
+  SELECT count(*), max(submitted_at) INTO attempts_used, _last_attempt_at
+  FROM public.exam_attempts
+  WHERE user_id = _user_id AND level = _course.level;
+
+  IF _course.exam_cooldown_hours IS NOT NULL AND _last_attempt_at IS NOT NULL THEN
+    _cooldown_ends_at := _last_attempt_at + make_interval(hours => _course.exam_cooldown_hours);
+  END IF;
+
+  -- The weakest quiz decides; a quiz never attempted counts as 0%
+  SELECT min(COALESCE(best.percentage, 0)) INTO lowest_quiz_percentage
+  FROM public.subsections s
+  JOIN public.sections sec ON sec.id = s.section_id
+  LEFT JOIN LATERAL (
+    SELECT max(q.percentage) AS percentage
+    FROM public.quiz_attempts q
+    WHERE q.subsection_id = s.id AND q.user_id = _user_id
+  ) best ON true
+  WHERE sec.course_id = _course_id AND s.subsection_type = 'quiz';
+
+  eligible := false;
+
+  IF _course.exam_available_from IS NOT NULL AND now() < _course.exam_available_from THEN
+    reason := format('The exam opens on %s', to_char(_course.exam_available_from AT TIME ZONE 'UTC', 'Mon DD, YYYY HH24:MI "UTC"'));
+    next_attempt_at := GREATEST(_course.exam_available_from, _cooldown_ends_at);
+  ELSIF available_until IS NOT NULL AND now() >= available_until THEN
+    reason := 'The exam window for this level has closed';
+  ELSIF max_attempts IS NOT NULL AND attempts_used >= max_attempts THEN
+    reason := format('You have used all %s exam attempts for this level', max_attempts);
+  ELSIF _cooldown_ends_at IS NOT NULL AND now() < _cooldown_ends_at THEN
+    reason := format('You must wait %s hours between exam attempts', _course.exam_cooldown_hours);
+    next_attempt_at := _cooldown_ends_at;
+  ELSIF required_quiz_percentage IS NOT NULL AND lowest_quiz_percentage < required_quiz_percentage THEN
+    reason := format('Score at least %s%% on every course quiz before taking the exam', required_quiz_percentage);
+  ELSE
+    eligible := true;
+  END IF;
+
+  RETURN NEXT;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_exam_eligibility(UUID, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_exam_eligibility(UUID, UUID) TO authenticated;
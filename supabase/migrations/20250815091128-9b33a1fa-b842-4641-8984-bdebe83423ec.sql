@@ -0,0 +1,156 @@
+-- Native quiz subsections: question banks per quiz subsection, scored server-side like the exam
+CREATE TABLE public.quiz_questions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  subsection_id UUID NOT NULL REFERENCES public.subsections(id) ON DELETE CASCADE,
+  question_type public.app_question_type NOT NULL DEFAULT 'single_choice',
+  prompt TEXT NOT NULL,
+  options JSONB NOT NULL DEFAULT '[]'::jsonb,
+  correct_answers JSONB NOT NULL DEFAULT '[]'::jsonb,
+  points INTEGER NOT NULL DEFAULT 1 CHECK (points > 0),
+  order_index INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.quiz_questions.options IS 'Answer choices as a JSON array of strings (unused for short_answer)';
+COMMENT ON COLUMN public.quiz_questions.correct_answers IS 'Indexes into options for choice questions, or accepted answer strings for short_answer';
+
+-- Enable Row Level Security
+ALTER TABLE public.quiz_questions ENABLE ROW LEVEL SECURITY;
+
+-- Only admins read the question bank directly; learners receive questions
+-- without answers through the get-subsection-quiz function
+CREATE POLICY "Admins can manage quiz questions"
+ON public.quiz_questions
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE INDEX IF NOT EXISTS idx_quiz_questions_subsection_order ON public.quiz_questions(subsection_id, order_index);
+
+CREATE TRIGGER update_quiz_questions_updated_at
+BEFORE UPDATE ON public.quiz_questions
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Pass mark used when scoring a quiz attempt
+ALTER TABLE public.subsections
+ADD COLUMN quiz_pass_percentage INTEGER NOT NULL DEFAULT 70 CHECK (quiz_pass_percentage BETWEEN 0 AND 100);
+
+ALTER TABLE public.quiz_attempts
+ADD COLUMN passed BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN pass_percentage INTEGER;
+
+COMMENT ON COLUMN public.quiz_attempts.pass_percentage IS 'Pass mark of the subsection when the attempt was scored';
+
+-- A quiz subsection with authored questions only counts as completed once the learner
+-- has a passing attempt; embedded quiz_url quizzes keep the manual "Mark as Complete"
+CREATE OR REPLACE FUNCTION public.guard_quiz_completion()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.completed_at IS NULL OR NEW.subsection_id IS NULL
+    OR (TG_OP = 'UPDATE' AND OLD.completed_at IS NOT NULL) THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.quiz_questions WHERE subsection_id = NEW.subsection_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.quiz_attempts
+      WHERE subsection_id = NEW.subsection_id AND user_id = NEW.user_id AND passed
+    ) THEN
+    RAISE EXCEPTION 'Pass the quiz to complete this subsection';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_quiz_completion
+BEFORE INSERT OR UPDATE OF completed_at ON public.user_progress
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_quiz_completion();
+
+-- Only scored quizzes count towards the exam's quiz prerequisite
+CREATE OR REPLACE FUNCTION public.get_exam_eligibility(_user_id UUID, _course_id UUID)
+RETURNS TABLE (
+  eligible BOOLEAN,
+  reason TEXT,
+  attempts_used INTEGER,
+  max_attempts INTEGER,
+  next_attempt_at TIMESTAMP WITH TIME ZONE,
+  available_until TIMESTAMP WITH TIME ZONE,
+  required_quiz_percentage INTEGER,
+  lowest_quiz_percentage NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _course public.courses;
+  _last_attempt_at TIMESTAMP WITH TIME ZONE;
+  _cooldown_ends_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  -- Learners may only check themselves; edge functions call this with the service role
+  IF auth.uid() IS NOT NULL AND auth.uid() <> _user_id AND NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  SELECT * INTO _course FROM public.courses WHERE id = _course_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Course % not found', _course_id;
+  END IF;
+
+  max_attempts := _course.exam_max_attempts;
+  available_until := _course.exam_available_until;
+  required_quiz_percentage := _course.exam_required_quiz_percentage;
+
+  SELECT count(*), max(submitted_at) INTO attempts_used, _last_attempt_at
+  FROM public.exam_attempts
+  WHERE user_id = _user_id AND level = _course.level;
+
+  IF _course.exam_cooldown_hours IS NOT NULL AND _last_attempt_at IS NOT NULL THEN
+    _cooldown_ends_at := _last_attempt_at + make_interval(hours => _course.exam_cooldown_hours);
+  END IF;
+
+  -- The weakest quiz decides; a quiz never attempted counts as 0%. Embedded quizzes
+  -- without authored questions cannot be scored and are left out
+  SELECT min(COALESCE(best.percentage, 0)) INTO lowest_quiz_percentage
+  FROM public.subsections s
+  JOIN public.sections sec ON sec.id = s.section_id
+  LEFT JOIN LATERAL (
+    SELECT max(q.percentage) AS percentage
+    FROM public.quiz_attempts q
+    WHERE q.subsection_id = s.id AND q.user_id = _user_id
+  ) best ON true
+  WHERE sec.course_id = _course_id
+    AND s.subsection_type = 'quiz'
+    AND EXISTS (SELECT 1 FROM public.quiz_questions qq WHERE qq.subsection_id = s.id);
+
+  eligible := false;
+
+  IF _course.exam_available_from IS NOT NULL AND now() < _course.exam_available_from THEN
+    reason := format('The exam opens on %s', to_char(_course.exam_available_from AT TIME ZONE 'UTC', 'Mon DD, YYYY HH24:MI "UTC"'));
+    next_attempt_at := GREATEST(_course.exam_available_from, _cooldown_ends_at);
+  ELSIF available_until IS NOT NULL AND now() >= available_until THEN
+    reason := 'The exam window for this level has closed';
+  ELSIF max_attempts IS NOT NULL AND attempts_used >= max_attempts THEN
+    reason := format('You have used all %s exam attempts for this level', max_attempts);
+  ELSIF _cooldown_ends_at IS NOT NULL AND now() < _cooldown_ends_at THEN
+    reason := format('You must wait %s hours between exam attempts', _course.exam_cooldown_hours);
+    next_attempt_at := _cooldown_ends_at;
+  ELSIF required_quiz_percentage IS NOT NULL AND lowest_quiz_percentage < required_quiz_percentage THEN
+    reason := format('Score at least %s%% on every course quiz before taking the exam', required_quiz_percentage);
+  ELSE
+    eligible := true;
+  END IF;
+
+  RETURN NEXT;
+END;
+$$;
@@ -0,0 +1,184 @@
+-- Completion rules per subsection: a subsection only counts as completed once the learner
+-- has watched enough of the video, spent enough time on the page and passed its quiz
+ALTER TABLE public.subsections
+ADD COLUMN completion_min_video_percentage INTEGER CHECK (completion_min_video_percentage BETWEEN 1 AND 100),
+ADD COLUMN completion_min_minutes INTEGER CHECK (completion_min_minutes > 0),
+ADD COLUMN completion_requires_quiz_pass BOOLEAN NOT NULL DEFAULT true;
+
+COMMENT ON COLUMN public.subsections.completion_min_video_percentage IS 'Share of the video the learner must have watched; NULL means no video rule';
+COMMENT ON COLUMN public.subsections.completion_min_minutes IS 'Minutes the learner must spend on the subsection; NULL means no time rule';
+COMMENT ON COLUMN public.subsections.completion_requires_quiz_pass IS 'Quiz subsections with authored questions require a passing attempt';
+
+-- Engagement credited by record_subsection_activity()
+ALTER TABLE public.user_progress
+ADD COLUMN time_spent_seconds INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN video_watched_percentage INTEGER NOT NULL DEFAULT 0 CHECK (video_watched_percentage BETWEEN 0 AND 100),
+ADD COLUMN last_activity_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN public.user_progress.video_watched_percentage IS 'Highest share of distinct video seconds the learner has played';
+COMMENT ON COLUMN public.user_progress.last_activity_at IS 'Last activity heartbeat, used to credit time_spent_seconds';
+
+-- Lists what still stands between a learner and completing a subsection; empty when done
+CREATE OR REPLACE FUNCTION public.get_subsection_completion_blockers(_user_id UUID, _subsection_id UUID)
+RETURNS TEXT[]
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _subsection public.subsections;
+  _progress public.user_progress;
+  _blockers TEXT[] := '{}';
+BEGIN
+  -- Learners may only check themselves; edge functions call this with the service role
+  IF auth.uid() IS NOT NULL AND auth.uid() <> _user_id AND NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  SELECT * INTO _subsection FROM public.subsections WHERE id = _subsection_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Subsection % not found', _subsection_id;
+  END IF;
+
+  SELECT * INTO _progress
+  FROM public.user_progress
+  WHERE user_id = _user_id AND subsection_id = _subsection_id
+  ORDER BY created_at
+  LIMIT 1;
+
+  IF _subsection.completion_min_video_percentage IS NOT NULL AND _subsection.video_url IS NOT NULL
+    AND COALESCE(_progress.video_watched_percentage, 0) < _subsection.completion_min_video_percentage THEN
+    _blockers := array_append(_blockers, format('Watch at least %s%% of the video', _subsection.completion_min_video_percentage));
+  END IF;
+
+  IF _subsection.completion_min_minutes IS NOT NULL
+    AND COALESCE(_progress.time_spent_seconds, 0) < _subsection.completion_min_minutes * 60 THEN
+    _blockers := array_append(_blockers, format('Spend at least %s minutes on this subsection', _subsection.completion_min_minutes));
+  END IF;
+
+  -- Embedded quiz_url quizzes cannot be scored and keep the manual "Mark as Complete"
+  IF _subsection.completion_requires_quiz_pass AND _subsection.subsection_type = 'quiz'
+    AND EXISTS (SELECT 1 FROM public.quiz_questions WHERE subsection_id = _subsection_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.quiz_attempts
+      WHERE subsection_id = _subsection_id AND user_id = _user_id AND passed
+    ) THEN
+    _blockers := array_append(_blockers, 'Pass the quiz');
+  END IF;
+
+  RETURN _blockers;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_subsection_completion_blockers(UUID, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_subsection_completion_blockers(UUID, UUID) TO authenticated;
+
+-- Heartbeat sent by the subsection page every 30 seconds while it is visible. Only gaps of
+-- up to 90 seconds are credited, so a page left in a background tab or a forged heartbeat
+-- cannot earn more time than has actually passed. Returns the remaining blockers.
+CREATE OR REPLACE FUNCTION public.record_subsection_activity(_subsection_id UUID, _video_watched_percentage INTEGER DEFAULT NULL)
+RETURNS TEXT[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _course_id UUID;
+  _progress public.user_progress;
+  _video INTEGER := LEAST(GREATEST(COALESCE(_video_watched_percentage, 0), 0), 100);
+  _credit INTEGER := 0;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT sec.course_id INTO _course_id
+  FROM public.subsections s
+  JOIN public.sections sec ON sec.id = s.section_id
+  WHERE s.id = _subsection_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Subsection % not found', _subsection_id;
+  END IF;
+
+  SELECT * INTO _progress
+  FROM public.user_progress
+  WHERE user_id = _user_id AND subsection_id = _subsection_id
+  ORDER BY created_at
+  LIMIT 1
+  FOR UPDATE;
+
+  IF _progress.last_activity_at IS NOT NULL AND now() - _progress.last_activity_at <= interval '90 seconds' THEN
+    _credit := floor(extract(epoch FROM now() - _progress.last_activity_at));
+  END IF;
+
+  PERFORM set_config('app.progress_activity', 'on', true);
+
+  IF _progress.id IS NULL THEN
+    INSERT INTO public.user_progress (user_id, course_id, subsection_id, progress_percentage, video_watched_percentage, last_activity_at)
+    VALUES (_user_id, _course_id, _subsection_id, 0, _video, now());
+  ELSE
+    UPDATE public.user_progress
+    SET time_spent_seconds = time_spent_seconds + _credit,
+        video_watched_percentage = GREATEST(video_watched_percentage, _video),
+        last_activity_at = now()
+    WHERE id = _progress.id;
+  END IF;
+
+  PERFORM set_config('app.progress_activity', 'off', true);
+
+  RETURN public.get_subsection_completion_blockers(_user_id, _subsection_id);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_subsection_activity(UUID, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.record_subsection_activity(UUID, INTEGER) TO authenticated;
+
+-- Replaces guard_quiz_completion(): engagement columns only move inside
+-- record_subsection_activity(), and completed_at is refused while any rule is unmet
+DROP TRIGGER IF EXISTS guard_quiz_completion ON public.user_progress;
+DROP FUNCTION IF EXISTS public.guard_quiz_completion();
+
+CREATE OR REPLACE FUNCTION public.guard_subsection_completion()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _blockers TEXT[];
+BEGIN
+  IF COALESCE(current_setting('app.progress_activity', true), 'off') <> 'on' THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.time_spent_seconds := 0;
+      NEW.video_watched_percentage := 0;
+      NEW.last_activity_at := NULL;
+    ELSE
+      NEW.time_spent_seconds := OLD.time_spent_seconds;
+      NEW.video_watched_percentage := OLD.video_watched_percentage;
+      NEW.last_activity_at := OLD.last_activity_at;
+    END IF;
+  END IF;
+
+  IF NEW.completed_at IS NULL OR NEW.subsection_id IS NULL
+    OR (TG_OP = 'UPDATE' AND OLD.completed_at IS NOT NULL) THEN
+    RETURN NEW;
+  END IF;
+
+  _blockers := public.get_subsection_completion_blockers(NEW.user_id, NEW.subsection_id);
+
+  IF cardinality(_blockers) > 0 THEN
+    RAISE EXCEPTION 'Subsection not complete yet: %', array_to_string(_blockers, '; ');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_subsection_completion
+BEFORE INSERT OR UPDATE ON public.user_progress
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_subsection_completion();
@@ -0,0 +1,88 @@
+-- Resume where you left off: the activity heartbeat also stores the playback position
+ALTER TABLE public.user_progress
+ADD COLUMN video_position_seconds INTEGER CHECK (video_position_seconds >= 0);
+
+COMMENT ON COLUMN public.user_progress.video_position_seconds IS 'Last playback position in the subsection video; NULL until the learner plays it';
+
+-- Backs the dashboard's "Continue watching" lookup
+CREATE INDEX IF NOT EXISTS idx_user_progress_user_last_activity ON public.user_progress(user_id, last_activity_at DESC);
+
+-- The signature gains a parameter, so the old overload has to go first
+DROP FUNCTION IF EXISTS public.record_subsection_activity(UUID, INTEGER);
+
+-- Heartbeat sent by the subsection page every 30 seconds while it is visible, and when the
+-- playback position moves. Only gaps of up to 90 seconds are credited, so a page left in a
+-- background tab or a forged heartbeat cannot earn more time than has actually passed.
+-- Partial progress follows the share of the video watched until the subsection is completed.
+-- Returns the remaining completion blockers.
+CREATE OR REPLACE FUNCTION public.record_subsection_activity(
+  _subsection_id UUID,
+  _video_watched_percentage INTEGER DEFAULT NULL,
+  _video_position_seconds INTEGER DEFAULT NULL
+)
+RETURNS TEXT[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _course_id UUID;
+  _progress public.user_progress;
+  _video INTEGER := LEAST(GREATEST(COALESCE(_video_watched_percentage, 0), 0), 100);
+  _position INTEGER := GREATEST(_video_position_seconds, 0);
+  _credit INTEGER := 0;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT sec.course_id INTO _course_id
+  FROM public.subsections s
+  JOIN public.sections sec ON sec.id = s.section_id
+  WHERE s.id = _subsection_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Subsection % not found', _subsection_id;
+  END IF;
+
+  SELECT * INTO _progress
+  FROM public.user_progress
+  WHERE user_id = _user_id AND subsection_id = _subsection_id
+  ORDER BY created_at
+  LIMIT 1
+  FOR UPDATE;
+
+  IF _progress.last_activity_at IS NOT NULL AND now() - _progress.last_activity_at <= interval '90 seconds' THEN
+    _credit := floor(extract(epoch FROM now() - _progress.last_activity_at));
+  END IF;
+
+  PERFORM set_config('app.progress_activity', 'on', true);
+
+  IF _progress.id IS NULL THEN
+    INSERT INTO public.user_progress (
+      user_id, course_id, subsection_id, progress_percentage,
+      video_watched_percentage, video_position_seconds, last_activity_at
+    )
+    VALUES (_user_id, _course_id, _subsection_id, _video, _video, _position, now());
+  ELSE
+    UPDATE public.user_progress
+    SET time_spent_seconds = time_spent_seconds + _credit,
+        video_watched_percentage = GREATEST(video_watched_percentage, _video),
+        video_position_seconds = COALESCE(_position, video_position_seconds),
+        progress_percentage = CASE
+          WHEN completed_at IS NULL THEN GREATEST(COALESCE(progress_percentage, 0), _video)
+          ELSE progress_percentage
+        END,
+        last_activity_at = now()
+    WHERE id = _progress.id;
+  END IF;
+
+  PERFORM set_config('app.progress_activity', 'off', true);
+
+  RETURN public.get_subsection_completion_blockers(_user_id, _subsection_id);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_subsection_activity(UUID, INTEGER, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.record_subsection_activity(UUID, INTEGER, INTEGER) TO authenticated;
@@ -0,0 +1,25 @@
+-- Create a storage bucket for subsection videos uploaded from the subsection editor
+INSERT INTO storage.buckets (id, name, public, allowed_mime_types)
+VALUES ('subsection-videos', 'subsection-videos', true, ARRAY['video/mp4', 'video/webm', 'video/quicktime']);
+
+-- Create policies for the subsection-videos bucket
+CREATE POLICY "Admins can upload videos" ON storage.objects
+FOR INSERT WITH CHECK (
+  bucket_id = 'subsection-videos'
+  AND has_role(auth.uid(), 'admin'::app_role)
+);
+
+CREATE POLICY "Admins can update videos" ON storage.objects
+FOR UPDATE USING (
+  bucket_id = 'subsection-videos'
+  AND has_role(auth.uid(), 'admin'::app_role)
+);
+
+CREATE POLICY "Admins can delete videos" ON storage.objects
+FOR DELETE USING (
+  bucket_id = 'subsection-videos'
+  AND has_role(auth.uid(), 'admin'::app_role)
+);
+
+CREATE POLICY "Anyone can view videos" ON storage.objects
+FOR SELECT USING (bucket_id = 'subsection-videos');
@@ -0,0 +1,67 @@
+-- WebVTT caption tracks per subsection video, one per language
+CREATE TABLE public.subsection_captions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  subsection_id UUID NOT NULL REFERENCES public.subsections(id) ON DELETE CASCADE,
+  language TEXT NOT NULL,
+  label TEXT NOT NULL,
+  file_name TEXT NOT NULL,
+  file_url TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (subsection_id, language)
+);
+
+COMMENT ON COLUMN public.subsection_captions.language IS 'BCP 47 language code of the track, e.g. en or fr-CA';
+COMMENT ON COLUMN public.subsection_captions.file_name IS 'Object path of the .vtt file in the subsection-captions bucket';
+
+-- Enable Row Level Security
+ALTER TABLE public.subsection_captions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view captions"
+ON public.subsection_captions
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can manage captions"
+ON public.subsection_captions
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_subsection_captions_updated_at
+BEFORE UPDATE ON public.subsection_captions
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Transcript and chapter markers shown alongside the video
+ALTER TABLE public.subsections
+ADD COLUMN transcript TEXT,
+ADD COLUMN chapters JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN public.subsections.transcript IS 'Timed transcript in WebVTT format; without one the page falls back to a caption track';
+COMMENT ON COLUMN public.subsections.chapters IS 'Chapter markers as [{"start_seconds": 0, "title": "..."}] ordered by start';
+
+-- Create a storage bucket for caption files
+INSERT INTO storage.buckets (id, name, public) VALUES ('subsection-captions', 'subsection-captions', true);
+
+-- Create policies for the subsection-captions bucket
+CREATE POLICY "Admins can upload captions" ON storage.objects
+FOR INSERT WITH CHECK (
+  bucket_id = 'subsection-captions'
+  AND has_role(auth.uid(), 'admin'::app_role)
+);
+
+CREATE POLICY "Admins can update captions" ON storage.objects
+FOR UPDATE USING (
+  bucket_id = 'subsection-captions'
+  AND has_role(auth.uid(), 'admin'::app_role)
+);
+
+CREATE POLICY "Admins can delete captions" ON storage.objects
+FOR DELETE USING (
+  bucket_id = 'subsection-captions'
+  AND has_role(auth.uid(), 'admin'::app_role)
+);
+
+CREATE POLICY "Anyone can view captions" ON storage.objects
+FOR SELECT USING (bucket_id = 'subsection-captions');
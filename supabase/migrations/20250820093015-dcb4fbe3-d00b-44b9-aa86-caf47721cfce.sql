@@ -0,0 +1,27 @@
+-- Certificates that failed to issue after payment. A payment must not fail because its PDF
+-- could not be rendered or stored, so the workflow is queued here and retried by the
+-- issue-pending-certificates function; the row is removed once the certificate exists.
+CREATE TABLE public.certificate_retries (
+  workflow_id UUID NOT NULL PRIMARY KEY REFERENCES public.certification_workflows(id) ON DELETE CASCADE,
+  attempts INTEGER NOT NULL DEFAULT 1,
+  last_error TEXT,
+  next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_certificate_retries_next_attempt_at ON public.certificate_retries(next_attempt_at);
+
+-- Enable Row Level Security
+ALTER TABLE public.certificate_retries ENABLE ROW LEVEL SECURITY;
+
+-- Written by edge functions using the service role
+CREATE POLICY "Admins can view certificate retries"
+ON public.certificate_retries
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_certificate_retries_updated_at
+BEFORE UPDATE ON public.certificate_retries
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
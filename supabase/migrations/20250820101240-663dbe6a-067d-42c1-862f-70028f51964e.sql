@@ -0,0 +1,140 @@
+-- Workflows are created by start-certification-exam with the service role. A learner insert
+-- could set any status column, e.g. a passed exam or a far-future exam_started_at.
+DROP POLICY IF EXISTS "Users can create their own certification workflows" ON public.certification_workflows;
+
+-- transition_workflow() now limits _changes to the columns owned by the workflow's current step
+-- and no longer lets a step keep its place while setting the status that should move it on:
+--   exam      -> exam (pending or failed exam), approval (submitted or passed exam)
+--   approval  -> contract (approved), exam (rejected)
+--   contract  -> contract (unsigned), payment (signed)
+--   payment   -> payment (unpaid), completed (paid)
+--   completed -> completed (paid or past due), payment (refund, dispute or lapse)
+CREATE OR REPLACE FUNCTION public.transition_workflow(
+  _workflow_id UUID,
+  _to_step public.app_workflow_step DEFAULT NULL,
+  _changes JSONB DEFAULT '{}'::jsonb,
+  _source TEXT DEFAULT 'unknown',
+  _actor_id UUID DEFAULT NULL,
+  _reason TEXT DEFAULT NULL
+)
+RETURNS public.certification_workflows
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _current public.certification_workflows;
+  _next public.certification_workflows;
+  _to public.app_workflow_step;
+  _protected TEXT[] := ARRAY[
+    'id', 'user_id', 'course_id', 'level', 'current_step', 'created_at', 'updated_at',
+    'certification_status', 'certification_status_reason', 'certification_status_changed_at'
+  ];
+  _writable TEXT[];
+  _bad_key TEXT;
+  _set_clause TEXT;
+  _latest_attempt RECORD;
+  _allowed BOOLEAN;
+BEGIN
+  SELECT * INTO _current
+  FROM public.certification_workflows
+  WHERE id = _workflow_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Certification workflow % not found', _workflow_id;
+  END IF;
+
+  _changes := COALESCE(_changes, '{}'::jsonb);
+  _to := COALESCE(_to_step, _current.current_step);
+
+  SELECT key INTO _bad_key
+  FROM jsonb_object_keys(_changes) AS key
+  WHERE key = ANY(_protected)
+  LIMIT 1;
+
+  IF _bad_key IS NOT NULL THEN
+    RAISE EXCEPTION 'Column % cannot be changed by a workflow transition', _bad_key;
+  END IF;
+
+  -- Each step may only write its own columns, whether it stays put or moves on
+  _writable := CASE _current.current_step
+    WHEN 'exam' THEN ARRAY['exam_status', 'exam_results_json', 'exam_submission_url', 'exam_submitted_at', 'exam_started_at']
+    WHEN 'approval' THEN ARRAY['admin_approval_status', 'exam_status']
+    WHEN 'contract' THEN ARRAY['contract_status', 'contract_provider', 'contract_document_id', 'contract_signed_pdf_url']
+    ELSE ARRAY[
+      'subscription_status', 'completed_at', 'certification_expires_at', 'stripe_checkout_session_id',
+      'stripe_payment_intent_id', 'stripe_customer_id', 'stripe_subscription_id'
+    ]
+  END;
+
+  SELECT key INTO _bad_key
+  FROM jsonb_object_keys(_changes) AS key
+  WHERE key <> ALL(_writable)
+  LIMIT 1;
+
+  IF _bad_key IS NOT NULL THEN
+    RAISE EXCEPTION 'Column % cannot be changed at the % step', _bad_key, _current.current_step;
+  END IF;
+
+  _next := jsonb_populate_record(_current, _changes);
+
+  -- Staying on a step cannot set the status that belongs to moving past it
+  _allowed := CASE _current.current_step
+    WHEN 'exam' THEN (_to = 'exam' AND _next.exam_status IN ('pending_submission', 'failed'))
+      OR (_to = 'approval' AND _next.exam_status IN ('submitted', 'passed'))
+    WHEN 'approval' THEN (_to = 'contract' AND _next.admin_approval_status = 'approved')
+      OR (_to = 'exam' AND _next.admin_approval_status = 'rejected')
+    WHEN 'contract' THEN (_to = 'contract' AND _next.contract_status IS DISTINCT FROM 'signed')
+      OR (_to = 'payment' AND _next.contract_status = 'signed')
+    WHEN 'payment' THEN (_to = 'payment' AND _next.subscription_status IS DISTINCT FROM 'paid')
+      OR (_to = 'completed' AND _next.subscription_status = 'paid')
+    WHEN 'completed' THEN (_to = 'completed' AND _next.subscription_status IN ('paid', 'past_due'))
+      OR (_to = 'payment' AND _next.subscription_status IN ('pending_payment', 'cancelled', 'expired'))
+    ELSE false
+  END;
+
+  IF NOT _allowed THEN
+    RAISE EXCEPTION 'Illegal workflow transition from % to % (exam %, approval %, contract %, subscription %)',
+      _current.current_step, _to, _next.exam_status, _next.admin_approval_status,
+      _next.contract_status, _next.subscription_status;
+  END IF;
+
+  -- Submissions must match a recorded attempt, and a failed learner only reaches approval by passing
+  IF _current.current_step = 'exam' AND _to = 'approval' THEN
+    SELECT passed, submitted_at INTO _latest_attempt
+    FROM public.exam_attempts
+    WHERE workflow_id = _workflow_id
+    ORDER BY attempt_number DESC
+    LIMIT 1;
+
+    IF NOT FOUND
+      OR _latest_attempt.passed IS FALSE
+      OR (_current.exam_status = 'failed' AND _latest_attempt.passed IS NOT TRUE)
+      OR (_current.exam_started_at IS NOT NULL AND _latest_attempt.submitted_at < _current.exam_started_at) THEN
+      RAISE EXCEPTION 'Workflow % has no qualifying exam attempt for approval', _workflow_id;
+    END IF;
+  END IF;
+
+  SELECT string_agg(format('%I = ($2).%I', key, key), ', ') INTO _set_clause
+  FROM jsonb_object_keys(_changes) AS key;
+
+  PERFORM set_config('app.workflow_transition', 'on', true);
+
+  EXECUTE format(
+    'UPDATE public.certification_workflows SET %s current_step = $3, updated_at = now() WHERE id = $1 RETURNING *',
+    COALESCE(_set_clause || ',', '')
+  )
+  INTO _next
+  USING _workflow_id, _next, _to;
+
+  PERFORM set_config('app.workflow_transition', 'off', true);
+
+  INSERT INTO public.workflow_transitions (workflow_id, user_id, from_step, to_step, changes, source, actor_id, reason)
+  VALUES (_workflow_id, _current.user_id, _current.current_step, _to, _changes, _source, _actor_id, _reason);
+
+  RETURN _next;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.transition_workflow(UUID, public.app_workflow_step, JSONB, TEXT, UUID, TEXT) FROM PUBLIC, anon, authenticated;
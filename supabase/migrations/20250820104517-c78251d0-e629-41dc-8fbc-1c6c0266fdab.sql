@@ -0,0 +1,100 @@
+-- Length of the subsection video, used to check the watched share the browser reports
+ALTER TABLE public.subsections
+ADD COLUMN video_duration_seconds INTEGER CHECK (video_duration_seconds > 0);
+
+COMMENT ON COLUMN public.subsections.video_duration_seconds IS 'Video length; required by the video watched rule to bound the reported percentage';
+
+-- Best guess for existing videos until an admin enters the exact length
+UPDATE public.subsections
+SET video_duration_seconds = duration_minutes * 60
+WHERE video_url IS NOT NULL AND video_url <> '' AND duration_minutes > 0;
+
+-- Not validated against existing rows so older rules keep saving until they are next edited
+ALTER TABLE public.subsections
+ADD CONSTRAINT subsections_video_rule_needs_duration
+CHECK (completion_min_video_percentage IS NULL OR video_duration_seconds IS NOT NULL) NOT VALID;
+
+-- The reported percentage can no longer grow faster than the learner could have played the
+-- video: it is capped by the server-measured time on the subsection at up to double speed.
+-- Without a known video length nothing is credited.
+CREATE OR REPLACE FUNCTION public.record_subsection_activity(
+  _subsection_id UUID,
+  _video_watched_percentage INTEGER DEFAULT NULL,
+  _video_position_seconds INTEGER DEFAULT NULL
+)
+RETURNS TEXT[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _course_id UUID;
+  _video_duration INTEGER;
+  _progress public.user_progress;
+  _video INTEGER := LEAST(GREATEST(COALESCE(_video_watched_percentage, 0), 0), 100);
+  _position INTEGER := GREATEST(_video_position_seconds, 0);
+  _credit INTEGER := 0;
+  _max_playback_rate CONSTANT INTEGER := 2;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT sec.course_id, s.video_duration_seconds INTO _course_id, _video_duration
+  FROM public.subsections s
+  JOIN public.sections sec ON sec.id = s.section_id
+  WHERE s.id = _subsection_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Subsection % not found', _subsection_id;
+  END IF;
+
+  SELECT * INTO _progress
+  FROM public.user_progress
+  WHERE user_id = _user_id AND subsection_id = _subsection_id
+  ORDER BY created_at
+  LIMIT 1
+  FOR UPDATE;
+
+  IF _progress.last_activity_at IS NOT NULL AND now() - _progress.last_activity_at <= interval '90 seconds' THEN
+    _credit := floor(extract(epoch FROM now() - _progress.last_activity_at));
+  END IF;
+
+  _video := LEAST(
+    _video,
+    COALESCE(
+      floor((COALESCE(_progress.time_spent_seconds, 0) + _credit) * _max_playback_rate * 100.0 / _video_duration)::INTEGER,
+      0
+    )
+  );
+
+  PERFORM set_config('app.progress_activity', 'on', true);
+
+  IF _progress.id IS NULL THEN
+    INSERT INTO public.user_progress (
+      user_id, course_id, subsection_id, progress_percentage,
+      video_watched_percentage, video_position_seconds, last_activity_at
+    )
+    VALUES (_user_id, _course_id, _subsection_id, _video, _video, _position, now());
+  ELSE
+    UPDATE public.user_progress
+    SET time_spent_seconds = time_spent_seconds + _credit,
+        video_watched_percentage = GREATEST(video_watched_percentage, _video),
+        video_position_seconds = COALESCE(_position, video_position_seconds),
+        progress_percentage = CASE
+          WHEN completed_at IS NULL THEN GREATEST(COALESCE(progress_percentage, 0), _video)
+          ELSE progress_percentage
+        END,
+        last_activity_at = now()
+    WHERE id = _progress.id;
+  END IF;
+
+  PERFORM set_config('app.progress_activity', 'off', true);
+
+  RETURN public.get_subsection_completion_blockers(_user_id, _subsection_id);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_subsection_activity(UUID, INTEGER, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.record_subsection_activity(UUID, INTEGER, INTEGER) TO authenticated;
@@ -0,0 +1,35 @@
+-- Per-question results of native exam attempts. Learners can read their own exam_attempts and
+-- workflow, and correctness flags kept there would reveal the answer key across retakes.
+CREATE TABLE public.exam_attempt_question_results (
+  attempt_id UUID NOT NULL PRIMARY KEY REFERENCES public.exam_attempts(id) ON DELETE CASCADE,
+  workflow_id UUID NOT NULL REFERENCES public.certification_workflows(id) ON DELETE CASCADE,
+  questions JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.exam_attempt_question_results.questions IS 'Scoring output per question: answer, correct, points awarded and possible';
+
+CREATE INDEX IF NOT EXISTS idx_exam_attempt_question_results_workflow_id ON public.exam_attempt_question_results(workflow_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.exam_attempt_question_results ENABLE ROW LEVEL SECURITY;
+
+-- Written by edge functions using the service role; learners have no access
+CREATE POLICY "Admins can view exam question results"
+ON public.exam_attempt_question_results
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Move the results already stored on attempts, then strip them from learner-visible columns
+INSERT INTO public.exam_attempt_question_results (attempt_id, workflow_id, questions, created_at)
+SELECT id, workflow_id, results_json->'questions', created_at
+FROM public.exam_attempts
+WHERE results_json ? 'questions';
+
+UPDATE public.exam_attempts
+SET results_json = results_json - 'questions'
+WHERE results_json ? 'questions';
+
+UPDATE public.certification_workflows
+SET exam_results_json = exam_results_json - 'questions'
+WHERE exam_results_json ? 'questions';
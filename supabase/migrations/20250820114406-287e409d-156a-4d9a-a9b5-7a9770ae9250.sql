@@ -0,0 +1,14 @@
+-- A renewal moves certification_expires_at, but a signed credential carries its validUntil for
+-- good. The credential issued for the old term is superseded and a new one is issued, so a
+-- workflow keeps every credential it was given but only one current one.
+ALTER TABLE public.open_badge_credentials
+DROP CONSTRAINT IF EXISTS open_badge_credentials_workflow_id_key;
+
+ALTER TABLE public.open_badge_credentials
+ADD COLUMN superseded_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN public.open_badge_credentials.superseded_at IS 'Set when a renewal replaced this credential; verification then reports it as superseded';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_open_badge_credentials_current
+ON public.open_badge_credentials(workflow_id)
+WHERE superseded_at IS NULL;
@@ -0,0 +1,69 @@
+-- Suspending, revoking or reinstating a certification updates the workflow and records the
+-- change in one transaction, so there is never a status without its audit row. The checks run
+-- against the locked row instead of a read taken before the update.
+CREATE OR REPLACE FUNCTION public.change_certification_status(
+  _workflow_id UUID,
+  _action TEXT,
+  _reason TEXT,
+  _performed_by UUID
+)
+RETURNS public.certification_workflows
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _current public.certification_workflows;
+  _next public.certification_workflows;
+  _new_status public.app_certification_status;
+  _allowed_from public.app_certification_status[];
+BEGIN
+  SELECT * INTO _current
+  FROM public.certification_workflows
+  WHERE id = _workflow_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Certification workflow % not found', _workflow_id;
+  END IF;
+
+  CASE _action
+    WHEN 'suspend' THEN
+      _new_status := 'suspended';
+      _allowed_from := ARRAY['active']::public.app_certification_status[];
+    WHEN 'revoke' THEN
+      _new_status := 'revoked';
+      _allowed_from := ARRAY['active', 'suspended']::public.app_certification_status[];
+    WHEN 'reinstate' THEN
+      _new_status := 'active';
+      _allowed_from := ARRAY['suspended', 'revoked']::public.app_certification_status[];
+    ELSE
+      RAISE EXCEPTION 'Unknown certification status action %', _action;
+  END CASE;
+
+  IF _current.current_step <> 'completed' AND _current.certification_status = 'active' THEN
+    RAISE EXCEPTION 'Only a granted certification can be suspended or revoked';
+  END IF;
+
+  IF _current.certification_status <> ALL(_allowed_from) THEN
+    RAISE EXCEPTION 'Cannot % a certification that is %', _action, _current.certification_status;
+  END IF;
+
+  UPDATE public.certification_workflows
+  SET certification_status = _new_status,
+      certification_status_reason = _reason,
+      certification_status_changed_at = now(),
+      updated_at = now()
+  WHERE id = _workflow_id
+  RETURNING * INTO _next;
+
+  INSERT INTO public.certification_status_changes (
+    workflow_id, user_id, action, previous_status, new_status, reason, performed_by
+  )
+  VALUES (_workflow_id, _current.user_id, _action, _current.certification_status, _new_status, _reason, _performed_by);
+
+  RETURN _next;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.change_certification_status(UUID, TEXT, TEXT, UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,48 @@
+-- Approving or rejecting a certification moves the workflow and records the review in one
+-- transaction, so a learner is never sent back to the exam without the reviewer's notes.
+-- A rejected learner goes back to the exam with a fresh submission slot.
+CREATE OR REPLACE FUNCTION public.review_certification(
+  _workflow_id UUID,
+  _decision public.app_admin_approval_status,
+  _notes TEXT,
+  _reviewer_id UUID
+)
+RETURNS public.certification_workflows
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _next public.certification_workflows;
+  _latest_attempt_id UUID;
+BEGIN
+  IF _decision NOT IN ('approved', 'rejected') THEN
+    RAISE EXCEPTION 'Unknown review decision %', _decision;
+  END IF;
+
+  _next := public.transition_workflow(
+    _workflow_id,
+    CASE WHEN _decision = 'approved' THEN 'contract' ELSE 'exam' END::public.app_workflow_step,
+    CASE WHEN _decision = 'approved'
+      THEN jsonb_build_object('admin_approval_status', _decision)
+      ELSE jsonb_build_object('admin_approval_status', _decision, 'exam_status', 'pending_submission')
+    END,
+    'handle-admin-certification-action',
+    _reviewer_id,
+    _notes
+  );
+
+  SELECT id INTO _latest_attempt_id
+  FROM public.exam_attempts
+  WHERE workflow_id = _workflow_id
+  ORDER BY submitted_at DESC
+  LIMIT 1;
+
+  INSERT INTO public.certification_reviews (workflow_id, user_id, level, decision, notes, exam_attempt_id, reviewer_id)
+  VALUES (_workflow_id, _next.user_id, _next.level, _decision, _notes, _latest_attempt_id, _reviewer_id);
+
+  RETURN _next;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.review_certification(UUID, public.app_admin_approval_status, TEXT, UUID) FROM PUBLIC, anon, authenticated;
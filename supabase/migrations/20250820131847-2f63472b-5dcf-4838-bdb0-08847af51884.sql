@@ -0,0 +1,4 @@
+-- A course completion unlocks the next level, so it is only recorded by the payment handlers
+-- using the service role once the certification is paid, and removed again on a refund or
+-- dispute. A learner insert would unlock the next level without paying.
+DROP POLICY IF EXISTS "Users can create their own completions" ON public.course_completions;